@@ -0,0 +1,25 @@
+// Service worker for parent push notifications (see src/lib/webPush.ts)
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Notification', {
+      body: payload.body,
+      icon: '/app-icon.png',
+      data: payload.data || {},
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).pathname === '/parent');
+      if (existing) return existing.focus();
+      return self.clients.openWindow('/parent');
+    })
+  );
+});
@@ -10,6 +10,7 @@ import Auth from "./pages/Auth";
 import Test from "./pages/Test";
 import MobileApp from "./pages/MobileApp";
 import Onboarding from "./pages/Onboarding";
+import LinkFamily from "./pages/LinkFamily";
 import ParentDashboard from "./pages/ParentDashboard";
 import Insights from "./pages/Insights";
 import Settings from "./pages/Settings";
@@ -38,6 +39,7 @@ const App = () => (
                 <Route path="/" element={<MobileApp />} />
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/onboarding" element={<Onboarding />} />
+                <Route path="/link" element={<LinkFamily />} />
                 <Route path="/parent" element={<ParentDashboard />} />
                 <Route path="/insights" element={<Insights />} />
                 <Route path="/settings" element={<Settings />} />
@@ -49,6 +51,7 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/onboarding" element={<Onboarding />} />
+              <Route path="/link" element={<LinkFamily />} />
               <Route path="/parent" element={<ParentDashboard />} />
               <Route path="/insights" element={<Insights />} />
               <Route path="/settings" element={<Settings />} />
@@ -0,0 +1,91 @@
+/**
+ * Extension Request Card
+ * Lets a parent approve (possibly for fewer minutes) or deny a child's
+ * request for more screen time
+ */
+
+import { useState } from 'react';
+import { Clock, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import type { PendingExtensionRequest } from '@/hooks/useExtensionRequests';
+
+interface ExtensionRequestCardProps {
+  request: PendingExtensionRequest;
+  childName: string;
+  onDecide: (id: string, decision: 'approve' | 'deny', grantedMinutes?: number) => Promise<void>;
+}
+
+const MINUTE_STEPS = [15, 30, 45, 60];
+
+const formatExpiry = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+export function ExtensionRequestCard({ request, childName, onDecide }: ExtensionRequestCardProps) {
+  const [grantedMinutes, setGrantedMinutes] = useState(request.requestedMinutes);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Parents can grant less than asked for, never more
+  const options = Array.from(
+    new Set([...MINUTE_STEPS.filter(m => m < request.requestedMinutes), request.requestedMinutes])
+  );
+
+  const handleDecide = async (decision: 'approve' | 'deny') => {
+    setSubmitting(true);
+    try {
+      await onDecide(request.id, decision, decision === 'approve' ? grantedMinutes : undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardContent className="py-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Clock className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium">
+              {childName} is asking for {request.requestedMinutes} more minutes
+            </p>
+            {request.reason && (
+              <p className="text-sm text-muted-foreground break-words">"{request.reason}"</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Expires at {formatExpiry(request.expiresAt)}
+            </p>
+          </div>
+        </div>
+
+        {options.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {options.map(minutes => (
+              <Button
+                key={minutes}
+                size="sm"
+                variant={grantedMinutes === minutes ? 'default' : 'outline'}
+                onClick={() => setGrantedMinutes(minutes)}
+                disabled={submitting}
+              >
+                {minutes} min
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={() => handleDecide('approve')} disabled={submitting}>
+            <Check className="h-4 w-4 mr-1" />
+            Approve {grantedMinutes} min
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={() => handleDecide('deny')} disabled={submitting}>
+            <X className="h-4 w-4 mr-1" />
+            Deny
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
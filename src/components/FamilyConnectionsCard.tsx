@@ -0,0 +1,194 @@
+/**
+ * Family Connections Card
+ * Child side of an existing link: who they're linked to, unlinking,
+ * their birth date, and what guardians keep seeing once they're an adult
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { UnlinkControl } from '@/components/UnlinkControl';
+import { useToast } from '@/hooks/use-toast';
+import { useUnlinkRequests } from '@/hooks/useUnlinkRequests';
+import {
+  DEFAULT_ADULT_SHARED_SCOPES,
+  SHARING_SCOPE_LABELS,
+  SHARING_SCOPES,
+  setBirthDate,
+  updateSharing,
+} from '@/lib/familyLink';
+import type { SharingScope } from '@/lib/familyLink';
+
+interface FamilyConnectionsCardProps {
+  userId: string;
+  /** Only youths set a birth date; adults already came of age */
+  isAdult: boolean;
+}
+
+interface LinkedParent {
+  linkId: string;
+  parentId: string;
+  name: string;
+}
+
+export function FamilyConnectionsCard({ userId, isAdult }: FamilyConnectionsCardProps) {
+  const [parents, setParents] = useState<LinkedParent[]>([]);
+  const [birthDate, setBirthDateValue] = useState<string | null>(null);
+  const [birthDateInput, setBirthDateInput] = useState('');
+  const [scopes, setScopes] = useState<SharingScope[]>(DEFAULT_ADULT_SHARED_SCOPES);
+  const [saving, setSaving] = useState(false);
+  const { requests } = useUnlinkRequests(userId);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    const { data: links } = await supabase
+      .from('family_links')
+      .select('id, parent_id')
+      .eq('youth_id', userId)
+      .eq('is_active', true);
+
+    const parentIds = links?.map(l => l.parent_id) || [];
+    const { data: profiles } = parentIds.length
+      ? await supabase.from('profiles').select('user_id, display_name').in('user_id', parentIds)
+      : { data: [] };
+
+    setParents((links || []).map(link => ({
+      linkId: link.id,
+      parentId: link.parent_id,
+      name: profiles?.find(p => p.user_id === link.parent_id)?.display_name || 'Parent',
+    })));
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('birth_date')
+      .eq('user_id', userId)
+      .maybeSingle();
+    setBirthDateValue(profile?.birth_date || null);
+
+    const { data: sharing } = await supabase
+      .from('guardian_sharing')
+      .select('shared_scopes')
+      .eq('youth_id', userId)
+      .maybeSingle();
+    if (sharing) {
+      setScopes(SHARING_SCOPES.filter(scope => sharing.shared_scopes.includes(scope)));
+    }
+  }, [userId]);
+
+  // Reloads when a request resolves, so a completed unlink drops its parent
+  useEffect(() => {
+    load();
+  }, [requests.length, load]);
+
+  const handleSaveBirthDate = async () => {
+    setSaving(true);
+    const error = await setBirthDate(birthDateInput);
+    setSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Could not save birth date', description: error });
+      return;
+    }
+    setBirthDateValue(birthDateInput);
+  };
+
+  const handleSaveSharing = async () => {
+    setSaving(true);
+    const error = await updateSharing(scopes);
+    setSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Could not save sharing', description: error });
+      return;
+    }
+    toast({ title: 'Sharing updated' });
+  };
+
+  const toggleScope = (scope: SharingScope, checked: boolean) =>
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+
+  if (parents.length === 0 && isAdult) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Family
+        </CardTitle>
+        <CardDescription>
+          {parents.length > 0 ? 'Who can see your activity' : 'You are not linked to a parent'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {parents.map(parent => (
+          <div key={parent.linkId} className="space-y-2">
+            <p className="font-medium">{parent.name}</p>
+            <UnlinkControl
+              userId={userId}
+              other={{ parentId: parent.parentId }}
+              otherName={parent.name}
+              request={requests.find(r => r.link_id === parent.linkId)}
+            />
+          </div>
+        ))}
+
+        {!isAdult && (
+          <div className="space-y-2 pt-2 border-t">
+            <Label htmlFor="birthDate">Birth date</Label>
+            {birthDate ? (
+              <p className="text-sm text-muted-foreground">
+                {birthDate} · ask a parent if this needs correcting
+              </p>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="birthDate"
+                  type="date"
+                  value={birthDateInput}
+                  onChange={(e) => setBirthDateInput(e.target.value)}
+                />
+                <Button onClick={handleSaveBirthDate} disabled={saving || !birthDateInput}>
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {parents.length > 0 && (
+          <div className="space-y-3 pt-2 border-t">
+            <div>
+              <p className="text-sm font-medium">{isAdult ? 'What your family can see' : 'Once you\'re an adult'}</p>
+              <p className="text-xs text-muted-foreground">
+                {isAdult
+                  ? 'You set your own limits. Choose what your family still sees.'
+                  : 'When you come of age you set your own limits, and your family only sees what you tick here.'}
+              </p>
+            </div>
+            {SHARING_SCOPES.map(scope => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`share-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`share-${scope}`} className="font-normal capitalize">
+                  {SHARING_SCOPE_LABELS[scope]}
+                </Label>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={handleSaveSharing} disabled={saving}>
+              Save sharing
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Family Link Card
+ * Parent side of pairing: a short-lived, single-use code shown as text
+ * and as a QR code for the child's app to scan
+ */
+
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, Link2, RefreshCw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { createLinkToken, revokeLinkTokens } from '@/lib/familyLink';
+import type { LinkToken } from '@/lib/familyLink';
+
+interface FamilyLinkCardProps {
+  parentId: string;
+  /** Called once a child has consented with the current code */
+  onLinked?: () => void;
+}
+
+const formatCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function FamilyLinkCard({ parentId, onLinked }: FamilyLinkCardProps) {
+  const [token, setToken] = useState<LinkToken | null>(null);
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  // Countdown; the code disappears when it lapses
+  useEffect(() => {
+    if (!token) return;
+
+    const tick = () => {
+      const remaining = new Date(token.expiresAt).getTime() - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) setToken(null);
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [token]);
+
+  // The child confirming consumes the code
+  useEffect(() => {
+    if (!token) return;
+
+    const channel = supabase
+      .channel(`family-link-tokens-${parentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'family_link_tokens',
+          filter: `parent_id=eq.${parentId}`,
+        },
+        (payload) => {
+          const row = payload.new as Tables<'family_link_tokens'>;
+          if (row.id !== token.tokenId || row.status !== 'consumed') return;
+
+          setToken(null);
+          toast({ title: 'Child linked!', description: 'They accepted your invitation.' });
+          onLinked?.();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [parentId, token, toast, onLinked]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const { data, error } = await createLinkToken();
+    setCreating(false);
+
+    if (error !== null) {
+      toast({ title: 'Could not create a code', description: error, variant: 'destructive' });
+      return;
+    }
+    setToken(data);
+  };
+
+  const handleRevoke = async () => {
+    const error = await revokeLinkTokens();
+    if (error) {
+      toast({ title: 'Could not cancel the code', description: error, variant: 'destructive' });
+      return;
+    }
+    setToken(null);
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Link2 className="h-4 w-4" />
+          Link a child
+        </CardTitle>
+        <CardDescription>
+          Codes work once and expire after a few minutes. Your child sees your name and agrees before you're linked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {token ? (
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <div className="bg-white p-2 rounded-lg">
+              <QRCodeSVG value={token.url} size={144} />
+            </div>
+            <div className="flex-1 space-y-2 text-center sm:text-left">
+              <p className="text-3xl font-mono font-bold tracking-widest">{formatCode(token.code)}</p>
+              <p className="text-sm text-muted-foreground">
+                Scan in the app or enter the code · expires in {formatRemaining(remainingMs)}
+              </p>
+              <div className="flex gap-2 justify-center sm:justify-start">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    navigator.clipboard.writeText(token.code);
+                    toast({ title: 'Code copied!' });
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCreate} disabled={creating}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  New
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleRevoke}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleCreate} disabled={creating} className="w-full">
+            {creating ? 'Creating...' : 'Show link code'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
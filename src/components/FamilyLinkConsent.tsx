@@ -0,0 +1,185 @@
+/**
+ * Family Link Consent
+ * Child side of pairing: enter or scan a parent's code, see whose it is
+ * and what they'll be able to see, then agree before anything is linked
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Camera, Check, Eye, EyeOff, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { QrScanner } from '@/components/QrScanner';
+import { useToast } from '@/hooks/use-toast';
+import {
+  confirmLinkCode,
+  isQrScanningSupported,
+  LINK_CODE_LENGTH,
+  parseLinkCode,
+  previewLinkCode,
+} from '@/lib/familyLink';
+import type { LinkParent } from '@/lib/familyLink';
+
+interface FamilyLinkConsentProps {
+  /** From a scanned deep link; goes straight to the consent screen */
+  initialCode?: string | null;
+  onLinked: (parent: LinkParent) => void;
+}
+
+type ConsentStep = 'enter' | 'scan' | 'consent';
+
+const SHARED = [
+  'How long your sessions last and how often you reopen apps',
+  'Late-night use and risk levels',
+  'Which nudges you got and how you responded',
+];
+
+const NOT_SHARED = [
+  'Messages, posts, photos or anything you look at',
+  'Your location',
+];
+
+export function FamilyLinkConsent({ initialCode, onLinked }: FamilyLinkConsentProps) {
+  const [step, setStep] = useState<ConsentStep>('enter');
+  const [input, setInput] = useState('');
+  const [code, setCode] = useState<string | null>(null);
+  const [parent, setParent] = useState<LinkParent | null>(null);
+  const [loading, setLoading] = useState(false);
+  const initialHandled = useRef(false);
+  const { toast } = useToast();
+
+  const lookUp = useCallback(async (value: string) => {
+    const parsed = parseLinkCode(value);
+    if (!parsed) {
+      toast({ variant: 'destructive', title: 'That doesn\'t look like a link code' });
+      setStep('enter');
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await previewLinkCode(parsed);
+    setLoading(false);
+
+    if (error !== null) {
+      toast({ variant: 'destructive', title: 'Could not use this code', description: error });
+      setStep('enter');
+      return;
+    }
+
+    setCode(parsed);
+    setParent(data.parent);
+    setStep('consent');
+  }, [toast]);
+
+  // Only the code the page was opened with; later edits go through Continue
+  useEffect(() => {
+    if (!initialCode || initialHandled.current) return;
+    initialHandled.current = true;
+
+    setInput(initialCode);
+    lookUp(initialCode);
+  }, [initialCode, lookUp]);
+
+  const handleConfirm = async () => {
+    if (!code) return;
+
+    setLoading(true);
+    const { data, error } = await confirmLinkCode(code);
+    setLoading(false);
+
+    if (error !== null) {
+      toast({ variant: 'destructive', title: 'Link failed', description: error });
+      setStep('enter');
+      return;
+    }
+
+    toast({ title: 'Family connected!', description: `You are now linked to ${data.parent.display_name || 'your parent'}.` });
+    onLinked(data.parent);
+  };
+
+  if (step === 'scan') {
+    return (
+      <div className="space-y-3">
+        <QrScanner
+          onResult={lookUp}
+          onError={(message) => {
+            toast({ variant: 'destructive', title: 'Can\'t scan', description: message });
+            setStep('enter');
+          }}
+        />
+        <Button variant="ghost" className="w-full" onClick={() => setStep('enter')}>
+          Type the code instead
+        </Button>
+      </div>
+    );
+  }
+
+  if (step === 'consent' && parent) {
+    const name = parent.display_name || 'This parent';
+
+    return (
+      <div className="space-y-4">
+        <div className="text-center">
+          <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-2" />
+          <p className="font-semibold">Link with {name}?</p>
+          <p className="text-sm text-muted-foreground">Only agree if you know this person.</p>
+        </div>
+
+        <div className="rounded-lg bg-muted p-3 space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <Eye className="h-4 w-4" /> {name} will see
+          </p>
+          {SHARED.map(item => (
+            <p key={item} className="text-sm text-muted-foreground flex gap-2">
+              <Check className="h-4 w-4 shrink-0 mt-0.5" /> {item}
+            </p>
+          ))}
+          <p className="text-sm font-medium flex items-center gap-2 pt-2">
+            <EyeOff className="h-4 w-4" /> Never shared
+          </p>
+          {NOT_SHARED.map(item => (
+            <p key={item} className="text-sm text-muted-foreground pl-6">{item}</p>
+          ))}
+        </div>
+
+        <Button onClick={handleConfirm} className="w-full" disabled={loading}>
+          {loading ? 'Linking...' : 'I agree, link us'}
+        </Button>
+        <Button variant="ghost" className="w-full" onClick={() => setStep('enter')} disabled={loading}>
+          Not now
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="linkCode">Link Code</Label>
+        <Input
+          id="linkCode"
+          placeholder={`Enter ${LINK_CODE_LENGTH}-character code`}
+          value={input}
+          onChange={(e) => setInput(e.target.value.toUpperCase())}
+          maxLength={LINK_CODE_LENGTH + 1}
+          className="text-center text-2xl font-mono tracking-widest"
+        />
+      </div>
+
+      <Button
+        onClick={() => lookUp(input)}
+        className="w-full"
+        disabled={loading || !parseLinkCode(input)}
+      >
+        {loading ? 'Checking...' : 'Continue'}
+      </Button>
+
+      {isQrScanningSupported() && (
+        <Button variant="outline" onClick={() => setStep('scan')} className="w-full" disabled={loading}>
+          <Camera className="h-4 w-4 mr-2" />
+          Scan QR code
+        </Button>
+      )}
+    </div>
+  );
+}
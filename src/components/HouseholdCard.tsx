@@ -0,0 +1,135 @@
+/**
+ * Household Card
+ * Lists a household's guardians and children. Primary guardians can
+ * invite other guardians and change their roles.
+ */
+
+import { useState } from 'react';
+import { Copy, UserPlus, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { GuardianRole, HouseholdSummary } from '@/lib/parentApi';
+
+interface HouseholdCardProps {
+  household: HouseholdSummary;
+  currentUserId: string;
+  onInvite: (householdId: string, role: Exclude<GuardianRole, 'primary'>) => Promise<void>;
+  onRoleChange: (householdId: string, guardianId: string, role: GuardianRole) => Promise<void>;
+}
+
+const GUARDIAN_ROLE_LABELS: Record<GuardianRole, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  view_only: 'View only',
+};
+
+const formatExpiry = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export function HouseholdCard({ household, currentUserId, onInvite, onRoleChange }: HouseholdCardProps) {
+  const [inviteRole, setInviteRole] = useState<Exclude<GuardianRole, 'primary'>>('secondary');
+  const [submitting, setSubmitting] = useState(false);
+  const isPrimary = household.my_role === 'primary';
+
+  const handleInvite = async () => {
+    setSubmitting(true);
+    try {
+      await onInvite(household.id, inviteRole);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          {household.name}
+        </CardTitle>
+        <CardDescription>
+          {household.children.length > 0
+            ? household.children.map(c => c.display_name || 'Child').join(', ')
+            : 'No children linked yet'}
+          {' · '}
+          You are {GUARDIAN_ROLE_LABELS[household.my_role].toLowerCase()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {household.guardians.map(guardian => (
+            <div key={guardian.id} className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">
+                {guardian.display_name || 'Guardian'}
+                {guardian.id === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+              </p>
+              {isPrimary ? (
+                <Select
+                  value={guardian.role}
+                  onValueChange={(role) => onRoleChange(household.id, guardian.id, role as GuardianRole)}
+                >
+                  <SelectTrigger className="w-32 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GUARDIAN_ROLE_LABELS) as GuardianRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{GUARDIAN_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="secondary">{GUARDIAN_ROLE_LABELS[guardian.role]}</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isPrimary && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">Invite a guardian</p>
+            <p className="text-xs text-muted-foreground">
+              Secondary guardians can change limits; view-only guardians get alerts and reports.
+              When guardians disagree, the stricter setting applies.
+            </p>
+            <div className="flex gap-2">
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as typeof inviteRole)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="secondary">{GUARDIAN_ROLE_LABELS.secondary}</SelectItem>
+                  <SelectItem value="view_only">{GUARDIAN_ROLE_LABELS.view_only}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleInvite} disabled={submitting}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Create code
+              </Button>
+            </div>
+
+            {household.pending_invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between rounded-md bg-muted px-3 py-2">
+                <div>
+                  <p className="font-mono text-sm tracking-widest">{invitation.code}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {GUARDIAN_ROLE_LABELS[invitation.role]} · expires {formatExpiry(invitation.expires_at)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => navigator.clipboard.writeText(invitation.code)}
+                  aria-label="Copy code"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * My Limits Card
+ * Adults own their policy: the limits their guardians set are handed
+ * over when they come of age, and they change them here
+ */
+
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+
+interface MyLimitsCardProps {
+  userId: string;
+}
+
+export function MyLimitsCard({ userId }: MyLimitsCardProps) {
+  const [policyId, setPolicyId] = useState<string | null>(null);
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [bedtimeStart, setBedtimeStart] = useState('');
+  const [bedtimeEnd, setBedtimeEnd] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const { data } = await supabase
+        .from('policies')
+        .select('id, daily_limit_minutes, bedtime_start, bedtime_end')
+        .eq('owner_id', userId)
+        .eq('target_user_id', userId)
+        .maybeSingle();
+
+      if (!data) return;
+      setPolicyId(data.id);
+      setDailyLimit(data.daily_limit_minutes?.toString() || '');
+      setBedtimeStart(data.bedtime_start?.slice(0, 5) || '');
+      setBedtimeEnd(data.bedtime_end?.slice(0, 5) || '');
+    };
+
+    fetchPolicy();
+  }, [userId]);
+
+  const handleSave = async () => {
+    const limits = {
+      daily_limit_minutes: dailyLimit ? Number(dailyLimit) : null,
+      bedtime_start: bedtimeStart || null,
+      bedtime_end: bedtimeEnd || null,
+    };
+
+    setSaving(true);
+    const { data, error } = policyId
+      ? await supabase.from('policies').update(limits).eq('id', policyId).select('id').single()
+      : await supabase
+          .from('policies')
+          .insert({ ...limits, owner_id: userId, target_user_id: userId, name: 'My limits', is_active: true })
+          .select('id')
+          .single();
+    setSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Could not save limits', description: error.message });
+      return;
+    }
+    setPolicyId(data.id);
+    toast({ title: 'Limits saved' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          My Limits
+        </CardTitle>
+        <CardDescription>
+          You set these yourself. Leave a field empty for no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="dailyLimit">Daily limit (minutes)</Label>
+          <Input
+            id="dailyLimit"
+            type="number"
+            min={0}
+            max={1440}
+            value={dailyLimit}
+            onChange={(e) => setDailyLimit(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="bedtimeStart">Bedtime from</Label>
+            <Input id="bedtimeStart" type="time" value={bedtimeStart} onChange={(e) => setBedtimeStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bedtimeEnd">Until</Label>
+            <Input id="bedtimeEnd" type="time" value={bedtimeEnd} onChange={(e) => setBedtimeEnd(e.target.value)} />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? 'Saving...' : 'Save limits'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,11 +11,13 @@
  */
 
 import React, { useEffect, useState, useRef, createContext, useContext } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Capacitor } from '@capacitor/core';
 import { SplashScreen } from '@capacitor/splash-screen';
 import { StatusBar, Style } from '@capacitor/status-bar';
 import { useAppLifecycle, useRealtimeReconnect } from '@/hooks/useAppLifecycle';
 import SDK from '@/sdk';
+import { LINK_PATH } from '../../supabase/functions/_shared/linking/tokens.ts';
 
 interface NativeAppContextValue {
   isNative: boolean;
@@ -58,6 +60,7 @@ export function NativeAppProvider({ children }: NativeAppProviderProps) {
   const [realtimeConnected, setRealtimeConnected] = useState(false);
   
   const initRef = useRef(false);
+  const navigate = useNavigate();
 
   // Set up lifecycle hooks (after SDK is ready)
   const { isNative, platform } = useAppLifecycle({
@@ -65,6 +68,11 @@ export function NativeAppProvider({ children }: NativeAppProviderProps) {
     onBackground: () => console.log('[NativeApp] ⏸️ App backgrounded'),
     onForeground: () => console.log('[NativeApp] ▶️ App foregrounded'),
     onReopen: () => console.log('[NativeApp] 🔄 App reopened'),
+    // A parent's QR code scanned with the phone camera opens the app here
+    onUrlOpen: (url) => {
+      const { pathname, search } = new URL(url);
+      if (pathname === LINK_PATH) navigate(`${LINK_PATH}${search}`);
+    },
   });
 
   // Handle realtime reconnection on foreground
@@ -0,0 +1,94 @@
+/**
+ * Notification Inbox
+ * In-app copy of every parent notification, newest first
+ */
+
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { InboxNotification } from '@/hooks/useNotifications';
+
+interface NotificationInboxProps {
+  notifications: InboxNotification[];
+  unreadCount: number;
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function NotificationInbox({
+  notifications,
+  unreadCount,
+  onMarkRead,
+  onMarkAllRead,
+}: NotificationInboxProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Inbox
+        </h2>
+        {unreadCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={onMarkAllRead}>
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all read
+          </Button>
+        )}
+      </div>
+
+      {notifications.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="font-semibold mb-2">No Notifications</h3>
+            <p className="text-muted-foreground text-sm">
+              Alerts about your children will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {notifications.map((notification) => (
+            <Card
+              key={notification.id}
+              className={cn(
+                'overflow-hidden cursor-pointer transition-colors',
+                !notification.readAt && 'border-primary/50 bg-primary/5'
+              )}
+              onClick={() => !notification.readAt && onMarkRead(notification.id)}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start gap-3">
+                  <span
+                    className={cn(
+                      'mt-1.5 h-2 w-2 rounded-full shrink-0',
+                      notification.readAt ? 'bg-transparent' : 'bg-primary'
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn('text-sm', !notification.readAt && 'font-semibold')}>
+                      {notification.title}
+                    </p>
+                    <p className="text-sm text-muted-foreground mt-1">{notification.body}</p>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {formatTime(notification.createdAt)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Policy History Card
+ * Who changed a child's policy, when and what, with one-click rollback
+ * of the parent's own policy to an earlier version
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { parentApi } from '@/lib/parentApi';
+import type { PolicyVersionItem } from '@/lib/parentApi';
+import { describePolicyChange } from '../../supabase/functions/_shared/policies/versions.ts';
+
+interface PolicyHistoryCardProps {
+  childId: string;
+  childName: string;
+  currentUserId: string;
+  /** View-only guardians see the history but can't roll back */
+  canRollback: boolean;
+  onRolledBack: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const formatWhen = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const CHANGE_LABELS: Record<PolicyVersionItem['change_type'], string> = {
+  create: 'Created',
+  update: 'Changed',
+  rollback: 'Rolled back',
+};
+
+export function PolicyHistoryCard({ childId, childName, currentUserId, canRollback, onRolledBack }: PolicyHistoryCardProps) {
+  const [versions, setVersions] = useState<PolicyVersionItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const load = useCallback(async (from?: string) => {
+    try {
+      const page = await parentApi.listPolicyVersions(childId, { limit: PAGE_SIZE, cursor: from });
+      setVersions(prev => (from ? [...prev, ...page.versions] : page.versions));
+      setCursor(page.next_cursor);
+    } catch (error) {
+      console.error('Failed to load policy history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [childId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRollback = async (version: PolicyVersionItem) => {
+    setRestoring(version.id);
+    try {
+      await parentApi.rollbackPolicy(childId, version.id);
+      toast({ title: `Restored version ${version.version}` });
+      await load();
+      onRolledBack();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not roll back',
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {childName}'s policy changes
+        </CardTitle>
+        <CardDescription>Every guardian's changes, newest first</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes yet</p>
+        ) : (
+          versions.map(version => {
+            const changes = Object.entries(version.diff);
+            const ownPolicy = version.owner_id === currentUserId;
+
+            return (
+              <div key={version.id} className="flex items-start justify-between gap-3 border-b pb-3 last:border-0 last:pb-0">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">
+                      {CHANGE_LABELS[version.change_type]} by {version.author_name || (version.author_id ? 'a guardian' : 'the system')}
+                    </span>
+                    {version.is_current && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatWhen(version.created_at)} · {ownPolicy ? 'your' : `${version.owner_name || 'another guardian'}'s`} policy, v{version.version}
+                  </p>
+                  {version.change_type !== 'create' && changes.length > 0 && (
+                    <ul className="text-xs text-muted-foreground list-disc pl-4">
+                      {changes.map(([field, change]) => (
+                        <li key={field}>{describePolicyChange(field, change)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                {canRollback && ownPolicy && !version.is_current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRollback(version)}
+                    disabled={restoring !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {restoring === version.id ? 'Restoring...' : 'Restore'}
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {cursor && (
+          <Button variant="outline" className="w-full" onClick={() => load(cursor)}>
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,355 @@
+/**
+ * Policy Schedule Editor
+ * A week calendar of a child's recurring schedules (school hours,
+ * homework blocks, weekend extra time) and the one-off exceptions that
+ * lift them, such as holidays and sick days
+ */
+
+import { useState, useMemo } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { parentApi } from '@/lib/parentApi';
+import type { PolicyUpdate } from '@/lib/parentApi';
+import { APP_CATEGORIES, APP_CATEGORY_LABELS } from '../../supabase/functions/_shared/risk/categories.ts';
+import {
+  addDays,
+  findScheduleException,
+  formatWeeklyRule,
+  scheduleAppliesOn,
+} from '../../supabase/functions/_shared/risk/schedules.ts';
+import { getLocalTime } from '../../supabase/functions/_shared/risk/time.ts';
+import type { AppCategory } from '../../supabase/functions/_shared/risk/categories.ts';
+import type { PolicySchedule, ScheduleException } from '../../supabase/functions/_shared/risk/types.ts';
+
+interface PolicyScheduleEditorProps {
+  childId: string;
+  childName: string;
+  schedules: PolicySchedule[];
+  exceptions: ScheduleException[];
+  onSaved: () => void;
+}
+
+// Monday first, as weekdays (0 = Sunday)
+const WEEK = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SCHOOL_DAYS = ['1', '2', '3', '4', '5'];
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const today = () => getLocalTime(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone).date;
+
+const describeSchedule = (schedule: PolicySchedule) =>
+  schedule.action === 'block'
+    ? `${schedule.start_time}–${schedule.end_time} · ${
+        schedule.categories.length
+          ? schedule.categories.map(c => APP_CATEGORY_LABELS[c as AppCategory] ?? c).join(', ')
+          : 'all apps'
+      }`
+    : `+${schedule.extra_minutes} min`;
+
+export function PolicyScheduleEditor({ childId, childName, schedules, exceptions, onSaved }: PolicyScheduleEditorProps) {
+  const [draftSchedules, setDraftSchedules] = useState(schedules);
+  const [draftExceptions, setDraftExceptions] = useState(exceptions);
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // New schedule form
+  const [label, setLabel] = useState('');
+  const [days, setDays] = useState<string[]>(SCHOOL_DAYS);
+  const [action, setAction] = useState<PolicySchedule['action']>('block');
+  const [startTime, setStartTime] = useState('08:00');
+  const [endTime, setEndTime] = useState('15:00');
+  const [categories, setCategories] = useState<AppCategory[]>(['social']);
+  const [extraMinutes, setExtraMinutes] = useState('60');
+
+  // New exception form
+  const [exceptionLabel, setExceptionLabel] = useState('');
+  const [exceptionStart, setExceptionStart] = useState('');
+  const [exceptionEnd, setExceptionEnd] = useState('');
+
+  const weekDates = useMemo(() => {
+    const date = today();
+    const monday = addDays(date, -((weekdayOf(date) + 6) % 7) + weekOffset * 7);
+    return WEEK.map((_, index) => addDays(monday, index));
+  }, [weekOffset]);
+
+  const handleAddSchedule = () => {
+    const base = {
+      id: crypto.randomUUID(),
+      label: label.trim(),
+      rrule: formatWeeklyRule(days.map(Number)),
+      starts_on: today(),
+    };
+
+    const schedule: PolicySchedule = action === 'block'
+      ? { ...base, action, start_time: startTime, end_time: endTime, categories }
+      : { ...base, action, extra_minutes: Number(extraMinutes) };
+
+    setDraftSchedules(prev => [...prev, schedule]);
+    setLabel('');
+  };
+
+  const handleAddException = () => {
+    setDraftExceptions(prev => [...prev, {
+      id: crypto.randomUUID(),
+      label: exceptionLabel.trim(),
+      starts_on: exceptionStart,
+      ends_on: exceptionEnd || exceptionStart,
+      schedule_ids: null,
+    }]);
+    setExceptionLabel('');
+    setExceptionStart('');
+    setExceptionEnd('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await parentApi.updateChildPolicy(childId, {
+        // Categories are checked against APP_CATEGORIES server-side
+        schedules: draftSchedules as NonNullable<PolicyUpdate['schedules']>,
+        schedule_exceptions: draftExceptions.map(e => ({ ...e, schedule_ids: e.schedule_ids ?? null })),
+      });
+      onSaved();
+      toast({ title: 'Schedule saved' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not save schedule',
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCategory = (category: AppCategory, checked: boolean) =>
+    setCategories(prev => checked ? [...prev, category] : prev.filter(c => c !== category));
+
+  const canAddSchedule = label.trim() && days.length > 0 &&
+    (action === 'block' || Number(extraMinutes) > 0);
+  const canAddException = exceptionLabel.trim() && exceptionStart && (!exceptionEnd || exceptionEnd >= exceptionStart);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          {childName}
+        </CardTitle>
+        <CardDescription>
+          Blocks and extra time repeat every week in {childName}'s local time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Week calendar */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => setWeekOffset(w => w - 1)} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Week of {weekDates[0]}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => setWeekOffset(w => w + 1)} aria-label="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {weekDates.map(date => {
+              const dayException = draftExceptions.find(e => date >= e.starts_on && date <= e.ends_on);
+              return (
+                <div
+                  key={date}
+                  className={cn(
+                    'rounded-md border p-1 min-h-24 space-y-1',
+                    date === today() && 'border-primary',
+                    dayException && 'bg-muted/50'
+                  )}
+                >
+                  <p className="text-xs font-medium text-center">
+                    {DAY_NAMES[weekdayOf(date)]} {date.slice(8)}
+                  </p>
+                  {draftSchedules.map(schedule => {
+                    if (!scheduleAppliesOn(schedule, date, [])) return null;
+                    // Occurrences lifted by an exception stay visible, struck through
+                    const excepted = findScheduleException(schedule, date, draftExceptions);
+
+                    return schedule.action === 'block' ? (
+                      <div
+                        key={schedule.id}
+                        title={describeSchedule(schedule)}
+                        className={cn(
+                          'rounded bg-primary/15 px-1 text-[10px] leading-tight truncate',
+                          excepted && 'line-through opacity-50'
+                        )}
+                      >
+                        {schedule.start_time} {schedule.label}
+                      </div>
+                    ) : (
+                      <Badge
+                        key={schedule.id}
+                        variant="secondary"
+                        className={cn('text-[10px] px-1', excepted && 'line-through opacity-50')}
+                      >
+                        +{schedule.extra_minutes}m
+                      </Badge>
+                    );
+                  })}
+                  {dayException && (
+                    <p className="text-[10px] text-muted-foreground truncate">{dayException.label}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Schedules */}
+        {draftSchedules.length > 0 && (
+          <div className="space-y-2">
+            {draftSchedules.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium">{schedule.label}</p>
+                  <p className="text-xs text-muted-foreground">{describeSchedule(schedule)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraftSchedules(prev => prev.filter(s => s.id !== schedule.id))}
+                  aria-label={`Remove ${schedule.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2 border-t">
+          <p className="text-sm font-medium">Add a schedule</p>
+          <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="School hours" maxLength={100} />
+          <ToggleGroup type="multiple" value={days} onValueChange={setDays} className="justify-start flex-wrap">
+            {WEEK.map(day => (
+              <ToggleGroupItem key={day} value={String(day)} size="sm" variant="outline">
+                {DAY_NAMES[day]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Select value={action} onValueChange={(value) => setAction(value as PolicySchedule['action'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="block">Block apps</SelectItem>
+              <SelectItem value="extra_minutes">Extra screen time</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {action === 'block' ? (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`start-${childId}`}>From</Label>
+                  <Input id={`start-${childId}`} type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`end-${childId}`}>Until</Label>
+                  <Input id={`end-${childId}`} type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {APP_CATEGORIES.map(category => (
+                  <div key={category} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`category-${childId}-${category}`}
+                      checked={categories.includes(category)}
+                      onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                    />
+                    <Label htmlFor={`category-${childId}-${category}`} className="font-normal">
+                      {APP_CATEGORY_LABELS[category]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Tick nothing to block every app. An end before the start runs past midnight.
+              </p>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor={`extra-${childId}`}>Extra minutes</Label>
+              <Input
+                id={`extra-${childId}`}
+                type="number"
+                min={1}
+                max={720}
+                value={extraMinutes}
+                onChange={(e) => setExtraMinutes(e.target.value)}
+              />
+            </div>
+          )}
+
+          <Button variant="outline" size="sm" onClick={handleAddSchedule} disabled={!canAddSchedule}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add schedule
+          </Button>
+        </div>
+
+        {/* Exceptions */}
+        <div className="space-y-3 pt-2 border-t">
+          <p className="text-sm font-medium">Days off</p>
+          {draftExceptions.map(exception => (
+            <div key={exception.id} className="flex items-center justify-between text-sm">
+              <div>
+                <p className="font-medium">{exception.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {exception.starts_on === exception.ends_on
+                    ? exception.starts_on
+                    : `${exception.starts_on} to ${exception.ends_on}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDraftExceptions(prev => prev.filter(e => e.id !== exception.id))}
+                aria-label={`Remove ${exception.label}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Input
+            value={exceptionLabel}
+            onChange={(e) => setExceptionLabel(e.target.value)}
+            placeholder="Half term, sick day..."
+            maxLength={100}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="date" value={exceptionStart} onChange={(e) => setExceptionStart(e.target.value)} aria-label="First day" />
+            <Input type="date" value={exceptionEnd} onChange={(e) => setExceptionEnd(e.target.value)} aria-label="Last day" />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleAddException} disabled={!canAddException}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add days off
+          </Button>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? 'Saving...' : 'Save schedule'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
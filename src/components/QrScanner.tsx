@@ -0,0 +1,99 @@
+/**
+ * QR Scanner
+ * Reads QR codes from the rear camera with the platform BarcodeDetector
+ * (Android WebView, Chrome, Safari 17+). Check isQrScanningSupported()
+ * first and fall back to typing the code.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+interface QrScannerProps {
+  onResult: (value: string) => void;
+  onError?: (message: string) => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const getDetector = (): BarcodeDetectorConstructor | null =>
+  (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+
+export function QrScanner({ onResult, onError }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [starting, setStarting] = useState(true);
+  const callbacks = useRef({ onResult, onError });
+  callbacks.current = { onResult, onError };
+
+  useEffect(() => {
+    const Detector = getDetector();
+    if (!Detector) {
+      callbacks.current.onError?.('QR scanning is not supported on this device');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode?.rawValue) {
+          callbacks.current.onResult(barcode.rawValue);
+          return;
+        }
+      } catch {
+        // Frame not ready yet; try the next one
+      }
+
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStarting(false);
+        scan();
+      } catch (error) {
+        console.error('[QrScanner] Camera unavailable:', error);
+        callbacks.current.onError?.('Camera access was denied or is unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-xl bg-black">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <div className="pointer-events-none absolute inset-8 rounded-lg border-2 border-white/70" />
+      {starting && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-white/80">
+          Starting camera...
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Risk Explanation Panel
+ * Expandable "Why is this high?" breakdown of the factors behind a score
+ */
+
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import type { FactorExplanation, RiskExplanation } from '@/lib/riskExplanation';
+
+interface RiskExplanationPanelProps {
+  explanation: RiskExplanation | null;
+  level: 'low' | 'medium' | 'high' | 'critical';
+  defaultOpen?: boolean;
+  className?: string;
+}
+
+const formatValue = (value: number | string) =>
+  typeof value === 'number' ? Math.round(value * 10) / 10 : value;
+
+function describeFactor(factor: FactorExplanation): string {
+  const parts: string[] = [];
+
+  if (factor.observed !== null) {
+    parts.push(`${formatValue(factor.observed)}${factor.unit ? ` ${factor.unit}` : ''}`);
+  }
+  if (factor.threshold !== null) {
+    parts.push(`crossed ${formatValue(factor.threshold)}`);
+  }
+  if (factor.policyField) {
+    const value = factor.policyValue !== null ? ` = ${formatValue(factor.policyValue)}` : '';
+    parts.push(`${factor.policyField}${value}`);
+  }
+
+  return parts.join(' · ');
+}
+
+export function RiskExplanationPanel({
+  explanation,
+  level,
+  defaultOpen = false,
+  className,
+}: RiskExplanationPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+
+  if (!explanation) return null;
+
+  const contributing = explanation.factors.filter((factor) => factor.points > 0);
+  const quiet = explanation.factors.filter((factor) => factor.points <= 0);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={cn('w-full', className)}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between text-muted-foreground">
+          Why is this {level}?
+          <ChevronDown className={cn('h-4 w-4 transition-transform', open && 'rotate-180')} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {explanation.rawScore !== explanation.score && (
+          <p className="text-xs text-muted-foreground">
+            Score {Math.round(explanation.score)} is easing down from recent activity
+            (right now: {Math.round(explanation.rawScore)}).
+          </p>
+        )}
+
+        {contributing.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing is adding to the score right now.</p>
+        ) : (
+          contributing.map((factor) => (
+            <div key={factor.key} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{factor.label}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {formatValue(factor.points)} / {factor.maxPoints} pts
+                </span>
+              </div>
+              <Progress
+                value={factor.maxPoints > 0 ? (factor.points / factor.maxPoints) * 100 : 0}
+                className="h-1.5"
+              />
+              <p className="text-xs text-muted-foreground">{describeFactor(factor)}</p>
+            </div>
+          ))
+        )}
+
+        {quiet.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Not contributing: {quiet.map((factor) => factor.label).join(', ')}
+          </p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,19 +1,43 @@
 /**
  * Session Timer Component
- * Shows current session duration with visual feedback
+ * Shows current session duration with visual feedback, plus the remaining
+ * daily budget when the policy sets a daily limit
  */
 
 import { useEffect, useState } from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, Hourglass } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { DailyBudget } from '@/hooks/useRiskState';
 
 interface SessionTimerProps {
   startedAt: string | null;
+  dailyBudget?: DailyBudget | null;
   className?: string;
 }
 
-export function SessionTimer({ startedAt, className }: SessionTimerProps) {
+export function SessionTimer({ startedAt, dailyBudget, className }: SessionTimerProps) {
   const [duration, setDuration] = useState(0);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+
+  // Count the budget down locally between risk evaluations
+  useEffect(() => {
+    if (!dailyBudget) {
+      setRemainingSeconds(null);
+      return;
+    }
+
+    const evaluatedAt = dailyBudget.evaluatedAt ? new Date(dailyBudget.evaluatedAt).getTime() : Date.now();
+
+    const updateRemaining = () => {
+      const elapsed = startedAt ? Math.floor((Date.now() - evaluatedAt) / 1000) : 0;
+      setRemainingSeconds(Math.max(0, dailyBudget.remainingMinutes * 60 - elapsed));
+    };
+
+    updateRemaining();
+    const interval = setInterval(updateRemaining, 1000);
+
+    return () => clearInterval(interval);
+  }, [dailyBudget, startedAt]);
 
   useEffect(() => {
     if (!startedAt) {
@@ -54,22 +78,46 @@ export function SessionTimer({ startedAt, className }: SessionTimerProps) {
     return 'text-muted-foreground';
   };
 
+  const getBudgetColor = () => {
+    if (remainingSeconds === null || !dailyBudget) return 'text-muted-foreground';
+    if (remainingSeconds === 0) return 'text-red-500';
+    if (remainingSeconds < dailyBudget.limitMinutes * 60 * 0.1) return 'text-orange-500';
+    if (remainingSeconds < dailyBudget.limitMinutes * 60 * 0.25) return 'text-yellow-500';
+    return 'text-muted-foreground';
+  };
+
+  const budget = remainingSeconds !== null && (
+    <div className={cn('flex items-center justify-center gap-2 text-sm', getBudgetColor())}>
+      <Hourglass className="h-3.5 w-3.5" />
+      <span className="font-mono tabular-nums">
+        {remainingSeconds > 0 ? formatDuration(remainingSeconds) : '0:00'}
+      </span>
+      <span className="text-xs text-muted-foreground">left today</span>
+    </div>
+  );
+
   if (!startedAt) {
     return (
-      <div className={cn('flex items-center gap-2 text-muted-foreground', className)}>
-        <Clock className="h-4 w-4" />
-        <span className="text-sm">No active session</span>
+      <div className={cn('space-y-1', className)}>
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          <span className="text-sm">No active session</span>
+        </div>
+        {budget}
       </div>
     );
   }
 
   return (
-    <div className={cn('flex items-center gap-2', className)}>
-      <Clock className={cn('h-4 w-4', getColor())} />
-      <span className={cn('text-lg font-mono tabular-nums', getColor())}>
-        {formatDuration(duration)}
-      </span>
-      <span className="text-xs text-muted-foreground">this session</span>
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center gap-2">
+        <Clock className={cn('h-4 w-4', getColor())} />
+        <span className={cn('text-lg font-mono tabular-nums', getColor())}>
+          {formatDuration(duration)}
+        </span>
+        <span className="text-xs text-muted-foreground">this session</span>
+      </div>
+      {budget}
     </div>
   );
 }
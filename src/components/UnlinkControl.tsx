@@ -0,0 +1,123 @@
+/**
+ * Unlink Control
+ * Starts, shows and cancels an unlink for one family link. Used on both
+ * sides: parents pass the child's id, children the parent's.
+ */
+
+import { useState } from 'react';
+import { Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cancelUnlink, requestUnlink, UNLINK_COOLING_OFF_DAYS, UNLINK_REASON_MAX_LENGTH } from '@/lib/familyLink';
+import type { UnlinkRequest } from '@/hooks/useUnlinkRequests';
+
+interface UnlinkControlProps {
+  userId: string;
+  /** The other side of the link */
+  other: { parentId: string } | { youthId: string };
+  otherName: string;
+  /** The link's pending request, if there is one */
+  request?: UnlinkRequest;
+}
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+export function UnlinkControl({ userId, other, otherName, request }: UnlinkControlProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleRequest = async () => {
+    setSubmitting(true);
+    const { error } = await requestUnlink(other, reason || undefined);
+    setSubmitting(false);
+
+    if (error !== null) {
+      toast({ variant: 'destructive', title: 'Could not start unlinking', description: error });
+      return;
+    }
+    setReason('');
+    toast({ title: 'Unlink requested', description: `You can cancel within ${UNLINK_COOLING_OFF_DAYS} days.` });
+  };
+
+  const handleCancel = async () => {
+    if (!request) return;
+
+    setSubmitting(true);
+    const error = await cancelUnlink(request.id);
+    setSubmitting(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Could not cancel', description: error });
+      return;
+    }
+    toast({ title: 'Unlink cancelled', description: `You stay linked with ${otherName}.` });
+  };
+
+  if (request) {
+    const mine = request.requested_by === userId;
+
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-3 text-sm">
+        <span className="text-muted-foreground">
+          {mine ? 'You asked to unlink' : `${otherName} asked to unlink`} · ends {formatDay(request.effective_at)}
+        </span>
+        {mine && (
+          <Button variant="outline" size="sm" onClick={handleCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground">
+          <Unlink className="h-4 w-4 mr-1" />
+          Unlink
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Unlink from {otherName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Everyone in the family is told now, and the link ends in {UNLINK_COOLING_OFF_DAYS} days.
+            Until then you can change your mind.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="unlinkReason">Reason (optional)</Label>
+          <Textarea
+            id="unlinkReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={UNLINK_REASON_MAX_LENGTH}
+            rows={3}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep link</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRequest} disabled={submitting}>
+            Start unlinking
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -3,8 +3,10 @@
  * Shows real-time usage statistics and risk factors
  */
 
-import { Activity, RefreshCw, Moon, MousePointer2 } from 'lucide-react';
+import { Activity, RefreshCw, Moon, MousePointer2, Hourglass } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import type { DailyBudget } from '@/hooks/useRiskState';
 
 interface UsageStatsProps {
   factors: {
@@ -13,6 +15,7 @@ interface UsageStatsProps {
     lateNight: number;
     scrollVelocity: number;
   };
+  dailyBudget?: DailyBudget | null;
   className?: string;
 }
 
@@ -47,15 +50,40 @@ const statConfig = [
   },
 ] as const;
 
-export function UsageStats({ factors, className }: UsageStatsProps) {
+export function UsageStats({ factors, dailyBudget, className }: UsageStatsProps) {
   const getFactorColor = (value: number, threshold: { medium: number; high: number }) => {
     if (value >= threshold.high) return 'text-red-500 bg-red-500/10';
     if (value >= threshold.medium) return 'text-orange-500 bg-orange-500/10';
     return 'text-green-500 bg-green-500/10';
   };
 
+  const budgetPercent = dailyBudget
+    ? Math.min(100, (dailyBudget.usedMinutes / dailyBudget.limitMinutes) * 100)
+    : 0;
+
   return (
     <div className={cn('grid grid-cols-2 gap-3', className)}>
+      {dailyBudget && (
+        <div className="col-span-2 rounded-xl p-4 bg-muted/50">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Hourglass className="h-4 w-4" />
+              <span className="text-xs font-medium uppercase tracking-wide opacity-80">
+                Daily Budget
+              </span>
+            </div>
+            <span className="text-sm font-medium tabular-nums">
+              {dailyBudget.usedMinutes} / {dailyBudget.limitMinutes} min
+            </span>
+          </div>
+          <Progress value={budgetPercent} className="h-2" />
+          <div className="text-xs opacity-60 mt-2">
+            {dailyBudget.remainingMinutes > 0
+              ? `${dailyBudget.remainingMinutes} min remaining today`
+              : 'Daily limit reached'}
+          </div>
+        </div>
+      )}
       {statConfig.map(({ key, label, icon: Icon, description, threshold }) => {
         const value = factors[key] || 0;
         const colorClasses = getFactorColor(value, threshold);
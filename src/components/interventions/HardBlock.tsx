@@ -4,8 +4,9 @@
  */
 
 import { useEffect, useState } from 'react';
-import { ShieldAlert, Heart, Clock } from 'lucide-react';
+import { ShieldAlert, Heart, Clock, Hourglass } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 
 interface HardBlockProps {
@@ -14,14 +15,24 @@ interface HardBlockProps {
   message: string;
   onAcknowledge: (id: string) => void;
   onDismiss: (id: string) => void;
+  /** Ask a parent for more time; resolves to an error message or null */
+  onRequestExtension?: (id: string, minutes: number, reason: string) => Promise<string | null>;
 }
 
-export function HardBlock({ id, title, message, onAcknowledge, onDismiss }: HardBlockProps) {
+const EXTENSION_MINUTES = [15, 30, 45, 60];
+const MAX_REASON_LENGTH = 280;
+
+export function HardBlock({ id, title, message, onAcknowledge, onDismiss, onRequestExtension }: HardBlockProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [isExiting, setIsExiting] = useState(false);
   const [dismissCountdown, setDismissCountdown] = useState(10);
   const [canDismiss, setCanDismiss] = useState(false);
   const [breathingPhase, setBreathingPhase] = useState<'inhale' | 'hold' | 'exhale'>('inhale');
+  const [showExtensionForm, setShowExtensionForm] = useState(false);
+  const [extensionMinutes, setExtensionMinutes] = useState(15);
+  const [extensionReason, setExtensionReason] = useState('');
+  const [extensionError, setExtensionError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
 
   useEffect(() => {
     // Animate in
@@ -67,6 +78,24 @@ export function HardBlock({ id, title, message, onAcknowledge, onDismiss }: Hard
     }, 500);
   };
 
+  const handleRequestExtension = async () => {
+    if (!onRequestExtension) return;
+
+    setIsRequesting(true);
+    setExtensionError(null);
+
+    const error = await onRequestExtension(id, extensionMinutes, extensionReason.trim());
+    setIsRequesting(false);
+
+    if (error) {
+      setExtensionError(error);
+      return;
+    }
+
+    // The provider closes the block once the request is sent
+    setIsExiting(true);
+  };
+
   const getBreathingText = () => {
     switch (breathingPhase) {
       case 'inhale': return 'Breathe in...';
@@ -131,6 +160,45 @@ export function HardBlock({ id, title, message, onAcknowledge, onDismiss }: Hard
       
       {/* Action buttons */}
       <div className="relative p-6 pb-safe space-y-3">
+        {onRequestExtension && showExtensionForm && (
+          <div className="space-y-3 p-4 rounded-2xl bg-white/10 backdrop-blur">
+            <p className="text-sm font-medium">How much more time do you need?</p>
+            <div className="grid grid-cols-4 gap-2">
+              {EXTENSION_MINUTES.map(minutes => (
+                <Button
+                  key={minutes}
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'text-white hover:bg-white/20 hover:text-white',
+                    extensionMinutes === minutes && 'bg-white text-red-600 hover:bg-white/90 hover:text-red-600'
+                  )}
+                  onClick={() => setExtensionMinutes(minutes)}
+                >
+                  {minutes}m
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              value={extensionReason}
+              onChange={(e) => setExtensionReason(e.target.value.slice(0, MAX_REASON_LENGTH))}
+              placeholder="Why do you need it? (optional)"
+              className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              rows={2}
+            />
+            {extensionError && (
+              <p className="text-sm text-white bg-black/20 rounded-md px-3 py-2">{extensionError}</p>
+            )}
+            <Button
+              className="w-full bg-white/20 text-white hover:bg-white/30"
+              onClick={handleRequestExtension}
+              disabled={isRequesting}
+            >
+              {isRequesting ? 'Sending...' : `Ask for ${extensionMinutes} more minutes`}
+            </Button>
+          </div>
+        )}
+
         <Button
           size="lg"
           className="w-full bg-white text-red-600 hover:bg-white/90 font-semibold"
@@ -138,6 +206,18 @@ export function HardBlock({ id, title, message, onAcknowledge, onDismiss }: Hard
         >
           I'm Stepping Away Now
         </Button>
+
+        {onRequestExtension && !showExtensionForm && (
+          <Button
+            size="lg"
+            variant="ghost"
+            className="w-full text-white hover:text-white hover:bg-white/10"
+            onClick={() => setShowExtensionForm(true)}
+          >
+            <Hourglass className="h-4 w-4 mr-2" />
+            Ask for more time
+          </Button>
+        )}
         
         <Button
           size="lg"
@@ -5,7 +5,11 @@
 
 import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { applyExtensionGrant, mapExtensionRequestRow } from '@/sdk/interventions/extensionRequests';
 import { SoftNudge } from './SoftNudge';
 import { MediumFriction } from './MediumFriction';
 import { HardBlock } from './HardBlock';
@@ -26,6 +30,18 @@ interface InterventionContextType {
   refetch: () => Promise<void>;
 }
 
+const SNOOZE_MINUTES = 15;
+
+const toIntervention = (row: Tables<'interventions'>): Intervention => ({
+  id: row.id,
+  type: row.type,
+  status: row.status || 'pending',
+  title: row.title,
+  message: row.message,
+  riskLevelAtTrigger: row.risk_level_at_trigger,
+  createdAt: row.created_at,
+});
+
 const InterventionContext = createContext<InterventionContextType>({
   activeIntervention: null,
   pendingCount: 0,
@@ -44,6 +60,7 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
   const { userId, isYouth, isParent } = useUserRole();
   const [interventions, setInterventions] = useState<Intervention[]>([]);
   const [activeIntervention, setActiveIntervention] = useState<Intervention | null>(null);
+  const { toast } = useToast();
 
   const fetchInterventions = useCallback(async () => {
     if (!userId) return;
@@ -54,6 +71,8 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
         .select('*')
         .eq('user_id', userId)
         .in('status', ['pending', 'delivered'])
+        // Left open while a parent answers an extension request
+        .is('user_response->>extension_request_id', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -61,15 +80,7 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
         return;
       }
 
-      const mapped: Intervention[] = (data || []).map(row => ({
-        id: row.id,
-        type: row.type,
-        status: row.status,
-        title: row.title,
-        message: row.message,
-        riskLevelAtTrigger: row.risk_level_at_trigger,
-        createdAt: row.created_at,
-      }));
+      const mapped: Intervention[] = (data || []).map(toIntervention);
 
       setInterventions(mapped);
 
@@ -136,6 +147,28 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'interventions',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const row = payload.new as Tables<'interventions'>;
+          // A snoozed intervention going back to pending is a re-delivery
+          if (row.status !== 'pending' || !row.snooze_count) return;
+
+          console.log('[Intervention] Snoozed intervention is back:', row.id);
+          const redelivered = toIntervention(row);
+
+          setInterventions(prev => [redelivered, ...prev.filter(i => i.id !== row.id)]);
+          if (!activeIntervention) {
+            setActiveIntervention(redelivered);
+          }
+        }
+      )
       .subscribe();
 
     return () => {
@@ -143,6 +176,109 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
     };
   }, [userId, isParent, activeIntervention]);
 
+  // Parents' answers to time-extension requests
+  useEffect(() => {
+    if (!userId || isParent) return;
+
+    const channel = supabase
+      .channel(`extension-requests-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'time_extension_requests',
+          filter: `youth_id=eq.${userId}`,
+        },
+        async (payload) => {
+          const request = mapExtensionRequestRow(payload.new);
+
+          if (request.status === 'approved' && request.grantedMinutes) {
+            await applyExtensionGrant(request);
+            toast({
+              title: 'More time approved',
+              description: `You have ${request.grantedMinutes} extra minutes.`,
+            });
+          } else if (request.status === 'denied') {
+            toast({
+              title: 'Request declined',
+              description: 'Your parent said no this time.',
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, isParent, toast]);
+
+  const handleRequestExtension = async (id: string, minutes: number, reason: string): Promise<string | null> => {
+    const { data, error } = await supabase.functions.invoke('respond-intervention', {
+      body: {
+        intervention_id: id,
+        action: 'request_extension',
+        context: { minutes, reason: reason || undefined },
+      },
+    });
+
+    const message = await getFunctionErrorMessage(error, data);
+    if (message) {
+      console.error('Extension request failed:', message);
+      return message;
+    }
+
+    toast({
+      title: 'Request sent',
+      description: "We'll let you know when your parent answers.",
+    });
+
+    // The intervention stays open server-side until a parent answers
+    setInterventions(prev => prev.filter(i => i.id !== id));
+    setActiveIntervention(null);
+
+    setTimeout(() => {
+      const remaining = interventions.filter(i => i.id !== id);
+      if (remaining.length > 0) {
+        setActiveIntervention(remaining[0]);
+      }
+    }, 500);
+
+    return null;
+  };
+
+  const handleSnooze = async (id: string) => {
+    const { data, error } = await supabase.functions.invoke('respond-intervention', {
+      body: {
+        intervention_id: id,
+        action: 'snooze',
+        context: { snooze_minutes: SNOOZE_MINUTES },
+      },
+    });
+
+    const message = await getFunctionErrorMessage(error, data);
+    if (message) {
+      console.error('Snooze failed:', message);
+    } else if (data?.auto_escalated) {
+      toast({
+        title: "That's enough snoozing",
+        description: "You've put this off a few times, so it's time for a proper break.",
+      });
+    }
+
+    // Remove from list and show next
+    setInterventions(prev => prev.filter(i => i.id !== id));
+    setActiveIntervention(null);
+
+    setTimeout(() => {
+      const remaining = interventions.filter(i => i.id !== id);
+      if (remaining.length > 0) {
+        setActiveIntervention(remaining[0]);
+      }
+    }, 500);
+  };
+
   const handleAcknowledge = async (id: string) => {
     try {
       const { error } = await supabase
@@ -217,11 +353,11 @@ export function InterventionProvider({ children }: InterventionProviderProps) {
 
     switch (activeIntervention.type) {
       case 'soft_nudge':
-        return <SoftNudge {...props} />;
+        return <SoftNudge {...props} onSnooze={handleSnooze} />;
       case 'medium_friction':
         return <MediumFriction {...props} />;
       case 'hard_block':
-        return <HardBlock {...props} />;
+        return <HardBlock {...props} onRequestExtension={handleRequestExtension} />;
       default:
         return null;
     }
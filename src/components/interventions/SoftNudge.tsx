@@ -14,9 +14,11 @@ interface SoftNudgeProps {
   message: string;
   onAcknowledge: (id: string) => void;
   onDismiss: (id: string) => void;
+  /** "Later" snoozes instead of dismissing when provided */
+  onSnooze?: (id: string) => void;
 }
 
-export function SoftNudge({ id, title, message, onAcknowledge, onDismiss }: SoftNudgeProps) {
+export function SoftNudge({ id, title, message, onAcknowledge, onDismiss, onSnooze }: SoftNudgeProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [isExiting, setIsExiting] = useState(false);
 
@@ -26,11 +28,13 @@ export function SoftNudge({ id, title, message, onAcknowledge, onDismiss }: Soft
     return () => clearTimeout(timer);
   }, []);
 
-  const handleAction = (action: 'acknowledge' | 'dismiss') => {
+  const handleAction = (action: 'acknowledge' | 'dismiss' | 'snooze') => {
     setIsExiting(true);
     setTimeout(() => {
       if (action === 'acknowledge') {
         onAcknowledge(id);
+      } else if (action === 'snooze' && onSnooze) {
+        onSnooze(id);
       } else {
         onDismiss(id);
       }
@@ -73,7 +77,7 @@ export function SoftNudge({ id, title, message, onAcknowledge, onDismiss }: Soft
               size="sm"
               variant="outline"
               className="flex-1"
-              onClick={() => handleAction('dismiss')}
+              onClick={() => handleAction('snooze')}
             >
               Later
             </Button>
@@ -0,0 +1,146 @@
+/**
+ * Hook for children's pending time-extension requests
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parentApi } from '@/lib/parentApi';
+
+export interface PendingExtensionRequest {
+  id: string;
+  youthId: string;
+  requestedMinutes: number;
+  reason: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface UseExtensionRequestsReturn {
+  requests: PendingExtensionRequest[];
+  loading: boolean;
+  /** Returns an error message, or null on success */
+  decide: (id: string, decision: 'approve' | 'deny', grantedMinutes?: number) => Promise<string | null>;
+  refetch: () => Promise<void>;
+}
+
+const toPendingRequest = (row: Tables<'time_extension_requests'>): PendingExtensionRequest => ({
+  id: row.id,
+  youthId: row.youth_id,
+  requestedMinutes: row.requested_minutes,
+  reason: row.reason,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+});
+
+export function useExtensionRequests(parentId: string | null): UseExtensionRequestsReturn {
+  const [requests, setRequests] = useState<PendingExtensionRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // RLS limits rows to the parent's linked children
+  const fetchRequests = useCallback(async () => {
+    if (!parentId) {
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('time_extension_requests')
+        .select('*')
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRequests((data || []).map(toPendingRequest));
+    } catch (err) {
+      console.error('Failed to fetch extension requests:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [parentId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  // New requests appear and decided/expired ones drop off in realtime
+  useEffect(() => {
+    if (!parentId) return;
+
+    const channel = supabase
+      .channel(`extension-requests-${parentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'time_extension_requests',
+        },
+        (payload) => {
+          const row = payload.new as Tables<'time_extension_requests'>;
+          if (row.status !== 'pending') return;
+          setRequests(prev => [toPendingRequest(row), ...prev.filter(r => r.id !== row.id)]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'time_extension_requests',
+        },
+        (payload) => {
+          const row = payload.new as Tables<'time_extension_requests'>;
+          if (row.status !== 'pending') {
+            setRequests(prev => prev.filter(r => r.id !== row.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [parentId]);
+
+  // Pending requests lapse without an UPDATE reaching us if the expiry job is late
+  useEffect(() => {
+    if (requests.length === 0) return;
+
+    const nextExpiry = Math.min(...requests.map(r => new Date(r.expiresAt).getTime()));
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setRequests(prev => prev.filter(r => new Date(r.expiresAt).getTime() > now));
+    }, Math.max(0, nextExpiry - Date.now()) + 1000);
+
+    return () => clearTimeout(timer);
+  }, [requests]);
+
+  const decide = useCallback(async (id: string, decision: 'approve' | 'deny', grantedMinutes?: number) => {
+    try {
+      await parentApi.decideExtensionRequest(id, {
+        decision,
+        granted_minutes: decision === 'approve' ? grantedMinutes : undefined,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Request failed';
+      console.error('Failed to decide extension request:', message);
+      // Already decided or lapsed; either way it's no longer actionable
+      await fetchRequests();
+      return message;
+    }
+
+    setRequests(prev => prev.filter(r => r.id !== id));
+    return null;
+  }, [fetchRequests]);
+
+  return {
+    requests,
+    loading,
+    decide,
+    refetch: fetchRequests,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Hook for the parent's households: guardians, invitations and roles
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { parentApi } from '@/lib/parentApi';
+import type { GuardianRole, HouseholdSummary } from '@/lib/parentApi';
+
+interface UseHouseholdsReturn {
+  households: HouseholdSummary[];
+  loading: boolean;
+  /** Returns an error message, or null on success */
+  createInvitation: (householdId: string, role: Exclude<GuardianRole, 'primary'>) => Promise<string | null>;
+  acceptInvitation: (code: string) => Promise<string | null>;
+  updateRole: (householdId: string, guardianId: string, role: GuardianRole) => Promise<string | null>;
+  refetch: () => Promise<void>;
+}
+
+const toMessage = (err: unknown) => (err instanceof Error ? err.message : 'Request failed');
+
+export function useHouseholds(parentId: string | null): UseHouseholdsReturn {
+  const [households, setHouseholds] = useState<HouseholdSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHouseholds = useCallback(async () => {
+    if (!parentId) {
+      setHouseholds([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { households } = await parentApi.listHouseholds();
+      setHouseholds(households);
+    } catch (err) {
+      console.error('Failed to fetch households:', toMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [parentId]);
+
+  useEffect(() => {
+    fetchHouseholds();
+  }, [fetchHouseholds]);
+
+  // Guardians joining or changing role on another device
+  useEffect(() => {
+    if (!parentId) return;
+
+    const channel = supabase
+      .channel(`household-guardians-${parentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'household_guardians',
+        },
+        () => {
+          fetchHouseholds();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [parentId, fetchHouseholds]);
+
+  const run = useCallback(async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Failed to ${label}:`, toMessage(err));
+      return toMessage(err);
+    }
+
+    await fetchHouseholds();
+    return null;
+  }, [fetchHouseholds]);
+
+  const createInvitation = useCallback(
+    (householdId: string, role: Exclude<GuardianRole, 'primary'>) =>
+      run(() => parentApi.createGuardianInvitation(householdId, { role }), 'create invitation'),
+    [run]
+  );
+
+  const acceptInvitation = useCallback(
+    (code: string) => run(() => parentApi.acceptGuardianInvitation({ code }), 'accept invitation'),
+    [run]
+  );
+
+  const updateRole = useCallback(
+    (householdId: string, guardianId: string, role: GuardianRole) =>
+      run(() => parentApi.updateGuardianRole(householdId, guardianId, role), 'update guardian role'),
+    [run]
+  );
+
+  return {
+    households,
+    loading,
+    createInvitation,
+    acceptInvitation,
+    updateRole,
+    refetch: fetchHouseholds,
+  };
+}
@@ -4,6 +4,11 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getFactorPoints } from '@/lib/riskExplanation';
+import {
+  APP_CATEGORY_LABELS,
+  summarizeCategoryUsage,
+} from '../../supabase/functions/_shared/risk/categories.ts';
 
 interface DailyStats {
   date: string;
@@ -28,10 +33,19 @@ interface FactorTrend {
   lateNight: number;
 }
 
+interface CategoryBreakdown {
+  category: string;
+  label: string;
+  minutes: number;
+  sessions: number;
+}
+
 export interface InsightsData {
   dailyStats: DailyStats[];
   riskHistory: RiskHistoryPoint[];
   factorTrends: FactorTrend[];
+  /** Screen time per app category, most used first */
+  categoryBreakdown: CategoryBreakdown[];
   summary: {
     avgRiskScore: number;
     totalSessions: number;
@@ -73,7 +87,7 @@ export function useInsightsData(userId: string | null, days: number = 7) {
       // Fetch sessions
       const { data: sessionsData, error: sessionsError } = await supabase
         .from('sessions')
-        .select('started_at, duration_seconds')
+        .select('started_at, duration_seconds, category')
         .eq('user_id', userId)
         .gte('started_at', startDate.toISOString());
 
@@ -153,20 +167,27 @@ export function useInsightsData(userId: string | null, days: number = 7) {
 
       // Extract factor trends from risk history
       const factorTrends: FactorTrend[] = (riskHistoryData || []).map(r => {
-        const factors = r.factors as Record<string, number> || {};
+        const factors = getFactorPoints(r.factors);
         return {
           date: new Date(r.created_at).toLocaleString(undefined, { 
             month: 'short', 
             day: 'numeric',
             hour: 'numeric',
           }),
-          sessionDuration: factors.session_duration_factor || 0,
-          reopenFrequency: factors.reopen_frequency_factor || 0,
-          scrollVelocity: factors.scroll_velocity_factor || 0,
-          lateNight: factors.late_night_factor || 0,
+          sessionDuration: factors.session_duration || 0,
+          reopenFrequency: factors.reopen_frequency || 0,
+          scrollVelocity: factors.scroll_velocity || 0,
+          lateNight: factors.late_night || 0,
         };
       });
 
+      const categoryBreakdown: CategoryBreakdown[] = summarizeCategoryUsage(sessionsData || []).map(usage => ({
+        category: usage.category,
+        label: APP_CATEGORY_LABELS[usage.category],
+        minutes: Math.round(usage.seconds / 60),
+        sessions: usage.session_count,
+      }));
+
       // Calculate summary
       const allScores = riskHistory.map(r => r.score);
       const avgRiskScore = allScores.length > 0 
@@ -205,6 +226,7 @@ export function useInsightsData(userId: string | null, days: number = 7) {
         dailyStats,
         riskHistory,
         factorTrends,
+        categoryBreakdown,
         summary: {
           avgRiskScore,
           totalSessions: sessionsData?.length || 0,
@@ -0,0 +1,193 @@
+/**
+ * Hook to load, save and sync notification preferences
+ *
+ * Preferences live in `profiles.notification_prefs` (snake_case, see
+ * the notifications shared module); changes made on another device
+ * arrive over realtime.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export interface NotificationSwitches {
+  emailAlerts: boolean;
+  pushAlerts: boolean;
+  riskWarnings: boolean;
+  dailySummary: boolean;
+  weeklyInsights: boolean;
+  interventionAlerts: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** `HH:mm` in the profile's timezone */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPrefs extends NotificationSwitches {
+  quietHours: QuietHours;
+  /** Keyed by youth id; unset switches follow the parent's own */
+  childOverrides: Record<string, Partial<NotificationSwitches>>;
+}
+
+interface UseNotificationPrefsReturn {
+  prefs: NotificationPrefs;
+  loading: boolean;
+  /** Resolves to an error message, or null once saved */
+  savePrefs: (updated: NotificationPrefs) => Promise<string | null>;
+}
+
+/** Keys in `profiles.notification_prefs` */
+const STORED_SWITCH_KEYS: Record<keyof NotificationSwitches, string> = {
+  emailAlerts: 'email_alerts',
+  pushAlerts: 'push_alerts',
+  riskWarnings: 'risk_warnings',
+  dailySummary: 'daily_summary',
+  weeklyInsights: 'weekly_insights',
+  interventionAlerts: 'intervention_alerts',
+};
+
+const SWITCH_KEYS = Object.keys(STORED_SWITCH_KEYS) as (keyof NotificationSwitches)[];
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  emailAlerts: true,
+  pushAlerts: true,
+  riskWarnings: true,
+  dailySummary: false,
+  weeklyInsights: true,
+  interventionAlerts: true,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  childOverrides: {},
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readSwitches = (stored: Record<string, unknown>): Partial<NotificationSwitches> => {
+  const switches: Partial<NotificationSwitches> = {};
+  for (const key of SWITCH_KEYS) {
+    const value = stored[STORED_SWITCH_KEYS[key]];
+    if (typeof value === 'boolean') switches[key] = value;
+  }
+  return switches;
+};
+
+const writeSwitches = (switches: Partial<NotificationSwitches>): Record<string, boolean> => {
+  const stored: Record<string, boolean> = {};
+  for (const key of SWITCH_KEYS) {
+    if (switches[key] !== undefined) stored[STORED_SWITCH_KEYS[key]] = switches[key]!;
+  }
+  return stored;
+};
+
+export const fromStoredPrefs = (stored: Json | undefined): NotificationPrefs => {
+  const defaults = DEFAULT_NOTIFICATION_PREFS;
+  if (!isObject(stored)) return defaults;
+
+  const quiet = isObject(stored.quiet_hours) ? stored.quiet_hours : {};
+  const childOverrides: NotificationPrefs['childOverrides'] = {};
+  if (isObject(stored.child_overrides)) {
+    for (const [youthId, override] of Object.entries(stored.child_overrides)) {
+      if (isObject(override)) childOverrides[youthId] = readSwitches(override);
+    }
+  }
+
+  return {
+    ...defaults,
+    ...readSwitches(stored),
+    quietHours: {
+      enabled: typeof quiet.enabled === 'boolean' ? quiet.enabled : defaults.quietHours.enabled,
+      start: typeof quiet.start === 'string' ? quiet.start : defaults.quietHours.start,
+      end: typeof quiet.end === 'string' ? quiet.end : defaults.quietHours.end,
+    },
+    childOverrides,
+  };
+};
+
+export const toStoredPrefs = (prefs: NotificationPrefs): Json => ({
+  ...writeSwitches(prefs),
+  quiet_hours: { ...prefs.quietHours },
+  child_overrides: Object.fromEntries(
+    Object.entries(prefs.childOverrides)
+      .map(([youthId, override]) => [youthId, writeSwitches(override)] as const)
+      .filter(([, override]) => Object.keys(override).length > 0)
+  ),
+});
+
+export function useNotificationPrefs(userId: string | null): UseNotificationPrefsReturn {
+  const [prefs, setPrefs] = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchPrefs = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('notification_prefs')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to fetch notification preferences:', error);
+      } else if (data) {
+        setPrefs(fromStoredPrefs(data.notification_prefs));
+      }
+      setLoading(false);
+    };
+
+    fetchPrefs();
+  }, [userId]);
+
+  // Changes saved on other devices
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notification-prefs-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'profiles',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const row = payload.new as Pick<Tables<'profiles'>, 'notification_prefs'>;
+          setPrefs(fromStoredPrefs(row.notification_prefs));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const savePrefs = useCallback(async (updated: NotificationPrefs) => {
+    if (!userId) return 'Not signed in';
+
+    const previous = prefs;
+    setPrefs(updated);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ notification_prefs: toStoredPrefs(updated) })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Failed to save notification preferences:', error);
+      setPrefs(previous);
+      return error.message;
+    }
+    return null;
+  }, [userId, prefs]);
+
+  return { prefs, loading, savePrefs };
+}
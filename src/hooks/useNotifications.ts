@@ -0,0 +1,136 @@
+/**
+ * Hook for the in-app notification inbox
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface InboxNotification {
+  id: string;
+  category: string;
+  title: string;
+  body: string;
+  youthId: string | null;
+  interventionId: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface UseNotificationsReturn {
+  notifications: InboxNotification[];
+  unreadCount: number;
+  loading: boolean;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+const INBOX_LIMIT = 50;
+
+const toInboxNotification = (row: Tables<'notifications'>): InboxNotification => ({
+  id: row.id,
+  category: row.category,
+  title: row.title,
+  body: row.body,
+  youthId: row.youth_id,
+  interventionId: row.intervention_id,
+  readAt: row.read_at,
+  createdAt: row.created_at,
+});
+
+export function useNotifications(userId: string | null): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('recipient_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []).map(toInboxNotification));
+    } catch (err) {
+      console.error('Failed to fetch notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  // New notifications arrive in realtime
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `recipient_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = toInboxNotification(payload.new as Tables<'notifications'>);
+          setNotifications(prev => [notification, ...prev].slice(0, INBOX_LIMIT));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const markRead = useCallback(async (id: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.id === id && !n.readAt ? { ...n, readAt } : n)));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) console.error('Failed to mark notification read:', error);
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt })));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('recipient_id', userId)
+      .is('read_at', null);
+
+    if (error) console.error('Failed to mark notifications read:', error);
+  }, [userId]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.readAt).length,
+    loading,
+    markRead,
+    markAllRead,
+    refetch: fetchNotifications,
+  };
+}
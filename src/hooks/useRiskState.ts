@@ -4,6 +4,15 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { parseRiskExplanation } from '@/lib/riskExplanation';
+import type { RiskExplanation } from '@/lib/riskExplanation';
+
+export interface DailyBudget {
+  limitMinutes: number;
+  usedMinutes: number;
+  remainingMinutes: number;
+  evaluatedAt: string | null;
+}
 
 interface RiskState {
   score: number;
@@ -15,6 +24,8 @@ interface RiskState {
     scrollVelocity: number;
   };
   lastEvaluatedAt: string | null;
+  dailyBudget: DailyBudget | null;
+  explanation: RiskExplanation | null;
 }
 
 interface UseRiskStateReturn {
@@ -34,6 +45,18 @@ const defaultRiskState: RiskState = {
     scrollVelocity: 0,
   },
   lastEvaluatedAt: null,
+  dailyBudget: null,
+  explanation: null,
+};
+
+const toDailyBudget = (data: Record<string, unknown>): DailyBudget | null => {
+  if (data.daily_limit_minutes == null) return null;
+  return {
+    limitMinutes: data.daily_limit_minutes as number,
+    usedMinutes: (data.daily_used_minutes as number) || 0,
+    remainingMinutes: (data.daily_remaining_minutes as number) || 0,
+    evaluatedAt: (data.last_evaluated_at as string) || null,
+  };
 };
 
 export function useRiskState(userId: string | null): UseRiskStateReturn {
@@ -72,6 +95,8 @@ export function useRiskState(userId: string | null): UseRiskStateReturn {
             scrollVelocity: data.scroll_velocity_factor || 0,
           },
           lastEvaluatedAt: data.last_evaluated_at,
+          dailyBudget: toDailyBudget(data),
+          explanation: parseRiskExplanation(data.explanation),
         });
       }
       setError(null);
@@ -117,6 +142,8 @@ export function useRiskState(userId: string | null): UseRiskStateReturn {
                 scrollVelocity: (data.scroll_velocity_factor as number) || 0,
               },
               lastEvaluatedAt: data.last_evaluated_at as string || null,
+              dailyBudget: toDailyBudget(data),
+              explanation: parseRiskExplanation(data.explanation),
             });
           }
         }
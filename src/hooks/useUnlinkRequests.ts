@@ -0,0 +1,83 @@
+/**
+ * Hook for pending unlink requests the user is part of, on either side
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type UnlinkRequest = Tables<'family_unlink_requests'>;
+
+interface UseUnlinkRequestsReturn {
+  requests: UnlinkRequest[];
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export function useUnlinkRequests(userId: string | null): UseUnlinkRequestsReturn {
+  const [requests, setRequests] = useState<UnlinkRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // RLS limits rows to links the user is on, or children they look after
+  const fetchRequests = useCallback(async () => {
+    if (!userId) {
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('family_unlink_requests')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (err) {
+      console.error('Failed to fetch unlink requests:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  // Requests from the other side show up, and resolved ones drop off
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`unlink-requests-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'family_unlink_requests',
+        },
+        (payload) => {
+          const row = payload.new as UnlinkRequest;
+          if (!row?.id) return;
+
+          setRequests(prev => row.status === 'pending'
+            ? [row, ...prev.filter(r => r.id !== row.id)]
+            : prev.filter(r => r.id !== row.id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return {
+    requests,
+    loading,
+    refetch: fetchRequests,
+  };
+}
@@ -14,6 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          status: Database["public"]["Enums"]["job_status"]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       agent_logs: {
         Row: {
           agent_type: Database["public"]["Enums"]["agent_type"]
@@ -93,6 +147,10 @@ export type Database = {
       }
       behavioral_events: {
         Row: {
+          app_bundle_id: string | null
+          category: Database["public"]["Enums"]["app_category"] | null
+          client_event_id: string | null
+          client_sequence: number | null
           created_at: string
           device_id: string | null
           event_data: Json | null
@@ -105,6 +163,10 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          app_bundle_id?: string | null
+          category?: Database["public"]["Enums"]["app_category"] | null
+          client_event_id?: string | null
+          client_sequence?: number | null
           created_at?: string
           device_id?: string | null
           event_data?: Json | null
@@ -117,6 +179,10 @@ export type Database = {
           user_id: string
         }
         Update: {
+          app_bundle_id?: string | null
+          category?: Database["public"]["Enums"]["app_category"] | null
+          client_event_id?: string | null
+          client_sequence?: number | null
           created_at?: string
           device_id?: string | null
           event_data?: Json | null
@@ -187,6 +253,57 @@ export type Database = {
         }
         Relationships: []
       }
+      family_link_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      family_link_tokens: {
+        Row: {
+          consumed_at: string | null
+          consumed_by: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          parent_id: string
+          status: Database["public"]["Enums"]["link_token_status"]
+          token_hash: string
+        }
+        Insert: {
+          consumed_at?: string | null
+          consumed_by?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          parent_id: string
+          status?: Database["public"]["Enums"]["link_token_status"]
+          token_hash: string
+        }
+        Update: {
+          consumed_at?: string | null
+          consumed_by?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          parent_id?: string
+          status?: Database["public"]["Enums"]["link_token_status"]
+          token_hash?: string
+        }
+        Relationships: []
+      }
       family_links: {
         Row: {
           created_at: string
@@ -211,6 +328,53 @@ export type Database = {
         }
         Relationships: []
       }
+      family_unlink_requests: {
+        Row: {
+          created_at: string
+          effective_at: string
+          id: string
+          link_id: string
+          parent_id: string
+          reason: string | null
+          requested_by: string
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["unlink_request_status"]
+          youth_id: string
+        }
+        Insert: {
+          created_at?: string
+          effective_at: string
+          id?: string
+          link_id: string
+          parent_id: string
+          reason?: string | null
+          requested_by: string
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["unlink_request_status"]
+          youth_id: string
+        }
+        Update: {
+          created_at?: string
+          effective_at?: string
+          id?: string
+          link_id?: string
+          parent_id?: string
+          reason?: string | null
+          requested_by?: string
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["unlink_request_status"]
+          youth_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "family_unlink_requests_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "family_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feedback_events: {
         Row: {
           context: Json | null
@@ -246,18 +410,222 @@ export type Database = {
           },
         ]
       }
+      guardian_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          code: string
+          created_at: string
+          expires_at: string
+          household_id: string
+          id: string
+          invited_by: string
+          role: Database["public"]["Enums"]["guardian_role"]
+          status: Database["public"]["Enums"]["guardian_invitation_status"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          code: string
+          created_at?: string
+          expires_at: string
+          household_id: string
+          id?: string
+          invited_by: string
+          role?: Database["public"]["Enums"]["guardian_role"]
+          status?: Database["public"]["Enums"]["guardian_invitation_status"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          code?: string
+          created_at?: string
+          expires_at?: string
+          household_id?: string
+          id?: string
+          invited_by?: string
+          role?: Database["public"]["Enums"]["guardian_role"]
+          status?: Database["public"]["Enums"]["guardian_invitation_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_invitations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guardian_sharing: {
+        Row: {
+          adult_since: string | null
+          created_at: string
+          shared_scopes: string[]
+          updated_at: string
+          youth_id: string
+        }
+        Insert: {
+          adult_since?: string | null
+          created_at?: string
+          shared_scopes?: string[]
+          updated_at?: string
+          youth_id: string
+        }
+        Update: {
+          adult_since?: string | null
+          created_at?: string
+          shared_scopes?: string[]
+          updated_at?: string
+          youth_id?: string
+        }
+        Relationships: []
+      }
+      household_children: {
+        Row: {
+          created_at: string
+          household_id: string
+          id: string
+          youth_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id: string
+          id?: string
+          youth_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          youth_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_children_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_guardians: {
+        Row: {
+          created_at: string
+          guardian_id: string
+          household_id: string
+          id: string
+          role: Database["public"]["Enums"]["guardian_role"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          guardian_id: string
+          household_id: string
+          id?: string
+          role?: Database["public"]["Enums"]["guardian_role"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          guardian_id?: string
+          household_id?: string
+          id?: string
+          role?: Database["public"]["Enums"]["guardian_role"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_guardians_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      intervention_effectiveness: {
+        Row: {
+          computed_at: string
+          created_at: string
+          failures: number
+          id: string
+          last_feedback_at: string | null
+          scope: string
+          scope_key: string
+          successes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          computed_at?: string
+          created_at?: string
+          failures?: number
+          id?: string
+          last_feedback_at?: string | null
+          scope: string
+          scope_key: string
+          successes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          computed_at?: string
+          created_at?: string
+          failures?: number
+          id?: string
+          last_feedback_at?: string | null
+          scope?: string
+          scope_key?: string
+          successes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       intervention_templates: {
         Row: {
           action_label: string | null
           action_url: string | null
+          active_from: string | null
+          active_until: string | null
           cooldown_minutes: number | null
           created_at: string
           id: string
           is_active: boolean | null
+          max_risk_level: Database["public"]["Enums"]["risk_level"] | null
+          max_risk_score: number | null
           message: string
           min_risk_level: Database["public"]["Enums"]["risk_level"] | null
+          min_risk_score: number | null
           name: string
           priority: number | null
+          roles: Database["public"]["Enums"]["app_role"][] | null
           title: string
           type: Database["public"]["Enums"]["intervention_type"]
           updated_at: string
@@ -265,14 +633,20 @@ export type Database = {
         Insert: {
           action_label?: string | null
           action_url?: string | null
+          active_from?: string | null
+          active_until?: string | null
           cooldown_minutes?: number | null
           created_at?: string
           id?: string
           is_active?: boolean | null
+          max_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          max_risk_score?: number | null
           message: string
           min_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          min_risk_score?: number | null
           name: string
           priority?: number | null
+          roles?: Database["public"]["Enums"]["app_role"][] | null
           title: string
           type: Database["public"]["Enums"]["intervention_type"]
           updated_at?: string
@@ -280,20 +654,76 @@ export type Database = {
         Update: {
           action_label?: string | null
           action_url?: string | null
+          active_from?: string | null
+          active_until?: string | null
           cooldown_minutes?: number | null
           created_at?: string
           id?: string
           is_active?: boolean | null
+          max_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          max_risk_score?: number | null
           message?: string
           min_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          min_risk_score?: number | null
           name?: string
           priority?: number | null
+          roles?: Database["public"]["Enums"]["app_role"][] | null
           title?: string
           type?: Database["public"]["Enums"]["intervention_type"]
           updated_at?: string
         }
         Relationships: []
       }
+      intervention_variants: {
+        Row: {
+          action_label: string | null
+          action_url: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          message: string | null
+          name: string
+          template_id: string
+          title: string | null
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          action_label?: string | null
+          action_url?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message?: string | null
+          name: string
+          template_id: string
+          title?: string | null
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          action_label?: string | null
+          action_url?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          message?: string | null
+          name?: string
+          template_id?: string
+          title?: string | null
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "intervention_variants_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "intervention_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       interventions: {
         Row: {
           acknowledged_at: string | null
@@ -301,11 +731,14 @@ export type Database = {
           delivered_at: string | null
           dismissed_at: string | null
           escalated_at: string | null
+          escalated_from: string | null
           id: string
           message: string
           risk_level_at_trigger: Database["public"]["Enums"]["risk_level"]
           risk_score_at_trigger: number | null
           session_id: string | null
+          snooze_count: number
+          snoozed_until: string | null
           status: Database["public"]["Enums"]["intervention_status"] | null
           template_id: string | null
           title: string
@@ -313,6 +746,7 @@ export type Database = {
           updated_at: string
           user_id: string
           user_response: Json | null
+          variant_id: string | null
         }
         Insert: {
           acknowledged_at?: string | null
@@ -320,11 +754,14 @@ export type Database = {
           delivered_at?: string | null
           dismissed_at?: string | null
           escalated_at?: string | null
+          escalated_from?: string | null
           id?: string
           message: string
           risk_level_at_trigger: Database["public"]["Enums"]["risk_level"]
           risk_score_at_trigger?: number | null
           session_id?: string | null
+          snooze_count?: number
+          snoozed_until?: string | null
           status?: Database["public"]["Enums"]["intervention_status"] | null
           template_id?: string | null
           title: string
@@ -332,6 +769,7 @@ export type Database = {
           updated_at?: string
           user_id: string
           user_response?: Json | null
+          variant_id?: string | null
         }
         Update: {
           acknowledged_at?: string | null
@@ -339,11 +777,14 @@ export type Database = {
           delivered_at?: string | null
           dismissed_at?: string | null
           escalated_at?: string | null
+          escalated_from?: string | null
           id?: string
           message?: string
           risk_level_at_trigger?: Database["public"]["Enums"]["risk_level"]
           risk_score_at_trigger?: number | null
           session_id?: string | null
+          snooze_count?: number
+          snoozed_until?: string | null
           status?: Database["public"]["Enums"]["intervention_status"] | null
           template_id?: string | null
           title?: string
@@ -351,8 +792,16 @@ export type Database = {
           updated_at?: string
           user_id?: string
           user_response?: Json | null
+          variant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "interventions_escalated_from_fkey"
+            columns: ["escalated_from"]
+            isOneToOne: false
+            referencedRelation: "interventions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "interventions_session_id_fkey"
             columns: ["session_id"]
@@ -367,6 +816,13 @@ export type Database = {
             referencedRelation: "intervention_templates"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "interventions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "intervention_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invite_codes: {
@@ -399,108 +855,373 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          delivered_at: string | null
+          id: string
+          last_error: string | null
+          notification_id: string
+          receipt: Json | null
+          status: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          last_error?: string | null
+          notification_id: string
+          receipt?: Json | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          last_error?: string | null
+          notification_id?: string
+          receipt?: Json | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          category: string
+          created_at: string
+          data: Json
+          id: string
+          intervention_id: string | null
+          read_at: string | null
+          recipient_id: string
+          title: string
+          youth_id: string | null
+        }
+        Insert: {
+          body: string
+          category: string
+          created_at?: string
+          data?: Json
+          id?: string
+          intervention_id?: string | null
+          read_at?: string | null
+          recipient_id: string
+          title: string
+          youth_id?: string | null
+        }
+        Update: {
+          body?: string
+          category?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          intervention_id?: string | null
+          read_at?: string | null
+          recipient_id?: string
+          title?: string
+          youth_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_intervention_id_fkey"
+            columns: ["intervention_id"]
+            isOneToOne: false
+            referencedRelation: "interventions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orchestrator_definitions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
       policies: {
         Row: {
           bedtime_end: string | null
+          bedtime_ramp_minutes: number
           bedtime_start: string | null
+          category_rules: Json
           created_at: string
+          current_version_id: string | null
           daily_limit_minutes: number | null
           escalation_delay_minutes: number | null
           escalation_enabled: boolean | null
+          factor_config: Json
           id: string
           is_active: boolean | null
           is_system_default: boolean | null
+          max_extension_minutes: number
+          max_extension_requests_per_day: number
+          max_snooze_count: number
           name: string
           owner_id: string | null
           parent_alert_threshold:
             | Database["public"]["Enums"]["risk_level"]
             | null
           reopen_threshold: number | null
+          risk_decay_half_life_minutes: number
+          risk_level_thresholds: Json | null
+          schedule_exceptions: Json
+          schedules: Json
           scroll_velocity_threshold: number | null
           session_limit_minutes: number | null
           target_user_id: string | null
           updated_at: string
+          weekend_bedtime_end: string | null
+          weekend_bedtime_start: string | null
         }
         Insert: {
           bedtime_end?: string | null
+          bedtime_ramp_minutes?: number
           bedtime_start?: string | null
+          category_rules?: Json
           created_at?: string
+          current_version_id?: string | null
           daily_limit_minutes?: number | null
           escalation_delay_minutes?: number | null
           escalation_enabled?: boolean | null
+          factor_config?: Json
           id?: string
           is_active?: boolean | null
           is_system_default?: boolean | null
+          max_extension_minutes?: number
+          max_extension_requests_per_day?: number
+          max_snooze_count?: number
           name: string
           owner_id?: string | null
           parent_alert_threshold?:
             | Database["public"]["Enums"]["risk_level"]
             | null
           reopen_threshold?: number | null
+          risk_decay_half_life_minutes?: number
+          risk_level_thresholds?: Json | null
+          schedule_exceptions?: Json
+          schedules?: Json
           scroll_velocity_threshold?: number | null
           session_limit_minutes?: number | null
           target_user_id?: string | null
           updated_at?: string
+          weekend_bedtime_end?: string | null
+          weekend_bedtime_start?: string | null
         }
         Update: {
           bedtime_end?: string | null
+          bedtime_ramp_minutes?: number
           bedtime_start?: string | null
+          category_rules?: Json
           created_at?: string
+          current_version_id?: string | null
           daily_limit_minutes?: number | null
           escalation_delay_minutes?: number | null
           escalation_enabled?: boolean | null
+          factor_config?: Json
           id?: string
           is_active?: boolean | null
           is_system_default?: boolean | null
+          max_extension_minutes?: number
+          max_extension_requests_per_day?: number
+          max_snooze_count?: number
           name?: string
           owner_id?: string | null
           parent_alert_threshold?:
             | Database["public"]["Enums"]["risk_level"]
             | null
           reopen_threshold?: number | null
+          risk_decay_half_life_minutes?: number
+          risk_level_thresholds?: Json | null
+          schedule_exceptions?: Json
+          schedules?: Json
           scroll_velocity_threshold?: number | null
           session_limit_minutes?: number | null
           target_user_id?: string | null
           updated_at?: string
+          weekend_bedtime_end?: string | null
+          weekend_bedtime_start?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "policies_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "policy_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      policy_versions: {
+        Row: {
+          author_id: string | null
+          change_type: Database["public"]["Enums"]["policy_change_type"]
+          created_at: string
+          diff: Json
+          id: string
+          policy_id: string
+          restored_version_id: string | null
+          snapshot: Json
+          version: number
+        }
+        Insert: {
+          author_id?: string | null
+          change_type: Database["public"]["Enums"]["policy_change_type"]
+          created_at?: string
+          diff?: Json
+          id?: string
+          policy_id: string
+          restored_version_id?: string | null
+          snapshot: Json
+          version: number
+        }
+        Update: {
+          author_id?: string | null
+          change_type?: Database["public"]["Enums"]["policy_change_type"]
+          created_at?: string
+          diff?: Json
+          id?: string
+          policy_id?: string
+          restored_version_id?: string | null
+          snapshot?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "policy_versions_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "policy_versions_restored_version_id_fkey"
+            columns: ["restored_version_id"]
+            isOneToOne: false
+            referencedRelation: "policy_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
           avatar_url: string | null
+          birth_date: string | null
           created_at: string
           display_name: string | null
           id: string
+          notification_prefs: Json
           timezone: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           avatar_url?: string | null
+          birth_date?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
+          notification_prefs?: Json
           timezone?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           avatar_url?: string | null
+          birth_date?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
+          notification_prefs?: Json
           timezone?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       risk_history: {
         Row: {
           created_at: string
           factors: Json | null
           id: string
           new_level: Database["public"]["Enums"]["risk_level"]
+          policy_version_ids: string[]
           previous_level: Database["public"]["Enums"]["risk_level"] | null
           score: number
           triggered_by: string | null
@@ -511,6 +1232,7 @@ export type Database = {
           factors?: Json | null
           id?: string
           new_level: Database["public"]["Enums"]["risk_level"]
+          policy_version_ids?: string[]
           previous_level?: Database["public"]["Enums"]["risk_level"] | null
           score: number
           triggered_by?: string | null
@@ -521,6 +1243,7 @@ export type Database = {
           factors?: Json | null
           id?: string
           new_level?: Database["public"]["Enums"]["risk_level"]
+          policy_version_ids?: string[]
           previous_level?: Database["public"]["Enums"]["risk_level"] | null
           score?: number
           triggered_by?: string | null
@@ -532,9 +1255,15 @@ export type Database = {
         Row: {
           created_at: string
           current_level: Database["public"]["Enums"]["risk_level"] | null
+          daily_limit_minutes: number | null
+          daily_remaining_minutes: number | null
+          daily_used_minutes: number | null
+          explanation: Json | null
+          factors: Json
           id: string
           last_evaluated_at: string | null
           late_night_factor: number | null
+          raw_score: number | null
           reopen_frequency_factor: number | null
           score: number | null
           scroll_velocity_factor: number | null
@@ -545,9 +1274,15 @@ export type Database = {
         Insert: {
           created_at?: string
           current_level?: Database["public"]["Enums"]["risk_level"] | null
+          daily_limit_minutes?: number | null
+          daily_remaining_minutes?: number | null
+          daily_used_minutes?: number | null
+          explanation?: Json | null
+          factors?: Json
           id?: string
           last_evaluated_at?: string | null
           late_night_factor?: number | null
+          raw_score?: number | null
           reopen_frequency_factor?: number | null
           score?: number | null
           scroll_velocity_factor?: number | null
@@ -558,9 +1293,15 @@ export type Database = {
         Update: {
           created_at?: string
           current_level?: Database["public"]["Enums"]["risk_level"] | null
+          daily_limit_minutes?: number | null
+          daily_remaining_minutes?: number | null
+          daily_used_minutes?: number | null
+          explanation?: Json | null
+          factors?: Json
           id?: string
           last_evaluated_at?: string | null
           late_night_factor?: number | null
+          raw_score?: number | null
           reopen_frequency_factor?: number | null
           score?: number | null
           scroll_velocity_factor?: number | null
@@ -572,6 +1313,8 @@ export type Database = {
       }
       sessions: {
         Row: {
+          app_bundle_id: string | null
+          category: Database["public"]["Enums"]["app_category"] | null
           created_at: string
           device_id: string
           duration_seconds: number | null
@@ -584,6 +1327,8 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          app_bundle_id?: string | null
+          category?: Database["public"]["Enums"]["app_category"] | null
           created_at?: string
           device_id: string
           duration_seconds?: number | null
@@ -596,6 +1341,8 @@ export type Database = {
           user_id: string
         }
         Update: {
+          app_bundle_id?: string | null
+          category?: Database["public"]["Enums"]["app_category"] | null
           created_at?: string
           device_id?: string
           duration_seconds?: number | null
@@ -617,6 +1364,59 @@ export type Database = {
           },
         ]
       }
+      time_extension_requests: {
+        Row: {
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          expires_at: string
+          granted_minutes: number | null
+          id: string
+          intervention_id: string | null
+          reason: string | null
+          requested_minutes: number
+          status: Database["public"]["Enums"]["extension_request_status"]
+          updated_at: string
+          youth_id: string
+        }
+        Insert: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          expires_at: string
+          granted_minutes?: number | null
+          id?: string
+          intervention_id?: string | null
+          reason?: string | null
+          requested_minutes: number
+          status?: Database["public"]["Enums"]["extension_request_status"]
+          updated_at?: string
+          youth_id: string
+        }
+        Update: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          expires_at?: string
+          granted_minutes?: number | null
+          id?: string
+          intervention_id?: string | null
+          reason?: string | null
+          requested_minutes?: number
+          status?: Database["public"]["Enums"]["extension_request_status"]
+          updated_at?: string
+          youth_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_extension_requests_intervention_id_fkey"
+            columns: ["intervention_id"]
+            isOneToOne: false
+            referencedRelation: "interventions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -643,6 +1443,48 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_edit_child_policy: {
+        Args: { _guardian_id: string; _youth_id: string }
+        Returns: boolean
+      }
+      can_view_child_data: {
+        Args: { _guardian_id: string; _scope: string; _youth_id: string }
+        Returns: boolean
+      }
+      claim_agent_jobs: {
+        Args: { _limit?: number; _lock_timeout?: unknown; _worker_id: string }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          status: Database["public"]["Enums"]["job_status"]
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
+      get_child_guardians: {
+        Args: { _youth_id: string }
+        Returns: {
+          guardian_id: string
+          role: Database["public"]["Enums"]["guardian_role"]
+        }[]
+      }
+      get_guardian_children: {
+        Args: { _guardian_id: string }
+        Returns: {
+          role: Database["public"]["Enums"]["guardian_role"]
+          youth_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -650,10 +1492,22 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_household_guardian: {
+        Args: { _household_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_parent_of: {
         Args: { _parent_id: string; _youth_id: string }
         Returns: boolean
       }
+      redeem_invite_code: {
+        Args: { _code: string }
+        Returns: boolean
+      }
+      validate_invite_code: {
+        Args: { _code: string }
+        Returns: string
+      }
     }
     Enums: {
       agent_type:
@@ -661,6 +1515,7 @@ export type Database = {
         | "risk_agent"
         | "intervention_agent"
         | "feedback_agent"
+      app_category: "social" | "games" | "video" | "education" | "other"
       app_role: "admin" | "parent" | "youth" | "adult"
       event_type:
         | "app_open"
@@ -673,19 +1528,28 @@ export type Database = {
         | "reopen"
         | "background"
         | "foreground"
+      extension_request_status: "pending" | "approved" | "denied" | "expired"
+      guardian_invitation_status: "pending" | "accepted" | "revoked" | "expired"
+      guardian_role: "primary" | "secondary" | "view_only"
       intervention_status:
         | "pending"
         | "delivered"
         | "acknowledged"
         | "dismissed"
         | "escalated"
+        | "snoozed"
       intervention_type:
         | "soft_nudge"
         | "medium_friction"
         | "hard_block"
         | "parent_alert"
+      job_status: "queued" | "running" | "succeeded" | "dead" | "cancelled"
+      link_token_status: "pending" | "consumed" | "revoked" | "expired"
+      notification_delivery_status: "pending" | "sent" | "failed" | "skipped"
+      policy_change_type: "create" | "update" | "rollback"
       risk_level: "low" | "medium" | "high" | "critical"
       session_state: "active" | "paused" | "ended"
+      unlink_request_status: "pending" | "cancelled" | "completed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -819,6 +1683,7 @@ export const Constants = {
         "intervention_agent",
         "feedback_agent",
       ],
+      app_category: ["social", "games", "video", "education", "other"],
       app_role: ["admin", "parent", "youth", "adult"],
       event_type: [
         "app_open",
@@ -832,12 +1697,16 @@ export const Constants = {
         "background",
         "foreground",
       ],
+      extension_request_status: ["pending", "approved", "denied", "expired"],
+      guardian_invitation_status: ["pending", "accepted", "revoked", "expired"],
+      guardian_role: ["primary", "secondary", "view_only"],
       intervention_status: [
         "pending",
         "delivered",
         "acknowledged",
         "dismissed",
         "escalated",
+        "snoozed",
       ],
       intervention_type: [
         "soft_nudge",
@@ -845,8 +1714,13 @@ export const Constants = {
         "hard_block",
         "parent_alert",
       ],
+      job_status: ["queued", "running", "succeeded", "dead", "cancelled"],
+      link_token_status: ["pending", "consumed", "revoked", "expired"],
+      notification_delivery_status: ["pending", "sent", "failed", "skipped"],
+      policy_change_type: ["create", "update", "rollback"],
       risk_level: ["low", "medium", "high", "critical"],
       session_state: ["active", "paused", "ended"],
+      unlink_request_status: ["pending", "cancelled", "completed"],
     },
   },
 } as const
@@ -0,0 +1,118 @@
+/**
+ * Family link client
+ *
+ * Wraps the family-link edge function. Parents create a short-lived code
+ * (shown as text and QR); children preview whose code it is, then
+ * confirm with explicit consent.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import type { Tables } from '@/integrations/supabase/types';
+import { buildLinkUrl } from '../../supabase/functions/_shared/linking/tokens.ts';
+import type { SharingScope } from '../../supabase/functions/_shared/linking/majority.ts';
+
+export { LINK_CODE_LENGTH, parseLinkCode } from '../../supabase/functions/_shared/linking/tokens.ts';
+export { UNLINK_COOLING_OFF_DAYS, UNLINK_REASON_MAX_LENGTH } from '../../supabase/functions/_shared/linking/unlink.ts';
+export {
+  DEFAULT_ADULT_SHARED_SCOPES,
+  SHARING_SCOPE_LABELS,
+  SHARING_SCOPES,
+} from '../../supabase/functions/_shared/linking/majority.ts';
+export type { SharingScope } from '../../supabase/functions/_shared/linking/majority.ts';
+
+export interface LinkToken {
+  tokenId: string;
+  code: string;
+  expiresAt: string;
+  /** QR payload; opens the app's /link page */
+  url: string;
+}
+
+export interface LinkParent {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export type FamilyLinkResult<T> = { data: T; error: null } | { data: null; error: string };
+
+async function invoke<T>(body: Record<string, unknown>): Promise<FamilyLinkResult<T>> {
+  const { data, error } = await supabase.functions.invoke('family-link', { body });
+  const message = await getFunctionErrorMessage(error, data);
+
+  return message ? { data: null, error: message } : { data: data as T, error: null };
+}
+
+/**
+ * Whether this device can scan a link QR code (see QrScanner)
+ */
+export const isQrScanningSupported = (): boolean =>
+  'BarcodeDetector' in globalThis && typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * New code for the signed-in parent; any previous one stops working
+ */
+export async function createLinkToken(): Promise<FamilyLinkResult<LinkToken>> {
+  const result = await invoke<{ token_id: string; code: string; expires_at: string }>({ action: 'create' });
+  if (result.error !== null) return { data: null, error: result.error };
+
+  return {
+    data: {
+      tokenId: result.data.token_id,
+      code: result.data.code,
+      expiresAt: result.data.expires_at,
+      url: buildLinkUrl(window.location.origin, result.data.code),
+    },
+    error: null,
+  };
+}
+
+export async function revokeLinkTokens(): Promise<string | null> {
+  return (await invoke({ action: 'revoke' })).error;
+}
+
+/**
+ * Whose code this is, for the child's consent screen
+ */
+export async function previewLinkCode(code: string) {
+  return invoke<{ parent: LinkParent; expires_at: string }>({ action: 'preview', code });
+}
+
+export async function confirmLinkCode(code: string) {
+  return invoke<{ parent: LinkParent }>({ action: 'confirm', code, consent: true });
+}
+
+/**
+ * Start the cooling-off period before a link ends. Children pass the
+ * parent's id, parents the child's.
+ */
+export async function requestUnlink(other: { parentId?: string; youthId?: string }, reason?: string) {
+  return invoke<{ request: Tables<'family_unlink_requests'> }>({
+    action: 'request_unlink',
+    parent_id: other.parentId,
+    youth_id: other.youthId,
+    reason,
+  });
+}
+
+/**
+ * Only the person who asked can cancel, and only before it takes effect
+ */
+export async function cancelUnlink(requestId: string): Promise<string | null> {
+  return (await invoke({ action: 'cancel_unlink', request_id: requestId })).error;
+}
+
+/**
+ * A child sets their own once; primary guardians pass `youthId` to correct it
+ */
+export async function setBirthDate(birthDate: string, youthId?: string): Promise<string | null> {
+  return (await invoke({ action: 'set_birth_date', birth_date: birthDate, youth_id: youthId })).error;
+}
+
+/**
+ * What guardians keep seeing once the signed-in youth is an adult
+ */
+export async function updateSharing(scopes: SharingScope[]): Promise<string | null> {
+  return (await invoke({ action: 'update_sharing', scopes })).error;
+}
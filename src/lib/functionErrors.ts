@@ -0,0 +1,29 @@
+/**
+ * Edge function errors
+ *
+ * `functions.invoke` turns any non-2xx into a generic FunctionsHttpError
+ * and drops the body, so the `{ error }` a function returns (e.g. a 429
+ * rate-limit message) has to be read back from the response.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export async function getFunctionErrorMessage(
+  error: unknown,
+  data?: { success?: boolean; error?: string } | null
+): Promise<string | null> {
+  if (!error) {
+    return data?.success === false ? data.error || 'Request failed' : null;
+  }
+
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await (error.context as Response).json();
+      if (typeof body?.error === 'string') return body.error;
+    } catch {
+      // Not JSON; fall through to the generic message
+    }
+  }
+
+  return error instanceof Error ? error.message : 'Request failed';
+}
@@ -0,0 +1,119 @@
+/**
+ * Typed parent-api v2 client
+ *
+ * One method per route in PARENT_API_ROUTES, typed from the contracts the
+ * edge function validates with. Non-2xx responses throw ParentApiError
+ * with the status and any field issues.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { PARENT_API_ROUTES } from '../../supabase/functions/_shared/parent-api/contracts.ts';
+import type {
+  AcceptInvitationInput,
+  ChildStatsQuery,
+  ExtensionDecision,
+  GuardianInvitationInput,
+  GuardianRole,
+  InterventionsQuery,
+  ParentApiErrorBody,
+  ParentApiResponses,
+  ParentApiRouteName,
+  PolicyUpdate,
+  PolicyVersionsQuery,
+} from '../../supabase/functions/_shared/parent-api/contracts.ts';
+
+export type {
+  ChildRiskState,
+  ChildStats,
+  ChildSummary,
+  GuardianInvitation,
+  GuardianRole,
+  HouseholdGuardian,
+  HouseholdSummary,
+  InterventionItem,
+  InterventionPage,
+  PolicyUpdate,
+  PolicyVersionItem,
+  PolicyVersionPage,
+} from '../../supabase/functions/_shared/parent-api/contracts.ts';
+
+export class ParentApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public issues: ParentApiErrorBody['issues'] = []
+  ) {
+    super(message);
+    this.name = 'ParentApiError';
+  }
+}
+
+interface CallOptions {
+  params?: Record<string, string>;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+const buildPath = (name: ParentApiRouteName, { params = {}, query = {} }: CallOptions): string => {
+  const path = PARENT_API_ROUTES[name].path.replace(/:(\w+)/g, (_, key: string) => encodeURIComponent(params[key]));
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+
+  const queryString = search.toString();
+  return `parent-api${path}${queryString ? `?${queryString}` : ''}`;
+};
+
+async function call<N extends ParentApiRouteName>(name: N, options: CallOptions = {}): Promise<ParentApiResponses[N]> {
+  const { data, error } = await supabase.functions.invoke(buildPath(name, options), {
+    method: PARENT_API_ROUTES[name].method,
+    body: options.body as Record<string, unknown> | undefined,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = error.context as Response;
+      const body: Partial<ParentApiErrorBody> = await response.json().catch(() => ({}));
+      throw new ParentApiError(response.status, body.error || response.statusText, body.issues);
+    }
+    throw new ParentApiError(0, error.message);
+  }
+
+  return data as ParentApiResponses[N];
+}
+
+export const parentApi = {
+  listChildren: () => call('listChildren'),
+
+  getChildStats: (childId: string, query: Partial<ChildStatsQuery> = {}) =>
+    call('getChildStats', { params: { childId }, query }),
+
+  updateChildPolicy: (childId: string, update: PolicyUpdate) =>
+    call('updateChildPolicy', { params: { childId }, body: update }),
+
+  listPolicyVersions: (childId: string, query: PolicyVersionsQuery = {}) =>
+    call('listPolicyVersions', { params: { childId }, query }),
+
+  rollbackPolicy: (childId: string, versionId: string) =>
+    call('rollbackPolicy', { params: { childId, versionId } }),
+
+  listInterventions: (query: InterventionsQuery = {}) =>
+    call('listInterventions', { query }),
+
+  decideExtensionRequest: (requestId: string, decision: ExtensionDecision) =>
+    call('decideExtensionRequest', { params: { requestId }, body: decision }),
+
+  listHouseholds: () => call('listHouseholds'),
+
+  createGuardianInvitation: (householdId: string, invitation: GuardianInvitationInput = {}) =>
+    call('createGuardianInvitation', { params: { householdId }, body: invitation }),
+
+  acceptGuardianInvitation: (input: AcceptInvitationInput) =>
+    call('acceptGuardianInvitation', { body: input }),
+
+  updateGuardianRole: (householdId: string, guardianId: string, role: GuardianRole) =>
+    call('updateGuardianRole', { params: { householdId, guardianId }, body: { role } }),
+};
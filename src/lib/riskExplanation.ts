@@ -0,0 +1,82 @@
+/**
+ * Risk explanation parsing
+ *
+ * risk-agent writes a factor-by-factor explanation to
+ * `risk_states.explanation` and `risk_history.factors`. Older history
+ * rows hold a plain `{ factor_key: points }` map instead.
+ */
+
+export interface FactorExplanation {
+  key: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+  observed: number | null;
+  unit: string | null;
+  threshold: number | string | null;
+  policyField: string | null;
+  policyValue: number | string | null;
+}
+
+export interface RiskExplanation {
+  score: number;
+  rawScore: number;
+  level: 'low' | 'medium' | 'high' | 'critical';
+  factors: FactorExplanation[];
+}
+
+const LEGACY_KEYS: Record<string, string> = {
+  session_duration_factor: 'session_duration',
+  reopen_frequency_factor: 'reopen_frequency',
+  late_night_factor: 'late_night',
+  scroll_velocity_factor: 'scroll_velocity',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumberOrString = (value: unknown): number | string | null =>
+  typeof value === 'number' || typeof value === 'string' ? value : null;
+
+/**
+ * Parse a stored explanation. Returns null for rows written before
+ * explanations existed.
+ */
+export function parseRiskExplanation(json: unknown): RiskExplanation | null {
+  if (!isRecord(json) || !Array.isArray(json.factors)) return null;
+
+  return {
+    score: Number(json.score) || 0,
+    rawScore: Number(json.raw_score ?? json.score) || 0,
+    level: (json.level as RiskExplanation['level']) || 'low',
+    factors: (json.factors as unknown[]).filter(isRecord).map((factor) => ({
+      key: String(factor.key),
+      label: String(factor.label ?? factor.key),
+      points: Number(factor.points) || 0,
+      maxPoints: Number(factor.max_points) || 0,
+      observed: typeof factor.observed === 'number' ? factor.observed : null,
+      unit: typeof factor.unit === 'string' ? factor.unit : null,
+      threshold: toNumberOrString(factor.threshold),
+      policyField: typeof factor.policy_field === 'string' ? factor.policy_field : null,
+      policyValue: toNumberOrString(factor.policy_value),
+    })),
+  };
+}
+
+/**
+ * Points per factor key from any `risk_history.factors` shape
+ */
+export function getFactorPoints(json: unknown): Record<string, number> {
+  const explanation = parseRiskExplanation(json);
+  if (explanation) {
+    return Object.fromEntries(explanation.factors.map((factor) => [factor.key, factor.points]));
+  }
+
+  const points: Record<string, number> = {};
+  if (!isRecord(json)) return points;
+
+  for (const [key, value] of Object.entries(json)) {
+    points[LEGACY_KEYS[key] || key] = Number(value) || 0;
+  }
+  return points;
+}
@@ -232,6 +232,8 @@ export class BehavioralEngineSDK {
         platform: this.config.deviceInfo.platform,
         session_id: this.currentSession?.sessionId,
         screen_name: metadata.screenName,
+        app_bundle_id: metadata.appBundleId,
+        category: metadata.category,
         event_data: {
           velocity: metadata.velocity || metadata.scrollVelocity,
           element: metadata.element,
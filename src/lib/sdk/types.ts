@@ -41,6 +41,10 @@ export interface EventMetadata {
   scrollVelocity?: number;
   element?: string;
   duration?: number;
+  /** App the event came from, e.g. `com.example.chat` */
+  appBundleId?: string;
+  /** App category: `social`, `games`, `video`, `education` or `other` */
+  category?: string;
   [key: string]: unknown;
 }
 
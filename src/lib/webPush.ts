@@ -0,0 +1,74 @@
+/**
+ * Browser push subscriptions
+ *
+ * Registers /sw.js, subscribes with the VAPID public key and stores the
+ * subscription in `push_subscriptions` for notification-dispatcher.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  !!VAPID_PUBLIC_KEY;
+
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+/**
+ * Ask for permission and save this browser's subscription.
+ * Resolves to false if push is unsupported or permission was denied.
+ */
+export async function subscribeToPush(userId: string): Promise<boolean> {
+  if (!isPushSupported()) return false;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return false;
+
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const json = subscription.toJSON();
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: json.keys?.p256dh || '',
+      auth: json.keys?.auth || '',
+      user_agent: navigator.userAgent,
+    }, { onConflict: 'endpoint' });
+
+  if (error) {
+    console.error('Failed to save push subscription:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Remove this browser's subscription
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  await subscription.unsubscribe();
+}
@@ -32,13 +32,12 @@ export default function Auth() {
 
     setValidatingCode(true);
 
-    const { data, error } = await supabase
-      .from('invite_codes')
-      .select('id, code, expires_at, used_by')
-      .eq('code', inviteCode.trim().toUpperCase())
-      .maybeSingle();
+    // Codes aren't readable before sign-in; this checks just the one entered
+    const { data: status, error } = await supabase.rpc('validate_invite_code', {
+      _code: inviteCode,
+    });
 
-    if (error || !data) {
+    if (error || status === 'not_found') {
       toast({
         variant: "destructive",
         title: "Invalid code",
@@ -49,7 +48,7 @@ export default function Auth() {
     }
 
     // Check if already used
-    if (data.used_by) {
+    if (status === 'used') {
       toast({
         variant: "destructive",
         title: "Code already used",
@@ -60,7 +59,7 @@ export default function Auth() {
     }
 
     // Check if expired
-    if (new Date(data.expires_at) < new Date()) {
+    if (status === 'expired') {
       toast({
         variant: "destructive",
         title: "Code expired",
@@ -112,13 +111,7 @@ export default function Auth() {
     
     if (data.session && data.user) {
       // Mark invite code as used
-      await supabase
-        .from('invite_codes')
-        .update({ 
-          used_by: data.user.id, 
-          used_at: new Date().toISOString() 
-        })
-        .eq('code', inviteCode.trim().toUpperCase());
+      await supabase.rpc('redeem_invite_code', { _code: inviteCode });
 
       // Save token to SDK's TokenManager
       await SDK.auth.setToken(data.session.access_token, data.user.id);
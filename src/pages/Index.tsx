@@ -10,6 +10,7 @@ import { useUserRole } from '@/hooks/useUserRole';
 import { useRiskState } from '@/hooks/useRiskState';
 import { useCurrentSession } from '@/hooks/useCurrentSession';
 import { RiskRing } from '@/components/RiskRing';
+import { RiskExplanationPanel } from '@/components/RiskExplanationPanel';
 import { SessionTimer } from '@/components/SessionTimer';
 import { UsageStats } from '@/components/UsageStats';
 import { PullToRefresh } from '@/components/PullToRefresh';
@@ -130,11 +131,19 @@ export default function Index() {
           {riskLoading ? (
             <Skeleton className="h-[200px] w-[200px] rounded-full" />
           ) : riskState ? (
-            <RiskRing 
-              score={riskState.score} 
-              level={riskState.level}
-              size={200}
-            />
+            <>
+              <RiskRing 
+                score={riskState.score} 
+                level={riskState.level}
+                size={200}
+              />
+              <RiskExplanationPanel
+                explanation={riskState.explanation}
+                level={riskState.level}
+                defaultOpen={riskState.level === 'critical'}
+                className="mt-4 max-w-sm"
+              />
+            </>
           ) : (
             <RiskRing score={0} level="low" size={200} />
           )}
@@ -144,7 +153,10 @@ export default function Index() {
             {sessionLoading ? (
               <Skeleton className="h-6 w-32" />
             ) : (
-              <SessionTimer startedAt={session?.startedAt || null} />
+              <SessionTimer
+                startedAt={session?.startedAt || null}
+                dailyBudget={riskState?.dailyBudget}
+              />
             )}
           </div>
 
@@ -178,7 +190,7 @@ export default function Index() {
               ))}
             </div>
           ) : riskState ? (
-            <UsageStats factors={riskState.factors} />
+            <UsageStats factors={riskState.factors} dailyBudget={riskState.dailyBudget} />
           ) : (
             <UsageStats factors={{ sessionDuration: 0, reopenFrequency: 0, lateNight: 0, scrollVelocity: 0 }} />
           )}
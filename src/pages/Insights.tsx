@@ -317,6 +317,46 @@ export default function Insights() {
               </CardContent>
             </Card>
 
+            {/* Screen Time by Category */}
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle className="text-base">Screen Time by App Category</CardTitle>
+                <CardDescription>
+                  Minutes over the period; apps that don't report a category count as Other
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <Skeleton className="h-48 w-full" />
+                ) : data?.categoryBreakdown && data.categoryBreakdown.length > 0 ? (
+                  <ResponsiveContainer width="100%" height={200}>
+                    <BarChart data={data.categoryBreakdown} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis type="number" className="text-xs" />
+                      <YAxis type="category" dataKey="label" width={80} className="text-xs" />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '8px',
+                        }}
+                      />
+                      <Bar
+                        dataKey="minutes"
+                        name="Minutes"
+                        fill="hsl(var(--primary))"
+                        radius={[0, 4, 4, 0]}
+                      />
+                    </BarChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="h-48 flex items-center justify-center text-muted-foreground">
+                    No screen time recorded yet
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Avg Risk per Day */}
             <Card className="mt-4">
               <CardHeader>
@@ -0,0 +1,76 @@
+/**
+ * Link Family
+ * Where a parent's QR code points (`/link?code=...`). Children confirm
+ * the link here; anyone not onboarded yet is sent through onboarding
+ * with the code kept.
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FamilyLinkConsent } from '@/components/FamilyLinkConsent';
+
+type LinkViewer = 'loading' | 'youth' | 'other';
+
+export default function LinkFamily() {
+  const [viewer, setViewer] = useState<LinkViewer>('loading');
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const code = searchParams.get('code');
+
+  useEffect(() => {
+    const checkUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate('/auth');
+        return;
+      }
+
+      const { data: roleData } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!roleData) {
+        navigate(`/onboarding${code ? `?code=${encodeURIComponent(code)}` : ''}`);
+        return;
+      }
+
+      setViewer(roleData.role === 'youth' ? 'youth' : 'other');
+    };
+
+    checkUser();
+  }, [navigate, code]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 flex items-center justify-center p-4 pt-safe pb-safe">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 rounded-full bg-primary/10 w-fit">
+            <Users className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle>Join Your Family</CardTitle>
+          <CardDescription>
+            {viewer === 'other'
+              ? 'Open this code on your child\'s device to link it'
+              : 'Check who you\'re linking with before you agree'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {viewer === 'youth' && (
+            <FamilyLinkConsent initialCode={code} onLinked={() => navigate('/')} />
+          )}
+          {viewer !== 'loading' && (
+            <Button variant="ghost" className="w-full text-muted-foreground" onClick={() => navigate('/')}>
+              Cancel
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -105,6 +105,8 @@ export default function MobileApp() {
     const velocity = Math.floor(Math.random() * 2000 + 500);
     addLog(`📜 Scroll event: velocity=${velocity}`);
     await SDK.events.trackScroll(velocity, 'mobile_home');
+    // Send the summary now rather than waiting out the window
+    await SDK.events.flushScroll();
     setTimeout(refreshState, 200);
   };
 
@@ -224,28 +226,21 @@ export default function MobileApp() {
             <CardHeader className="pb-2">
               <CardTitle className="text-base flex items-center justify-between">
                 Risk Score
-                <span className="text-2xl font-bold">{riskState.score}</span>
+                <span className="flex items-baseline gap-2">
+                  <span className="text-2xl font-bold">{riskState.score}</span>
+                  <span className="text-xs text-muted-foreground">raw {riskState.rawScore}</span>
+                </span>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <Progress value={riskState.score} className="h-2 mb-3" />
               <div className="grid grid-cols-2 gap-2 text-xs">
-                <div className="bg-muted rounded p-2">
-                  <div className="text-muted-foreground">Session</div>
-                  <div className="font-medium">{riskState.factors?.sessionDuration || 0}</div>
-                </div>
-                <div className="bg-muted rounded p-2">
-                  <div className="text-muted-foreground">Reopens</div>
-                  <div className="font-medium">{riskState.factors?.reopenFrequency || 0}</div>
-                </div>
-                <div className="bg-muted rounded p-2">
-                  <div className="text-muted-foreground">Scroll</div>
-                  <div className="font-medium">{riskState.factors?.scrollVelocity || 0}</div>
-                </div>
-                <div className="bg-muted rounded p-2">
-                  <div className="text-muted-foreground">Late Night</div>
-                  <div className="font-medium">{riskState.factors?.lateNight || 0}</div>
-                </div>
+                {Object.entries(riskState.factors || {}).map(([key, value]) => (
+                  <div key={key} className="bg-muted rounded p-2">
+                    <div className="text-muted-foreground">{SDK.risk.getFactorLabel(key)}</div>
+                    <div className="font-medium">{value || 0}</div>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
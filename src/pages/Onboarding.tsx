@@ -4,13 +4,15 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { FamilyLinkCard } from '@/components/FamilyLinkCard';
+import { FamilyLinkConsent } from '@/components/FamilyLinkConsent';
 import { Users, User, Shield, Heart } from 'lucide-react';
 
 type OnboardingStep = 'role' | 'profile' | 'family' | 'complete';
@@ -20,12 +22,13 @@ export default function Onboarding() {
   const [step, setStep] = useState<OnboardingStep>('role');
   const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
   const [displayName, setDisplayName] = useState('');
-  const [familyCode, setFamilyCode] = useState('');
-  const [generatedCode, setGeneratedCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   
   const navigate = useNavigate();
+  // Set when a child opened a parent's QR link before signing up
+  const [searchParams] = useSearchParams();
+  const linkCode = searchParams.get('code');
   const { toast } = useToast();
 
   useEffect(() => {
@@ -110,24 +113,6 @@ export default function Onboarding() {
       }
 
       // Move to family setup for parent/youth
-      if (selectedRole === 'parent') {
-        // Generate and store invite code in database
-        const code = generateFamilyCode();
-        
-        const { error: codeError } = await supabase
-          .from('invite_codes')
-          .insert({
-            code: code,
-            created_by: userId,
-          });
-
-        if (codeError) {
-          console.error('Failed to create invite code:', codeError);
-        }
-        
-        setGeneratedCode(code);
-      }
-      
       setStep('family');
       
     } catch (error: any) {
@@ -141,78 +126,6 @@ export default function Onboarding() {
     }
   };
 
-  const generateFamilyCode = () => {
-    // Generate a 6-character alphanumeric code
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    let code = '';
-    for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
-  };
-
-  const handleFamilyLink = async () => {
-    if (!userId || !familyCode) return;
-    
-    setLoading(true);
-    
-    try {
-      // Find the invite code in the database
-      const { data: inviteCode, error: codeError } = await supabase
-        .from('invite_codes')
-        .select('id, created_by, used_by, expires_at')
-        .eq('code', familyCode.toUpperCase())
-        .maybeSingle();
-
-      if (codeError || !inviteCode) {
-        throw new Error('Invalid family code. Please check and try again.');
-      }
-
-      if (inviteCode.used_by) {
-        throw new Error('This code has already been used.');
-      }
-
-      if (new Date(inviteCode.expires_at) < new Date()) {
-        throw new Error('This code has expired. Ask your parent for a new one.');
-      }
-
-      const parentId = inviteCode.created_by;
-
-      // Create family link
-      const { error: linkError } = await supabase
-        .from('family_links')
-        .insert({
-          parent_id: parentId,
-          youth_id: userId,
-          is_active: true,
-        });
-
-      if (linkError) throw linkError;
-
-      // Mark code as used
-      await supabase
-        .from('invite_codes')
-        .update({ used_by: userId, used_at: new Date().toISOString() })
-        .eq('id', inviteCode.id);
-
-      toast({
-        title: 'Family connected!',
-        description: 'You are now linked to your parent.',
-      });
-
-      setStep('complete');
-      
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Link failed',
-        description: error.message,
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleComplete = () => {
     if (selectedRole === 'parent') {
       navigate('/parent');
@@ -358,49 +271,20 @@ export default function Onboarding() {
               </CardTitle>
               <CardDescription>
                 {selectedRole === 'parent'
-                  ? 'Share this code with your child to connect'
-                  : 'Enter the code your parent gave you'}
+                  ? 'Show your child this code or QR to connect'
+                  : 'Scan or enter the code your parent shows you'}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {selectedRole === 'parent' ? (
                 <>
-                  <div className="bg-muted rounded-xl p-6 text-center">
-                    <p className="text-sm text-muted-foreground mb-2">Your Family Code</p>
-                    <p className="text-4xl font-mono font-bold tracking-widest text-primary">
-                      {generatedCode}
-                    </p>
-                  </div>
-                  <p className="text-sm text-muted-foreground text-center">
-                    Your child will enter this code in their app to connect with you.
-                  </p>
+                  {userId && <FamilyLinkCard parentId={userId} onLinked={() => setStep('complete')} />}
+                  <Button onClick={handleComplete} className="w-full">
+                    Continue to Dashboard
+                  </Button>
                 </>
               ) : (
-                <div className="space-y-2">
-                  <Label htmlFor="familyCode">Family Code</Label>
-                  <Input
-                    id="familyCode"
-                    placeholder="Enter 6-letter code"
-                    value={familyCode}
-                    onChange={(e) => setFamilyCode(e.target.value.toUpperCase())}
-                    maxLength={6}
-                    className="text-center text-2xl font-mono tracking-widest"
-                  />
-                </div>
-              )}
-              
-              {selectedRole === 'parent' ? (
-                <Button onClick={handleComplete} className="w-full">
-                  Continue to Dashboard
-                </Button>
-              ) : (
-                <Button 
-                  onClick={handleFamilyLink} 
-                  className="w-full"
-                  disabled={loading || familyCode.length !== 6}
-                >
-                  {loading ? 'Connecting...' : 'Connect to Parent'}
-                </Button>
+                <FamilyLinkConsent initialCode={linkCode} onLinked={() => setStep('complete')} />
               )}
               
               <Button
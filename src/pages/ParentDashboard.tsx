@@ -6,33 +6,62 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Users, Shield, Clock, Activity, Bell, LogOut, RefreshCw, 
-  AlertTriangle, CheckCircle, XCircle, Eye, Settings, Copy, Plus
+  AlertTriangle, CheckCircle, XCircle, Eye, Settings, Inbox, CalendarDays, History
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { parseRiskExplanation } from '@/lib/riskExplanation';
+import type { RiskExplanation } from '@/lib/riskExplanation';
+import { RiskExplanationPanel } from '@/components/RiskExplanationPanel';
+import { NotificationInbox } from '@/components/NotificationInbox';
+import { useNotifications } from '@/hooks/useNotifications';
+import { ExtensionRequestCard } from '@/components/ExtensionRequestCard';
+import { useExtensionRequests } from '@/hooks/useExtensionRequests';
+import { HouseholdCard } from '@/components/HouseholdCard';
+import { FamilyLinkCard } from '@/components/FamilyLinkCard';
+import { useHouseholds } from '@/hooks/useHouseholds';
+import { UnlinkControl } from '@/components/UnlinkControl';
+import { useUnlinkRequests } from '@/hooks/useUnlinkRequests';
+import type { GuardianRole } from '@/lib/parentApi';
+import { parentApi } from '@/lib/parentApi';
+import { PolicyScheduleEditor } from '@/components/PolicyScheduleEditor';
+import { PolicyHistoryCard } from '@/components/PolicyHistoryCard';
+import {
+  resolveScheduleExceptions,
+  resolveSchedules,
+} from '../../supabase/functions/_shared/risk/schedules.ts';
+import type { PolicySchedule, ScheduleException } from '../../supabase/functions/_shared/risk/types.ts';
 
 interface ChildData {
   id: string;
   displayName: string;
-  riskLevel: string;
+  /** Null when an adult child doesn't share their risk */
+  riskLevel: string | null;
   riskScore: number;
   lastActive: string;
-  sessionCount: number;
-  interventionCount: number;
+  sessionCount: number | null;
+  interventionCount: number | null;
+  isAdult: boolean;
+  directLink: boolean;
+  /** View-only guardians and adult children's policies are read-only */
+  canEditPolicy: boolean;
   factors: {
     sessionDuration: number;
     reopenFrequency: number;
     lateNight: number;
     scrollVelocity: number;
   };
+  explanation: RiskExplanation | null;
 }
 
 interface InterventionHistory {
@@ -43,6 +72,9 @@ interface InterventionHistory {
   title: string;
   createdAt: string;
   riskLevel: string;
+  escalatedAt: string | null;
+  /** Set when this intervention replaced an ignored one */
+  escalatedFrom: string | null;
 }
 
 interface PolicySettings {
@@ -53,145 +85,91 @@ interface PolicySettings {
   dailyLimitMinutes: number | null;
   bedtimeStart: string | null;
   bedtimeEnd: string | null;
+  targetUserId: string | null;
+  currentVersionId: string | null;
+  schedules: PolicySchedule[];
+  scheduleExceptions: ScheduleException[];
 }
 
+const HISTORY_PAGE_SIZE = 20;
+
 export default function ParentDashboard() {
   const [children, setChildren] = useState<ChildData[]>([]);
   const [interventions, setInterventions] = useState<InterventionHistory[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false);
   const [policies, setPolicies] = useState<PolicySettings[]>([]);
   const [loading, setLoading] = useState(true);
-  const [familyCode, setFamilyCode] = useState('');
   const [parentId, setParentId] = useState<string | null>(null);
   const [parentName, setParentName] = useState('Parent');
   const [activeTab, setActiveTab] = useState('overview');
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(parentId);
+  const { requests: extensionRequests, decide: decideExtension } = useExtensionRequests(parentId);
+  const { households, createInvitation, acceptInvitation, updateRole } = useHouseholds(parentId);
+  const { requests: unlinkRequests } = useUnlinkRequests(parentId);
+  const [invitationCode, setInvitationCode] = useState('');
   
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const loadChildrenData = useCallback(async (parentIdParam: string) => {
+  const loadChildrenData = useCallback(async () => {
     try {
-      // Get linked children
-      const { data: links } = await supabase
-        .from('family_links')
-        .select('youth_id')
-        .eq('parent_id', parentIdParam)
-        .eq('is_active', true);
-
-      if (!links || links.length === 0) {
-        setChildren([]);
-        return;
-      }
-
-      const childrenData: ChildData[] = [];
-
-      for (const link of links) {
-        // Get child profile
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('display_name')
-          .eq('user_id', link.youth_id)
-          .maybeSingle();
-
-        // Get child risk state
-        const { data: riskState } = await supabase
-          .from('risk_states')
-          .select('*')
-          .eq('user_id', link.youth_id)
-          .maybeSingle();
-
-        // Get session count (today)
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        const { count: sessionCount } = await supabase
-          .from('sessions')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', link.youth_id)
-          .gte('started_at', today.toISOString());
-
-        // Get intervention count (today)
-        const { count: interventionCount } = await supabase
-          .from('interventions')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', link.youth_id)
-          .gte('created_at', today.toISOString());
-
-        childrenData.push({
-          id: link.youth_id,
-          displayName: profile?.display_name || 'Child',
-          riskLevel: riskState?.current_level || 'low',
-          riskScore: riskState?.score || 0,
-          lastActive: riskState?.updated_at || 'Never',
-          sessionCount: sessionCount || 0,
-          interventionCount: interventionCount || 0,
-          factors: {
-            sessionDuration: riskState?.session_duration_factor || 0,
-            reopenFrequency: riskState?.reopen_frequency_factor || 0,
-            lateNight: riskState?.late_night_factor || 0,
-            scrollVelocity: riskState?.scroll_velocity_factor || 0,
-          },
-        });
-      }
-
-      setChildren(childrenData);
+      const { children: linked } = await parentApi.listChildren();
+
+      setChildren(linked.map(child => ({
+        id: child.id,
+        displayName: child.display_name || 'Child',
+        riskLevel: child.risk_state?.current_level ?? null,
+        riskScore: child.risk_state?.score ?? 0,
+        lastActive: child.risk_state?.updated_at || 'Never',
+        sessionCount: child.today.session_count,
+        interventionCount: child.today.intervention_count,
+        isAdult: Boolean(child.sharing?.adult_since),
+        directLink: child.direct_link,
+        canEditPolicy: child.role !== 'view_only' && !child.sharing?.adult_since,
+        factors: {
+          sessionDuration: child.risk_state?.session_duration_factor ?? 0,
+          reopenFrequency: child.risk_state?.reopen_frequency_factor ?? 0,
+          lateNight: child.risk_state?.late_night_factor ?? 0,
+          scrollVelocity: child.risk_state?.scroll_velocity_factor ?? 0,
+        },
+        explanation: parseRiskExplanation(child.risk_state?.explanation),
+      })));
     } catch (error) {
       console.error('Failed to load children data:', error);
     }
   }, []);
 
-  const loadInterventionHistory = useCallback(async (parentIdParam: string) => {
+  const loadInterventionHistory = useCallback(async (cursor?: string) => {
     try {
-      // Get linked youth IDs first
-      const { data: links } = await supabase
-        .from('family_links')
-        .select('youth_id')
-        .eq('parent_id', parentIdParam)
-        .eq('is_active', true);
-
-      if (!links || links.length === 0) {
-        setInterventions([]);
-        return;
-      }
-
-      const youthIds = links.map(l => l.youth_id);
-
-      // Get interventions for all linked youth
-      const { data: interventionData } = await supabase
-        .from('interventions')
-        .select('*, profiles!interventions_user_id_fkey(display_name)')
-        .in('user_id', youthIds)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (interventionData) {
-        // Need to fetch profiles separately due to RLS
-        const interventionsWithNames: InterventionHistory[] = [];
-        
-        for (const int of interventionData) {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('display_name')
-            .eq('user_id', int.user_id)
-            .maybeSingle();
-
-          interventionsWithNames.push({
-            id: int.id,
-            youthName: profile?.display_name || 'Child',
-            type: int.type,
-            status: int.status,
-            title: int.title,
-            createdAt: int.created_at,
-            riskLevel: int.risk_level_at_trigger,
-          });
-        }
-
-        setInterventions(interventionsWithNames);
-      }
+      const page = await parentApi.listInterventions({ limit: HISTORY_PAGE_SIZE, cursor });
+
+      const items: InterventionHistory[] = page.interventions.map(int => ({
+        id: int.id,
+        youthName: int.child_name || 'Child',
+        type: int.type,
+        status: int.status,
+        title: int.title,
+        createdAt: int.created_at,
+        riskLevel: int.risk_level,
+        escalatedAt: int.escalated_at,
+        escalatedFrom: int.escalated_from,
+      }));
+
+      setInterventions(prev => (cursor ? [...prev, ...items] : items));
+      setHistoryCursor(page.next_cursor);
     } catch (error) {
       console.error('Failed to load intervention history:', error);
     }
   }, []);
 
+  const loadMoreHistory = async () => {
+    if (!historyCursor) return;
+    setLoadingMoreHistory(true);
+    await loadInterventionHistory(historyCursor);
+    setLoadingMoreHistory(false);
+  };
+
   const loadPolicies = useCallback(async (parentIdParam: string) => {
     try {
       const { data } = await supabase
@@ -208,6 +186,10 @@ export default function ParentDashboard() {
           dailyLimitMinutes: p.daily_limit_minutes,
           bedtimeStart: p.bedtime_start,
           bedtimeEnd: p.bedtime_end,
+          targetUserId: p.target_user_id,
+          currentVersionId: p.current_version_id,
+          schedules: resolveSchedules(p.schedules),
+          scheduleExceptions: resolveScheduleExceptions(p.schedule_exceptions),
         })));
       }
     } catch (error) {
@@ -250,22 +232,9 @@ export default function ParentDashboard() {
       setParentName(profile.display_name);
     }
 
-    // Get family code from database
-    const { data: inviteCode } = await supabase
-      .from('invite_codes')
-      .select('code')
-      .eq('created_by', user.id)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (inviteCode?.code) {
-      setFamilyCode(inviteCode.code);
-    }
-
     await Promise.all([
-      loadChildrenData(user.id),
-      loadInterventionHistory(user.id),
+      loadChildrenData(),
+      loadInterventionHistory(),
       loadPolicies(user.id),
     ]);
 
@@ -309,6 +278,7 @@ export default function ParentDashboard() {
                     lateNight: data.late_night_factor || 0,
                     scrollVelocity: data.scroll_velocity_factor || 0,
                   },
+                  explanation: parseRiskExplanation(data.explanation),
                 };
               }
               return child;
@@ -346,12 +316,14 @@ export default function ParentDashboard() {
               title: data.title,
               createdAt: data.created_at,
               riskLevel: data.risk_level_at_trigger,
+              escalatedAt: data.escalated_at,
+              escalatedFrom: data.escalated_from,
             };
 
-            setInterventions(prev => [newIntervention, ...prev.slice(0, 19)]);
+            setInterventions(prev => [newIntervention, ...prev]);
 
-            // Show toast for high-risk interventions
-            if (data.risk_level_at_trigger === 'high' || data.risk_level_at_trigger === 'critical') {
+            // Show toast for high-risk and escalated interventions
+            if (data.escalated_from || data.risk_level_at_trigger === 'high' || data.risk_level_at_trigger === 'critical') {
               toast({
                 title: `Alert: ${profile?.display_name || 'Your child'}`,
                 description: data.title,
@@ -361,6 +333,28 @@ export default function ParentDashboard() {
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'interventions',
+        },
+        (payload) => {
+          const data = payload.new as Pick<
+            Tables<'interventions'>,
+            'id' | 'user_id' | 'status' | 'escalated_at' | 'escalated_from'
+          >;
+          if (data && youthIds.includes(data.user_id)) {
+            // Status changes, e.g. an ignored intervention being escalated
+            setInterventions(prev => prev.map(int =>
+              int.id === data.id
+                ? { ...int, status: data.status, escalatedAt: data.escalated_at, escalatedFrom: data.escalated_from }
+                : int
+            ));
+          }
+        }
+      )
       .subscribe();
 
     return () => {
@@ -369,25 +363,43 @@ export default function ParentDashboard() {
     };
   }, [parentId, children, toast]);
 
-  const generateNewCode = async () => {
-    if (!parentId) return;
+  const handleExtensionDecision = async (id: string, decision: 'approve' | 'deny', grantedMinutes?: number) => {
+    const error = await decideExtension(id, decision, grantedMinutes);
 
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    let code = '';
-    for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
+    if (error) {
+      toast({ title: 'Could not update request', description: error, variant: 'destructive' });
+    } else {
+      toast({ title: decision === 'approve' ? `Approved ${grantedMinutes} more minutes` : 'Request denied' });
     }
+  };
 
-    const { error } = await supabase
-      .from('invite_codes')
-      .insert({
-        code,
-        created_by: parentId,
-      });
+  const handleInvite = async (householdId: string, role: Exclude<GuardianRole, 'primary'>) => {
+    const error = await createInvitation(householdId, role);
 
-    if (!error) {
-      setFamilyCode(code);
-      toast({ title: 'New code generated!', description: code });
+    if (error) {
+      toast({ title: 'Could not create invitation', description: error, variant: 'destructive' });
+    } else {
+      toast({ title: 'Invitation created', description: 'Share the code with the other guardian' });
+    }
+  };
+
+  const handleRoleChange = async (householdId: string, guardianId: string, role: GuardianRole) => {
+    const error = await updateRole(householdId, guardianId, role);
+
+    if (error) {
+      toast({ title: 'Could not change role', description: error, variant: 'destructive' });
+    }
+  };
+
+  const handleAcceptInvitation = async () => {
+    const error = await acceptInvitation(invitationCode);
+
+    if (error) {
+      toast({ title: 'Could not join household', description: error, variant: 'destructive' });
+    } else {
+      setInvitationCode('');
+      toast({ title: 'Joined household' });
+      loadChildrenData();
     }
   };
 
@@ -493,15 +505,26 @@ export default function ParentDashboard() {
       <main className="max-w-4xl mx-auto p-4 space-y-6 pb-safe">
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">
               <Eye className="h-4 w-4 mr-2" />
               Overview
             </TabsTrigger>
+            <TabsTrigger value="inbox">
+              <Inbox className="h-4 w-4 mr-2" />
+              Inbox
+              {unreadCount > 0 && (
+                <Badge variant="destructive" className="ml-2 h-5 px-1.5 text-xs">{unreadCount}</Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger value="history">
               <Bell className="h-4 w-4 mr-2" />
               History
             </TabsTrigger>
+            <TabsTrigger value="schedules">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Schedules
+            </TabsTrigger>
             <TabsTrigger value="settings">
               <Settings className="h-4 w-4 mr-2" />
               Settings
@@ -510,48 +533,22 @@ export default function ParentDashboard() {
 
           {/* Overview Tab */}
           <TabsContent value="overview" className="space-y-6 mt-6">
-            {/* Family Code Card */}
-            <Card className="border-dashed">
-              <CardContent className="py-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 rounded-lg bg-primary/10">
-                      <Users className="h-5 w-5 text-primary" />
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground">Your Family Code</p>
-                      {familyCode ? (
-                        <p className="font-mono font-bold text-lg tracking-widest">{familyCode}</p>
-                      ) : (
-                        <p className="text-muted-foreground">No code generated</p>
-                      )}
-                    </div>
-                  </div>
-                  <div className="flex gap-2">
-                    {familyCode && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          navigator.clipboard.writeText(familyCode);
-                          toast({ title: 'Code copied!' });
-                        }}
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    )}
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={generateNewCode}
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      New
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {/* Time Extension Requests */}
+            {extensionRequests.length > 0 && (
+              <div className="space-y-3">
+                {extensionRequests.map(request => (
+                  <ExtensionRequestCard
+                    key={request.id}
+                    request={request}
+                    childName={children.find(c => c.id === request.youthId)?.displayName || 'Your child'}
+                    onDecide={handleExtensionDecision}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Link a child with a one-time code / QR */}
+            {parentId && <FamilyLinkCard parentId={parentId} onLinked={loadChildrenData} />}
 
             {/* Children Cards */}
             <div className="space-y-4">
@@ -568,19 +565,14 @@ export default function ParentDashboard() {
                   <CardContent className="py-12 text-center">
                     <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                     <h3 className="font-semibold mb-2">No Children Linked Yet</h3>
-                    <p className="text-muted-foreground text-sm mb-4">
-                      Share your family code with your child to get started.
+                    <p className="text-muted-foreground text-sm">
+                      Show your child a link code above to get started.
                     </p>
-                    {familyCode && (
-                      <div className="bg-muted rounded-lg p-4 inline-block">
-                        <p className="text-2xl font-mono font-bold tracking-widest">{familyCode}</p>
-                      </div>
-                    )}
                   </CardContent>
                 </Card>
               ) : (
                 children.map((child) => (
-                  <Card key={child.id} className={cn('border-2 transition-all', getRiskBgColor(child.riskLevel))}>
+                  <Card key={child.id} className={cn('border-2 transition-all', child.riskLevel && getRiskBgColor(child.riskLevel))}>
                     <CardHeader className="pb-2">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
@@ -596,40 +588,58 @@ export default function ParentDashboard() {
                             </CardDescription>
                           </div>
                         </div>
-                        <Badge className={cn('text-sm', getRiskColor(child.riskLevel))}>
-                          {child.riskLevel.toUpperCase()}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          {child.isAdult && <Badge variant="outline">Adult</Badge>}
+                          {child.riskLevel && (
+                            <Badge className={cn('text-sm', getRiskColor(child.riskLevel))}>
+                              {child.riskLevel.toUpperCase()}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      {/* Risk Score Bar */}
-                      <div>
-                        <div className="flex justify-between text-sm mb-1">
-                          <span className="text-muted-foreground">Risk Score</span>
-                          <span className="font-semibold">{Math.round(child.riskScore)}/100</span>
-                        </div>
-                        <Progress value={child.riskScore} className="h-2" />
-                      </div>
+                      {child.riskLevel ? (
+                        <>
+                          {/* Risk Score Bar */}
+                          <div>
+                            <div className="flex justify-between text-sm mb-1">
+                              <span className="text-muted-foreground">Risk Score</span>
+                              <span className="font-semibold">{Math.round(child.riskScore)}/100</span>
+                            </div>
+                            <Progress value={child.riskScore} className="h-2" />
+                          </div>
 
-                      {/* Factors Grid */}
-                      <div className="grid grid-cols-4 gap-2 text-center">
-                        <div className="bg-background/50 rounded-lg p-2">
-                          <div className="text-lg font-bold">{Math.round(child.factors.sessionDuration)}</div>
-                          <div className="text-xs text-muted-foreground">Session</div>
-                        </div>
-                        <div className="bg-background/50 rounded-lg p-2">
-                          <div className="text-lg font-bold">{Math.round(child.factors.reopenFrequency)}</div>
-                          <div className="text-xs text-muted-foreground">Reopens</div>
-                        </div>
-                        <div className="bg-background/50 rounded-lg p-2">
-                          <div className="text-lg font-bold">{Math.round(child.factors.scrollVelocity)}</div>
-                          <div className="text-xs text-muted-foreground">Scroll</div>
-                        </div>
-                        <div className="bg-background/50 rounded-lg p-2">
-                          <div className="text-lg font-bold">{Math.round(child.factors.lateNight)}</div>
-                          <div className="text-xs text-muted-foreground">Late</div>
-                        </div>
-                      </div>
+                          {/* Factors Grid */}
+                          <div className="grid grid-cols-4 gap-2 text-center">
+                            <div className="bg-background/50 rounded-lg p-2">
+                              <div className="text-lg font-bold">{Math.round(child.factors.sessionDuration)}</div>
+                              <div className="text-xs text-muted-foreground">Session</div>
+                            </div>
+                            <div className="bg-background/50 rounded-lg p-2">
+                              <div className="text-lg font-bold">{Math.round(child.factors.reopenFrequency)}</div>
+                              <div className="text-xs text-muted-foreground">Reopens</div>
+                            </div>
+                            <div className="bg-background/50 rounded-lg p-2">
+                              <div className="text-lg font-bold">{Math.round(child.factors.scrollVelocity)}</div>
+                              <div className="text-xs text-muted-foreground">Scroll</div>
+                            </div>
+                            <div className="bg-background/50 rounded-lg p-2">
+                              <div className="text-lg font-bold">{Math.round(child.factors.lateNight)}</div>
+                              <div className="text-xs text-muted-foreground">Late</div>
+                            </div>
+                          </div>
+
+                          <RiskExplanationPanel
+                            explanation={child.explanation}
+                            level={child.riskLevel as RiskExplanation['level']}
+                          />
+                        </>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {child.displayName} manages their own limits and doesn't share their risk level.
+                        </p>
+                      )}
 
                       {/* Stats Grid */}
                       <div className="grid grid-cols-2 gap-3">
@@ -638,14 +648,14 @@ export default function ParentDashboard() {
                             <Clock className="h-4 w-4" />
                             Sessions Today
                           </div>
-                          <p className="text-2xl font-bold">{child.sessionCount}</p>
+                          <p className="text-2xl font-bold">{child.sessionCount ?? '—'}</p>
                         </div>
                         <div className="bg-background rounded-lg p-3 border">
                           <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
                             <Bell className="h-4 w-4" />
                             Nudges Today
                           </div>
-                          <p className="text-2xl font-bold">{child.interventionCount}</p>
+                          <p className="text-2xl font-bold">{child.interventionCount ?? '—'}</p>
                         </div>
                       </div>
 
@@ -658,6 +668,15 @@ export default function ParentDashboard() {
                           </p>
                         </div>
                       )}
+
+                      {child.directLink && parentId && (
+                        <UnlinkControl
+                          userId={parentId}
+                          other={{ youthId: child.id }}
+                          otherName={child.displayName}
+                          request={unlinkRequests.find(r => r.youth_id === child.id && r.parent_id === parentId)}
+                        />
+                      )}
                     </CardContent>
                   </Card>
                 ))
@@ -665,6 +684,16 @@ export default function ParentDashboard() {
             </div>
           </TabsContent>
 
+          {/* Inbox Tab */}
+          <TabsContent value="inbox" className="mt-6">
+            <NotificationInbox
+              notifications={notifications}
+              unreadCount={unreadCount}
+              onMarkRead={markRead}
+              onMarkAllRead={markAllRead}
+            />
+          </TabsContent>
+
           {/* History Tab */}
           <TabsContent value="history" className="space-y-4 mt-6">
             <h2 className="text-lg font-semibold flex items-center gap-2">
@@ -702,14 +731,86 @@ export default function ParentDashboard() {
                           <p className="text-sm text-muted-foreground mt-1">{int.title}</p>
                           <p className="text-xs text-muted-foreground mt-2">
                             {formatTime(int.createdAt)} • {int.status}
+                            {int.escalatedAt && ` at ${formatTime(int.escalatedAt)}`}
                           </p>
+                          {int.escalatedFrom && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1 flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Escalated after an earlier intervention was ignored
+                            </p>
+                          )}
                         </div>
                       </div>
                     </CardContent>
                   </Card>
                 ))}
+
+                {historyCursor && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={loadMoreHistory}
+                    disabled={loadingMoreHistory}
+                  >
+                    {loadingMoreHistory ? 'Loading...' : 'Load more'}
+                  </Button>
+                )}
               </div>
             )}
+
+            {children.length > 0 && (
+              <>
+                <h2 className="text-lg font-semibold flex items-center gap-2 pt-4">
+                  <History className="h-5 w-5" />
+                  Policy Changes
+                </h2>
+
+                {children.map(child => (
+                  <PolicyHistoryCard
+                    key={child.id}
+                    childId={child.id}
+                    childName={child.displayName}
+                    currentUserId={parentId || ''}
+                    canRollback={child.canEditPolicy}
+                    onRolledBack={() => parentId && loadPolicies(parentId)}
+                  />
+                ))}
+              </>
+            )}
+          </TabsContent>
+
+          {/* Schedules Tab */}
+          <TabsContent value="schedules" className="space-y-6 mt-6">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Schedules
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              When more than one guardian sets schedules, every block applies and the smallest extra time wins.
+            </p>
+
+            {children.filter(child => child.canEditPolicy).length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  No children whose schedule you can edit
+                </CardContent>
+              </Card>
+            ) : (
+              children.filter(child => child.canEditPolicy).map(child => {
+                const policy = policies.find(p => p.targetUserId === child.id);
+                return (
+                  // Remounts with the saved schedule after a rollback
+                  <PolicyScheduleEditor
+                    key={`${child.id}-${policy?.currentVersionId}`}
+                    childId={child.id}
+                    childName={child.displayName}
+                    schedules={policy?.schedules ?? []}
+                    exceptions={policy?.scheduleExceptions ?? []}
+                    onSaved={() => parentId && loadPolicies(parentId)}
+                  />
+                );
+              })
+            )}
           </TabsContent>
 
           {/* Settings Tab */}
@@ -759,6 +860,42 @@ export default function ParentDashboard() {
               </CardContent>
             </Card>
 
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Household
+            </h2>
+
+            {households.map(household => (
+              <HouseholdCard
+                key={household.id}
+                household={household}
+                currentUserId={parentId || ''}
+                onInvite={handleInvite}
+                onRoleChange={handleRoleChange}
+              />
+            ))}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Join another household</CardTitle>
+                <CardDescription>
+                  Enter the code another guardian created for you
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Input
+                  value={invitationCode}
+                  onChange={(e) => setInvitationCode(e.target.value.toUpperCase())}
+                  placeholder="ABCD2345"
+                  maxLength={8}
+                  className="font-mono tracking-widest"
+                />
+                <Button onClick={handleAcceptInvitation} disabled={invitationCode.trim().length !== 8}>
+                  Join
+                </Button>
+              </CardContent>
+            </Card>
+
             {/* Privacy Notice */}
             <Card className="bg-muted/50">
               <CardContent className="py-4">
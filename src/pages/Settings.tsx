@@ -16,6 +16,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/webPush';
+import { useNotificationPrefs } from '@/hooks/useNotificationPrefs';
+import { FamilyConnectionsCard } from '@/components/FamilyConnectionsCard';
+import { MyLimitsCard } from '@/components/MyLimitsCard';
+import type { NotificationPrefs, NotificationSwitches, QuietHours } from '@/hooks/useNotificationPrefs';
 import { 
   ArrowLeft, 
   User, 
@@ -37,14 +42,19 @@ import {
 
 type Theme = 'light' | 'dark' | 'system';
 
-interface NotificationPrefs {
-  emailAlerts: boolean;
-  riskWarnings: boolean;
-  dailySummary: boolean;
-  weeklyInsights: boolean;
-  interventionAlerts: boolean;
+interface ChildOption {
+  id: string;
+  name: string;
 }
 
+/** Switches a parent can override for one child */
+const CHILD_OVERRIDE_SWITCHES: { key: keyof NotificationSwitches; label: string }[] = [
+  { key: 'interventionAlerts', label: 'Alerts' },
+  { key: 'riskWarnings', label: 'Risk' },
+  { key: 'emailAlerts', label: 'Email' },
+  { key: 'pushAlerts', label: 'Push' },
+];
+
 export default function Settings() {
   const navigate = useNavigate();
   const { userId, loading: roleLoading, role } = useUserRole();
@@ -60,13 +70,8 @@ export default function Settings() {
   const [theme, setTheme] = useState<Theme>('system');
   
   // Notification preferences
-  const [notifPrefs, setNotifPrefs] = useState<NotificationPrefs>({
-    emailAlerts: true,
-    riskWarnings: true,
-    dailySummary: false,
-    weeklyInsights: true,
-    interventionAlerts: true,
-  });
+  const { prefs: notifPrefs, savePrefs } = useNotificationPrefs(userId);
+  const [children, setChildren] = useState<ChildOption[]>([]);
 
   // Fetch profile and preferences
   useEffect(() => {
@@ -97,12 +102,6 @@ export default function Settings() {
         if (savedTheme) {
           setTheme(savedTheme);
         }
-        
-        // Load notification prefs from localStorage (would be from DB in production)
-        const savedNotifs = localStorage.getItem('notificationPrefs');
-        if (savedNotifs) {
-          setNotifPrefs(JSON.parse(savedNotifs));
-        }
       } catch (error) {
         console.error('Error fetching settings:', error);
       } finally {
@@ -151,11 +150,80 @@ export default function Settings() {
     }
   };
 
-  const handleNotifChange = (key: keyof NotificationPrefs, value: boolean) => {
-    const updated = { ...notifPrefs, [key]: value };
-    setNotifPrefs(updated);
-    localStorage.setItem('notificationPrefs', JSON.stringify(updated));
-    toast.success('Notification preference updated');
+  // Parents can override alerts per child
+  useEffect(() => {
+    if (!userId || role !== 'parent') return;
+
+    const fetchChildren = async () => {
+      // Children linked directly or shared through a household
+      const { data: links } = await supabase.rpc('get_guardian_children', { _guardian_id: userId });
+
+      if (!links || links.length === 0) {
+        setChildren([]);
+        return;
+      }
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', links.map(link => link.youth_id));
+
+      setChildren(links.map(link => ({
+        id: link.youth_id,
+        name: profiles?.find(p => p.user_id === link.youth_id)?.display_name || 'Child',
+      })));
+    };
+
+    fetchChildren();
+  }, [userId, role]);
+
+  const saveNotifPrefs = async (updated: NotificationPrefs) => {
+    const error = await savePrefs(updated);
+    if (error) {
+      toast.error('Failed to update preference');
+    } else {
+      toast.success('Notification preference updated');
+    }
+  };
+
+  const handleNotifChange = async (key: keyof NotificationSwitches, value: boolean) => {
+    if (!userId) return;
+
+    // Register (or drop) this browser before turning push on or off
+    if (key === 'pushAlerts') {
+      try {
+        if (value && !(await subscribeToPush(userId))) {
+          toast.error('Push notifications are blocked or unsupported in this browser');
+          return;
+        }
+        if (!value) await unsubscribeFromPush();
+      } catch (error) {
+        console.error('Error updating push subscription:', error);
+        toast.error('Failed to update push notifications');
+        return;
+      }
+    }
+
+    await saveNotifPrefs({ ...notifPrefs, [key]: value });
+  };
+
+  const handleQuietHoursChange = (changes: Partial<QuietHours>) => {
+    saveNotifPrefs({ ...notifPrefs, quietHours: { ...notifPrefs.quietHours, ...changes } });
+  };
+
+  const handleChildOverrideChange = (childId: string, key: keyof NotificationSwitches, value: boolean) => {
+    const override = { ...notifPrefs.childOverrides[childId] };
+    // Matching the parent's own setting clears the override
+    if (value === notifPrefs[key]) {
+      delete override[key];
+    } else {
+      override[key] = value;
+    }
+
+    saveNotifPrefs({
+      ...notifPrefs,
+      childOverrides: { ...notifPrefs.childOverrides, [childId]: override },
+    });
   };
 
   // Common timezones
@@ -304,6 +372,12 @@ export default function Settings() {
                 )}
               </CardContent>
             </Card>
+
+            {role === 'adult' && <MyLimitsCard userId={userId} />}
+
+            {(role === 'youth' || role === 'adult') && (
+              <FamilyConnectionsCard userId={userId} isAdult={role === 'adult'} />
+            )}
           </TabsContent>
 
           {/* Notifications Tab */}
@@ -335,6 +409,25 @@ export default function Settings() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-primary/10">
+                      <Smartphone className="h-4 w-4 text-primary" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-sm">Push Alerts</p>
+                      <p className="text-xs text-muted-foreground">
+                        {isPushSupported() ? 'Browser notifications on this device' : 'Not supported in this browser'}
+                      </p>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={notifPrefs.pushAlerts}
+                    disabled={!isPushSupported()}
+                    onCheckedChange={(v) => handleNotifChange('pushAlerts', v)}
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <div className="p-2 rounded-lg bg-destructive/10">
@@ -400,6 +493,85 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Moon className="h-5 w-5" />
+                  Quiet Hours
+                </CardTitle>
+                <CardDescription>
+                  Hold email and push alerts overnight; they arrive when quiet hours end.
+                  Your inbox still updates.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-sm">Enable quiet hours</p>
+                  <Switch
+                    checked={notifPrefs.quietHours.enabled}
+                    onCheckedChange={(v) => handleQuietHoursChange({ enabled: v })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="quietStart">From</Label>
+                    <Input
+                      id="quietStart"
+                      type="time"
+                      value={notifPrefs.quietHours.start}
+                      disabled={!notifPrefs.quietHours.enabled}
+                      onChange={(e) => e.target.value && handleQuietHoursChange({ start: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="quietEnd">Until</Label>
+                    <Input
+                      id="quietEnd"
+                      type="time"
+                      value={notifPrefs.quietHours.end}
+                      disabled={!notifPrefs.quietHours.enabled}
+                      onChange={(e) => e.target.value && handleQuietHoursChange({ end: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Times are in your profile timezone{timezone ? ` (${timezone})` : ''}.
+                </p>
+              </CardContent>
+            </Card>
+
+            {role === 'parent' && children.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <User className="h-5 w-5" />
+                    Per-Child Alerts
+                  </CardTitle>
+                  <CardDescription>
+                    Override the settings above for a single child
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {children.map((child) => (
+                    <div key={child.id} className="space-y-2">
+                      <p className="font-medium text-sm">{child.name}</p>
+                      <div className="grid grid-cols-4 gap-2">
+                        {CHILD_OVERRIDE_SWITCHES.map(({ key, label }) => (
+                          <div key={key} className="flex flex-col items-center gap-1">
+                            <Switch
+                              checked={notifPrefs.childOverrides[child.id]?.[key] ?? notifPrefs[key]}
+                              onCheckedChange={(v) => handleChildOverrideChange(child.id, key, v)}
+                            />
+                            <span className="text-xs text-muted-foreground">{label}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Appearance Tab */}
@@ -280,7 +280,7 @@ export default function Test() {
                         riskState.level === 'high' ? 'destructive' :
                         riskState.level === 'medium' ? 'secondary' : 'outline'
                       }>
-                        {riskState.level.toUpperCase()} ({riskState.score})
+                        {riskState.level.toUpperCase()} ({riskState.score}, raw {riskState.rawScore})
                       </Badge>
                     )}
                   </span>
@@ -304,22 +304,12 @@ export default function Test() {
                       />
                     </div>
                     <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div className="flex justify-between p-2 bg-muted rounded">
-                        <span>Session Duration</span>
-                        <strong>{riskState.factors.sessionDuration}</strong>
-                      </div>
-                      <div className="flex justify-between p-2 bg-muted rounded">
-                        <span>Reopen Frequency</span>
-                        <strong>{riskState.factors.reopenFrequency}</strong>
-                      </div>
-                      <div className="flex justify-between p-2 bg-muted rounded">
-                        <span>Late Night</span>
-                        <strong>{riskState.factors.lateNight}</strong>
-                      </div>
-                      <div className="flex justify-between p-2 bg-muted rounded">
-                        <span>Scroll Velocity</span>
-                        <strong>{riskState.factors.scrollVelocity}</strong>
-                      </div>
+                      {Object.entries(riskState.factors).map(([key, value]) => (
+                        <div key={key} className="flex justify-between p-2 bg-muted rounded">
+                          <span>{SDK.risk.getFactorLabel(key)}</span>
+                          <strong>{value}</strong>
+                        </div>
+                      ))}
                     </div>
                     <p className="text-xs text-muted-foreground">
                       Last evaluated: {riskState.lastEvaluatedAt ? new Date(riskState.lastEvaluatedAt).toLocaleTimeString() : 'N/A'}
@@ -67,6 +67,13 @@ class TokenManagerClass {
     this.storage = adapter;
   }
 
+  /**
+   * Get the active storage adapter (shared with other persisted SDK state)
+   */
+  getStorageAdapter(): StorageAdapter {
+    return this.storage;
+  }
+
   /**
    * Initialize and load persisted token
    * Safe to call multiple times - only runs once
@@ -10,6 +10,8 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  /** HTTP status of a failed request; absent when the server was never reached */
+  status?: number;
 }
 
 export interface RequestOptions {
@@ -17,6 +19,9 @@ export interface RequestOptions {
   retryDelay?: number;
 }
 
+/** Client errors that can succeed later: timeouts and rate limits */
+const RETRY_LATER_STATUSES = [408, 429];
+
 const DEFAULT_OPTIONS: RequestOptions = {
   retries: 3,
   retryDelay: 1000,
@@ -38,6 +43,8 @@ export async function apiRequest<T = unknown>(
   log(`[API] ${method} ${path}`, body);
 
   for (let attempt = 1; attempt <= (retries || 1); attempt++) {
+    let status: number | undefined;
+
     try {
       const response = await fetch(url, {
         method,
@@ -48,10 +55,19 @@ export async function apiRequest<T = unknown>(
         body: body ? JSON.stringify(body) : undefined,
       });
 
-      const data = await response.json();
+      const data = await response.json().catch(() => ({}));
 
       if (!response.ok) {
-        throw new Error(data.error || `HTTP ${response.status}`);
+        const message = data.error || `HTTP ${response.status}`;
+
+        // The request itself was refused; sending it again now won't help
+        if (response.status < 500 && !RETRY_LATER_STATUSES.includes(response.status)) {
+          log(`[API] Rejected (${response.status}):`, message);
+          return { success: false, error: message, status: response.status };
+        }
+
+        status = response.status;
+        throw new Error(message);
       }
 
       log(`[API] Response:`, data);
@@ -61,7 +77,7 @@ export async function apiRequest<T = unknown>(
       log(`[API] Attempt ${attempt} failed:`, message);
 
       if (attempt === retries) {
-        return { success: false, error: message };
+        return { success: false, error: message, status };
       }
 
       // Wait before retry
@@ -0,0 +1,256 @@
+/**
+ * Offline Event Queue
+ *
+ * Events that can't be delivered (offline, retries exhausted, server
+ * errors, an expired token, rate limits) are kept in the TokenManager's
+ * StorageAdapter and sent later as `{ events: [...] }` batches. Events
+ * the server rejects outright (other 4xx) are dropped, since resending
+ * them can't succeed. Each queued event keeps its original timestamp and
+ * client_event_id, so a batch that is resent after a lost response is
+ * deduped by ingest-event.
+ *
+ * Flushes run when connectivity returns, when a new token is set and on
+ * trackForeground().
+ */
+
+import { apiRequest } from '../config/client';
+import type { ApiResponse } from '../config/client';
+import { ENDPOINTS } from '../config/endpoints';
+import { TokenManager } from '../auth/tokenManager';
+import { log } from '../utils/logger';
+
+/** Ingest payload for a single event, as it would have been sent */
+export interface QueuedEvent {
+  user_id: string;
+  event_type: string;
+  device_identifier: string;
+  platform?: string;
+  session_id?: string | null;
+  screen_name?: string;
+  app_bundle_id?: string;
+  category?: string;
+  event_data?: Record<string, unknown>;
+  timestamp: string;
+  client_event_id: string;
+  client_sequence: number;
+  [key: string]: unknown;
+}
+
+export interface EventQueueOptions {
+  /** Oldest events are dropped beyond this many (default 500) */
+  maxEvents?: number;
+  /** Events older than this are dropped, in ms (default 24h) */
+  maxAgeMs?: number;
+  /** Events per ingest request (default 50) */
+  batchSize?: number;
+}
+
+export interface FlushResult {
+  success: boolean;
+  sent: number;
+  remaining: number;
+  error?: string;
+}
+
+const QUEUE_KEY = 'behavioral_engine_event_queue';
+
+/** 401 succeeds once the token is refreshed; 408 and 429 once the server catches up */
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+/**
+ * Whether a failed send is worth queueing: the server was unreachable,
+ * failed itself (5xx) or asked us to come back later, rather than
+ * rejecting the request
+ */
+export const isRetryableFailure = (response: ApiResponse): boolean =>
+  response.status === undefined ||
+  response.status >= 500 ||
+  RETRYABLE_CLIENT_STATUSES.includes(response.status);
+
+interface IngestResult {
+  success: boolean;
+  error?: string;
+}
+
+const DEFAULT_QUEUE_OPTIONS: Required<EventQueueOptions> = {
+  maxEvents: 500,
+  maxAgeMs: 24 * 60 * 60 * 1000,
+  batchSize: 50,
+};
+
+class EventQueueClass {
+  private events: QueuedEvent[] = [];
+  private options: Required<EventQueueOptions> = { ...DEFAULT_QUEUE_OPTIONS };
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<FlushResult> | null = null;
+  private listening = false;
+
+  /**
+   * Override size/age/batch limits
+   */
+  configure(options: EventQueueOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Flush automatically when the browser comes back online
+   */
+  listen(): void {
+    if (this.listening || typeof window === 'undefined') return;
+
+    window.addEventListener('online', () => {
+      log('[EventQueue] Back online, flushing');
+      void this.flush();
+    });
+    this.listening = true;
+  }
+
+  /**
+   * Store an event for later delivery
+   */
+  async enqueue(event: QueuedEvent): Promise<number> {
+    await this.load();
+
+    this.events.push(event);
+    this.prune();
+    await this.persist();
+
+    log('[EventQueue] Queued', event.event_type, '- pending:', this.events.length);
+    return this.events.length;
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  async getPendingCount(): Promise<number> {
+    await this.load();
+    this.prune();
+    return this.events.length;
+  }
+
+  /**
+   * Send queued events in batches. Concurrent calls share one flush.
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.doFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * Drop everything (logout)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.events = [];
+    await this.persist();
+  }
+
+  private async doFlush(): Promise<FlushResult> {
+    await this.load();
+    this.prune();
+
+    const userId = TokenManager.getUserId();
+    if (!userId) {
+      return { success: false, sent: 0, remaining: this.events.length, error: 'Not authenticated' };
+    }
+
+    let sent = 0;
+
+    while (true) {
+      // Another user's events can only be sent with their token
+      const batch = this.events
+        .filter(event => event.user_id === userId)
+        .slice(0, this.options.batchSize);
+
+      if (batch.length === 0) break;
+
+      const response = await apiRequest<{ results?: IngestResult[] }>(
+        ENDPOINTS.INGEST_EVENT,
+        'POST',
+        { events: batch },
+        { retries: 1 }
+      );
+
+      if (!response.success && isRetryableFailure(response)) {
+        log('[EventQueue] Flush stopped:', response.error);
+        return { success: false, sent, remaining: this.events.length, error: response.error };
+      }
+
+      // Results line up with the batch; events that failed server-side stay queued
+      const failed = response.success
+        ? batch.filter((_, index) => response.data?.results?.[index]?.success === false)
+        : [];
+
+      if (response.success) {
+        sent += batch.length - failed.length;
+      } else {
+        // Left in place, a rejected batch would block everything behind it
+        log('[EventQueue] ❌ Dropping', batch.length, 'rejected events:', response.error);
+      }
+
+      const kept = new Set(failed.map(event => event.client_event_id));
+      const done = new Set(batch.map(event => event.client_event_id).filter(id => !kept.has(id)));
+      this.events = this.events.filter(event => !done.has(event.client_event_id));
+      await this.persist();
+
+      // Resending them straight away would fail the same way
+      if (failed.length > 0) {
+        const error = response.data?.results?.find(result => !result.success)?.error || 'Some events failed';
+        log('[EventQueue] Flush stopped,', failed.length, 'events failed:', error);
+        return { success: false, sent, remaining: this.events.length, error };
+      }
+    }
+
+    if (sent > 0) {
+      log('[EventQueue] ✅ Flushed', sent, 'events');
+    }
+
+    return { success: true, sent, remaining: this.events.length };
+  }
+
+  /**
+   * Apply the age and size caps, oldest first
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    const before = this.events.length;
+
+    this.events = this.events.filter(event => new Date(event.timestamp).getTime() >= cutoff);
+    if (this.events.length > this.options.maxEvents) {
+      this.events = this.events.slice(this.events.length - this.options.maxEvents);
+    }
+
+    if (this.events.length < before) {
+      log('[EventQueue] Dropped', before - this.events.length, 'events over the queue caps');
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await TokenManager.getStorageAdapter().getItem(QUEUE_KEY);
+          const parsed: unknown = stored ? JSON.parse(stored) : [];
+          this.events = Array.isArray(parsed) ? [...parsed, ...this.events] : this.events;
+        } catch (error) {
+          log('[EventQueue] ❌ Failed to load queue:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await TokenManager.getStorageAdapter().setItem(QUEUE_KEY, JSON.stringify(this.events));
+    } catch (error) {
+      log('[EventQueue] ❌ Failed to persist queue:', error);
+    }
+  }
+}
+
+export const EventQueue = new EventQueueClass();
@@ -21,6 +21,10 @@ export interface EventMetadata {
   element?: string;
   duration?: number;
   sessionId?: string;
+  /** App the event came from, e.g. `com.example.chat` */
+  appBundleId?: string;
+  /** App category: `social`, `games`, `video`, `education` or `other` */
+  category?: string;
   [key: string]: unknown;
 }
 
@@ -29,6 +33,14 @@ export interface EventResponse {
   event_id?: string;
   session_id?: string;
   device_id?: string;
+  /** Processing job for this event; see `SDK.jobs.wait()` */
+  job_id?: string;
+  /** The backend had already stored this event; ids are from the original */
+  duplicate?: boolean;
+  /** Delivery failed; the event is buffered and will be sent on the next flush */
+  queued?: boolean;
+  /** Scroll sample held for the next summary; nothing was sent yet */
+  aggregated?: boolean;
   orchestrator_result?: {
     risk_level: string;
     intervention_triggered: boolean;
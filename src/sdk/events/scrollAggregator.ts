@@ -0,0 +1,140 @@
+/**
+ * Scroll Aggregator
+ *
+ * Scroll fires far too often to send one request per sample (each one
+ * runs the whole orchestrator → risk-agent chain). Samples are collected
+ * for a window and sent as a single `scroll` event whose
+ * `event_data.scroll` carries max/mean/p95 velocity, distance and count.
+ *
+ * A window is sent early when the screen changes or the app backgrounds.
+ */
+
+import { log } from '../utils/logger';
+import type { EventResponse } from './eventTypes';
+
+export interface ScrollAggregationOptions {
+  /** Length of a summary window in ms (default 10s) */
+  windowMs?: number;
+  /** Aggregate samples into windowed summaries (default true); false sends each sample as its own event */
+  enabled?: boolean;
+}
+
+/** Mirrors ScrollSummary in the risk module */
+export interface ScrollSummary {
+  count: number;
+  max_velocity: number;
+  mean_velocity: number;
+  p95_velocity: number;
+  distance: number;
+  window_ms: number;
+  started_at: string;
+  ended_at: string;
+}
+
+type SummarySender = (summary: ScrollSummary, screenName?: string) => Promise<EventResponse>;
+
+const DEFAULT_SCROLL_OPTIONS: Required<ScrollAggregationOptions> = {
+  windowMs: 10000,
+  enabled: true,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Nearest-rank percentile of unsorted values
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+/**
+ * Summarise a window of samples
+ */
+export const summarizeScroll = (
+  velocities: number[],
+  distance: number,
+  startedAt: number,
+  endedAt: number
+): ScrollSummary => ({
+  count: velocities.length,
+  max_velocity: velocities.length ? Math.max(...velocities) : 0,
+  mean_velocity: velocities.length ? round(velocities.reduce((sum, v) => sum + v, 0) / velocities.length) : 0,
+  p95_velocity: percentile(velocities, 95),
+  distance: round(distance),
+  window_ms: endedAt - startedAt,
+  started_at: new Date(startedAt).toISOString(),
+  ended_at: new Date(endedAt).toISOString(),
+});
+
+export class ScrollAggregator {
+  private options: Required<ScrollAggregationOptions> = { ...DEFAULT_SCROLL_OPTIONS };
+  private velocities: number[] = [];
+  private distance = 0;
+  private startedAt: number | null = null;
+  private screenName: string | undefined;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private send: SummarySender) {}
+
+  configure(options: ScrollAggregationOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Add a sample to the current window
+   */
+  record(velocity: number, screenName?: string, distance = 0): void {
+    // A new screen starts a new window
+    if (this.velocities.length > 0 && screenName !== this.screenName) {
+      void this.flush();
+    }
+
+    if (this.startedAt === null) {
+      this.startedAt = Date.now();
+      this.screenName = screenName;
+      this.timer = setTimeout(() => void this.flush(), this.options.windowMs);
+    }
+
+    this.velocities.push(Math.abs(velocity));
+    this.distance += Math.abs(distance);
+  }
+
+  /**
+   * Number of samples waiting in the current window
+   */
+  getPendingCount(): number {
+    return this.velocities.length;
+  }
+
+  /**
+   * Send the current window now. Resolves to null if it was empty.
+   */
+  async flush(): Promise<EventResponse | null> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.velocities.length === 0 || this.startedAt === null) {
+      return null;
+    }
+
+    const summary = summarizeScroll(this.velocities, this.distance, this.startedAt, Date.now());
+    const screenName = this.screenName;
+
+    this.velocities = [];
+    this.distance = 0;
+    this.startedAt = null;
+    this.screenName = undefined;
+
+    log('[Scroll] Sending summary of', summary.count, 'samples, p95', summary.p95_velocity);
+    return this.send(summary, screenName);
+  }
+}
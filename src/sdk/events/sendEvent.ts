@@ -8,10 +8,18 @@ import { TokenManager } from '../auth/tokenManager';
 import { SessionManager } from '../sessions/sessionManager';
 import { getDeviceInfo } from '../utils/device';
 import { now } from '../utils/time';
+import { createClientEventIdentity } from '../utils/eventIds';
+import { log } from '../utils/logger';
+import { EventQueue, isRetryableFailure } from './eventQueue';
+import type { QueuedEvent } from './eventQueue';
+import { ScrollAggregator } from './scrollAggregator';
 import type { BehavioralEventType, EventMetadata, EventResponse } from './eventTypes';
 
 export interface SendEventOptions {
   screenName?: string;
+  /** Reuse when resending an event so the backend can dedupe it */
+  clientEventId?: string;
+  clientSequence?: number;
 }
 
 /**
@@ -29,24 +37,45 @@ export async function sendEvent(
 
   const deviceInfo = getDeviceInfo();
   const sessionId = SessionManager.getSessionId();
+  const identity = createClientEventIdentity();
 
-  const response = await apiRequest<EventResponse>(
-    ENDPOINTS.INGEST_EVENT,
-    'POST',
-    {
-      user_id: userId,
-      event_type: type,
-      device_identifier: deviceInfo.deviceIdentifier,
-      platform: deviceInfo.platform,
-      session_id: sessionId,
-      screen_name: options.screenName || metadata.screenName,
-      event_data: {
-        ...metadata,
-        velocity: metadata.velocity || metadata.scrollVelocity,
-      },
-      timestamp: now(),
-    }
-  );
+  const payload: QueuedEvent = {
+    user_id: userId,
+    event_type: type,
+    device_identifier: deviceInfo.deviceIdentifier,
+    platform: deviceInfo.platform,
+    session_id: sessionId,
+    screen_name: options.screenName || metadata.screenName,
+    app_bundle_id: metadata.appBundleId,
+    category: metadata.category,
+    event_data: {
+      ...metadata,
+      velocity: metadata.velocity || metadata.scrollVelocity,
+    },
+    timestamp: now(),
+    // apiRequest retries send the same body, so these stay stable
+    client_event_id: options.clientEventId || identity.client_event_id,
+    client_sequence: options.clientSequence ?? identity.client_sequence,
+  };
+
+  // Known offline: don't burn through retries, go straight to the queue
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    await EventQueue.enqueue(payload);
+    return { success: false, queued: true, error: 'Offline' };
+  }
+
+  const response = await apiRequest<EventResponse>(ENDPOINTS.INGEST_EVENT, 'POST', payload);
+
+  if (!response.success && !isRetryableFailure(response)) {
+    log('[Events] ❌', type, 'rejected:', response.error);
+    return { success: false, error: response.error };
+  }
+
+  if (!response.success) {
+    log('[Events] Send failed, queueing', type, 'for later');
+    await EventQueue.enqueue(payload);
+    return { success: false, queued: true, error: response.error };
+  }
 
   // Update session ID if returned from backend
   if (response.data?.session_id) {
@@ -58,6 +87,8 @@ export async function sendEvent(
     event_id: response.data?.event_id,
     session_id: response.data?.session_id,
     device_id: response.data?.device_id,
+    job_id: response.data?.job_id,
+    duplicate: response.data?.duplicate,
     orchestrator_result: response.data?.orchestrator_result,
     error: response.error,
   };
@@ -67,10 +98,34 @@ export async function sendEvent(
 export const trackAppOpen = () => sendEvent('app_open');
 export const trackAppClose = () => sendEvent('app_close');
 export const trackScreenView = (screenName: string) => sendEvent('screen_view', { screenName });
-export const trackScroll = (velocity: number, screenName?: string) => 
-  sendEvent('scroll', { velocity }, { screenName });
+/**
+ * Scroll samples are summarised per window (see ScrollAggregator)
+ */
+export const scrollAggregator = new ScrollAggregator((summary, screenName) =>
+  sendEvent('scroll', { scroll: summary }, { screenName })
+);
+
+export const trackScroll = async (velocity: number, screenName?: string, distance?: number): Promise<EventResponse> => {
+  if (!scrollAggregator.isEnabled()) {
+    return sendEvent('scroll', { velocity, distance }, { screenName });
+  }
+
+  scrollAggregator.record(velocity, screenName, distance);
+  return { success: true, aggregated: true };
+};
+export const flushScroll = () => scrollAggregator.flush();
 export const trackTap = (element: string, screenName?: string) => 
   sendEvent('tap', { element }, { screenName });
 export const trackReopen = () => sendEvent('reopen');
-export const trackBackground = () => sendEvent('background');
-export const trackForeground = () => sendEvent('foreground');
+export const trackBackground = () => {
+  // Don't leave a half-collected scroll window behind while suspended
+  void scrollAggregator.flush();
+  return sendEvent('background');
+};
+export const trackForeground = () => {
+  // Coming back to the app is the likeliest moment connectivity is back
+  void EventQueue.flush();
+  return sendEvent('foreground');
+};
+export const getPendingCount = () => EventQueue.getPendingCount();
+export const flushPendingEvents = () => EventQueue.flush();
@@ -22,7 +22,10 @@
  * 
  * // Track events
  * await SDK.events.trackScroll(2500);
- * await SDK.events.trackReopen();
+ * const { job_id } = await SDK.events.trackReopen();
+ * 
+ * // Wait for the event to be processed
+ * const { job } = await SDK.jobs.wait(job_id!);
  * 
  * // Get interventions
  * const { interventions } = await SDK.interventions.get();
@@ -61,7 +64,14 @@ import {
   trackReopen,
   trackBackground,
   trackForeground,
+  getPendingCount,
+  flushPendingEvents,
+  flushScroll,
+  scrollAggregator,
 } from './events/sendEvent';
+import type { ScrollAggregationOptions, ScrollSummary } from './events/scrollAggregator';
+import { EventQueue } from './events/eventQueue';
+import type { EventQueueOptions, FlushResult } from './events/eventQueue';
 import type { BehavioralEventType, EventMetadata, EventResponse } from './events/eventTypes';
 
 // Interventions
@@ -73,14 +83,20 @@ import {
   snoozeIntervention,
   markActionTaken,
 } from './interventions/sendResponse';
+import { requestTimeExtension, applyExtensionGrant } from './interventions/extensionRequests';
+import type { TimeExtensionRequest, ExtensionRequestStatus } from './interventions/extensionRequests';
 import type { Intervention, InterventionType, InterventionStatus, InterventionResponseAction } from './interventions/interventionTypes';
 
 // Feedback
 import { sendFeedback, rateIntervention, reportTiming, FeedbackType, FeedbackEvent } from './feedback/sendFeedback';
 
 // Risk
-import { getRiskState, getRiskHistory, setRiskSupabaseClient } from './risk/getRiskState';
-import type { RiskState, RiskLevel, RiskFactors } from './risk/getRiskState';
+import { getRiskState, getRiskHistory, getRiskFactorLabel, setRiskSupabaseClient } from './risk/getRiskState';
+import type { RiskState, RiskLevel, RiskFactors, BuiltinRiskFactorKey, DailyBudget } from './risk/getRiskState';
+
+// Jobs
+import { getJob, waitForJob, isJobFinished, setJobsSupabaseClient } from './jobs/getJob';
+import type { Job, JobStatus, WaitForJobOptions } from './jobs/getJob';
 
 // Realtime
 import { subscribe, unsubscribe, isSubscribed, setRealtimeClient, RealtimeCallbacks } from './realtime/subscriptions';
@@ -102,6 +118,10 @@ export interface SDKConfig {
   supabaseAnonKey: string;
   deviceInfo?: Partial<DeviceInfo>;
   storageAdapter?: StorageAdapter;
+  /** Offline event buffer limits */
+  eventQueue?: EventQueueOptions;
+  /** Scroll summary window; set `enabled: false` to send every sample */
+  scrollAggregation?: ScrollAggregationOptions;
   logLevel?: 'none' | 'error' | 'warn' | 'info' | 'debug';
 }
 
@@ -145,8 +165,20 @@ async function init(config: SDKConfig): Promise<{ success: boolean; error?: stri
     // Set Supabase client on modules that need it
     setSupabaseClient(supabaseClient);
     setRiskSupabaseClient(supabaseClient);
+    setJobsSupabaseClient(supabaseClient);
     setRealtimeClient(supabaseClient);
 
+    // Deliver anything buffered while offline, now and whenever we reconnect
+    if (config.eventQueue) {
+      EventQueue.configure(config.eventQueue);
+    }
+    EventQueue.listen();
+    void EventQueue.flush();
+
+    if (config.scrollAggregation) {
+      scrollAggregator.configure(config.scrollAggregation);
+    }
+
     initialized = true;
     log('[SDK] Initialized');
 
@@ -176,6 +208,7 @@ function getClient(): SupabaseClient | null {
  * Cleanup SDK (call on app shutdown)
  */
 async function cleanup(): Promise<void> {
+  await flushScroll();
   await unsubscribe();
   await SessionManager.end();
   SessionManager.clear();
@@ -195,7 +228,11 @@ export const SDK = {
 
   // Auth
   auth: {
-    setToken: TokenManager.setToken.bind(TokenManager),
+    setToken: async (token: string, userId: string) => {
+      await TokenManager.setToken(token, userId);
+      // Events queued after a 401 can go out with the refreshed token
+      void EventQueue.flush();
+    },
     getToken: TokenManager.getToken.bind(TokenManager),
     getUserId: TokenManager.getUserId.bind(TokenManager),
     isAuthenticated: TokenManager.isAuthenticated.bind(TokenManager),
@@ -224,6 +261,9 @@ export const SDK = {
     trackReopen,
     trackBackground,
     trackForeground,
+    getPendingCount,
+    flush: flushPendingEvents,
+    flushScroll,
   },
 
   // Interventions
@@ -235,6 +275,7 @@ export const SDK = {
     dismiss: dismissIntervention,
     snooze: snoozeIntervention,
     markActionTaken,
+    requestExtension: requestTimeExtension,
   },
 
   // Feedback
@@ -248,6 +289,14 @@ export const SDK = {
   risk: {
     getState: getRiskState,
     getHistory: getRiskHistory,
+    getFactorLabel: getRiskFactorLabel,
+  },
+
+  // Jobs
+  jobs: {
+    get: getJob,
+    wait: waitForJob,
+    isFinished: isJobFinished,
   },
 
   // Realtime
@@ -299,6 +348,10 @@ export {
   trackReopen,
   trackBackground,
   trackForeground,
+  getPendingCount,
+  flushPendingEvents,
+  flushScroll,
+  EventQueue,
   
   // Interventions
   getInterventions,
@@ -308,6 +361,8 @@ export {
   dismissIntervention,
   snoozeIntervention,
   markActionTaken,
+  requestTimeExtension,
+  applyExtensionGrant,
   
   // Feedback
   sendFeedback,
@@ -317,6 +372,12 @@ export {
   // Risk
   getRiskState,
   getRiskHistory,
+  getRiskFactorLabel,
+  
+  // Jobs
+  getJob,
+  waitForJob,
+  isJobFinished,
   
   // Realtime
   subscribe,
@@ -349,12 +410,18 @@ export type {
   BehavioralEventType,
   EventMetadata,
   EventResponse,
+  EventQueueOptions,
+  FlushResult,
+  ScrollAggregationOptions,
+  ScrollSummary,
   
   // Interventions
   Intervention,
   InterventionType,
   InterventionStatus,
   InterventionResponseAction,
+  TimeExtensionRequest,
+  ExtensionRequestStatus,
   
   // Feedback
   FeedbackType,
@@ -364,6 +431,13 @@ export type {
   RiskState,
   RiskLevel,
   RiskFactors,
+  BuiltinRiskFactorKey,
+  DailyBudget,
+  
+  // Jobs
+  Job,
+  JobStatus,
+  WaitForJobOptions,
   
   // Realtime
   RealtimeCallbacks,
@@ -0,0 +1,99 @@
+/**
+ * Time-Extension Requests
+ *
+ * A youth asks for more minutes from a hard block; a parent approves or
+ * denies it. Approved grants are applied to the device's Screen Time
+ * shields once, however many times the update is delivered.
+ */
+
+import { apiRequest } from '../config/client';
+import { ENDPOINTS } from '../config/endpoints';
+import { ScreenTimeIntegration } from '../native/screenTime';
+import { log } from '../utils/logger';
+import { now } from '../utils/time';
+
+export type ExtensionRequestStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export interface TimeExtensionRequest {
+  id: string;
+  interventionId: string | null;
+  requestedMinutes: number;
+  /** Set once approved; may be less than requested */
+  grantedMinutes: number | null;
+  reason: string | null;
+  status: ExtensionRequestStatus;
+  /** Pending: when the request lapses. Approved: when the grant ends */
+  expiresAt: string;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export interface ExtensionRequestResult {
+  success: boolean;
+  requestId?: string;
+  error?: string;
+}
+
+const appliedGrants = new Set<string>();
+
+/**
+ * Map a `time_extension_requests` row to the SDK shape
+ */
+export function mapExtensionRequestRow(row: Record<string, unknown>): TimeExtensionRequest {
+  return {
+    id: row.id as string,
+    interventionId: (row.intervention_id as string) || null,
+    requestedMinutes: Number(row.requested_minutes) || 0,
+    grantedMinutes: row.granted_minutes != null ? Number(row.granted_minutes) : null,
+    reason: (row.reason as string) || null,
+    status: row.status as ExtensionRequestStatus,
+    expiresAt: row.expires_at as string,
+    decidedAt: (row.decided_at as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Ask a parent for more time. The intervention stays open until a parent
+ * answers; rate limits and a missing parent come back as an error.
+ */
+export async function requestTimeExtension(
+  interventionId: string,
+  minutes: number,
+  reason?: string
+): Promise<ExtensionRequestResult> {
+  log('[Extensions] Requesting', minutes, 'minutes for', interventionId);
+
+  const response = await apiRequest<{ success: boolean; extension_request_id?: string }>(
+    ENDPOINTS.RESPOND_INTERVENTION,
+    'POST',
+    {
+      intervention_id: interventionId,
+      action: 'request_extension',
+      response_data: { minutes, reason },
+      timestamp: now(),
+    },
+    // Rejections are final; retrying only hits the rate limit
+    { retries: 1 }
+  );
+
+  if (response.success) {
+    return { success: true, requestId: response.data?.extension_request_id };
+  }
+
+  return { success: false, error: response.error };
+}
+
+/**
+ * Lift the device's shields for an approved grant. Returns false if the
+ * request isn't an active grant or was already applied.
+ */
+export async function applyExtensionGrant(request: TimeExtensionRequest): Promise<boolean> {
+  if (request.status !== 'approved' || !request.grantedMinutes) return false;
+  if (new Date(request.expiresAt).getTime() <= Date.now()) return false;
+  if (appliedGrants.has(request.id)) return false;
+
+  appliedGrants.add(request.id);
+  log('[Extensions] ✅ Applying grant of', request.grantedMinutes, 'minutes');
+  return ScreenTimeIntegration.handleTimeExtensionApproval(request.grantedMinutes);
+}
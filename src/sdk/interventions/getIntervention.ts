@@ -61,6 +61,8 @@ export async function getInterventions(delayMs = 0): Promise<InterventionRespons
       .select('*')
       .eq('user_id', userId)
       .in('status', ['pending', 'delivered'])
+      // Left open while a parent answers an extension request
+      .is('user_response->>extension_request_id', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -78,6 +80,8 @@ export async function getInterventions(delayMs = 0): Promise<InterventionRespons
       actionUrl: row.action_url,
       riskLevelAtTrigger: row.risk_level_at_trigger,
       riskScoreAtTrigger: row.risk_score_at_trigger,
+      variantId: row.variant_id || undefined,
+      snoozeCount: row.snooze_count || 0,
       createdAt: row.created_at,
     }));
 
@@ -133,6 +137,8 @@ export async function getInterventionById(interventionId: string): Promise<{
       actionUrl: data.action_url,
       riskLevelAtTrigger: data.risk_level_at_trigger,
       riskScoreAtTrigger: data.risk_score_at_trigger,
+      variantId: data.variant_id || undefined,
+      snoozeCount: data.snooze_count || 0,
       createdAt: data.created_at,
     };
 
@@ -13,13 +13,15 @@ export type InterventionStatus =
   | 'delivered'
   | 'acknowledged' 
   | 'dismissed' 
-  | 'escalated';
+  | 'escalated'
+  | 'snoozed';
 
 export type InterventionResponseAction = 
   | 'acknowledge' 
   | 'dismiss' 
   | 'snooze' 
-  | 'action_taken';
+  | 'action_taken'
+  | 'request_extension';
 
 export interface Intervention {
   id: string;
@@ -31,6 +33,10 @@ export interface Intervention {
   actionUrl?: string;
   riskLevelAtTrigger: 'low' | 'medium' | 'high' | 'critical';
   riskScoreAtTrigger: number;
+  /** Copy variant shown, when the template is being A/B tested */
+  variantId?: string;
+  /** Times snoozed so far; > 0 on a re-delivered intervention */
+  snoozeCount?: number;
   createdAt: string;
 }
 
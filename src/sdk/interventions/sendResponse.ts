@@ -11,6 +11,10 @@ import type { InterventionResponseAction } from './interventionTypes';
 export interface ResponseResult {
   success: boolean;
   newStatus?: string;
+  /** Set when a snooze was accepted; the intervention comes back then */
+  snoozedUntil?: string;
+  /** The snooze limit was reached and the next tier was sent instead */
+  autoEscalated?: boolean;
   error?: string;
 }
 
@@ -27,6 +31,8 @@ export async function sendInterventionResponse(
   const response = await apiRequest<{
     success: boolean;
     new_status?: string;
+    snoozed_until?: string | null;
+    auto_escalated?: boolean;
   }>(ENDPOINTS.RESPOND_INTERVENTION, 'POST', {
     intervention_id: interventionId,
     action,
@@ -39,6 +45,8 @@ export async function sendInterventionResponse(
     return {
       success: true,
       newStatus: response.data?.new_status,
+      snoozedUntil: response.data?.snoozed_until || undefined,
+      autoEscalated: response.data?.auto_escalated,
     };
   }
 
@@ -66,7 +74,8 @@ export async function dismissIntervention(
 }
 
 /**
- * Snooze an intervention (remind later)
+ * Snooze an intervention; it is delivered again after `snoozeMinutes`.
+ * Past the policy's snooze limit it escalates to the next tier instead.
  */
 export async function snoozeIntervention(
   interventionId: string,
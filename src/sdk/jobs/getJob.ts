@@ -0,0 +1,135 @@
+/**
+ * Event Processing Jobs
+ *
+ * `ingest-event` queues each event for processing and returns a job id
+ * straight away. Poll with `waitForJob()` or watch `onJobUpdated` in
+ * realtime to see the orchestrator result.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { TokenManager } from '../auth/tokenManager';
+import { log } from '../utils/logger';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'cancelled';
+
+export interface Job {
+  id: string;
+  jobType: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  /** Handler output (the orchestrator response for processed events) */
+  result: Record<string, unknown> | null;
+  runAt: string;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface JobResult {
+  success: boolean;
+  job?: Job;
+  error?: string;
+}
+
+export interface WaitForJobOptions {
+  /** Give up after this long (default 30s) */
+  timeoutMs?: number;
+  /** Delay between polls (default 1s) */
+  intervalMs?: number;
+}
+
+let supabaseClient: SupabaseClient | null = null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether a job has reached a final state
+ */
+export const isJobFinished = (job: Job): boolean =>
+  job.status === 'succeeded' || job.status === 'dead' || job.status === 'cancelled';
+
+/**
+ * Map an `agent_jobs` row to the SDK shape
+ */
+export function mapJobRow(row: Record<string, unknown>): Job {
+  return {
+    id: row.id as string,
+    jobType: row.job_type as string,
+    status: row.status as JobStatus,
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || 0,
+    lastError: (row.last_error as string) || null,
+    result: (row.result as Record<string, unknown>) || null,
+    runAt: row.run_at as string,
+    completedAt: (row.completed_at as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Set Supabase client for queries
+ */
+export function setJobsSupabaseClient(client: SupabaseClient): void {
+  supabaseClient = client;
+}
+
+/**
+ * Get the current state of a job
+ */
+export async function getJob(jobId: string): Promise<JobResult> {
+  if (!TokenManager.getUserId()) {
+    return { success: false, error: 'Not authenticated' };
+  }
+
+  if (!supabaseClient) {
+    return { success: false, error: 'Supabase client not initialized' };
+  }
+
+  try {
+    const { data, error } = await supabaseClient
+      .from('agent_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      log('[Jobs] Query error:', error);
+      return { success: false, error: error.message };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Job not found' };
+    }
+
+    return { success: true, job: mapJobRow(data) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Poll a job until it succeeds, is dead-lettered or cancelled, or the
+ * timeout passes.
+ * On timeout the last seen state is returned with an error.
+ */
+export async function waitForJob(jobId: string, options: WaitForJobOptions = {}): Promise<JobResult> {
+  const { timeoutMs = 30000, intervalMs = 1000 } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  let lastResult: JobResult = { success: false, error: 'Job not found' };
+
+  while (Date.now() < deadline) {
+    lastResult = await getJob(jobId);
+
+    if (lastResult.job && isJobFinished(lastResult.job)) {
+      log('[Jobs] Finished:', jobId, lastResult.job.status);
+      return lastResult;
+    }
+
+    await wait(intervalMs);
+  }
+
+  return { ...lastResult, success: false, error: 'Timed out waiting for job' };
+}
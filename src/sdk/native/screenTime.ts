@@ -8,6 +8,10 @@
  */
 
 import { Capacitor, registerPlugin } from '@capacitor/core';
+import { getLocalTime } from '../../../supabase/functions/_shared/risk/time.ts';
+import { getScheduleState } from '../../../supabase/functions/_shared/risk/schedules.ts';
+import type { ScheduleState } from '../../../supabase/functions/_shared/risk/schedules.ts';
+import type { PolicySchedule, ScheduleException } from '../../../supabase/functions/_shared/risk/types.ts';
 
 // Plugin interface matching Swift implementation
 interface ScreenTimePlugin {
@@ -17,7 +21,8 @@ interface ScreenTimePlugin {
   stopMonitoring(): Promise<{ success: boolean }>;
   grantTimeExtension(options: { minutes: number }): Promise<{ success: boolean }>;
   openAppPicker(): Promise<{ success: boolean }>;
-  setBedtimeSchedule(options: { startHour: number; startMinute: number; endHour: number; endMinute: number }): Promise<{ success: boolean }>;
+  setBedtimeSchedule(options: { startHour: number; startMinute: number; endHour: number; endMinute: number; weekdays?: number[] }): Promise<{ success: boolean }>;
+  setScheduledShield(options: { active: boolean; categories: string[] }): Promise<{ success: boolean }>;
 }
 
 // Register the plugin (only available when native extension is built)
@@ -25,6 +30,10 @@ const ScreenTimePluginImpl = registerPlugin<ScreenTimePlugin>('ScreenTimePlugin'
   web: () => import('./screenTimeWeb').then(m => new m.ScreenTimePluginWeb()),
 });
 
+// Nights by start day (0 = Sunday); matches the risk-agent's bedtime schedules
+const WEEKDAY_NIGHTS = [0, 1, 2, 3, 4];
+const WEEKEND_NIGHTS = [5, 6];
+
 /**
  * Screen Time Manager
  * High-level interface for Screen Time functionality
@@ -140,13 +149,16 @@ export class ScreenTimeManager {
 
   /**
    * Set bedtime schedule
-   * Apps will be shielded during this time period
+   * Apps will be shielded during this time period.
+   * `weekdays` limits the schedule to nights starting on those days
+   * (0 = Sunday); omit it to apply every night.
    */
   static async setBedtimeSchedule(
     startHour: number,
     startMinute: number,
     endHour: number,
-    endMinute: number
+    endMinute: number,
+    weekdays?: number[]
   ): Promise<boolean> {
     if (!this.isAvailable()) return false;
     
@@ -156,6 +168,7 @@ export class ScreenTimeManager {
         startMinute,
         endHour,
         endMinute,
+        weekdays,
       });
       return result.success;
     } catch (error) {
@@ -163,6 +176,22 @@ export class ScreenTimeManager {
       return false;
     }
   }
+
+  /**
+   * Shield app categories for a scheduled block, or lift the shield.
+   * An empty `categories` shields every app.
+   */
+  static async setScheduledShield(active: boolean, categories: string[] = []): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      const result = await ScreenTimePluginImpl.setScheduledShield({ active, categories });
+      return result.success;
+    } catch (error) {
+      console.error('[ScreenTime] Failed to set scheduled shield:', error);
+      return false;
+    }
+  }
 }
 
 /**
@@ -216,25 +245,64 @@ export class ScreenTimeIntegration {
 
   /**
    * Sync policies from backend to native
+   * Schedules are evaluated at `at` (default now) in the child's timezone,
+   * the same way the risk-agent does; sync again when a block starts or
+   * ends. Returns what the schedules put in force.
    */
   static async syncPolicies(policies: {
     dailyLimitMinutes: number;
     bedtimeStart?: string; // HH:mm format
     bedtimeEnd?: string;   // HH:mm format
-  }): Promise<void> {
+    weekendBedtimeStart?: string; // HH:mm, Friday/Saturday nights
+    weekendBedtimeEnd?: string;   // HH:mm, Friday/Saturday nights
+    schedules?: PolicySchedule[];
+    scheduleExceptions?: ScheduleException[];
+    timezone?: string;
+    at?: Date;
+  }): Promise<ScheduleState> {
+    const schedule = getScheduleState(
+      { schedules: policies.schedules, schedule_exceptions: policies.scheduleExceptions },
+      getLocalTime(policies.at ?? new Date(), policies.timezone || 'UTC')
+    );
+
     // Stop existing monitoring
     await ScreenTimeManager.stopMonitoring();
     
-    // Restart with new limits
-    await ScreenTimeManager.startMonitoring(policies.dailyLimitMinutes);
+    // Restart with new limits, plus any extra minutes scheduled for today
+    await ScreenTimeManager.startMonitoring(policies.dailyLimitMinutes + schedule.extraMinutes);
+
+    // One shield covers every active block; any block on all apps wins
+    const blocksEverything = schedule.blocks.some(block => block.categories.length === 0);
+    await ScreenTimeManager.setScheduledShield(
+      schedule.blocks.length > 0,
+      blocksEverything ? [] : [...new Set(schedule.blocks.flatMap(block => block.categories))]
+    );
     
-    // Set bedtime if configured
+    const hasWeekend = !!(policies.weekendBedtimeStart && policies.weekendBedtimeEnd);
+
+    // Set bedtime if configured. Weekend nights get their own schedule
+    // when one exists, otherwise the weekday schedule covers every night.
     if (policies.bedtimeStart && policies.bedtimeEnd) {
       const [startHour, startMinute] = policies.bedtimeStart.split(':').map(Number);
       const [endHour, endMinute] = policies.bedtimeEnd.split(':').map(Number);
       
-      await ScreenTimeManager.setBedtimeSchedule(startHour, startMinute, endHour, endMinute);
+      await ScreenTimeManager.setBedtimeSchedule(
+        startHour,
+        startMinute,
+        endHour,
+        endMinute,
+        hasWeekend ? WEEKDAY_NIGHTS : undefined
+      );
+    }
+
+    if (hasWeekend) {
+      const [startHour, startMinute] = policies.weekendBedtimeStart!.split(':').map(Number);
+      const [endHour, endMinute] = policies.weekendBedtimeEnd!.split(':').map(Number);
+
+      await ScreenTimeManager.setBedtimeSchedule(startHour, startMinute, endHour, endMinute, WEEKEND_NIGHTS);
     }
+
+    return schedule;
   }
 
   /**
@@ -36,9 +36,15 @@ export class ScreenTimePluginWeb {
     startHour: number; 
     startMinute: number; 
     endHour: number; 
-    endMinute: number 
+    endMinute: number;
+    weekdays?: number[];
   }): Promise<{ success: boolean }> {
     console.warn('[ScreenTime Web] Bedtime schedule not available on web');
     return { success: false };
   }
+
+  async setScheduledShield(_options: { active: boolean; categories: string[] }): Promise<{ success: boolean }> {
+    console.warn('[ScreenTime Web] Scheduled shields not available on web');
+    return { success: false };
+  }
 }
@@ -3,6 +3,7 @@
  * 
  * VALIDATION CHECKLIST:
  * ✅ interventions table INSERT triggers callback
+ * ✅ snoozed interventions coming back (UPDATE to pending) trigger it too
  * ✅ risk_states table UPDATE triggers callback  
  * ✅ Connection stays alive when app is backgrounded
  * ✅ Reconnection works when app returns to foreground
@@ -15,11 +16,20 @@ import { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import { TokenManager } from '../auth/tokenManager';
 import { log } from '../utils/logger';
 import type { Intervention } from '../interventions/interventionTypes';
-import type { RiskState, RiskLevel } from '../risk/getRiskState';
+import { mapRiskStateRow } from '../risk/getRiskState';
+import type { RiskState } from '../risk/getRiskState';
+import { mapJobRow } from '../jobs/getJob';
+import type { Job } from '../jobs/getJob';
+import { applyExtensionGrant, mapExtensionRequestRow } from '../interventions/extensionRequests';
+import type { TimeExtensionRequest } from '../interventions/extensionRequests';
 
 export interface RealtimeCallbacks {
   onInterventionReceived?: (intervention: Intervention) => void;
   onRiskStateChanged?: (riskState: RiskState) => void;
+  /** Job changed status (queued → running → succeeded/dead/cancelled) */
+  onJobUpdated?: (job: Job) => void;
+  /** A parent approved or denied a time-extension request, or it lapsed */
+  onExtensionRequestUpdated?: (request: TimeExtensionRequest) => void;
   onConnectionChange?: (status: 'connected' | 'disconnected' | 'error') => void;
 }
 
@@ -29,6 +39,21 @@ let callbacks: RealtimeCallbacks = {};
 let currentUserId: string | null = null;
 let isSubscribing = false;
 
+const toIntervention = (row: Record<string, unknown>): Intervention => ({
+  id: row.id as string,
+  type: row.type as Intervention['type'],
+  status: row.status as Intervention['status'],
+  title: row.title as string,
+  message: row.message as string,
+  actionLabel: (row.action_label as string) || undefined,
+  actionUrl: (row.action_url as string) || undefined,
+  riskLevelAtTrigger: row.risk_level_at_trigger as Intervention['riskLevelAtTrigger'],
+  riskScoreAtTrigger: Number(row.risk_score_at_trigger) || 0,
+  variantId: (row.variant_id as string) || undefined,
+  snoozeCount: Number(row.snooze_count) || 0,
+  createdAt: row.created_at as string,
+});
+
 /**
  * Set Supabase client for realtime
  */
@@ -94,21 +119,23 @@ export const subscribe = async (cbs: RealtimeCallbacks): Promise<boolean> => {
         },
         (payload) => {
           log('[Realtime] 📩 New intervention:', payload.new.title);
-          
-          const intervention: Intervention = {
-            id: payload.new.id,
-            type: payload.new.type,
-            status: payload.new.status,
-            title: payload.new.title,
-            message: payload.new.message,
-            actionLabel: payload.new.action_label,
-            actionUrl: payload.new.action_url,
-            riskLevelAtTrigger: payload.new.risk_level_at_trigger,
-            riskScoreAtTrigger: payload.new.risk_score_at_trigger,
-            createdAt: payload.new.created_at,
-          };
-
-          callbacks.onInterventionReceived?.(intervention);
+          callbacks.onInterventionReceived?.(toIntervention(payload.new));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'interventions',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          // A snoozed intervention going back to pending is a re-delivery
+          if (payload.new.status !== 'pending' || !payload.new.snooze_count) return;
+
+          log('[Realtime] ⏰ Snoozed intervention is back:', payload.new.title);
+          callbacks.onInterventionReceived?.(toIntervention(payload.new));
         }
       )
       .on(
@@ -122,21 +149,43 @@ export const subscribe = async (cbs: RealtimeCallbacks): Promise<boolean> => {
         (payload) => {
           log('[Realtime] ⚠️ Risk state updated:', payload.new.current_level);
 
-          const riskState: RiskState = {
-            score: payload.new.score || 0,
-            level: (payload.new.current_level as RiskLevel) || 'low',
-            factors: {
-              sessionDuration: payload.new.session_duration_factor || 0,
-              reopenFrequency: payload.new.reopen_frequency_factor || 0,
-              lateNight: payload.new.late_night_factor || 0,
-              scrollVelocity: payload.new.scroll_velocity_factor || 0,
-            },
-            lastEvaluatedAt: payload.new.last_evaluated_at || payload.new.updated_at,
-          };
+          const riskState = mapRiskStateRow(payload.new);
 
           callbacks.onRiskStateChanged?.(riskState);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'agent_jobs',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          log('[Realtime] ⚙️ Job updated:', payload.new.id, payload.new.status);
+
+          callbacks.onJobUpdated?.(mapJobRow(payload.new));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'time_extension_requests',
+          filter: `youth_id=eq.${userId}`,
+        },
+        async (payload) => {
+          log('[Realtime] ⏱️ Extension request:', payload.new.id, payload.new.status);
+
+          const request = mapExtensionRequestRow(payload.new);
+          // Approved time is granted on the device even without a callback
+          await applyExtensionGrant(request);
+
+          callbacks.onExtensionRequestUpdated?.(request);
+        }
+      )
       .subscribe((status, err) => {
         log('[Realtime] Subscription status:', status);
         
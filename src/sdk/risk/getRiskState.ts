@@ -8,17 +8,38 @@ import { log } from '../utils/logger';
 
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 
-export interface RiskFactors {
-  sessionDuration: number;
-  reopenFrequency: number;
-  lateNight: number;
-  scrollVelocity: number;
+/**
+ * Built-in factor keys. Policies and server-side plugins can add more,
+ * so consumers should treat the factor map as open-ended.
+ */
+export type BuiltinRiskFactorKey =
+  | 'session_duration'
+  | 'reopen_frequency'
+  | 'late_night'
+  | 'scroll_velocity'
+  | 'daily_usage';
+
+/**
+ * Points contributed by each factor, keyed by factor key
+ */
+export type RiskFactors = Partial<Record<BuiltinRiskFactorKey, number>> & Record<string, number>;
+
+export interface DailyBudget {
+  /** Includes minutes from approved time extensions */
+  limitMinutes: number;
+  usedMinutes: number;
+  remainingMinutes: number;
 }
 
 export interface RiskState {
+  /** Smoothed score: rises immediately, decays between evaluations */
   score: number;
+  /** Unsmoothed factor total from the latest evaluation */
+  rawScore: number;
   level: RiskLevel;
   factors: RiskFactors;
+  /** Today's usage against the policy daily limit (null when no limit is set) */
+  dailyBudget: DailyBudget | null;
   lastEvaluatedAt: string;
 }
 
@@ -30,6 +51,63 @@ export interface RiskStateResult {
 
 let supabaseClient: SupabaseClient | null = null;
 
+const FACTOR_LABELS: Record<string, string> = {
+  session_duration: 'Session',
+  reopen_frequency: 'Reopens',
+  late_night: 'Late Night',
+  scroll_velocity: 'Scroll',
+  daily_usage: 'Daily Limit',
+};
+
+/**
+ * Human readable label for a factor key (e.g. `tap_burst_rate` → "Tap Burst Rate")
+ */
+export function getRiskFactorLabel(key: string): string {
+  return FACTOR_LABELS[key] || key
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Factors added since the factor map have no legacy column
+const LEGACY_FACTOR_COLUMNS: Partial<Record<BuiltinRiskFactorKey, string>> = {
+  session_duration: 'session_duration_factor',
+  reopen_frequency: 'reopen_frequency_factor',
+  late_night: 'late_night_factor',
+  scroll_velocity: 'scroll_velocity_factor',
+};
+
+/**
+ * Map a `risk_states` row to the SDK shape.
+ * Falls back to the legacy fixed columns for rows written before the
+ * factor map existed.
+ */
+export function mapRiskStateRow(row: Record<string, unknown>): RiskState {
+  const factorMap = (row.factors as Record<string, number> | null) || {};
+  const factors: RiskFactors = { ...factorMap };
+
+  if (Object.keys(factors).length === 0) {
+    for (const [key, column] of Object.entries(LEGACY_FACTOR_COLUMNS)) {
+      factors[key] = Number(row[column]) || 0;
+    }
+  }
+
+  return {
+    score: Number(row.score) || 0,
+    rawScore: Number(row.raw_score ?? row.score) || 0,
+    level: (row.current_level as RiskLevel) || 'low',
+    factors,
+    dailyBudget: row.daily_limit_minutes == null
+      ? null
+      : {
+          limitMinutes: Number(row.daily_limit_minutes),
+          usedMinutes: Number(row.daily_used_minutes) || 0,
+          remainingMinutes: Number(row.daily_remaining_minutes) || 0,
+        },
+    lastEvaluatedAt: (row.last_evaluated_at || row.updated_at) as string,
+  };
+}
+
 /**
  * Set Supabase client for queries
  */
@@ -69,31 +147,18 @@ export async function getRiskState(): Promise<RiskStateResult> {
         success: true,
         riskState: {
           score: 0,
+          rawScore: 0,
           level: 'low',
-          factors: {
-            sessionDuration: 0,
-            reopenFrequency: 0,
-            lateNight: 0,
-            scrollVelocity: 0,
-          },
+          factors: {},
+          dailyBudget: null,
           lastEvaluatedAt: new Date().toISOString(),
         },
       };
     }
 
-    const riskState: RiskState = {
-      score: data.score || 0,
-      level: data.current_level || 'low',
-      factors: {
-        sessionDuration: data.session_duration_factor || 0,
-        reopenFrequency: data.reopen_frequency_factor || 0,
-        lateNight: data.late_night_factor || 0,
-        scrollVelocity: data.scroll_velocity_factor || 0,
-      },
-      lastEvaluatedAt: data.last_evaluated_at || data.updated_at,
-    };
-
-    log('[RiskState] Current:', riskState.level, riskState.score);
+    const riskState = mapRiskStateRow(data);
+
+    log('[RiskState] Current:', riskState.level, riskState.score, '(raw', riskState.rawScore + ')');
     return { success: true, riskState };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
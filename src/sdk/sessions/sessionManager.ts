@@ -15,6 +15,7 @@ import { apiRequest } from '../config/client';
 import { ENDPOINTS } from '../config/endpoints';
 import { TokenManager } from '../auth/tokenManager';
 import { getDeviceInfo } from '../utils/device';
+import { createClientEventIdentity } from '../utils/eventIds';
 import { log } from '../utils/logger';
 
 export interface SessionInfo {
@@ -89,6 +90,7 @@ class SessionManagerClass {
         event_data: {
           cold_start: true,
         },
+        ...createClientEventIdentity(),
       });
 
       if (response.success && response.data?.session_id) {
@@ -144,6 +146,7 @@ class SessionManagerClass {
       platform: deviceInfo.platform,
       session_id: this.sessionId,
       event_data: {},
+      ...createClientEventIdentity(),
     });
 
     if (response.success) {
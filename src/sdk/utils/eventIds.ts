@@ -0,0 +1,44 @@
+/**
+ * Client Event Identity
+ * 
+ * Every event gets a UUID and a per-device sequence number before it is
+ * sent. Retries resend the same UUID so the backend can drop duplicates.
+ * 
+ * For React Native, the sequence falls back to an in-memory counter
+ * unless localStorage is available.
+ */
+
+export interface ClientEventIdentity {
+  client_event_id: string;
+  client_sequence: number;
+}
+
+const SEQUENCE_KEY = 'behavioral_engine_event_sequence';
+
+let memorySequence = 0;
+
+/**
+ * Next sequence number for this device (persisted on web)
+ */
+export const nextEventSequence = (): number => {
+  try {
+    if (typeof localStorage !== 'undefined') {
+      const next = (Number(localStorage.getItem(SEQUENCE_KEY)) || 0) + 1;
+      localStorage.setItem(SEQUENCE_KEY, String(next));
+      return next;
+    }
+  } catch {
+    // localStorage might be unavailable
+  }
+
+  memorySequence += 1;
+  return memorySequence;
+};
+
+/**
+ * Stamp a new event with its client identity
+ */
+export const createClientEventIdentity = (): ClientEventIdentity => ({
+  client_event_id: crypto.randomUUID(),
+  client_sequence: nextEventSequence(),
+});
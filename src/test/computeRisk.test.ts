@@ -0,0 +1,681 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRisk,
+  scoreToLevel,
+  resolveRiskLevel,
+  resolveLevelThresholds,
+  decayScore,
+  getLocalTime,
+  isHourInWindow,
+  parseTimeOfDay,
+  startOfLocalDay,
+  parseAppCategory,
+  summarizeCategoryUsage,
+} from "../../supabase/functions/_shared/risk/index.ts";
+import type { RiskEvent, RiskLevel, RiskPolicy } from "../../supabase/functions/_shared/risk/index.ts";
+
+// Midday UTC keeps the late-night factor out of the way unless a test wants it
+const NOON_UTC = new Date("2026-01-15T12:00:00Z");
+
+const minutesAgo = (minutes: number, from: Date = NOON_UTC) =>
+  new Date(from.getTime() - minutes * 60000).toISOString();
+
+const events = (type: string, count: number, data: Record<string, unknown> = {}): RiskEvent[] =>
+  Array.from({ length: count }, (_, i) => ({
+    event_type: type,
+    event_data: data,
+    timestamp: minutesAgo(i),
+  }));
+
+const utc = { timezone: "UTC" };
+
+describe("computeRisk", () => {
+  describe("session duration factor", () => {
+    it.each([
+      { minutes: 0, limit: 60, points: 0 },
+      { minutes: 29, limit: 60, points: 0 },
+      { minutes: 30, limit: 60, points: 5 },
+      { minutes: 45, limit: 60, points: 10 },
+      { minutes: 60, limit: 60, points: 15 },
+      { minutes: 89, limit: 60, points: 15 },
+      { minutes: 90, limit: 60, points: 20 },
+      { minutes: 120, limit: 60, points: 25 },
+      { minutes: 300, limit: 60, points: 25 },
+      { minutes: 15, limit: 20, points: 10 },
+      { minutes: 30, limit: 20, points: 20 },
+    ])("$minutes min against a $limit min limit → $points", ({ minutes, limit, points }) => {
+      const result = computeRisk(
+        { started_at: minutesAgo(minutes) },
+        [],
+        utc,
+        { session_limit_minutes: limit },
+        NOON_UTC
+      );
+      expect(result.factors.session_duration).toBe(points);
+    });
+
+    it("defaults the limit to 60 minutes without a policy", () => {
+      const result = computeRisk({ started_at: minutesAgo(90) }, [], utc, null, NOON_UTC);
+      expect(result.factors.session_duration).toBe(20);
+    });
+
+    it("scores nothing without an active session", () => {
+      const result = computeRisk(null, [], utc, null, NOON_UTC);
+      expect(result.factors.session_duration).toBe(0);
+    });
+  });
+
+  describe("reopen frequency factor", () => {
+    it.each([
+      { reopens: 0, threshold: 5, points: 0 },
+      { reopens: 2, threshold: 5, points: 0 },
+      { reopens: 3, threshold: 5, points: 8 },
+      { reopens: 5, threshold: 5, points: 15 },
+      { reopens: 10, threshold: 5, points: 20 },
+      { reopens: 15, threshold: 5, points: 25 },
+      { reopens: 6, threshold: 2, points: 25 },
+    ])("$reopens reopens against a threshold of $threshold → $points", ({ reopens, threshold, points }) => {
+      const result = computeRisk(null, events("reopen", reopens), utc, { reopen_threshold: threshold }, NOON_UTC);
+      expect(result.factors.reopen_frequency).toBe(points);
+    });
+
+    it("counts app_open events as reopens", () => {
+      const result = computeRisk(
+        null,
+        [...events("reopen", 3), ...events("app_open", 2), ...events("tap", 10)],
+        utc,
+        null,
+        NOON_UTC
+      );
+      expect(result.factors.reopen_frequency).toBe(15);
+    });
+  });
+
+  describe("late night factor", () => {
+    // 2026-01-15 is a Thursday, so these use the weekday schedule
+    it.each([
+      { time: "21:59", points: 0 },
+      { time: "22:00", points: 10 },
+      { time: "22:15", points: 18 },
+      { time: "22:30", points: 25 },
+      { time: "00:00", points: 25 },
+      { time: "06:59", points: 25 },
+      { time: "07:00", points: 0 },
+      { time: "12:00", points: 0 },
+    ])("default 22:00–07:00 window at $time UTC → $points", ({ time, points }) => {
+      const now = new Date(`2026-01-15T${time}:00Z`);
+      const result = computeRisk(null, [], utc, null, now);
+      expect(result.factors.late_night).toBe(points);
+    });
+
+    it.each([
+      { time: "22:29", start: "22:30", end: "06:45", points: 0 },
+      { time: "22:30", start: "22:30", end: "06:45", points: 10 },
+      { time: "06:44", start: "22:30", end: "06:45", points: 25 },
+      { time: "06:45", start: "22:30", end: "06:45", points: 0 },
+      { time: "20:30", start: "20:00:00", end: "06:00:00", points: 25 },
+      { time: "19:30", start: "20:00", end: "06:00", points: 0 },
+      { time: "13:10", start: "13:00", end: "15:00", points: 15 },
+      { time: "16:00", start: "13:00", end: "15:00", points: 0 },
+      { time: "09:00", start: "13:00", end: "15:00", points: 0 },
+      { time: "10:00", start: "10:00", end: "10:00", points: 0 },
+    ])("policy window $start–$end at $time → $points", ({ time, start, end, points }) => {
+      const now = new Date(`2026-01-15T${time}:00Z`);
+      const result = computeRisk(null, [], utc, { bedtime_start: start, bedtime_end: end }, now);
+      expect(result.factors.late_night).toBe(points);
+    });
+
+    it.each([
+      { time: "22:00", ramp: 0, points: 25 },
+      { time: "22:30", ramp: 60, points: 18 },
+      { time: "23:00", ramp: 60, points: 25 },
+      { time: "22:06", ramp: 10, points: 19 },
+    ])("$ramp minute ramp at $time → $points", ({ time, ramp, points }) => {
+      const now = new Date(`2026-01-15T${time}:00Z`);
+      const result = computeRisk(null, [], utc, { bedtime_ramp_minutes: ramp }, now);
+      expect(result.factors.late_night).toBe(points);
+    });
+
+    const weekendPolicy: RiskPolicy = {
+      bedtime_start: "21:30",
+      bedtime_end: "07:00",
+      weekend_bedtime_start: "23:30",
+      weekend_bedtime_end: "09:00",
+    };
+
+    it.each([
+      // Thursday night uses the weekday schedule...
+      { at: "2026-01-15T22:00:00Z", points: 25 },
+      // ...and still applies after midnight into Friday morning
+      { at: "2026-01-16T06:30:00Z", points: 25 },
+      // Friday night starts later
+      { at: "2026-01-16T22:00:00Z", points: 0 },
+      { at: "2026-01-16T23:30:00Z", points: 10 },
+      // Saturday morning belongs to Friday night's weekend window
+      { at: "2026-01-17T08:30:00Z", points: 25 },
+      { at: "2026-01-17T09:00:00Z", points: 0 },
+      // Sunday night is a school night again
+      { at: "2026-01-18T22:00:00Z", points: 25 },
+      // Sunday morning still belongs to Saturday night
+      { at: "2026-01-18T08:00:00Z", points: 25 },
+    ])("weekday/weekend schedule at $at → $points", ({ at, points }) => {
+      const result = computeRisk(null, [], utc, weekendPolicy, new Date(at));
+      expect(result.factors.late_night).toBe(points);
+    });
+
+    it("falls back to the weekday schedule when no weekend times are set", () => {
+      const result = computeRisk(null, [], utc, { bedtime_start: "21:30", bedtime_end: "07:00" }, new Date("2026-01-16T22:00:00Z"));
+      expect(result.factors.late_night).toBe(25);
+    });
+
+    it.each([
+      // 03:00 UTC is 22:00 the previous evening in New York (EST)
+      { timezone: "America/New_York", points: 10 },
+      // ...noon in Tokyo
+      { timezone: "Asia/Tokyo", points: 0 },
+      // ...04:00 in Paris (CET)
+      { timezone: "Europe/Paris", points: 25 },
+      // ...08:30 in Kolkata, past the default bedtime end
+      { timezone: "Asia/Kolkata", points: 0 },
+      // Unknown zones fall back to UTC (03:00)
+      { timezone: "Not/AZone", points: 25 },
+    ])("converts 03:00 UTC into $timezone → $points", ({ timezone, points }) => {
+      const now = new Date("2026-01-15T03:00:00Z");
+      const result = computeRisk(null, [], { timezone }, null, now);
+      expect(result.factors.late_night).toBe(points);
+    });
+  });
+
+  describe("scroll velocity factor", () => {
+    it.each([
+      { velocity: 0, threshold: 1000, points: 0 },
+      { velocity: 999, threshold: 1000, points: 0 },
+      { velocity: 1000, threshold: 1000, points: 10 },
+      { velocity: 1500, threshold: 1000, points: 15 },
+      { velocity: 2000, threshold: 1000, points: 25 },
+      { velocity: 600, threshold: 300, points: 25 },
+    ])("max velocity $velocity against $threshold → $points", ({ velocity, threshold, points }) => {
+      const result = computeRisk(
+        null,
+        events("scroll", 1, { velocity }),
+        utc,
+        { scroll_velocity_threshold: threshold },
+        NOON_UTC
+      );
+      expect(result.factors.scroll_velocity).toBe(points);
+    });
+
+    it("takes the max of recent events and the triggering event", () => {
+      const result = computeRisk(
+        null,
+        [...events("scroll", 2, { velocity: 800 }), ...events("scroll", 1, { scroll_velocity: 1600 })],
+        utc,
+        null,
+        NOON_UTC,
+        { eventData: { velocity: 1200 } }
+      );
+      expect(result.factors.scroll_velocity).toBe(15);
+    });
+
+    const summary = (p95: number, max: number) => ({
+      scroll: {
+        count: 40,
+        max_velocity: max,
+        mean_velocity: p95 / 2,
+        p95_velocity: p95,
+        distance: 12000,
+        window_ms: 10000,
+        started_at: minutesAgo(1),
+        ended_at: minutesAgo(0),
+      },
+    });
+
+    it("scores aggregated summaries by p95, ignoring a single fling", () => {
+      const result = computeRisk(null, events("scroll", 1, summary(800, 5000)), utc, null, NOON_UTC);
+      expect(result.factors.scroll_velocity).toBe(0);
+    });
+
+    it("mixes summaries with legacy per-sample events", () => {
+      const result = computeRisk(
+        null,
+        [...events("scroll", 1, summary(2100, 2400)), ...events("scroll", 1, { velocity: 1200 })],
+        utc,
+        null,
+        NOON_UTC
+      );
+      expect(result.factors.scroll_velocity).toBe(25);
+      expect(result.explanation.factors.find((f) => f.key === "scroll_velocity")?.observed).toBe(2100);
+    });
+  });
+
+  describe("daily usage factor", () => {
+    const session = (startMinutesAgo: number, endMinutesAgo: number | null, from: Date = NOON_UTC) => ({
+      started_at: minutesAgo(startMinutesAgo, from),
+      ended_at: endMinutesAgo === null ? null : minutesAgo(endMinutesAgo, from),
+    });
+
+    it.each([
+      { used: 0, points: 0 },
+      { used: 59, points: 0 },
+      { used: 60, points: 5 },
+      { used: 90, points: 10 },
+      { used: 108, points: 20 },
+      { used: 120, points: 25 },
+      { used: 200, points: 25 },
+    ])("$used of 120 daily minutes → $points", ({ used, points }) => {
+      const result = computeRisk(null, [], utc, { daily_limit_minutes: 120 }, NOON_UTC, {
+        dailySessions: used > 0 ? [session(used, 0)] : [],
+      });
+      expect(result.factors.daily_usage).toBe(points);
+    });
+
+    it("sums ended and active sessions since local midnight", () => {
+      const result = computeRisk(null, [], utc, { daily_limit_minutes: 120 }, NOON_UTC, {
+        dailySessions: [session(300, 270), session(120, 100), session(15, null)],
+      });
+      expect(result.dailyBudget).toEqual({ limitMinutes: 120, usedMinutes: 65, remainingMinutes: 55, extensionMinutes: 0 });
+    });
+
+    it("counts overlapping app sessions once", () => {
+      // Apps open 60-20 and 40-10 minutes ago make 50 minutes, not 70;
+      // a third open for the last 5 brings it to 55
+      const result = computeRisk(null, [], utc, { daily_limit_minutes: 120 }, NOON_UTC, {
+        dailySessions: [session(60, 20), session(40, 10), session(5, null)],
+      });
+      expect(result.dailyBudget?.usedMinutes).toBe(55);
+    });
+
+    it("credits granted extension minutes against the limit", () => {
+      const result = computeRisk(null, [], utc, { daily_limit_minutes: 60 }, NOON_UTC, {
+        dailySessions: [session(60, 0)],
+        extensionMinutes: 30,
+      });
+      expect(result.dailyBudget).toEqual({ limitMinutes: 90, usedMinutes: 60, remainingMinutes: 30, extensionMinutes: 30 });
+      expect(result.factors.daily_usage).toBe(5);
+    });
+
+    it("only counts the part of a session after local midnight", () => {
+      // 00:30 UTC, session started at 23:00 the previous day
+      const now = new Date("2026-01-15T00:30:00Z");
+      const result = computeRisk(null, [], utc, { daily_limit_minutes: 60 }, now, {
+        dailySessions: [session(90, null, now)],
+      });
+      expect(result.dailyBudget?.usedMinutes).toBe(30);
+    });
+
+    it("uses the profile timezone for midnight", () => {
+      // 06:00 UTC is 22:00 the previous day in Los Angeles: the whole 8h counts
+      const now = new Date("2026-01-15T06:00:00Z");
+      const result = computeRisk(null, [], { timezone: "America/Los_Angeles" }, { daily_limit_minutes: 600 }, now, {
+        dailySessions: [session(480, 0, now)],
+      });
+      expect(result.dailyBudget?.usedMinutes).toBe(480);
+    });
+
+    it("reports no budget without a daily limit", () => {
+      const result = computeRisk(null, [], utc, null, NOON_UTC, { dailySessions: [session(500, 0)] });
+      expect(result.dailyBudget).toBeNull();
+      expect(result.factors.daily_usage).toBe(0);
+    });
+  });
+
+  describe("app categories", () => {
+    const policy: RiskPolicy = {
+      daily_limit_minutes: 240,
+      category_rules: { games: { daily_limit_minutes: 60, bedtime_start: "20:00", bedtime_end: "07:00" } },
+    };
+    const session = (category: string, startMinutesAgo: number, endMinutesAgo: number | null) => ({
+      category,
+      started_at: minutesAgo(startMinutesAgo),
+      ended_at: endMinutesAgo === null ? null : minutesAgo(endMinutesAgo),
+    });
+
+    it("scores today's time in the current app's category against its limit", () => {
+      const result = computeRisk(session("games", 20, null), [], utc, policy, NOON_UTC, {
+        dailySessions: [session("games", 200, 166), session("social", 150, 30), session("games", 20, null)],
+      });
+      expect(result.factors.category_usage).toBe(20);
+      expect(result.factors.daily_usage).toBe(5);
+    });
+
+    it("ignores categories without a rule", () => {
+      const result = computeRisk(session("social", 150, null), [], utc, policy, NOON_UTC, {
+        dailySessions: [session("social", 150, null)],
+      });
+      expect(result.factors.category_usage).toBe(0);
+    });
+
+    it("applies a category's own bedtime", () => {
+      const evening = new Date("2026-01-15T20:30:00Z");
+      const games = { ...session("games", 5, null), started_at: minutesAgo(5, evening) };
+      expect(computeRisk(games, [], utc, policy, evening).factors.late_night).toBe(25);
+      expect(computeRisk({ ...games, category: "education" }, [], utc, policy, evening).factors.late_night).toBe(0);
+    });
+
+    it("names the category field in the explanation", () => {
+      const result = computeRisk(session("games", 20, null), [], utc, policy, NOON_UTC, {
+        dailySessions: [session("games", 60, 0)],
+      });
+      expect(result.explanation.factors.find(f => f.key === "category_usage")).toMatchObject({
+        observed: 60,
+        policy_field: "category_rules.games.daily_limit_minutes",
+        policy_value: 60,
+      });
+    });
+
+    it("reads categories from client input and totals time per category", () => {
+      expect(parseAppCategory(" Games ")).toBe("games");
+      expect(parseAppCategory("productivity")).toBe("other");
+      expect(parseAppCategory("")).toBeNull();
+
+      expect(summarizeCategoryUsage([
+        { category: "social", duration_seconds: 600 },
+        { category: null, duration_seconds: 300 },
+        { category: "games", duration_seconds: 1200 },
+        { category: "social", duration_seconds: 900 },
+      ])).toEqual([
+        { category: "social", seconds: 1500, session_count: 2 },
+        { category: "games", seconds: 1200, session_count: 1 },
+        { category: "other", seconds: 300, session_count: 1 },
+      ]);
+    });
+  });
+
+  describe("factor config", () => {
+    const policy: RiskPolicy = { session_limit_minutes: 60 };
+
+    it("applies per-factor weights", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(60) },
+        [],
+        utc,
+        { ...policy, factor_config: { session_duration: { weight: 1.5 } } },
+        NOON_UTC
+      );
+      expect(result.factors.session_duration).toBe(22.5);
+    });
+
+    it("applies per-factor caps", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(120) },
+        [],
+        utc,
+        { ...policy, factor_config: { session_duration: { weight: 2, cap: 40 } } },
+        NOON_UTC
+      );
+      expect(result.factors.session_duration).toBe(40);
+    });
+
+    it("omits disabled factors", () => {
+      const result = computeRisk(
+        null,
+        [],
+        utc,
+        { factor_config: { late_night: { enabled: false } } },
+        new Date("2026-01-15T02:00:00Z")
+      );
+      expect(result.factors).not.toHaveProperty("late_night");
+      expect(result.score).toBe(0);
+    });
+  });
+
+  describe("total score and level", () => {
+    it("sums every factor", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(90, new Date("2026-01-15T02:00:00Z")) },
+        [...events("reopen", 5), ...events("scroll", 1, { velocity: 1000 })],
+        utc,
+        null,
+        new Date("2026-01-15T02:00:00Z")
+      );
+      expect(result.factors).toEqual({
+        session_duration: 20,
+        reopen_frequency: 15,
+        late_night: 25,
+        scroll_velocity: 10,
+        daily_usage: 0,
+        category_usage: 0,
+        schedule_block: 0,
+      });
+      expect(result.score).toBe(70);
+      expect(result.level).toBe("high");
+    });
+
+    it("keeps default-policy scores on the original scale", () => {
+      // Only the four original factors apply without limits or schedules
+      const at2am = new Date("2026-01-15T02:00:00Z");
+      const args = [{ started_at: minutesAgo(120, at2am) }, events("reopen", 15), utc] as const;
+      for (const policy of [null, {}, { category_rules: {}, schedules: [] }]) {
+        const result = computeRisk(...args, policy, at2am);
+        expect(result.score).toBe(75);
+        expect(result.level).toBe("critical");
+      }
+    });
+
+    it("scales points down once the policy sets up more factors", () => {
+      // Thursday noon, in school hours, with the day's limit used up
+      const policy: RiskPolicy = {
+        daily_limit_minutes: 60,
+        schedules: [{
+          id: "school",
+          label: "School",
+          rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+          starts_on: "2026-01-01",
+          action: "block",
+          start_time: "08:00",
+          end_time: "15:00",
+          categories: ["social"],
+        }],
+      };
+      const result = computeRisk({ started_at: minutesAgo(5), category: "social" }, [], utc, policy, NOON_UTC, {
+        dailySessions: [{ started_at: minutesAgo(90), ended_at: null }],
+      });
+
+      expect(result.factors).toMatchObject({ daily_usage: 25, schedule_block: 25 });
+      // 50 of the 150 points that apply, not 50 of 100
+      expect(result.score).toBe(33.33);
+      expect(result.level).toBe("medium");
+    });
+
+    it("caps the total at 100", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(120) },
+        events("reopen", 15),
+        utc,
+        { factor_config: { session_duration: { weight: 4, cap: 100 }, reopen_frequency: { weight: 4, cap: 100 } } },
+        NOON_UTC
+      );
+      expect(result.score).toBe(100);
+      expect(result.level).toBe("critical");
+    });
+
+    it.each([
+      { score: 0, level: "low" },
+      { score: 24.9, level: "low" },
+      { score: 25, level: "medium" },
+      { score: 49.9, level: "medium" },
+      { score: 50, level: "high" },
+      { score: 74.9, level: "high" },
+      { score: 75, level: "critical" },
+      { score: 100, level: "critical" },
+    ])("score $score → $level", ({ score, level }) => {
+      expect(scoreToLevel(score)).toBe(level);
+    });
+  });
+
+  describe("explanation", () => {
+    it("reports observed value, crossed threshold and policy field per factor", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(95) },
+        events("reopen", 6),
+        utc,
+        { session_limit_minutes: 60, reopen_threshold: 3, factor_config: { reopen_frequency: { weight: 2, cap: 30 } } },
+        NOON_UTC
+      );
+      const byKey = Object.fromEntries(result.explanation.factors.map((f) => [f.key, f]));
+
+      expect(byKey.session_duration).toMatchObject({
+        points: 20,
+        max_points: 25,
+        observed: 95,
+        threshold: 90,
+        policy_field: "session_limit_minutes",
+        policy_value: 60,
+      });
+      expect(byKey.reopen_frequency).toMatchObject({
+        points: 30,
+        max_points: 30,
+        weight: 2,
+        observed: 6,
+        threshold: 6,
+        policy_field: "reopen_threshold",
+      });
+      expect(byKey.late_night).toMatchObject({ points: 0, observed: null, threshold: null });
+      expect(result.explanation.factors[0].key).toBe("reopen_frequency");
+      expect(result.explanation).toMatchObject({ score: 50, raw_score: 50, level: "high" });
+    });
+
+    it("names the weekend bedtime field on weekend nights", () => {
+      const result = computeRisk(
+        null,
+        [],
+        utc,
+        { weekend_bedtime_start: "23:00", weekend_bedtime_end: "08:00" },
+        new Date("2026-01-17T00:15:00Z")
+      );
+      const lateNight = result.explanation.factors.find((f) => f.key === "late_night");
+      expect(lateNight).toMatchObject({
+        observed: 75,
+        threshold: "23:00",
+        policy_field: "weekend_bedtime_start",
+      });
+    });
+  });
+
+  describe("decay and hysteresis", () => {
+    const previous = (score: number, level: RiskLevel, minutes: number) => ({
+      score,
+      level,
+      evaluatedAt: minutesAgo(minutes),
+    });
+
+    it.each([
+      { raw: 0, prev: 80, minutes: 15, halfLife: 15, score: 40 },
+      { raw: 0, prev: 80, minutes: 30, halfLife: 15, score: 20 },
+      { raw: 0, prev: 80, minutes: 10, halfLife: 0, score: 0 },
+      { raw: 50, prev: 80, minutes: 30, halfLife: 15, score: 50 },
+      { raw: 30, prev: 10, minutes: 0, halfLife: 15, score: 30 },
+    ])("raw $raw after $prev decayed for $minutes min (half-life $halfLife) → $score", ({ raw, prev, minutes, halfLife, score }) => {
+      expect(decayScore(raw, { score: prev, evaluatedAt: minutesAgo(minutes) }, NOON_UTC, halfLife)).toBe(score);
+    });
+
+    it("uses the raw score when there is no previous evaluation", () => {
+      expect(decayScore(12, null, NOON_UTC)).toBe(12);
+    });
+
+    it.each([
+      { score: 50, previousLevel: "low", level: "high" },
+      { score: 46, previousLevel: "high", level: "high" },
+      { score: 44, previousLevel: "high", level: "medium" },
+      { score: 72, previousLevel: "critical", level: "critical" },
+      { score: 46, previousLevel: "critical", level: "high" },
+      { score: 40, previousLevel: "critical", level: "medium" },
+      { score: 22, previousLevel: "medium", level: "medium" },
+      { score: 19, previousLevel: "medium", level: "low" },
+      { score: 49, previousLevel: "medium", level: "medium" },
+    ] as { score: number; previousLevel: RiskLevel; level: RiskLevel }[])(
+      "score $score from $previousLevel → $level",
+      ({ score, previousLevel, level }) => {
+        expect(resolveRiskLevel(score, previousLevel)).toBe(level);
+      }
+    );
+
+    it("merges policy threshold overrides with the defaults", () => {
+      expect(resolveLevelThresholds({ high: { enter: 60, exit: 40 }, medium: { enter: 30, exit: 35 } })).toEqual({
+        medium: { enter: 30, exit: 30 },
+        high: { enter: 60, exit: 40 },
+        critical: { enter: 75, exit: 70 },
+      });
+    });
+
+    it("decays the score once activity stops", () => {
+      const result = computeRisk(null, [], utc, null, NOON_UTC, { previous: previous(60, "high", 15) });
+      expect(result.rawScore).toBe(0);
+      expect(result.score).toBe(30);
+      expect(result.level).toBe("medium");
+    });
+
+    it("holds the level while the score hovers just under the boundary", () => {
+      const result = computeRisk(
+        { started_at: minutesAgo(120) },
+        events("reopen", 15),
+        utc,
+        { factor_config: { reopen_frequency: { cap: 23 } } },
+        NOON_UTC,
+        { previous: previous(52, "high", 60) }
+      );
+      expect(result.rawScore).toBe(48);
+      expect(result.score).toBe(48);
+      expect(result.level).toBe("high");
+    });
+
+    it("honours per-policy half-life and thresholds", () => {
+      const result = computeRisk(
+        null,
+        [],
+        utc,
+        { risk_decay_half_life_minutes: 0, risk_level_thresholds: { medium: { exit: 0 } } },
+        NOON_UTC,
+        { previous: previous(30, "medium", 1) }
+      );
+      expect(result.score).toBe(0);
+      expect(result.level).toBe("medium");
+    });
+  });
+});
+
+describe("time helpers", () => {
+  it("reports wall-clock time and weekday in the given zone", () => {
+    // Monday 2026-01-12 01:30 UTC is Sunday evening in Los Angeles
+    expect(getLocalTime(new Date("2026-01-12T01:30:00Z"), "America/Los_Angeles")).toEqual({
+      hour: 17,
+      minute: 30,
+      weekday: 0,
+      date: "2026-01-11",
+    });
+  });
+
+  it.each([
+    { now: "2026-01-15T12:00:00Z", timezone: "UTC", midnight: "2026-01-15T00:00:00.000Z" },
+    { now: "2026-01-15T03:00:00Z", timezone: "America/New_York", midnight: "2026-01-14T05:00:00.000Z" },
+    // US spring-forward (2026-03-08): midnight was still EST
+    { now: "2026-03-08T15:00:00Z", timezone: "America/New_York", midnight: "2026-03-08T05:00:00.000Z" },
+    // US fall-back (2026-11-01): midnight was still EDT
+    { now: "2026-11-01T15:00:00Z", timezone: "America/New_York", midnight: "2026-11-01T04:00:00.000Z" },
+  ])("local midnight for $now in $timezone is $midnight", ({ now, timezone, midnight }) => {
+    expect(startOfLocalDay(new Date(now), timezone).toISOString()).toBe(midnight);
+  });
+
+  it.each([
+    { hour: 23, start: 22, end: 7, inside: true },
+    { hour: 3, start: 22, end: 7, inside: true },
+    { hour: 7, start: 22, end: 7, inside: false },
+    { hour: 12, start: 22, end: 7, inside: false },
+    { hour: 14, start: 13, end: 15, inside: true },
+    { hour: 15, start: 13, end: 15, inside: false },
+    { hour: 10, start: 10, end: 10, inside: false },
+  ])("hour $hour in [$start, $end) → $inside", ({ hour, start, end, inside }) => {
+    expect(isHourInWindow(hour, start, end)).toBe(inside);
+  });
+
+  it.each([
+    { value: "22:30", minutes: 1350 },
+    { value: "07:05:00", minutes: 425 },
+    { value: "0:00", minutes: 0 },
+    { value: "24:00", minutes: null },
+    { value: "bedtime", minutes: null },
+    { value: null, minutes: null },
+  ])("parses $value as $minutes minutes after midnight", ({ value, minutes }) => {
+    expect(parseTimeOfDay(value)).toBe(minutes);
+  });
+});
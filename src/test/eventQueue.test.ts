@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { apiRequest } from "@/sdk/config/client";
+import { TokenManager } from "@/sdk/auth/tokenManager";
+import { createMemoryStorage } from "@/sdk/storage/secureStore";
+import { EventQueue } from "@/sdk/events/eventQueue";
+import type { QueuedEvent } from "@/sdk/events/eventQueue";
+
+vi.mock("@/sdk/config/client", () => ({ apiRequest: vi.fn() }));
+
+const mockApiRequest = vi.mocked(apiRequest);
+
+let sequence = 0;
+const queued = (overrides: Partial<QueuedEvent> = {}): QueuedEvent => {
+  sequence += 1;
+  return {
+    user_id: "user-1",
+    event_type: "scroll",
+    device_identifier: "web-test",
+    timestamp: new Date().toISOString(),
+    client_event_id: `event-${sequence}`,
+    client_sequence: sequence,
+    ...overrides,
+  };
+};
+
+describe("EventQueue", () => {
+  TokenManager.setStorageAdapter(createMemoryStorage());
+
+  beforeEach(async () => {
+    mockApiRequest.mockReset();
+    await TokenManager.setToken("token", "user-1");
+    EventQueue.configure({ maxEvents: 500, maxAgeMs: 24 * 60 * 60 * 1000, batchSize: 2 });
+    await EventQueue.clear();
+  });
+
+  it("persists queued events through the storage adapter", async () => {
+    await EventQueue.enqueue(queued());
+    await EventQueue.enqueue(queued());
+
+    const stored = await TokenManager.getStorageAdapter().getItem("behavioral_engine_event_queue");
+    expect(JSON.parse(stored!)).toHaveLength(2);
+    expect(await EventQueue.getPendingCount()).toBe(2);
+  });
+
+  it("drops the oldest events beyond maxEvents", async () => {
+    EventQueue.configure({ maxEvents: 2 });
+    const [first, second, third] = [queued(), queued(), queued()];
+    for (const event of [first, second, third]) await EventQueue.enqueue(event);
+
+    mockApiRequest.mockResolvedValue({ success: true });
+    await EventQueue.flush();
+
+    expect(mockApiRequest).toHaveBeenCalledWith("/ingest-event", "POST", { events: [second, third] }, { retries: 1 });
+  });
+
+  it("drops events older than maxAgeMs", async () => {
+    await EventQueue.enqueue(queued({ timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() }));
+    await EventQueue.enqueue(queued());
+
+    EventQueue.configure({ maxAgeMs: 60 * 60 * 1000 });
+    expect(await EventQueue.getPendingCount()).toBe(1);
+  });
+
+  it("flushes in batches, keeping original timestamps", async () => {
+    const events = [queued({ timestamp: "2026-01-01T00:00:00.000Z" }), queued(), queued()];
+    EventQueue.configure({ maxAgeMs: Number.MAX_SAFE_INTEGER });
+    for (const event of events) await EventQueue.enqueue(event);
+
+    mockApiRequest.mockResolvedValue({ success: true });
+    const result = await EventQueue.flush();
+
+    expect(result).toEqual({ success: true, sent: 3, remaining: 0 });
+    expect(mockApiRequest).toHaveBeenCalledTimes(2);
+    expect(mockApiRequest.mock.calls[0][2]).toEqual({ events: events.slice(0, 2) });
+    expect(mockApiRequest.mock.calls[1][2]).toEqual({ events: events.slice(2) });
+  });
+
+  it("keeps undelivered batches for the next flush", async () => {
+    for (let i = 0; i < 3; i++) await EventQueue.enqueue(queued());
+
+    mockApiRequest.mockResolvedValueOnce({ success: true }).mockResolvedValueOnce({ success: false, error: "Failed to fetch" });
+    const result = await EventQueue.flush();
+
+    expect(result).toEqual({ success: false, sent: 2, remaining: 1, error: "Failed to fetch" });
+    expect(await EventQueue.getPendingCount()).toBe(1);
+  });
+
+  it("drops batches the server rejects and carries on", async () => {
+    for (let i = 0; i < 3; i++) await EventQueue.enqueue(queued());
+
+    mockApiRequest
+      .mockResolvedValueOnce({ success: false, error: "Invalid event", status: 400 })
+      .mockResolvedValueOnce({ success: true });
+    const result = await EventQueue.flush();
+
+    expect(result).toEqual({ success: true, sent: 1, remaining: 0 });
+    expect(mockApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps batches when the server fails", async () => {
+    await EventQueue.enqueue(queued());
+
+    mockApiRequest.mockResolvedValue({ success: false, error: "HTTP 503", status: 503 });
+    const result = await EventQueue.flush();
+
+    expect(result).toEqual({ success: false, sent: 0, remaining: 1, error: "HTTP 503" });
+  });
+
+  it.each([401, 408, 429])("keeps batches the server turns away with %i", async (status) => {
+    await EventQueue.enqueue(queued());
+
+    mockApiRequest.mockResolvedValue({ success: false, error: `HTTP ${status}`, status });
+    const result = await EventQueue.flush();
+
+    expect(result).toMatchObject({ success: false, sent: 0, remaining: 1 });
+  });
+
+  it("keeps events that failed inside a delivered batch", async () => {
+    const [first, second] = [queued(), queued()];
+    await EventQueue.enqueue(first);
+    await EventQueue.enqueue(second);
+
+    mockApiRequest.mockResolvedValue({
+      success: true,
+      data: { results: [{ success: true }, { success: false, error: "insert failed" }] },
+    });
+    const result = await EventQueue.flush();
+
+    expect(result).toEqual({ success: false, sent: 1, remaining: 1, error: "insert failed" });
+    expect(mockApiRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("only sends the signed-in user's events", async () => {
+    await EventQueue.enqueue(queued({ user_id: "someone-else" }));
+    await EventQueue.enqueue(queued());
+
+    mockApiRequest.mockResolvedValue({ success: true });
+    const result = await EventQueue.flush();
+
+    expect(result).toMatchObject({ sent: 1, remaining: 1 });
+  });
+});
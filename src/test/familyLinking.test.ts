@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildLinkUrl,
+  generateLinkCode,
+  getLinkRateLimit,
+  getLinkTokenExpiry,
+  hashLinkCode,
+  MAX_FAILED_LINK_ATTEMPTS,
+  parseLinkCode,
+} from "../../supabase/functions/_shared/linking/tokens.ts";
+import { getUnlinkCancelRejection, getUnlinkEffectiveAt } from "../../supabase/functions/_shared/linking/unlink.ts";
+import {
+  canGuardianView,
+  getMajorityBirthCutoff,
+  hasReachedMajority,
+  parseBirthDate,
+  resolveAgeOfMajority,
+} from "../../supabase/functions/_shared/linking/majority.ts";
+
+describe("family link tokens", () => {
+  it("generates codes it can parse back", () => {
+    const code = generateLinkCode();
+    expect(code).toMatch(/^[A-Z2-9]{8}$/);
+    expect(parseLinkCode(code)).toBe(code);
+  });
+
+  it("reads codes from typed input and QR links", () => {
+    expect(parseLinkCode(" abcd-2345 ")).toBe("ABCD2345");
+    expect(parseLinkCode(buildLinkUrl("https://app.example.com/", "ABCD2345"))).toBe("ABCD2345");
+    expect(buildLinkUrl("https://app.example.com/", "ABCD2345")).toBe("https://app.example.com/link?code=ABCD2345");
+  });
+
+  it.each(["", "ABCD234", "ABCD23456", "ABCD0123", "https://example.com/link"])("rejects %j", (input) => {
+    expect(parseLinkCode(input)).toBeNull();
+  });
+
+  it("expires after fifteen minutes", () => {
+    expect(getLinkTokenExpiry(new Date("2026-01-05T16:00:00Z"))).toBe("2026-01-05T16:15:00.000Z");
+  });
+
+  it("hashes codes without storing them", async () => {
+    const hash = await hashLinkCode("ABCD2345");
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).toBe(await hashLinkCode("ABCD2345"));
+    expect(hash).not.toBe(await hashLinkCode("ABCD2346"));
+  });
+});
+
+describe("link attempt rate limiting", () => {
+  const now = new Date("2026-01-05T16:00:00Z");
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000).toISOString();
+
+  it("allows a few mistakes", () => {
+    const failures = Array.from({ length: MAX_FAILED_LINK_ATTEMPTS - 1 }, (_, i) => minutesAgo(i + 1));
+    expect(getLinkRateLimit(failures, now)).toEqual({ allowed: true, retry_after: null });
+  });
+
+  it("blocks until enough failures leave the window", () => {
+    const failures = [1, 2, 3, 4, 10].map(minutesAgo);
+    expect(getLinkRateLimit(failures, now)).toEqual({
+      allowed: false,
+      retry_after: "2026-01-05T16:05:00.000Z",
+    });
+  });
+
+  it("ignores failures outside the window", () => {
+    const failures = [1, 2, 3, 4, 20].map(minutesAgo);
+    expect(getLinkRateLimit(failures, now).allowed).toBe(true);
+  });
+});
+
+describe("unlinking", () => {
+  const now = new Date("2026-01-05T16:00:00Z");
+  const request = { status: "pending" as const, requested_by: "youth-1", effective_at: getUnlinkEffectiveAt(now) };
+
+  it("takes effect after a week", () => {
+    expect(getUnlinkEffectiveAt(now)).toBe("2026-01-12T16:00:00.000Z");
+  });
+
+  it("lets only the requester cancel, and only in time", () => {
+    expect(getUnlinkCancelRejection(request, "youth-1", now)).toBeNull();
+    expect(getUnlinkCancelRejection(request, "parent-1", now)).toMatch(/only the person/i);
+    expect(getUnlinkCancelRejection(request, "youth-1", new Date("2026-01-12T16:00:00Z"))).toMatch(/over/);
+    expect(getUnlinkCancelRejection({ ...request, status: "completed" }, "youth-1", now)).toBe("Request already completed");
+  });
+});
+
+describe("age of majority", () => {
+  it.each([[undefined, 18], ["19", 19], ["12", 18], ["18.5", 18], ["abc", 18]])("reads %j as %i", (raw, age) => {
+    expect(resolveAgeOfMajority(raw)).toBe(age);
+  });
+
+  it("counts a leap-day birthday from 1 March", () => {
+    expect(hasReachedMajority("2008-02-29", new Date("2026-02-28T12:00:00Z"), 18)).toBe(false);
+    expect(hasReachedMajority("2008-02-29", new Date("2026-03-01T00:00:00Z"), 18)).toBe(true);
+    expect(getMajorityBirthCutoff(new Date("2028-02-29T12:00:00Z"), 18)).toBe("2010-02-28");
+  });
+
+  it("accepts real past dates only", () => {
+    const today = new Date("2026-01-05T16:00:00Z");
+    expect(parseBirthDate("2010-06-15", today)).toBe("2010-06-15");
+    expect(parseBirthDate("2010-02-30", today)).toBeNull();
+    expect(parseBirthDate("2026-01-06", today)).toBeNull();
+    expect(parseBirthDate("1850-01-01", today)).toBeNull();
+    expect(parseBirthDate(20100615, today)).toBeNull();
+  });
+
+  it("shows guardians everything until a child comes of age", () => {
+    expect(canGuardianView(null, "usage")).toBe(true);
+    expect(canGuardianView({ adult_since: null, shared_scopes: [] }, "usage")).toBe(true);
+
+    const adult = { adult_since: "2026-01-05T03:15:00Z", shared_scopes: ["risk", "bogus"] };
+    expect(canGuardianView(adult, "risk")).toBe(true);
+    expect(canGuardianView(adult, "usage")).toBe(false);
+  });
+});
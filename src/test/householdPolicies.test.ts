@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { mergeGuardianPolicies } from "../../supabase/functions/_shared/households/mergePolicies.ts";
+import {
+  generateInvitationCode,
+  getInvitationExpiry,
+  getRoleChangeRejection,
+} from "../../supabase/functions/_shared/households/membership.ts";
+
+describe("stricter-wins policy merge", () => {
+  const mum = {
+    id: "p1",
+    updated_at: "2026-01-05T10:00:00Z",
+    daily_limit_minutes: 120,
+    session_limit_minutes: null,
+    bedtime_start: "21:30",
+    bedtime_end: "07:00",
+    parent_alert_threshold: "high",
+    escalation_enabled: false,
+    bedtime_ramp_minutes: 15,
+    factor_config: { late_night: { weight: 1 } },
+  };
+  const dad = {
+    id: "p2",
+    updated_at: "2026-01-06T10:00:00Z",
+    daily_limit_minutes: 90,
+    session_limit_minutes: 45,
+    bedtime_start: "22:00",
+    bedtime_end: "07:30",
+    parent_alert_threshold: "medium",
+    escalation_enabled: true,
+    bedtime_ramp_minutes: 30,
+    factor_config: { late_night: { weight: 2 } },
+  };
+
+  it("returns null with no policies", () => {
+    expect(mergeGuardianPolicies([])).toBeNull();
+  });
+
+  it("passes a single policy through", () => {
+    expect(mergeGuardianPolicies([mum])).toEqual({ ...mum, merged_from: ["p1"], merged_version_ids: [] });
+  });
+
+  it("takes the lowest limits, ignoring unset ones", () => {
+    const merged = mergeGuardianPolicies([mum, dad]);
+    expect(merged?.daily_limit_minutes).toBe(90);
+    expect(merged?.session_limit_minutes).toBe(45);
+    expect(merged?.bedtime_ramp_minutes).toBe(30);
+  });
+
+  it("widens bedtime to cover both windows", () => {
+    const merged = mergeGuardianPolicies([mum, dad]);
+    expect(merged?.bedtime_start).toBe("21:30");
+    expect(merged?.bedtime_end).toBe("07:30");
+  });
+
+  it("compares bedtimes across midnight", () => {
+    const late = { ...dad, bedtime_start: "00:30", bedtime_end: "06:00" };
+    const merged = mergeGuardianPolicies([mum, late]);
+    expect(merged?.bedtime_start).toBe("21:30");
+    expect(merged?.bedtime_end).toBe("07:00");
+  });
+
+  it("alerts and escalates at the most cautious setting", () => {
+    const merged = mergeGuardianPolicies([mum, dad]);
+    expect(merged?.parent_alert_threshold).toBe("medium");
+    expect(merged?.escalation_enabled).toBe(true);
+  });
+
+  it("takes the lower enter and exit for each risk level", () => {
+    const merged = mergeGuardianPolicies([
+      { ...mum, risk_level_thresholds: { high: { enter: 60 } } },
+      { ...dad, risk_level_thresholds: { high: { enter: 70, exit: 50 } } },
+    ]);
+    expect(merged?.risk_level_thresholds).toMatchObject({ high: { enter: 60, exit: 50 } });
+  });
+
+  it("merges category rules category by category", () => {
+    const merged = mergeGuardianPolicies([
+      { ...mum, category_rules: { games: { daily_limit_minutes: 60, bedtime_start: "20:00", bedtime_end: "07:00" } } },
+      { ...dad, category_rules: { games: { daily_limit_minutes: 45 }, social: { daily_limit_minutes: 30 } } },
+    ]);
+    expect(merged?.category_rules).toEqual({
+      games: { daily_limit_minutes: 45, bedtime_start: "20:00", bedtime_end: "07:00" },
+      social: { daily_limit_minutes: 30, bedtime_start: null, bedtime_end: null },
+    });
+  });
+
+  it("keeps every block but only the smallest extra time", () => {
+    const schedule = { rrule: "FREQ=WEEKLY;BYDAY=SA", starts_on: "2026-01-01" };
+    const merged = mergeGuardianPolicies([
+      {
+        ...mum,
+        schedules: [
+          { ...schedule, id: "m1", label: "Homework", action: "block", start_time: "16:00", end_time: "17:00", categories: [] },
+          { ...schedule, id: "m2", label: "Saturday", action: "extra_minutes", extra_minutes: 30 },
+        ],
+        schedule_exceptions: [{ id: "x1", label: "Holiday", starts_on: "2026-02-16", ends_on: "2026-02-20" }],
+      },
+      {
+        ...dad,
+        schedules: [
+          { ...schedule, id: "d1", label: "School", action: "block", start_time: "08:00", end_time: "15:00", categories: ["social"] },
+          { ...schedule, id: "d2", label: "Saturday", action: "extra_minutes", extra_minutes: 60 },
+        ],
+      },
+    ]);
+    expect((merged?.schedules as { id: string }[]).map(s => s.id)).toEqual(["m1", "m2", "d1"]);
+    // Mum's holiday doesn't lift dad's school block
+    expect(merged?.schedule_exceptions).toEqual([
+      { id: "x1", label: "Holiday", starts_on: "2026-02-16", ends_on: "2026-02-20", schedule_ids: ["m1", "m2"] },
+    ]);
+  });
+
+  it("takes everything else from the latest policy", () => {
+    const merged = mergeGuardianPolicies([mum, dad]);
+    expect(merged?.factor_config).toEqual(dad.factor_config);
+    expect(merged?.merged_from).toEqual(["p2", "p1"]);
+  });
+
+  it("lists the version of every merged policy", () => {
+    const merged = mergeGuardianPolicies([
+      { ...mum, current_version_id: "v1" },
+      { ...dad, current_version_id: "v7" },
+    ]);
+    expect(merged?.merged_version_ids).toEqual(["v7", "v1"]);
+  });
+});
+
+describe("household membership", () => {
+  it("generates unambiguous 8 character codes", () => {
+    const code = generateInvitationCode();
+    expect(code).toMatch(/^[A-Z2-9]{8}$/);
+    expect(code).not.toMatch(/[01IO]/);
+  });
+
+  it("expires invitations after a week", () => {
+    expect(getInvitationExpiry(new Date("2026-01-05T16:00:00Z"))).toBe("2026-01-12T16:00:00.000Z");
+  });
+
+  it("keeps at least one primary guardian", () => {
+    const guardians = [
+      { guardian_id: "a", role: "primary" as const },
+      { guardian_id: "b", role: "secondary" as const },
+    ];
+    expect(getRoleChangeRejection(guardians, "a", "view_only")).toMatch(/at least one primary/);
+    expect(getRoleChangeRejection(guardians, "b", "primary")).toBeNull();
+    expect(getRoleChangeRejection(guardians, "c", "secondary")).toBe("Guardian not found");
+  });
+});
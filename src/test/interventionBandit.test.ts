@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  chooseIntervention,
+  decideTiming,
+  deriveInsights,
+  sampleBeta,
+  summarizeFeedback,
+} from "../../supabase/functions/_shared/interventions/index.ts";
+import type {
+  EffectivenessStat,
+  FeedbackSample,
+  SelectionContext,
+  TemplateRules,
+} from "../../supabase/functions/_shared/interventions/index.ts";
+
+// Small seeded generator so sampling is repeatable
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const TEMPLATES: TemplateRules[] = [
+  { id: "nudge", type: "soft_nudge", name: "gentle_reminder", priority: 1 },
+  { id: "friction", type: "medium_friction", name: "session_warning", priority: 3, min_risk_level: "medium" },
+  { id: "block", type: "hard_block", name: "daily_limit", priority: 5, min_risk_level: "high" },
+  { id: "alert", type: "parent_alert", name: "high_risk_alert", priority: 7, min_risk_level: "critical" },
+];
+
+const ctx = (overrides: Partial<SelectionContext> = {}): SelectionContext => ({
+  risk_level: "high",
+  risk_score: 65,
+  local: { hour: 14, minute: 0 },
+  role: "youth",
+  ...overrides,
+});
+
+const stat = (scope: EffectivenessStat["scope"], scope_key: string, successes: number, failures: number): EffectivenessStat => ({
+  scope,
+  scope_key,
+  successes,
+  failures,
+  last_feedback_at: "2026-01-15T12:00:00Z",
+});
+
+const countChoices = (stats: EffectivenessStat[], context = ctx(), runs = 500) => {
+  const random = seeded(42);
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < runs; i++) {
+    const id = chooseIntervention(TEMPLATES, context, stats, random)!.template.id;
+    counts[id] = (counts[id] || 0) + 1;
+  }
+  return counts;
+};
+
+describe("Thompson-sampling intervention choice", () => {
+  it("samples Beta within [0, 1] around its mean", () => {
+    const random = seeded(7);
+    const draws = Array.from({ length: 2000 }, () => sampleBeta(8, 2, random));
+    const mean = draws.reduce((a, b) => a + b, 0) / draws.length;
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...draws)).toBeLessThanOrEqual(1);
+    expect(mean).toBeCloseTo(0.8, 1);
+  });
+
+  it("favours the rule-based template for users without feedback", () => {
+    const counts = countChoices([]);
+    expect(counts.block).toBeGreaterThan(250);
+    expect(counts.alert).toBeUndefined();
+  });
+
+  it("moves towards the template that works for this user", () => {
+    const counts = countChoices([stat("template", "block", 0, 12), stat("template", "nudge", 10, 1)]);
+    expect(counts.nudge).toBeGreaterThan(400);
+  });
+
+  it("always escalates at critical risk, whatever the stats say", () => {
+    const stats = [stat("template", "alert", 0, 30), stat("template", "nudge", 30, 0)];
+    const choice = chooseIntervention(TEMPLATES, ctx({ risk_level: "critical", risk_score: 90 }), stats, seeded(1));
+    expect(choice).toEqual({ template: TEMPLATES[3], strategy: "rule" });
+  });
+
+  it("returns null when no template is eligible", () => {
+    expect(chooseIntervention(TEMPLATES.slice(1), ctx({ risk_level: "low" }), [])).toBeNull();
+  });
+});
+
+describe("intervention timing", () => {
+  it("defers in hours this user reliably ignores", () => {
+    expect(decideTiming([stat("hour", "22", 0, 8)], "high", 22)).toMatchObject({ defer: true });
+  });
+
+  it.each([
+    { name: "too little data", stats: [stat("hour", "22", 0, 3)], level: "medium" as const },
+    { name: "a different hour", stats: [stat("hour", "21", 0, 8)], level: "medium" as const },
+    { name: "critical risk", stats: [stat("hour", "22", 0, 20)], level: "critical" as const },
+    { name: "an hour that works", stats: [stat("hour", "22", 4, 4)], level: "high" as const },
+  ])("does not defer for $name", ({ stats, level }) => {
+    expect(decideTiming(stats, level, 22).defer).toBe(false);
+  });
+});
+
+describe("effectiveness stats", () => {
+  const sample = (feedback_type: string, template_id: string, type: string, shown_at: string): FeedbackSample => ({
+    feedback_type,
+    template_id,
+    intervention_type: type,
+    shown_at,
+    created_at: shown_at,
+  });
+
+  const samples = [
+    sample("effective", "nudge", "soft_nudge", "2026-01-15T20:10:00Z"),
+    sample("effective", "nudge", "soft_nudge", "2026-01-15T20:40:00Z"),
+    sample("effective", "nudge", "soft_nudge", "2026-01-16T20:05:00Z"),
+    sample("ignored", "block", "hard_block", "2026-01-15T03:00:00Z"),
+    sample("ineffective", "block", "hard_block", "2026-01-16T03:30:00Z"),
+    sample("escalated", "block", "hard_block", "2026-01-17T03:15:00Z"),
+  ];
+
+  it("counts successes and failures per template, type and local hour", () => {
+    const stats = summarizeFeedback(samples, "America/New_York");
+    expect(stats).toContainEqual(expect.objectContaining({ scope: "template", scope_key: "nudge", successes: 3, failures: 0 }));
+    expect(stats).toContainEqual(expect.objectContaining({ scope: "type", scope_key: "hard_block", successes: 0, failures: 3 }));
+    // 20:xx UTC is 15:xx in New York; 03:xx UTC is 22:xx the previous evening
+    expect(stats).toContainEqual(expect.objectContaining({ scope: "hour", scope_key: "15", successes: 3 }));
+    expect(stats).toContainEqual(expect.objectContaining({ scope: "hour", scope_key: "22", failures: 3 }));
+  });
+
+  it("derives the same insights feedback-agent used to log", () => {
+    const patterns = deriveInsights(summarizeFeedback(samples)).map((insight) => insight.pattern);
+    expect(patterns).toEqual([
+      "soft_nudge_high_effectiveness",
+      "hard_block_low_effectiveness",
+      "time_effectiveness",
+      "time_ineffectiveness",
+    ]);
+  });
+
+  it("draws no insights from fewer than five pieces of feedback", () => {
+    expect(deriveInsights(summarizeFeedback(samples.slice(0, 4)))).toEqual([]);
+  });
+});
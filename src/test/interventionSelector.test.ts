@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkEscalation,
+  getEscalationDueAt,
+  getNextEscalationTier,
+  getTemplateRejection,
+  hashToUnit,
+  isInTimeWindow,
+  pickVariant,
+  selectTemplate,
+} from "../../supabase/functions/_shared/interventions/index.ts";
+import type { SelectionContext, TemplateRules } from "../../supabase/functions/_shared/interventions/index.ts";
+
+// Mirrors the seeded templates and their migrated cut-offs
+const TEMPLATES: TemplateRules[] = [
+  { id: "t1", type: "soft_nudge", name: "gentle_reminder", priority: 1, min_risk_level: "medium", max_risk_level: "high" },
+  { id: "t2", type: "soft_nudge", name: "breathing_exercise", priority: 2, min_risk_level: "medium", max_risk_level: "high" },
+  { id: "t3", type: "medium_friction", name: "session_warning", priority: 3, min_risk_level: "high", min_risk_score: 35 },
+  { id: "t5", type: "hard_block", name: "daily_limit", priority: 5, min_risk_level: "high", min_risk_score: 50 },
+  { id: "t6", type: "hard_block", name: "bedtime_block", priority: 6, min_risk_level: "high", min_risk_score: 50, active_from: "21:00", active_until: "06:00" },
+  { id: "t7", type: "parent_alert", name: "high_risk_alert", priority: 7, min_risk_level: "critical", min_risk_score: 75 },
+];
+
+const ctx = (overrides: Partial<SelectionContext> = {}): SelectionContext => ({
+  risk_level: "high",
+  risk_score: 65,
+  local: { hour: 14, minute: 0 },
+  role: "youth",
+  ...overrides,
+});
+
+describe("intervention template selection", () => {
+  it.each([
+    { risk_level: "medium", risk_score: 30, expected: "breathing_exercise" },
+    { risk_level: "medium", risk_score: 40, expected: "breathing_exercise" },
+    { risk_level: "high", risk_score: 40, expected: "session_warning" },
+    { risk_level: "high", risk_score: 65, expected: "daily_limit" },
+    { risk_level: "critical", risk_score: 74, expected: "daily_limit" },
+    { risk_level: "critical", risk_score: 90, expected: "high_risk_alert" },
+  ] as const)("$risk_level/$risk_score → $expected", ({ risk_level, risk_score, expected }) => {
+    expect(selectTemplate(TEMPLATES, ctx({ risk_level, risk_score }))?.name).toBe(expected);
+  });
+
+  it("honours time-of-day windows that wrap midnight", () => {
+    expect(selectTemplate(TEMPLATES, ctx({ local: { hour: 23, minute: 30 } }))?.name).toBe("bedtime_block");
+    expect(selectTemplate(TEMPLATES, ctx({ local: { hour: 5, minute: 59 } }))?.name).toBe("bedtime_block");
+    expect(selectTemplate(TEMPLATES, ctx({ local: { hour: 6, minute: 0 } }))?.name).toBe("daily_limit");
+  });
+
+  it.each([
+    { minutes: 600, from: 540, until: 1020, inside: true },
+    { minutes: 1020, from: 540, until: 1020, inside: false },
+    { minutes: 60, from: 1320, until: 360, inside: true },
+    { minutes: 720, from: 1320, until: 360, inside: false },
+  ])("window $from-$until contains $minutes: $inside", ({ minutes, from, until, inside }) => {
+    expect(isInTimeWindow(minutes, from, until)).toBe(inside);
+  });
+
+  it("filters by role", () => {
+    const parentOnly: TemplateRules = { id: "p", type: "soft_nudge", name: "parent_tip", priority: 9, roles: ["parent"] };
+    expect(selectTemplate([...TEMPLATES, parentOnly], ctx())?.name).toBe("daily_limit");
+    expect(selectTemplate([...TEMPLATES, parentOnly], ctx({ role: "parent" }))?.name).toBe("parent_tip");
+    expect(getTemplateRejection(parentOnly, ctx({ role: null }))).toBe("role none not in parent");
+  });
+
+  it("respects max_risk_score and explains rejections", () => {
+    const capped: TemplateRules = { id: "c", type: "soft_nudge", name: "capped", max_risk_score: 40 };
+    expect(getTemplateRejection(capped, ctx())).toBe("risk score 65 is above 40");
+    expect(getTemplateRejection(TEMPLATES[5], ctx())).toBe("risk level high is below critical");
+  });
+
+  it("keeps nudges out of critical risk", () => {
+    expect(getTemplateRejection(TEMPLATES[1], ctx({ risk_level: "critical", risk_score: 74 })))
+      .toBe("risk level critical is above high");
+    expect(selectTemplate(TEMPLATES.slice(0, 2), ctx({ risk_level: "critical", risk_score: 74 }))).toBeNull();
+  });
+
+  it("triggers nothing at low risk", () => {
+    expect(selectTemplate(TEMPLATES, ctx({ risk_level: "low", risk_score: 10 }))).toBeNull();
+  });
+
+  it("returns null when nothing qualifies", () => {
+    expect(selectTemplate(TEMPLATES.slice(3), ctx({ risk_level: "medium", risk_score: 30 }))).toBeNull();
+  });
+});
+
+describe("variant bucketing", () => {
+  const variants = [
+    { id: "a", name: "control", weight: 1 },
+    { id: "b", name: "friendly", weight: 3 },
+  ];
+
+  it("hashes into [0, 1)", () => {
+    for (const value of ["", "a", "user:template", "x".repeat(100)]) {
+      const unit = hashToUnit(value);
+      expect(unit).toBeGreaterThanOrEqual(0);
+      expect(unit).toBeLessThan(1);
+    }
+  });
+
+  it("is deterministic per user and ignores query order", () => {
+    const first = pickVariant(variants, "user-42", "t1");
+    expect(pickVariant([...variants].reverse(), "user-42", "t1")).toBe(first);
+  });
+
+  it("splits users roughly by weight", () => {
+    let friendly = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickVariant(variants, `user-${i}`, "t1")?.name === "friendly") friendly++;
+    }
+    expect(friendly / 2000).toBeGreaterThan(0.7);
+    expect(friendly / 2000).toBeLessThan(0.8);
+  });
+
+  it("skips zero-weight variants and falls back to the template when none remain", () => {
+    expect(pickVariant([{ id: "z", name: "paused", weight: 0 }], "user-1", "t1")).toBeNull();
+    expect(pickVariant([], "user-1", "t1")).toBeNull();
+  });
+});
+
+describe("escalation", () => {
+  it.each([
+    { type: "soft_nudge", next: "medium_friction" },
+    { type: "medium_friction", next: "hard_block" },
+    { type: "hard_block", next: "parent_alert" },
+    { type: "parent_alert", next: null },
+    { type: "unknown", next: null },
+  ])("$type escalates to $next", ({ type, next }) => {
+    expect(getNextEscalationTier(type)).toBe(next);
+  });
+
+  it("falls due after the policy delay, defaulting to 15 minutes", () => {
+    const now = new Date("2026-01-15T12:00:00Z");
+    expect(getEscalationDueAt(now, 5)).toBe("2026-01-15T12:05:00.000Z");
+    expect(getEscalationDueAt(now, null)).toBe("2026-01-15T12:15:00.000Z");
+  });
+
+  describe("when the timer runs out", () => {
+    const now = new Date("2026-01-15T12:00:00Z");
+
+    it.each([
+      { status: "pending", action: "escalate" },
+      { status: "delivered", action: "escalate" },
+      // Waving a nudge away isn't dealing with it
+      { status: "dismissed", action: "escalate" },
+      { status: "acknowledged", action: "skip" },
+      { status: "escalated", action: "skip" },
+    ])("$status → $action", ({ status, action }) => {
+      expect(checkEscalation({ status }, undefined, now).action).toBe(action);
+    });
+
+    it("holds off until an allowed snooze is over", () => {
+      expect(checkEscalation({ status: "snoozed", snoozed_until: "2026-01-15T12:10:00+00:00" }, undefined, now)).toEqual({
+        action: "reschedule",
+        snoozed_until: "2026-01-15T12:10:00.000Z",
+      });
+    });
+
+    it("escalates past the snooze limit even though the intervention is already marked", () => {
+      expect(checkEscalation({ status: "escalated" }, "snooze_limit", now).action).toBe("escalate");
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MAX_SNOOZE_COUNT,
+  DEFAULT_SNOOZE_MINUTES,
+  planSnooze,
+} from "../../supabase/functions/_shared/interventions/snooze.ts";
+import { getFeedbackStatusUpdate } from "../../supabase/functions/_shared/interventions/effectiveness.ts";
+import { DEFAULT_ORCHESTRATOR_DEFINITION, transition } from "../../supabase/functions/_shared/orchestrator/index.ts";
+
+describe("intervention snooze", () => {
+  const now = new Date("2026-01-05T16:00:00Z");
+
+  it("snoozes for the default length", () => {
+    expect(planSnooze({ snooze_count: 0 }, null, now)).toEqual({
+      action: "snooze",
+      minutes: DEFAULT_SNOOZE_MINUTES,
+      snoozed_until: "2026-01-05T16:15:00.000Z",
+      snooze_count: 1,
+    });
+  });
+
+  it("honours a requested length", () => {
+    expect(planSnooze({ minutes: 45, snooze_count: 1 }, null, now)).toMatchObject({
+      action: "snooze",
+      snoozed_until: "2026-01-05T16:45:00.000Z",
+      snooze_count: 2,
+    });
+  });
+
+  it.each([0, -5, 2.5, 121, "15"])("rejects %s minutes", (minutes) => {
+    expect(planSnooze({ minutes, snooze_count: 0 }, null, now).action).toBe("invalid");
+  });
+
+  it("escalates once the default limit is used up", () => {
+    expect(planSnooze({ snooze_count: DEFAULT_MAX_SNOOZE_COUNT }, null, now)).toEqual({
+      action: "escalate",
+      snooze_count: DEFAULT_MAX_SNOOZE_COUNT + 1,
+    });
+  });
+
+  it("uses the policy's limit", () => {
+    expect(planSnooze({ snooze_count: 0 }, { max_snooze_count: 0 }, now).action).toBe("escalate");
+    expect(planSnooze({ snooze_count: 4 }, { max_snooze_count: 5 }, now).action).toBe("snooze");
+  });
+
+  it("stays snoozed through respond-intervention's follow-up calls", () => {
+    const snoozed = { status: "snoozed", snoozed_until: "2026-01-05T16:15:00.000Z" };
+
+    // feedback-agent gets the snooze as 'ignored'
+    const afterFeedback = { ...snoozed, ...getFeedbackStatusUpdate("ignored", now) };
+    expect(afterFeedback.status).toBe("snoozed");
+
+    // The orchestrator only moves state; it doesn't call feedback-agent again
+    const outcome = transition(DEFAULT_ORCHESTRATOR_DEFINITION, "intervening", "intervention_dismissed");
+    expect(outcome).toMatchObject({ status: "applied", effects: [] });
+  });
+
+  it("still records acknowledgements and dismissals on the intervention", () => {
+    expect(getFeedbackStatusUpdate("effective", now)).toEqual({
+      status: "acknowledged",
+      acknowledged_at: now.toISOString(),
+    });
+    expect(getFeedbackStatusUpdate("ineffective", now)?.status).toBe("dismissed");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import {
+  JOB_RETRY_MAX_SECONDS,
+  getRetryDelaySeconds,
+  planJobFailure,
+} from "../../supabase/functions/_shared/jobs/retry.ts";
+
+describe("job retry policy", () => {
+  const now = new Date("2026-01-05T12:00:00Z");
+
+  it.each([
+    { attempt: 1, seconds: 30 },
+    { attempt: 2, seconds: 60 },
+    { attempt: 3, seconds: 120 },
+    { attempt: 7, seconds: 1800 },
+    { attempt: 20, seconds: JOB_RETRY_MAX_SECONDS },
+  ])("waits $seconds s after attempt $attempt", ({ attempt, seconds }) => {
+    expect(getRetryDelaySeconds(attempt)).toBe(seconds);
+  });
+
+  it("requeues with backoff while attempts remain", () => {
+    expect(planJobFailure({ attempts: 2, max_attempts: 5 }, now)).toEqual({
+      status: "queued",
+      run_at: "2026-01-05T12:01:00.000Z",
+      delay_seconds: 60,
+    });
+  });
+
+  it("dead-letters once max attempts are used up", () => {
+    expect(planJobFailure({ attempts: 5, max_attempts: 5 }, now)).toEqual({ status: "dead" });
+  });
+});
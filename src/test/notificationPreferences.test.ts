@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  getDeliveryChannels,
+  getEffectiveSwitches,
+  planNotificationDelivery,
+  resolveNotificationPrefs,
+} from "../../supabase/functions/_shared/notifications/preferences.ts";
+import { buildParentAlert } from "../../supabase/functions/_shared/notifications/messages.ts";
+
+describe("notification preferences", () => {
+  it.each([null, "yes", 42, []])("falls back to defaults for %j", (raw) => {
+    expect(resolveNotificationPrefs(raw)).toEqual(DEFAULT_NOTIFICATION_PREFS);
+  });
+
+  it("merges stored booleans over the defaults and ignores the rest", () => {
+    const prefs = resolveNotificationPrefs({ email_alerts: false, push_alerts: "no", unknown: true });
+    expect(prefs.email_alerts).toBe(false);
+    expect(prefs.push_alerts).toBe(true);
+    expect(prefs).not.toHaveProperty("unknown");
+  });
+
+  it.each([
+    { prefs: {}, category: "intervention_alert", channels: ["in_app", "email", "push"] },
+    { prefs: { email_alerts: false }, category: "intervention_alert", channels: ["in_app", "push"] },
+    { prefs: { push_alerts: false }, category: "risk_warning", channels: ["in_app", "email"] },
+    { prefs: { intervention_alerts: false }, category: "intervention_alert", channels: [] },
+    { prefs: {}, category: "daily_summary", channels: [] },
+    { prefs: { intervention_alerts: false, risk_warnings: false }, category: "family_update", channels: ["in_app", "email", "push"] },
+  ] as const)("$category with $prefs → $channels", ({ prefs, category, channels }) => {
+    expect(getDeliveryChannels(resolveNotificationPrefs(prefs), category)).toEqual(channels);
+  });
+
+  it("keeps valid quiet hours and child overrides", () => {
+    const prefs = resolveNotificationPrefs({
+      quiet_hours: { enabled: true, start: "21:30", end: "bedtime" },
+      child_overrides: { kid: { email_alerts: false, muted: true }, other: "off" },
+    });
+    expect(prefs.quiet_hours).toEqual({ enabled: true, start: "21:30", end: "07:00" });
+    expect(prefs.child_overrides).toEqual({ kid: { email_alerts: false } });
+  });
+
+  it("applies a child's override on top of the parent's switches", () => {
+    const prefs = resolveNotificationPrefs({
+      email_alerts: false,
+      child_overrides: { kid: { email_alerts: true, intervention_alerts: false } },
+    });
+    expect(getEffectiveSwitches(prefs, "kid")).toMatchObject({ email_alerts: true, intervention_alerts: false });
+    expect(getEffectiveSwitches(prefs, "sibling")).toMatchObject({ email_alerts: false, intervention_alerts: true });
+  });
+
+  describe("quiet hours", () => {
+    const prefs = resolveNotificationPrefs({ quiet_hours: { enabled: true, start: "22:00", end: "07:00" } });
+    const now = new Date("2026-03-02T23:30:00Z");
+
+    it("holds email and push until the window ends", () => {
+      expect(planNotificationDelivery(prefs, "intervention_alert", null, { hour: 23, minute: 30 }, now)).toEqual({
+        channels: ["in_app"],
+        deferred: ["email", "push"],
+        resume_at: "2026-03-03T07:00:00.000Z",
+      });
+    });
+
+    it("sends everything outside the window", () => {
+      expect(planNotificationDelivery(prefs, "intervention_alert", null, { hour: 7, minute: 0 }, now)).toEqual({
+        channels: ["in_app", "email", "push"],
+        deferred: [],
+        resume_at: null,
+      });
+    });
+
+    it("sends nothing for a muted category, quiet or not", () => {
+      const muted = resolveNotificationPrefs({ ...prefs, risk_warnings: false });
+      expect(planNotificationDelivery(muted, "risk_warning", null, { hour: 23, minute: 30 }, now)).toEqual({
+        channels: [],
+        deferred: [],
+        resume_at: null,
+      });
+    });
+  });
+});
+
+describe("buildParentAlert", () => {
+  it("names the child and the risk", () => {
+    expect(buildParentAlert({ child_name: "Sam", risk_level: "critical", risk_score: 82.4 })).toEqual({
+      title: "Sam needs your attention",
+      body: "Sam's screen time risk reached critical (82/100).",
+    });
+  });
+
+  it("explains escalations and copes without a name", () => {
+    const alert = buildParentAlert({ child_name: null, risk_level: "high", risk_score: 60, escalated: true });
+    expect(alert.title).toBe("Your child needs your attention");
+    expect(alert.body).toContain("ignored earlier screen time prompts");
+  });
+});
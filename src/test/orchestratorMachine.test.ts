@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ORCHESTRATOR_DEFINITION,
+  parseOrchestratorDefinition,
+  transition,
+} from "../../supabase/functions/_shared/orchestrator/index.ts";
+import type { OrchestratorDefinition } from "../../supabase/functions/_shared/orchestrator/index.ts";
+
+const EFFECTS = ["run_intervention_agent"];
+
+describe("orchestrator state machine", () => {
+  const def = DEFAULT_ORCHESTRATOR_DEFINITION;
+
+  it("validates the built-in definition", () => {
+    expect(() => parseOrchestratorDefinition(def, 1, EFFECTS)).not.toThrow();
+  });
+
+  it.each([
+    { from: "idle", event: "app_open", to: "monitoring", effects: [] },
+    { from: "monitoring", event: "app_open", to: "monitoring", effects: [] },
+    { from: "monitoring", event: "high_risk_detected", to: "intervening", effects: ["run_intervention_agent"] },
+    { from: "monitoring", event: "medium_risk_detected", to: "monitoring", effects: ["run_intervention_agent"] },
+    { from: "intervening", event: "critical_risk_detected", to: "escalating", effects: ["run_intervention_agent"] },
+    { from: "intervening", event: "intervention_acknowledged", to: "monitoring", effects: [] },
+    { from: "intervening", event: "intervention_dismissed", to: "monitoring", effects: [] },
+    { from: "escalating", event: "intervention_acknowledged", to: "monitoring", effects: [] },
+    { from: "idle", event: "intervention_dismissed", to: "idle", effects: [] },
+    { from: "escalating", event: "app_close", to: "idle", effects: [] },
+  ])("$from --$event--> $to", ({ from, event, to, effects }) => {
+    expect(transition(def, from, event)).toEqual({ status: "applied", from, to, event, effects });
+  });
+
+  it("rejects known events with no transition from the current state", () => {
+    expect(transition(def, "idle", "app_close")).toMatchObject({
+      status: "rejected",
+      reason: 'No transition for "app_close" from state "idle"',
+    });
+  });
+
+  it("ignores events the definition never mentions", () => {
+    expect(transition(def, "monitoring", "scroll")).toEqual({ status: "ignored", from: "monitoring", event: "scroll" });
+  });
+
+  describe("guards", () => {
+    const guarded: OrchestratorDefinition = {
+      version: 2,
+      initial: "idle",
+      states: ["idle", "alert"],
+      transitions: [
+        { from: "*", event: "risk", to: "alert", guard: { risk_level_in: ["critical"], min_risk_score: 80 } },
+        { from: "idle", event: "reset", to: "idle" },
+      ],
+    };
+
+    it.each([
+      { ctx: { risk_level: "critical", risk_score: 90 }, status: "applied" },
+      { ctx: { risk_level: "critical", risk_score: 70 }, status: "rejected" },
+      { ctx: { risk_level: "high", risk_score: 90 }, status: "rejected" },
+      { ctx: {}, status: "rejected" },
+    ])("risk with $ctx → $status", ({ ctx, status }) => {
+      expect(transition(guarded, "idle", "risk", ctx).status).toBe(status);
+    });
+
+    it("explains guard rejections", () => {
+      expect(transition(guarded, "idle", "risk", { risk_level: "low" })).toMatchObject({
+        reason: 'Guard blocked "risk" in state "idle"',
+      });
+    });
+  });
+
+  describe("validation", () => {
+    it.each([
+      { raw: null, message: "states must be a non-empty array" },
+      { raw: { states: ["a", "a"], initial: "a", transitions: [] }, message: "states must be unique" },
+      { raw: { states: ["a"], initial: "b", transitions: [] }, message: 'initial state "b"' },
+      { raw: { states: ["a"], initial: "a" }, message: "transitions must be an array" },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "x", event: "e" }] }, message: 'unknown state "x"' },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "a", event: "e", to: "z" }] }, message: 'unknown state "z"' },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "a", event: "" }] }, message: "event must be a non-empty string" },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "a", event: "e", effects: ["launch"] }] }, message: 'unknown effect "launch"' },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "a", event: "e", guard: { weekday: 1 } }] }, message: 'unknown condition "weekday"' },
+      { raw: { states: ["a"], initial: "a", transitions: [{ from: "a", event: "e", guard: { min_risk_score: "50" } }] }, message: "min_risk_score must be a number" },
+    ])("rejects $message", ({ raw, message }) => {
+      expect(() => parseOrchestratorDefinition(raw, 3, EFFECTS)).toThrow(message);
+    });
+
+    it("reports the version it rejected", () => {
+      expect(() => parseOrchestratorDefinition({}, 7, EFFECTS)).toThrow("Invalid orchestrator definition v7");
+    });
+  });
+});
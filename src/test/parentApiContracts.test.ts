@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  acceptInvitationSchema,
+  decodeCursor,
+  encodeCursor,
+  extensionDecisionSchema,
+  guardianInvitationSchema,
+  interventionsQuerySchema,
+  policyUpdateSchema,
+} from "../../supabase/functions/_shared/parent-api/contracts.ts";
+import { isV2Path, matchRoute, toValidationError } from "../../supabase/functions/_shared/parent-api/router.ts";
+
+const CHILD_ID = "7b0e6f4a-2c1d-4e8f-9a3b-5c6d7e8f9a0b";
+
+describe("parent-api v2 routing", () => {
+  it.each([
+    { method: "GET", path: "/parent-api/v2/children", name: "listChildren", params: {} },
+    { method: "GET", path: `/parent-api/v2/children/${CHILD_ID}/stats`, name: "getChildStats", params: { childId: CHILD_ID } },
+    { method: "PATCH", path: `/functions/v1/parent-api/v2/children/${CHILD_ID}/policy/`, name: "updateChildPolicy", params: { childId: CHILD_ID } },
+    { method: "post", path: "/parent-api/v2/extension-requests/abc/decision", name: "decideExtensionRequest", params: { requestId: "abc" } },
+    { method: "GET", path: `/parent-api/v2/children/${CHILD_ID}/policy/versions`, name: "listPolicyVersions", params: { childId: CHILD_ID } },
+    { method: "POST", path: `/parent-api/v2/children/${CHILD_ID}/policy/versions/v9/rollback`, name: "rollbackPolicy", params: { childId: CHILD_ID, versionId: "v9" } },
+    { method: "PATCH", path: "/parent-api/v2/households/h1/guardians/g1", name: "updateGuardianRole", params: { householdId: "h1", guardianId: "g1" } },
+  ])("$method $path → $name", ({ method, path, name, params }) => {
+    expect(matchRoute(method, path)).toEqual({ status: "matched", name, params });
+  });
+
+  it("reports the allowed methods for a known path", () => {
+    expect(matchRoute("DELETE", "/parent-api/v2/interventions")).toEqual({ status: "method_not_allowed", allowed: ["GET"] });
+  });
+
+  it("doesn't match unknown paths", () => {
+    expect(matchRoute("GET", "/parent-api/v2/children/x/sessions")).toEqual({ status: "not_found" });
+  });
+
+  it("tells v1 action requests apart", () => {
+    expect(isV2Path("/parent-api")).toBe(false);
+    expect(isV2Path("/parent-api/v2/children")).toBe(true);
+  });
+});
+
+describe("parent-api v2 contracts", () => {
+  it("rejects unknown policy fields rather than writing them", () => {
+    const result = policyUpdateSchema.safeParse({ daily_limit_minutes: 90, owner_id: CHILD_ID });
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts the risk tuning fields", () => {
+    expect(policyUpdateSchema.safeParse({
+      bedtime_ramp_minutes: 45,
+      risk_decay_half_life_minutes: 0,
+      factor_config: { late_night: { enabled: false }, scroll_velocity: { weight: 1.5, cap: 30 } },
+      risk_level_thresholds: { high: { enter: 60, exit: 50 } },
+    }).success).toBe(true);
+    expect(policyUpdateSchema.safeParse({ factor_config: null, risk_level_thresholds: null }).success).toBe(true);
+  });
+
+  it.each([
+    { bedtime_ramp_minutes: -5 },
+    { risk_decay_half_life_minutes: 1.5 },
+    { factor_config: { late_night: { weight: 50 } } },
+    { factor_config: { late_night: { enabled: false, colour: "red" } } },
+    { factor_config: { "Late Night": { enabled: false } } },
+    { risk_level_thresholds: { extreme: { enter: 90 } } },
+    // Entering high above critical's default of 75
+    { risk_level_thresholds: { high: { enter: 80 } } },
+  ])("rejects %j", (update) => {
+    expect(policyUpdateSchema.safeParse(update).success).toBe(false);
+  });
+
+  it("accepts rules for known app categories only", () => {
+    expect(policyUpdateSchema.safeParse({
+      category_rules: { games: { daily_limit_minutes: 60, bedtime_start: "20:00", bedtime_end: "07:00" } },
+    }).success).toBe(true);
+    expect(policyUpdateSchema.safeParse({ category_rules: { shopping: { daily_limit_minutes: 60 } } }).success).toBe(false);
+    expect(policyUpdateSchema.safeParse({ category_rules: { games: { bedtime_start: "20:00" } } }).success).toBe(false);
+  });
+
+  it("validates schedules and their recurrence rules", () => {
+    const school = {
+      id: "school",
+      label: "School",
+      rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      starts_on: "2026-01-05",
+      action: "block",
+      start_time: "08:00",
+      end_time: "15:00",
+      categories: ["social"],
+    };
+    expect(policyUpdateSchema.safeParse({ schedules: [school] }).success).toBe(true);
+    expect(policyUpdateSchema.safeParse({ schedules: [{ ...school, rrule: "FREQ=MONTHLY;BYMONTHDAY=1" }] }).success).toBe(false);
+    expect(policyUpdateSchema.safeParse({ schedules: [school, school] }).success).toBe(false);
+    expect(policyUpdateSchema.safeParse({
+      schedule_exceptions: [{ id: "h", label: "Holiday", starts_on: "2026-02-20", ends_on: "2026-02-16" }],
+    }).success).toBe(false);
+  });
+
+  it("requires at least one policy field", () => {
+    const result = policyUpdateSchema.safeParse({});
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(toValidationError(result.error).issues).toEqual([
+        { path: "(root)", message: "At least one policy field is required" },
+      ]);
+    }
+  });
+
+  it("validates bedtimes as HH:MM", () => {
+    expect(policyUpdateSchema.safeParse({ bedtime_start: "21:30" }).success).toBe(true);
+    expect(policyUpdateSchema.safeParse({ bedtime_start: "9pm" }).success).toBe(false);
+  });
+
+  it("coerces and bounds query strings", () => {
+    expect(interventionsQuerySchema.parse({})).toEqual({ limit: 20 });
+    expect(interventionsQuerySchema.parse({ limit: "5" }).limit).toBe(5);
+    expect(interventionsQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+  });
+
+  it("names the failing field of a decision", () => {
+    const result = extensionDecisionSchema.safeParse({ decision: "maybe" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(toValidationError(result.error).issues?.[0].path).toBe("decision");
+    }
+  });
+
+  it("only invites secondary or view-only guardians", () => {
+    expect(guardianInvitationSchema.parse({})).toEqual({ role: "secondary" });
+    expect(guardianInvitationSchema.safeParse({ role: "primary" }).success).toBe(false);
+  });
+
+  it("normalises invitation codes", () => {
+    expect(acceptInvitationSchema.parse({ code: " abcd2345 " })).toEqual({ code: "ABCD2345" });
+    expect(acceptInvitationSchema.safeParse({ code: "ABC" }).success).toBe(false);
+  });
+
+  it("round-trips cursors", () => {
+    const cursor = { created_at: "2026-01-05T16:00:00.123456+00:00", id: CHILD_ID };
+    const encoded = encodeCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded)).toEqual(cursor);
+  });
+
+  it.each([
+    "not base64!",
+    encodeCursor({ created_at: "yesterday", id: CHILD_ID }),
+    btoa("2026-01-05T16:00:00Z|nope"),
+    // Date.parse skips the parenthesised part; PostgREST wouldn't
+    encodeCursor({ created_at: 'Jan 1 2024 (",id.gt.0)', id: CHILD_ID }),
+    btoa(`2026-01-05T16:00:00Z|${CHILD_ID}|extra`),
+  ])(
+    "rejects malformed cursor %s",
+    (value) => {
+      expect(decodeCursor(value)).toBeNull();
+    }
+  );
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRisk,
+  findScheduleBlock,
+  getLocalTime,
+  getScheduleState,
+  occursOn,
+  parseRecurrenceRule,
+} from "../../supabase/functions/_shared/risk/index.ts";
+import type { PolicySchedule, RiskPolicy } from "../../supabase/functions/_shared/risk/index.ts";
+
+// 2026-01-15 is a Thursday
+const at = (iso: string, timeZone = "UTC") => getLocalTime(new Date(iso), timeZone);
+
+const schoolHours: PolicySchedule = {
+  id: "school",
+  label: "School",
+  rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  starts_on: "2026-01-01",
+  action: "block",
+  start_time: "08:00",
+  end_time: "15:00",
+  categories: ["social"],
+};
+
+const thursdayNights: PolicySchedule = {
+  id: "nights",
+  label: "Early night",
+  rrule: "FREQ=WEEKLY;BYDAY=TH",
+  starts_on: "2026-01-01",
+  action: "block",
+  start_time: "22:00",
+  end_time: "06:00",
+  categories: [],
+};
+
+const saturdayBonus: PolicySchedule = {
+  id: "saturday",
+  label: "Saturday",
+  rrule: "FREQ=WEEKLY;BYDAY=SA",
+  starts_on: "2026-01-01",
+  action: "extra_minutes",
+  extra_minutes: 60,
+};
+
+describe("recurrence rules", () => {
+  it("parses the supported RRULE subset", () => {
+    expect(parseRecurrenceRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO;UNTIL=20260630T235959Z")).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [1, 5],
+      until: "2026-06-30",
+    });
+    expect(parseRecurrenceRule("FREQ=DAILY")).toEqual({ freq: "DAILY", interval: 1, byDay: null, until: null });
+  });
+
+  it.each([
+    "",
+    "FREQ=MONTHLY",
+    "FREQ=WEEKLY;BYDAY=1MO",
+    "FREQ=WEEKLY;BYHOUR=8",
+    "FREQ=DAILY;INTERVAL=0",
+    "FREQ=DAILY;UNTIL=20260231",
+    "FREQ=DAILY;FREQ=WEEKLY",
+  ])("rejects %j", (rrule) => {
+    expect(parseRecurrenceRule(rrule)).toBeNull();
+  });
+
+  it("repeats weekly rules on the start date's weekday by default", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY")!;
+    expect(occursOn(rule, "2026-01-15", "2026-01-22")).toBe(true);
+    expect(occursOn(rule, "2026-01-15", "2026-01-21")).toBe(false);
+    expect(occursOn(rule, "2026-01-15", "2026-01-08")).toBe(false);
+  });
+
+  it("skips weeks and days by interval", () => {
+    const fortnightly = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR")!;
+    expect(occursOn(fortnightly, "2026-01-15", "2026-01-16")).toBe(true);
+    expect(occursOn(fortnightly, "2026-01-15", "2026-01-19")).toBe(false);
+    expect(occursOn(fortnightly, "2026-01-15", "2026-01-26")).toBe(true);
+
+    const everyThirdDay = parseRecurrenceRule("FREQ=DAILY;INTERVAL=3")!;
+    expect(occursOn(everyThirdDay, "2026-01-15", "2026-01-18")).toBe(true);
+    expect(occursOn(everyThirdDay, "2026-01-15", "2026-01-19")).toBe(false);
+  });
+
+  it("stops after UNTIL", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;UNTIL=20260120")!;
+    expect(occursOn(rule, "2026-01-15", "2026-01-20")).toBe(true);
+    expect(occursOn(rule, "2026-01-15", "2026-01-21")).toBe(false);
+  });
+});
+
+describe("schedule state", () => {
+  const policy: RiskPolicy = { schedules: [schoolHours, thursdayNights, saturdayBonus] };
+
+  it("blocks during school hours on school days only", () => {
+    expect(getScheduleState(policy, at("2026-01-15T10:00:00Z")).blocks.map(b => b.schedule_id)).toEqual(["school"]);
+    expect(getScheduleState(policy, at("2026-01-15T15:00:00Z")).blocks).toEqual([]);
+    expect(getScheduleState(policy, at("2026-01-17T10:00:00Z")).blocks).toEqual([]);
+  });
+
+  it("runs a block past midnight into the next morning", () => {
+    expect(getScheduleState(policy, at("2026-01-15T23:00:00Z")).blocks.map(b => b.schedule_id)).toEqual(["nights"]);
+    expect(getScheduleState(policy, at("2026-01-16T02:00:00Z")).blocks.map(b => b.schedule_id)).toEqual(["nights"]);
+    // Wednesday night isn't scheduled
+    expect(getScheduleState(policy, at("2026-01-15T02:00:00Z")).blocks).toEqual([]);
+  });
+
+  it("evaluates in the child's timezone", () => {
+    // 16:00 UTC is 08:00 in Los Angeles
+    expect(getScheduleState(policy, at("2026-01-15T15:59:00Z", "America/Los_Angeles")).blocks).toEqual([]);
+    expect(getScheduleState(policy, at("2026-01-15T16:00:00Z", "America/Los_Angeles")).blocks).toHaveLength(1);
+  });
+
+  it("lifts schedules on exception days", () => {
+    const withHoliday: RiskPolicy = {
+      ...policy,
+      schedule_exceptions: [
+        { id: "h", label: "Sick day", starts_on: "2026-01-15", ends_on: "2026-01-15", schedule_ids: null },
+      ],
+    };
+    expect(getScheduleState(withHoliday, at("2026-01-15T10:00:00Z")).blocks).toEqual([]);
+    // The night belongs to the day it started on
+    expect(getScheduleState(withHoliday, at("2026-01-16T02:00:00Z")).blocks).toEqual([]);
+  });
+
+  it("only lifts the schedules an exception names", () => {
+    const onlyNights: RiskPolicy = {
+      ...policy,
+      schedule_exceptions: [
+        { id: "h", label: "Sleepover", starts_on: "2026-01-15", ends_on: "2026-01-15", schedule_ids: ["nights"] },
+      ],
+    };
+    expect(getScheduleState(onlyNights, at("2026-01-15T10:00:00Z")).blocks).toHaveLength(1);
+    expect(getScheduleState(onlyNights, at("2026-01-15T23:00:00Z")).blocks).toEqual([]);
+  });
+
+  it("adds extra minutes for the whole day", () => {
+    expect(getScheduleState(policy, at("2026-01-17T00:30:00Z")).extraMinutes).toBe(60);
+    expect(getScheduleState(policy, at("2026-01-18T00:30:00Z")).extraMinutes).toBe(0);
+  });
+
+  it("drops malformed schedules", () => {
+    const broken = { schedules: [{ ...schoolHours, rrule: "FREQ=YEARLY" }, { id: "x" }] } as unknown as RiskPolicy;
+    expect(getScheduleState(broken, at("2026-01-15T10:00:00Z"))).toEqual({ blocks: [], extraMinutes: 0 });
+  });
+
+  it("matches blocks to app categories", () => {
+    const state = getScheduleState(policy, at("2026-01-15T10:00:00Z"));
+    expect(findScheduleBlock(state, "social")?.schedule_id).toBe("school");
+    expect(findScheduleBlock(state, "education")).toBeNull();
+    expect(findScheduleBlock(state, null)).toBeNull();
+    expect(findScheduleBlock(getScheduleState(policy, at("2026-01-15T23:00:00Z")), null)?.schedule_id).toBe("nights");
+  });
+});
+
+describe("schedules in risk scoring", () => {
+  const utc = { timezone: "UTC" };
+  const policy: RiskPolicy = { daily_limit_minutes: 60, schedules: [schoolHours, saturdayBonus] };
+
+  it("scores use of a blocked category", () => {
+    const now = new Date("2026-01-15T10:00:00Z");
+    const result = computeRisk({ started_at: "2026-01-15T09:55:00Z", category: "social" }, [], utc, policy, now);
+    expect(result.factors.schedule_block).toBe(25);
+    expect(result.explanation.factors.find(f => f.key === "schedule_block")).toMatchObject({
+      threshold: "until 15:00",
+      policy_field: "schedules.school",
+      policy_value: "School",
+    });
+
+    const games = computeRisk({ started_at: "2026-01-15T09:55:00Z", category: "games" }, [], utc, policy, now);
+    expect(games.factors.schedule_block).toBe(0);
+  });
+
+  it("raises the daily limit on extra-time days", () => {
+    const saturday = new Date("2026-01-17T12:00:00Z");
+    const result = computeRisk(null, [], utc, policy, saturday, {
+      dailySessions: [{ started_at: "2026-01-17T10:00:00Z", ended_at: "2026-01-17T11:00:00Z" }],
+    });
+    expect(result.dailyBudget).toEqual({ limitMinutes: 120, usedMinutes: 60, remainingMinutes: 60, extensionMinutes: 0 });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  describePolicyChange,
+  diffPolicySnapshots,
+  getPolicyVersionIds,
+  getRollbackUpdate,
+  snapshotPolicy,
+} from "../../supabase/functions/_shared/policies/versions.ts";
+
+const row = {
+  id: "p1",
+  owner_id: "mum",
+  target_user_id: "kid",
+  current_version_id: "v1",
+  created_at: "2026-01-01T10:00:00Z",
+  updated_at: "2026-01-05T10:00:00Z",
+  name: "Policy for child",
+  daily_limit_minutes: 120,
+  bedtime_start: "21:00:00",
+  category_rules: { games: { daily_limit_minutes: 60, bedtime_start: null } },
+};
+
+describe("policy versions", () => {
+  it("snapshots what the policy says, not its bookkeeping", () => {
+    expect(snapshotPolicy(row)).toEqual({
+      name: "Policy for child",
+      daily_limit_minutes: 120,
+      bedtime_start: "21:00:00",
+      category_rules: { games: { daily_limit_minutes: 60, bedtime_start: null } },
+    });
+  });
+
+  it("diffs changed fields only", () => {
+    const before = snapshotPolicy(row);
+    const after = snapshotPolicy({ ...row, bedtime_start: "21:30:00", updated_at: "2026-01-06T10:00:00Z" });
+    expect(diffPolicySnapshots(before, after)).toEqual({
+      bedtime_start: { from: "21:00:00", to: "21:30:00" },
+    });
+  });
+
+  it("ignores key order inside JSON columns", () => {
+    const before = snapshotPolicy(row);
+    const after = snapshotPolicy({ ...row, category_rules: { games: { bedtime_start: null, daily_limit_minutes: 60 } } });
+    expect(diffPolicySnapshots(before, after)).toEqual({});
+  });
+
+  it("treats every set field of a new policy as changed", () => {
+    expect(Object.keys(diffPolicySnapshots(null, { name: "New", daily_limit_minutes: null }))).toEqual(["name"]);
+  });
+
+  it("rolls back to a snapshot, keeping fields it predates", () => {
+    const old = { name: "Policy for child", daily_limit_minutes: 90, bedtime_start: "21:00:00" };
+    const current = snapshotPolicy({ ...row, schedules: [{ id: "school" }] });
+    expect(getRollbackUpdate(current, old)).toEqual({ daily_limit_minutes: 90 });
+    expect(getRollbackUpdate(current, current)).toEqual({});
+  });
+
+  it.each([
+    { field: "bedtime_start", change: { from: "21:00:00", to: "21:30:00" }, line: "Bedtime: 21:00 → 21:30" },
+    { field: "daily_limit_minutes", change: { from: 120, to: null }, line: "Daily limit: 120 min → none" },
+    { field: "escalation_enabled", change: { from: false, to: true }, line: "Escalation: off → on" },
+    { field: "schedules", change: { from: [], to: [{ id: "school" }] }, line: "Schedules changed" },
+    { field: "bedtime_ramp_minutes", change: { from: 15, to: 30 }, line: "bedtime ramp minutes: 15 min → 30 min" },
+  ])("describes $field", ({ field, change, line }) => {
+    expect(describePolicyChange(field, change)).toBe(line);
+  });
+
+  it("finds the versions a policy was evaluated under", () => {
+    expect(getPolicyVersionIds({ current_version_id: "v2", merged_version_ids: ["v2", "v5"] })).toEqual(["v2", "v5"]);
+    expect(getPolicyVersionIds({ current_version_id: "v2" })).toEqual(["v2"]);
+    expect(getPolicyVersionIds(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ScrollAggregator, percentile, summarizeScroll } from "@/sdk/events/scrollAggregator";
+
+describe("scroll aggregation", () => {
+  it.each([
+    { values: [], p: 95, expected: 0 },
+    { values: [500], p: 95, expected: 500 },
+    { values: Array.from({ length: 20 }, (_, i) => (i + 1) * 100), p: 95, expected: 1900 },
+    { values: [300, 100, 200], p: 50, expected: 200 },
+  ])("p$p of $values.length samples → $expected", ({ values, p, expected }) => {
+    expect(percentile(values, p)).toBe(expected);
+  });
+
+  it("summarises a window", () => {
+    const start = Date.parse("2026-01-15T12:00:00Z");
+    expect(summarizeScroll([100, 200, 600], 1500, start, start + 4000)).toEqual({
+      count: 3,
+      max_velocity: 600,
+      mean_velocity: 300,
+      p95_velocity: 600,
+      distance: 1500,
+      window_ms: 4000,
+      started_at: "2026-01-15T12:00:00.000Z",
+      ended_at: "2026-01-15T12:00:04.000Z",
+    });
+  });
+
+  describe("ScrollAggregator", () => {
+    const send = vi.fn().mockResolvedValue({ success: true });
+    let aggregator: ScrollAggregator;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      send.mockClear();
+      aggregator = new ScrollAggregator(send);
+      aggregator.configure({ windowMs: 5000 });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("sends one summary when the window closes", () => {
+      aggregator.record(800, "feed", 300);
+      aggregator.record(-1200, "feed", -500);
+      expect(send).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(5000);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0]).toMatchObject({ count: 2, max_velocity: 1200, distance: 800 });
+      expect(send.mock.calls[0][1]).toBe("feed");
+      expect(aggregator.getPendingCount()).toBe(0);
+    });
+
+    it("starts a new window when the screen changes", () => {
+      aggregator.record(800, "feed");
+      aggregator.record(900, "profile");
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][1]).toBe("feed");
+      expect(aggregator.getPendingCount()).toBe(1);
+    });
+
+    it("does nothing when flushed empty", async () => {
+      expect(await aggregator.flush()).toBeNull();
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MAX_EXTENSION_REQUESTS_PER_DAY,
+  getActiveExtensionMinutes,
+  getExtensionRequestRejection,
+  getGrantExpiry,
+} from "../../supabase/functions/_shared/interventions/extensions.ts";
+
+describe("time-extension requests", () => {
+  const fresh = { requestsToday: 0, hasPendingRequest: false };
+
+  it("accepts a request within the defaults", () => {
+    expect(getExtensionRequestRejection({ minutes: 30, reason: "Finishing homework" }, fresh, null)).toBeNull();
+  });
+
+  it.each([
+    { minutes: 0, message: "positive whole number" },
+    { minutes: 12.5, message: "positive whole number" },
+    { minutes: "30", message: "positive whole number" },
+    { minutes: 90, message: "at most 60 minutes" },
+  ])("rejects $minutes minutes as invalid", ({ minutes, message }) => {
+    expect(getExtensionRequestRejection({ minutes }, fresh, null)).toMatchObject({ code: "invalid", message: expect.stringContaining(message) });
+  });
+
+  it("rejects over-long reasons", () => {
+    expect(getExtensionRequestRejection({ minutes: 15, reason: "x".repeat(281) }, fresh, null)?.code).toBe("invalid");
+  });
+
+  it("rate-limits while a request is pending", () => {
+    expect(getExtensionRequestRejection({ minutes: 15 }, { requestsToday: 1, hasPendingRequest: true }, null)).toMatchObject({
+      code: "rate_limited",
+      message: "You already have a request waiting for a parent",
+    });
+  });
+
+  it("rate-limits after the daily cap", () => {
+    const history = { requestsToday: DEFAULT_MAX_EXTENSION_REQUESTS_PER_DAY, hasPendingRequest: false };
+    expect(getExtensionRequestRejection({ minutes: 15 }, history, null)?.code).toBe("rate_limited");
+  });
+
+  it("uses the policy's caps when set", () => {
+    const policy = { max_extension_requests_per_day: 1, max_extension_minutes: 120 };
+    expect(getExtensionRequestRejection({ minutes: 90 }, fresh, policy)).toBeNull();
+    expect(getExtensionRequestRejection({ minutes: 15 }, { requestsToday: 1, hasPendingRequest: false }, policy)?.code).toBe("rate_limited");
+  });
+
+  it("only counts approved grants that haven't expired", () => {
+    const now = new Date("2026-01-05T20:00:00Z");
+    const grants = [
+      { status: "approved", granted_minutes: 30, expires_at: getGrantExpiry(now, 30) },
+      { status: "approved", granted_minutes: 15, expires_at: "2026-01-05T19:59:00Z" },
+      { status: "denied", granted_minutes: null, expires_at: "2026-01-05T21:00:00Z" },
+      { status: "pending", granted_minutes: null, expires_at: "2026-01-05T20:30:00Z" },
+    ];
+
+    expect(getActiveExtensionMinutes(grants, now)).toBe(30);
+    expect(getGrantExpiry(now, 30)).toBe("2026-01-05T20:45:00.000Z");
+  });
+});
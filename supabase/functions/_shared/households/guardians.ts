@@ -0,0 +1,107 @@
+/**
+ * Guardian lookups
+ *
+ * A child's guardians are everyone in a household with them, plus any
+ * direct `family_links` parent (who counts as primary). The SQL functions
+ * `get_child_guardians` / `get_guardian_children` do the union.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { mergeGuardianPolicies } from './mergePolicies.ts';
+import type { MergedPolicy } from './mergePolicies.ts';
+import type { GuardianRole } from './membership.ts';
+
+/** Roles allowed to change a child's policy */
+export const POLICY_EDITOR_ROLES: GuardianRole[] = ['primary', 'secondary'];
+
+export interface GuardianLink {
+  id: string;
+  role: GuardianRole;
+}
+
+/**
+ * Everyone looking after a child, with their strongest role
+ */
+export async function getChildGuardians(supabase: SupabaseClient, youthId: string): Promise<GuardianLink[]> {
+  const { data, error } = await supabase.rpc('get_child_guardians', { _youth_id: youthId });
+
+  if (error) {
+    throw new Error(`Failed to load guardians: ${error.message}`);
+  }
+
+  return (data || []).map((row: { guardian_id: string; role: GuardianRole }) => ({
+    id: row.guardian_id,
+    role: row.role,
+  }));
+}
+
+/**
+ * Every child a guardian looks after, with their strongest role
+ */
+export async function getGuardianChildren(supabase: SupabaseClient, guardianId: string): Promise<GuardianLink[]> {
+  const { data, error } = await supabase.rpc('get_guardian_children', { _guardian_id: guardianId });
+
+  if (error) {
+    throw new Error(`Failed to load children: ${error.message}`);
+  }
+
+  return (data || []).map((row: { youth_id: string; role: GuardianRole }) => ({
+    id: row.youth_id,
+    role: row.role,
+  }));
+}
+
+/**
+ * The policy a child is held to: their editing guardians' policies merged
+ * stricter-wins, or the system default if none of them has set one.
+ * Youths who have come of age are held to their own policy instead.
+ * `T` is the shape the caller reads; rows are not validated against it.
+ */
+export async function loadEffectivePolicy<T = MergedPolicy>(
+  supabase: SupabaseClient,
+  youthId: string
+): Promise<T | null> {
+  const { data: sharing } = await supabase
+    .from('guardian_sharing')
+    .select('adult_since')
+    .eq('youth_id', youthId)
+    .maybeSingle();
+
+  if (sharing?.adult_since) {
+    const { data: ownPolicy } = await supabase
+      .from('policies')
+      .select('*')
+      .eq('owner_id', youthId)
+      .eq('target_user_id', youthId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (ownPolicy) return ownPolicy as T;
+  } else {
+    const editors = (await getChildGuardians(supabase, youthId))
+      .filter(guardian => POLICY_EDITOR_ROLES.includes(guardian.role))
+      .map(guardian => guardian.id);
+
+    if (editors.length > 0) {
+      const { data: policies } = await supabase
+        .from('policies')
+        .select('*')
+        .eq('target_user_id', youthId)
+        .eq('is_active', true)
+        .in('owner_id', editors);
+
+      const merged = mergeGuardianPolicies(policies || []);
+      if (merged) return merged as T;
+    }
+  }
+
+  const { data: systemDefault } = await supabase
+    .from('policies')
+    .select('*')
+    .eq('is_system_default', true)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle();
+
+  return systemDefault as T | null;
+}
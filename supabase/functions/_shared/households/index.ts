@@ -0,0 +1,21 @@
+/**
+ * Households and guardians - shared module
+ */
+
+export { mergeGuardianPolicies } from './mergePolicies.ts';
+export {
+  getChildGuardians,
+  getGuardianChildren,
+  loadEffectivePolicy,
+  POLICY_EDITOR_ROLES,
+} from './guardians.ts';
+export {
+  generateInvitationCode,
+  getInvitationExpiry,
+  getRoleChangeRejection,
+  INVITATION_CODE_LENGTH,
+  INVITATION_TTL_DAYS,
+} from './membership.ts';
+export type { GuardianPolicy, MergedPolicy } from './mergePolicies.ts';
+export type { GuardianLink } from './guardians.ts';
+export type { GuardianRole } from './membership.ts';
@@ -0,0 +1,49 @@
+/**
+ * Household membership rules
+ *
+ * Primaries invite other guardians with a single-use code and manage
+ * everyone's role. A household always keeps at least one primary.
+ */
+
+export type GuardianRole = 'primary' | 'secondary' | 'view_only';
+
+/** Same alphabet as child invite codes: no 0/O or 1/I to misread */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const INVITATION_CODE_LENGTH = 8;
+
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Random code for a guardian invitation
+ */
+export function generateInvitationCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITATION_CODE_LENGTH));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * When an invitation created at `now` stops working
+ */
+export function getInvitationExpiry(now: Date): string {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Why a role change isn't allowed, or null if it is
+ */
+export function getRoleChangeRejection(
+  guardians: { guardian_id: string; role: GuardianRole }[],
+  guardianId: string,
+  role: GuardianRole
+): string | null {
+  const target = guardians.find(g => g.guardian_id === guardianId);
+  if (!target) return 'Guardian not found';
+
+  const primaries = guardians.filter(g => g.role === 'primary');
+  if (target.role === 'primary' && role !== 'primary' && primaries.length === 1) {
+    return 'A household needs at least one primary guardian';
+  }
+
+  return null;
+}
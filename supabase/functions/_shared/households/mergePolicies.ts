@@ -0,0 +1,206 @@
+/**
+ * Stricter-wins policy merge
+ *
+ * Each guardian who may edit a child's policy keeps their own row in
+ * `policies`. The child is held to the strictest combination of them:
+ * the lowest limit, the widest bedtime, the earliest alert. A null
+ * limit means "no limit" and never beats a set one. Category rules
+ * merge the same way, category by category. Every guardian's blocking
+ * schedules apply, but extra minutes only come from the guardian who
+ * grants the fewest, and an exception only lifts its own guardian's
+ * schedules.
+ *
+ * Settings with no stricter direction (factor weights, decay) come from
+ * the most recently updated policy.
+ */
+
+import { resolveLevelThresholds } from '../risk/levels.ts';
+import { getWeeklyExtraMinutes, resolveScheduleExceptions, resolveSchedules } from '../risk/schedules.ts';
+import type {
+  CategoryRule,
+  PolicySchedule,
+  RiskLevelThresholdOverrides,
+  RiskLevelThresholds,
+  ScheduleException,
+} from '../risk/types.ts';
+
+export type GuardianPolicy = Record<string, unknown> & {
+  id?: string;
+  owner_id?: string | null;
+  updated_at?: string | null;
+};
+
+export type MergedPolicy = GuardianPolicy & {
+  /** Ids of the policies that were combined, most recent first */
+  merged_from: string[];
+  /** Their current `policy_versions`, in the same order */
+  merged_version_ids: string[];
+};
+
+/** Lower is stricter */
+const MIN_FIELDS = [
+  'daily_limit_minutes',
+  'session_limit_minutes',
+  'reopen_threshold',
+  'scroll_velocity_threshold',
+  'escalation_delay_minutes',
+  'max_extension_requests_per_day',
+  'max_extension_minutes',
+  'max_snooze_count',
+];
+
+/** Higher is stricter */
+const MAX_FIELDS = ['bedtime_ramp_minutes'];
+
+const BEDTIME_WINDOWS: [string, string][] = [
+  ['bedtime_start', 'bedtime_end'],
+  ['weekend_bedtime_start', 'weekend_bedtime_end'],
+];
+
+const ALERT_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+const NOON = 12 * 60;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Minutes since noon, so a night's times sort in order (21:00 < 23:30 < 07:00)
+ */
+const minutesFromNoon = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(time);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return (minutes - NOON + 24 * 60) % (24 * 60);
+};
+
+const pickTime = (times: unknown[], pick: 'earliest' | 'latest'): string | null => {
+  let best: { time: string; key: number } | null = null;
+
+  for (const time of times) {
+    if (typeof time !== 'string') continue;
+    const key = minutesFromNoon(time);
+    if (key === null) continue;
+    if (!best || (pick === 'earliest' ? key < best.key : key > best.key)) {
+      best = { time, key };
+    }
+  }
+
+  return best?.time ?? null;
+};
+
+const strictestThresholds = (policies: GuardianPolicy[]): RiskLevelThresholds => {
+  const resolved = policies.map(p => resolveLevelThresholds(p.risk_level_thresholds as RiskLevelThresholdOverrides | null));
+  const merged = { ...resolved[0] };
+
+  for (const level of Object.keys(merged) as (keyof RiskLevelThresholds)[]) {
+    merged[level] = {
+      enter: Math.min(...resolved.map(r => r[level].enter)),
+      exit: Math.min(...resolved.map(r => r[level].exit)),
+    };
+  }
+
+  return merged;
+};
+
+const strictestCategoryRules = (policies: GuardianPolicy[]): Record<string, CategoryRule> => {
+  const rulesByCategory = new Map<string, CategoryRule[]>();
+  for (const policy of policies) {
+    const rules = (policy.category_rules || {}) as Record<string, CategoryRule>;
+    for (const [category, rule] of Object.entries(rules)) {
+      rulesByCategory.set(category, [...(rulesByCategory.get(category) || []), rule]);
+    }
+  }
+
+  const merged: Record<string, CategoryRule> = {};
+  for (const [category, rules] of rulesByCategory) {
+    const limits = rules.map(r => r.daily_limit_minutes).filter(isNumber);
+    const windows = rules.filter(r => r.bedtime_start && r.bedtime_end);
+    merged[category] = {
+      daily_limit_minutes: limits.length ? Math.min(...limits) : null,
+      bedtime_start: pickTime(windows.map(r => r.bedtime_start), 'earliest'),
+      bedtime_end: pickTime(windows.map(r => r.bedtime_end), 'latest'),
+    };
+  }
+
+  return merged;
+};
+
+const strictestSchedules = (
+  policies: GuardianPolicy[]
+): { schedules: PolicySchedule[]; schedule_exceptions: ScheduleException[] } => {
+  const resolved = policies.map(p => resolveSchedules(p.schedules));
+
+  let leastExtra = -1;
+  resolved.forEach((schedules, index) => {
+    if (leastExtra === -1 || getWeeklyExtraMinutes(schedules) < getWeeklyExtraMinutes(resolved[leastExtra])) {
+      leastExtra = index;
+    }
+  });
+
+  const schedules = resolved.flatMap((own, index) =>
+    own.filter(s => s.action === 'block' || index === leastExtra)
+  );
+
+  // Pin "every schedule" exceptions to their own policy's schedules
+  const schedule_exceptions = policies.flatMap((policy, index) =>
+    resolveScheduleExceptions(policy.schedule_exceptions).map(exception => ({
+      ...exception,
+      schedule_ids: exception.schedule_ids ?? resolved[index].map(s => s.id),
+    }))
+  );
+
+  return { schedules, schedule_exceptions };
+};
+
+/**
+ * Combine guardians' policies for one child. Returns null if there are none.
+ */
+export function mergeGuardianPolicies(policies: GuardianPolicy[]): MergedPolicy | null {
+  if (policies.length === 0) return null;
+
+  const byRecency = [...policies].sort((a, b) =>
+    String(b.updated_at ?? '').localeCompare(String(a.updated_at ?? ''))
+  );
+  const merged: MergedPolicy = {
+    ...byRecency[0],
+    merged_from: byRecency.map(p => p.id).filter(Boolean) as string[],
+    merged_version_ids: byRecency.map(p => p.current_version_id).filter(Boolean) as string[],
+  };
+
+  if (policies.length === 1) return merged;
+
+  for (const field of MIN_FIELDS) {
+    const values = policies.map(p => p[field]).filter(isNumber);
+    merged[field] = values.length ? Math.min(...values) : null;
+  }
+
+  for (const field of MAX_FIELDS) {
+    const values = policies.map(p => p[field]).filter(isNumber);
+    if (values.length) merged[field] = Math.max(...values);
+  }
+
+  // A window from any guardian applies; together they cover the widest night
+  for (const [startField, endField] of BEDTIME_WINDOWS) {
+    const windows = policies.filter(p => p[startField] && p[endField]);
+    merged[startField] = pickTime(windows.map(p => p[startField]), 'earliest');
+    merged[endField] = pickTime(windows.map(p => p[endField]), 'latest');
+  }
+
+  const alertLevels = policies
+    .map(p => ALERT_LEVELS.indexOf(p.parent_alert_threshold as string))
+    .filter(index => index !== -1);
+  if (alertLevels.length) {
+    merged.parent_alert_threshold = ALERT_LEVELS[Math.min(...alertLevels)];
+  }
+
+  merged.escalation_enabled = policies.some(p => p.escalation_enabled === true);
+
+  if (policies.some(p => p.risk_level_thresholds)) {
+    merged.risk_level_thresholds = strictestThresholds(policies);
+  }
+
+  merged.category_rules = strictestCategoryRules(policies);
+  Object.assign(merged, strictestSchedules(policies));
+
+  return merged;
+}
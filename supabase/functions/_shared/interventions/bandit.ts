@@ -0,0 +1,155 @@
+/**
+ * Personalised intervention choice
+ *
+ * Among the templates the rules allow, a Thompson-sampling bandit picks
+ * the one most likely to work for this user, drawing from
+ * Beta(successes + α, failures + β) per template. The template the rules
+ * would have picked gets a stronger prior, so new users start from the
+ * rule-based behaviour and only drift once feedback says otherwise.
+ *
+ * Safety floor: critical risk never goes through the bandit or timing
+ * deferral; it always gets the rule-based (most severe) template.
+ */
+
+import { getTemplateRejection, selectTemplate } from './selector.ts';
+import type { SelectionContext, TemplateRules } from './selector.ts';
+import type { EffectivenessStat } from './effectiveness.ts';
+
+export type Random = () => number;
+
+export interface BetaPrior {
+  alpha: number;
+  beta: number;
+}
+
+export const DEFAULT_PRIOR: BetaPrior = { alpha: 1, beta: 1 };
+export const RULE_CHOICE_PRIOR: BetaPrior = { alpha: 4, beta: 1 };
+
+/** An hour needs this much feedback before it can defer an intervention */
+export const MIN_HOUR_SAMPLES = 5;
+/** Defer when the posterior mean success rate for the hour is below this */
+export const DEFER_BELOW_RATE = 0.2;
+
+export interface InterventionChoice<T> {
+  template: T;
+  strategy: 'rule' | 'bandit';
+  /** Sampled success probability per template id (bandit only) */
+  samples?: Record<string, number>;
+}
+
+export interface TimingDecision {
+  defer: boolean;
+  reason?: string;
+}
+
+function sampleStandardNormal(random: Random): number {
+  // Box-Muller; 1 - u keeps log() away from zero
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) sample (Marsaglia-Tsang)
+ */
+export function sampleGamma(shape: number, random: Random = Math.random): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Beta(alpha, beta) sample
+ */
+export function sampleBeta(alpha: number, beta: number, random: Random = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+const statFor = (stats: EffectivenessStat[], scope: EffectivenessStat['scope'], key: string) =>
+  stats.find(stat => stat.scope === scope && stat.scope_key === key);
+
+/**
+ * Pick a template for this user, or null if the rules allow none
+ */
+export function chooseIntervention<T extends TemplateRules>(
+  templates: T[],
+  ctx: SelectionContext,
+  stats: EffectivenessStat[],
+  random: Random = Math.random
+): InterventionChoice<T> | null {
+  const ruleChoice = selectTemplate(templates, ctx);
+  if (!ruleChoice) return null;
+
+  if (ctx.risk_level === 'critical') {
+    return { template: ruleChoice, strategy: 'rule' };
+  }
+
+  const eligible = templates.filter(template => getTemplateRejection(template, ctx) === null);
+  const samples: Record<string, number> = {};
+  let best: T = ruleChoice;
+  let bestSample = -1;
+
+  for (const template of eligible) {
+    const stat = statFor(stats, 'template', template.id);
+    const prior = template.id === ruleChoice.id ? RULE_CHOICE_PRIOR : DEFAULT_PRIOR;
+    const sample = sampleBeta(
+      prior.alpha + (stat?.successes || 0),
+      prior.beta + (stat?.failures || 0),
+      random
+    );
+
+    samples[template.id] = Math.round(sample * 1000) / 1000;
+    if (sample > bestSample) {
+      best = template;
+      bestSample = sample;
+    }
+  }
+
+  return { template: best, strategy: 'bandit', samples };
+}
+
+/**
+ * Hold back non-critical interventions in hours where this user
+ * reliably ignores them
+ */
+export function decideTiming(
+  stats: EffectivenessStat[],
+  riskLevel: SelectionContext['risk_level'],
+  localHour: number
+): TimingDecision {
+  if (riskLevel === 'critical') return { defer: false };
+
+  const stat = statFor(stats, 'hour', String(localHour));
+  if (!stat || stat.successes + stat.failures < MIN_HOUR_SAMPLES) return { defer: false };
+
+  const posteriorMean = (stat.successes + DEFAULT_PRIOR.alpha) /
+    (stat.successes + stat.failures + DEFAULT_PRIOR.alpha + DEFAULT_PRIOR.beta);
+
+  if (posteriorMean < DEFER_BELOW_RATE) {
+    return {
+      defer: true,
+      reason: `Interventions around ${localHour}:00 are rarely effective for this user (${Math.round(posteriorMean * 100)}%)`,
+    };
+  }
+
+  return { defer: false };
+}
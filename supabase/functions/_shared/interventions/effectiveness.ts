@@ -0,0 +1,145 @@
+/**
+ * Per-user intervention effectiveness
+ *
+ * feedback-agent folds a user's recent feedback into success/failure
+ * counts per template, per intervention type and per local hour, and
+ * stores them in `intervention_effectiveness`. intervention-agent reads
+ * them back to personalise what it shows and when.
+ */
+
+import { getLocalTime } from '../risk/time.ts';
+
+export type EffectivenessScope = 'template' | 'type' | 'hour';
+
+export interface EffectivenessStat {
+  scope: EffectivenessScope;
+  /** Template id, intervention type or local hour (`0`-`23`) */
+  scope_key: string;
+  successes: number;
+  failures: number;
+  last_feedback_at: string;
+}
+
+export interface FeedbackSample {
+  feedback_type: string;
+  template_id?: string | null;
+  intervention_type?: string | null;
+  /** When the intervention was shown (falls back to feedback time) */
+  shown_at: string;
+  created_at: string;
+}
+
+export interface LearningInsight {
+  pattern: string;
+  confidence: number;
+  recommendation: string;
+}
+
+/** Minimum feedback before any insight is drawn */
+export const MIN_FEEDBACK_FOR_INSIGHTS = 5;
+
+const isSuccess = (feedbackType: string) => feedbackType === 'effective';
+
+const FEEDBACK_STATUS: Record<string, { status: string; timestamp_field: string }> = {
+  effective: { status: 'acknowledged', timestamp_field: 'acknowledged_at' },
+  ineffective: { status: 'dismissed', timestamp_field: 'dismissed_at' },
+  escalated: { status: 'escalated', timestamp_field: 'escalated_at' },
+};
+
+/**
+ * The intervention update feedback-agent makes for a piece of feedback.
+ * 'ignored' (a snooze) leaves the status alone: respond-intervention has
+ * already set it, and re-delivery only picks up snoozed interventions.
+ */
+export function getFeedbackStatusUpdate(feedbackType: string, now: Date): Record<string, string> | null {
+  const mapping = FEEDBACK_STATUS[feedbackType];
+  if (!mapping) return null;
+  return { status: mapping.status, [mapping.timestamp_field]: now.toISOString() };
+}
+
+/**
+ * Fold feedback into stats for every scope
+ */
+export function summarizeFeedback(samples: FeedbackSample[], timeZone: string = 'UTC'): EffectivenessStat[] {
+  const stats = new Map<string, EffectivenessStat>();
+
+  const add = (scope: EffectivenessScope, key: string | null | undefined, sample: FeedbackSample) => {
+    if (!key) return;
+    const id = `${scope}:${key}`;
+    let stat = stats.get(id);
+    if (!stat) {
+      stat = { scope, scope_key: key, successes: 0, failures: 0, last_feedback_at: sample.created_at };
+      stats.set(id, stat);
+    }
+    if (isSuccess(sample.feedback_type)) stat.successes++;
+    else stat.failures++;
+    if (sample.created_at > stat.last_feedback_at) stat.last_feedback_at = sample.created_at;
+  };
+
+  for (const sample of samples) {
+    add('template', sample.template_id, sample);
+    add('type', sample.intervention_type || 'unknown', sample);
+    add('hour', String(getLocalTime(new Date(sample.shown_at), timeZone).hour), sample);
+  }
+
+  return [...stats.values()];
+}
+
+/**
+ * Human-readable patterns drawn from the stats
+ */
+export function deriveInsights(stats: EffectivenessStat[]): LearningInsight[] {
+  const total = stats
+    .filter(stat => stat.scope === 'type')
+    .reduce((sum, stat) => sum + stat.successes + stat.failures, 0);
+  if (total < MIN_FEEDBACK_FOR_INSIGHTS) return [];
+
+  const insights: LearningInsight[] = [];
+
+  for (const stat of stats.filter(s => s.scope === 'type')) {
+    const count = stat.successes + stat.failures;
+    if (count < 3) continue;
+
+    const rate = stat.successes / count;
+    const confidence = Math.min(0.9, count / 10);
+    if (rate < 0.3) {
+      insights.push({
+        pattern: `${stat.scope_key}_low_effectiveness`,
+        confidence,
+        recommendation: `Consider reducing ${stat.scope_key} interventions for this user - low effectiveness (${Math.round(rate * 100)}%)`,
+      });
+    } else if (rate > 0.7) {
+      insights.push({
+        pattern: `${stat.scope_key}_high_effectiveness`,
+        confidence,
+        recommendation: `${stat.scope_key} interventions work well for this user (${Math.round(rate * 100)}% effective)`,
+      });
+    }
+  }
+
+  // Best/worst hours with at least two data points
+  const hours = stats
+    .filter(s => s.scope === 'hour' && s.successes + s.failures >= 2)
+    .map(s => ({ hour: parseInt(s.scope_key, 10), rate: s.successes / (s.successes + s.failures) }));
+
+  const best = hours.reduce<typeof hours[number] | null>((a, b) => (!a || b.rate > a.rate ? b : a), null);
+  const worst = hours.reduce<typeof hours[number] | null>((a, b) => (!a || b.rate < a.rate ? b : a), null);
+
+  if (best && best.rate > 0.6) {
+    insights.push({
+      pattern: 'time_effectiveness',
+      confidence: 0.7,
+      recommendation: `Interventions most effective around ${best.hour}:00`,
+    });
+  }
+
+  if (worst && worst.rate < 0.3) {
+    insights.push({
+      pattern: 'time_ineffectiveness',
+      confidence: 0.7,
+      recommendation: `Consider avoiding interventions around ${worst.hour}:00`,
+    });
+  }
+
+  return insights;
+}
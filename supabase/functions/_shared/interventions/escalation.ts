@@ -0,0 +1,71 @@
+/**
+ * Intervention escalation
+ *
+ * An intervention the user keeps ignoring is escalated after the
+ * policy's `escalation_delay_minutes` by delivering the next tier up.
+ */
+
+/** Intervention types from gentlest to strongest */
+export const ESCALATION_TIERS = ['soft_nudge', 'medium_friction', 'hard_block', 'parent_alert'] as const;
+
+export type EscalationTier = typeof ESCALATION_TIERS[number];
+
+export const DEFAULT_ESCALATION_DELAY_MINUTES = 15;
+
+/** Dismissals in the last hour before a new intervention gets an escalation timer */
+export const ESCALATION_DISMISSAL_THRESHOLD = 2;
+
+/**
+ * Statuses that mean the user dealt with it; escalation is cancelled.
+ * Dismissing isn't one: a nudge waved away still escalates on its timer.
+ */
+export const RESOLVED_INTERVENTION_STATUSES = ['acknowledged'];
+
+export type EscalationCheck =
+  | { action: 'escalate' }
+  | { action: 'skip'; reason: string }
+  /** Snoozed within the policy's allowance; try again once the snooze is over */
+  | { action: 'reschedule'; snoozed_until: string };
+
+/**
+ * What a due escalation job should do with its intervention. `trigger`
+ * is the job's `reason`: respond-intervention marks a snooze-limit
+ * escalation escalated before its job runs, a timer never does.
+ */
+export function checkEscalation(
+  intervention: { status: string | null; snoozed_until?: string | null },
+  trigger: unknown,
+  now: Date
+): EscalationCheck {
+  const status = intervention.status || 'pending';
+
+  if (RESOLVED_INTERVENTION_STATUSES.includes(status)) {
+    return { action: 'skip', reason: `Intervention ${status}` };
+  }
+  if (status === 'escalated' && trigger !== 'snooze_limit') {
+    return { action: 'skip', reason: 'Intervention escalated' };
+  }
+  if (status === 'snoozed') {
+    const until = intervention.snoozed_until ? new Date(intervention.snoozed_until) : now;
+    return { action: 'reschedule', snoozed_until: (until > now ? until : now).toISOString() };
+  }
+
+  return { action: 'escalate' };
+}
+
+/**
+ * The tier after `type`, or null if it is already the strongest
+ */
+export function getNextEscalationTier(type: string): EscalationTier | null {
+  const index = ESCALATION_TIERS.indexOf(type as EscalationTier);
+  if (index === -1 || index === ESCALATION_TIERS.length - 1) return null;
+  return ESCALATION_TIERS[index + 1];
+}
+
+/**
+ * When an escalation scheduled at `now` falls due
+ */
+export function getEscalationDueAt(now: Date, delayMinutes: number | null | undefined): string {
+  const minutes = delayMinutes ?? DEFAULT_ESCALATION_DELAY_MINUTES;
+  return new Date(now.getTime() + Math.max(0, minutes) * 60000).toISOString();
+}
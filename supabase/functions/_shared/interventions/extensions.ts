@@ -0,0 +1,110 @@
+/**
+ * Time-extension requests
+ *
+ * A youth asks for N more minutes from a hard block; a parent approves
+ * (possibly for fewer minutes) or denies. An approved grant raises
+ * today's daily limit until it expires. Requests are capped per day and
+ * only one may be pending at a time.
+ */
+
+export const DEFAULT_MAX_EXTENSION_REQUESTS_PER_DAY = 3;
+export const DEFAULT_MAX_EXTENSION_MINUTES = 60;
+
+/** Unanswered requests lapse after this long */
+export const EXTENSION_REQUEST_TTL_MINUTES = 30;
+
+/** Time to start using a grant on top of the granted minutes */
+export const EXTENSION_GRANT_GRACE_MINUTES = 15;
+
+export const MAX_EXTENSION_REASON_LENGTH = 280;
+
+export interface ExtensionPolicy {
+  max_extension_requests_per_day?: number | null;
+  max_extension_minutes?: number | null;
+}
+
+export interface ExtensionRequestInput {
+  minutes: unknown;
+  reason?: unknown;
+}
+
+export interface ExtensionHistory {
+  /** Requests made since local midnight, any status */
+  requestsToday: number;
+  hasPendingRequest: boolean;
+}
+
+export interface ExtensionGrant {
+  status: string;
+  granted_minutes: number | null;
+  expires_at: string | null;
+}
+
+export type ExtensionRejection = {
+  /** `invalid` → 400, `rate_limited` → 429 */
+  code: 'invalid' | 'rate_limited';
+  message: string;
+};
+
+/**
+ * Why a request can't be made, or null if it can
+ */
+export function getExtensionRequestRejection(
+  input: ExtensionRequestInput,
+  history: ExtensionHistory,
+  policy: ExtensionPolicy | null
+): ExtensionRejection | null {
+  const maxMinutes = policy?.max_extension_minutes ?? DEFAULT_MAX_EXTENSION_MINUTES;
+  const maxPerDay = policy?.max_extension_requests_per_day ?? DEFAULT_MAX_EXTENSION_REQUESTS_PER_DAY;
+
+  if (typeof input.minutes !== 'number' || !Number.isInteger(input.minutes) || input.minutes < 1) {
+    return { code: 'invalid', message: 'minutes must be a positive whole number' };
+  }
+  if (input.minutes > maxMinutes) {
+    return { code: 'invalid', message: `You can ask for at most ${maxMinutes} minutes` };
+  }
+  if (input.reason !== undefined && input.reason !== null) {
+    if (typeof input.reason !== 'string') {
+      return { code: 'invalid', message: 'reason must be a string' };
+    }
+    if (input.reason.length > MAX_EXTENSION_REASON_LENGTH) {
+      return { code: 'invalid', message: `reason must be at most ${MAX_EXTENSION_REASON_LENGTH} characters` };
+    }
+  }
+
+  if (history.hasPendingRequest) {
+    return { code: 'rate_limited', message: 'You already have a request waiting for a parent' };
+  }
+  if (history.requestsToday >= maxPerDay) {
+    return { code: 'rate_limited', message: `You can only ask ${maxPerDay} times a day` };
+  }
+
+  return null;
+}
+
+/**
+ * When an unanswered request made at `now` lapses
+ */
+export function getRequestExpiry(now: Date): string {
+  return new Date(now.getTime() + EXTENSION_REQUEST_TTL_MINUTES * 60000).toISOString();
+}
+
+/**
+ * When a grant approved at `now` stops counting toward the daily limit
+ */
+export function getGrantExpiry(now: Date, minutes: number): string {
+  return new Date(now.getTime() + (minutes + EXTENSION_GRANT_GRACE_MINUTES) * 60000).toISOString();
+}
+
+/**
+ * Minutes added to today's limit by grants that haven't expired
+ */
+export function getActiveExtensionMinutes(grants: ExtensionGrant[], now: Date): number {
+  return grants
+    .filter(grant =>
+      grant.status === 'approved' &&
+      grant.expires_at !== null &&
+      new Date(grant.expires_at).getTime() > now.getTime()
+    )
+    .reduce((total, grant) => total + (grant.granted_minutes || 0), 0);
+}
@@ -0,0 +1,66 @@
+/**
+ * Intervention selection - shared module
+ */
+
+export { getTemplateRejection, isInTimeWindow, selectTemplate } from './selector.ts';
+export { hashToUnit, pickVariant } from './variants.ts';
+export {
+  summarizeFeedback,
+  deriveInsights,
+  getFeedbackStatusUpdate,
+  MIN_FEEDBACK_FOR_INSIGHTS,
+} from './effectiveness.ts';
+export {
+  chooseIntervention,
+  decideTiming,
+  sampleBeta,
+  sampleGamma,
+  DEFAULT_PRIOR,
+  RULE_CHOICE_PRIOR,
+  MIN_HOUR_SAMPLES,
+  DEFER_BELOW_RATE,
+} from './bandit.ts';
+export {
+  checkEscalation,
+  getNextEscalationTier,
+  getEscalationDueAt,
+  ESCALATION_TIERS,
+  DEFAULT_ESCALATION_DELAY_MINUTES,
+  ESCALATION_DISMISSAL_THRESHOLD,
+  RESOLVED_INTERVENTION_STATUSES,
+} from './escalation.ts';
+export {
+  getExtensionRequestRejection,
+  getRequestExpiry,
+  getGrantExpiry,
+  getActiveExtensionMinutes,
+  DEFAULT_MAX_EXTENSION_REQUESTS_PER_DAY,
+  DEFAULT_MAX_EXTENSION_MINUTES,
+  EXTENSION_REQUEST_TTL_MINUTES,
+  EXTENSION_GRANT_GRACE_MINUTES,
+  MAX_EXTENSION_REASON_LENGTH,
+} from './extensions.ts';
+export {
+  planSnooze,
+  DEFAULT_SNOOZE_MINUTES,
+  MAX_SNOOZE_MINUTES,
+  DEFAULT_MAX_SNOOZE_COUNT,
+} from './snooze.ts';
+export type { SelectionContext, TemplateRules } from './selector.ts';
+export type { InterventionVariant } from './variants.ts';
+export type {
+  EffectivenessScope,
+  EffectivenessStat,
+  FeedbackSample,
+  LearningInsight,
+} from './effectiveness.ts';
+export type { EscalationCheck, EscalationTier } from './escalation.ts';
+export type {
+  ExtensionGrant,
+  ExtensionHistory,
+  ExtensionPolicy,
+  ExtensionRejection,
+  ExtensionRequestInput,
+} from './extensions.ts';
+export type { SnoozeInput, SnoozePlan } from './snooze.ts';
+export type { BetaPrior, InterventionChoice, Random, TimingDecision } from './bandit.ts';
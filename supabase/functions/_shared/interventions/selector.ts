@@ -0,0 +1,98 @@
+/**
+ * Intervention template selection
+ *
+ * Templates carry their own eligibility rules: a risk level range, an
+ * optional risk score range, an optional local time-of-day window and
+ * the roles they apply to. The highest-priority template whose rules
+ * all pass is chosen.
+ */
+
+import { parseTimeOfDay } from '../risk/bedtime.ts';
+import type { LocalTime } from '../risk/time.ts';
+import type { RiskLevel } from '../risk/types.ts';
+
+export interface TemplateRules {
+  id: string;
+  type: string;
+  name: string;
+  priority?: number | null;
+  min_risk_level?: RiskLevel | null;
+  max_risk_level?: RiskLevel | null;
+  min_risk_score?: number | null;
+  max_risk_score?: number | null;
+  /** Local time window (`HH:mm`); wraps past midnight when from > until */
+  active_from?: string | null;
+  active_until?: string | null;
+  /** Roles the template applies to; null/empty means everyone */
+  roles?: string[] | null;
+}
+
+export interface SelectionContext {
+  risk_level: RiskLevel;
+  risk_score: number;
+  /** User's local wall-clock time */
+  local: Pick<LocalTime, 'hour' | 'minute'>;
+  role?: string | null;
+}
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Whether `minutes` (after midnight) falls in a window that may wrap midnight
+ */
+export function isInTimeWindow(minutes: number, from: number, until: number): boolean {
+  if (from === until) return true;
+  return from < until
+    ? minutes >= from && minutes < until
+    : minutes >= from || minutes < until;
+}
+
+/**
+ * Why a template is not eligible, or null if it is
+ */
+export function getTemplateRejection(template: TemplateRules, ctx: SelectionContext): string | null {
+  const minLevel = template.min_risk_level || 'low';
+  if (RISK_LEVEL_ORDER.indexOf(ctx.risk_level) < RISK_LEVEL_ORDER.indexOf(minLevel)) {
+    return `risk level ${ctx.risk_level} is below ${minLevel}`;
+  }
+
+  if (template.max_risk_level && RISK_LEVEL_ORDER.indexOf(ctx.risk_level) > RISK_LEVEL_ORDER.indexOf(template.max_risk_level)) {
+    return `risk level ${ctx.risk_level} is above ${template.max_risk_level}`;
+  }
+
+  if (template.min_risk_score != null && ctx.risk_score < template.min_risk_score) {
+    return `risk score ${ctx.risk_score} is below ${template.min_risk_score}`;
+  }
+
+  if (template.max_risk_score != null && ctx.risk_score > template.max_risk_score) {
+    return `risk score ${ctx.risk_score} is above ${template.max_risk_score}`;
+  }
+
+  const from = parseTimeOfDay(template.active_from);
+  const until = parseTimeOfDay(template.active_until);
+  if (from !== null && until !== null) {
+    const minutes = ctx.local.hour * 60 + ctx.local.minute;
+    if (!isInTimeWindow(minutes, from, until)) {
+      return `outside ${template.active_from}-${template.active_until}`;
+    }
+  }
+
+  if (template.roles && template.roles.length > 0 && !(ctx.role && template.roles.includes(ctx.role))) {
+    return `role ${ctx.role || 'none'} not in ${template.roles.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Highest-priority eligible template, or null if none qualify
+ */
+export function selectTemplate<T extends TemplateRules>(templates: T[], ctx: SelectionContext): T | null {
+  const eligible = templates.filter(template => getTemplateRejection(template, ctx) === null);
+  if (eligible.length === 0) return null;
+
+  // Stable tie-break on name so equal priorities always pick the same template
+  return [...eligible].sort((a, b) =>
+    (b.priority || 0) - (a.priority || 0) || a.name.localeCompare(b.name)
+  )[0];
+}
@@ -0,0 +1,53 @@
+/**
+ * Intervention snoozing
+ *
+ * A snoozed intervention is re-delivered when the snooze ends. Each
+ * policy caps how many times one intervention may be snoozed; asking
+ * again past the cap escalates it to the next tier instead.
+ */
+
+export const DEFAULT_SNOOZE_MINUTES = 15;
+export const MAX_SNOOZE_MINUTES = 120;
+export const DEFAULT_MAX_SNOOZE_COUNT = 2;
+
+export interface SnoozeInput {
+  /** Requested length; defaults to DEFAULT_SNOOZE_MINUTES */
+  minutes?: unknown;
+  /** Times this intervention has already been snoozed */
+  snooze_count: number;
+}
+
+export type SnoozePlan =
+  | { action: 'snooze'; minutes: number; snoozed_until: string; snooze_count: number }
+  | { action: 'escalate'; snooze_count: number }
+  | { action: 'invalid'; message: string };
+
+/**
+ * Snooze until `snoozed_until`, escalate because the cap is used up, or
+ * reject a bad duration
+ */
+export function planSnooze(
+  input: SnoozeInput,
+  policy: { max_snooze_count?: number | null } | null,
+  now: Date
+): SnoozePlan {
+  const minutes = input.minutes ?? DEFAULT_SNOOZE_MINUTES;
+  const maxCount = policy?.max_snooze_count ?? DEFAULT_MAX_SNOOZE_COUNT;
+
+  if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+    return { action: 'invalid', message: `snooze_minutes must be a whole number from 1 to ${MAX_SNOOZE_MINUTES}` };
+  }
+
+  const snoozeCount = input.snooze_count + 1;
+
+  if (snoozeCount > maxCount) {
+    return { action: 'escalate', snooze_count: snoozeCount };
+  }
+
+  return {
+    action: 'snooze',
+    minutes,
+    snoozed_until: new Date(now.getTime() + minutes * 60000).toISOString(),
+    snooze_count: snoozeCount,
+  };
+}
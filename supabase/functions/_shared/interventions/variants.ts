@@ -0,0 +1,51 @@
+/**
+ * Intervention copy variants (A/B tests)
+ *
+ * A template may have weighted variants. Each user is bucketed
+ * deterministically per template, so they keep seeing the same copy
+ * and results can be compared across variants.
+ */
+
+export interface InterventionVariant {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+/**
+ * FNV-1a hash of a string mapped to [0, 1)
+ */
+export function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the user's variant for a template. Returns null when there are
+ * no variants with positive weight (use the template's own copy).
+ */
+export function pickVariant<T extends InterventionVariant>(
+  variants: T[],
+  userId: string,
+  templateId: string
+): T | null {
+  // Sort so the bucket boundaries don't depend on query order
+  const weighted = variants
+    .filter(variant => variant.weight > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const totalWeight = weighted.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  let bucket = hashToUnit(`${userId}:${templateId}`) * totalWeight;
+  for (const variant of weighted) {
+    bucket -= variant.weight;
+    if (bucket < 0) return variant;
+  }
+
+  return weighted[weighted.length - 1];
+}
@@ -0,0 +1,8 @@
+/**
+ * Agent job queue - shared module
+ */
+
+export { JOB_TYPES, enqueueJob, cancelJobs, kickJobWorker } from './queue.ts';
+export { getRetryDelaySeconds, planJobFailure, JOB_RETRY_BASE_SECONDS, JOB_RETRY_MAX_SECONDS } from './retry.ts';
+export type { EnqueueJobInput, JobType } from './queue.ts';
+export type { JobFailureOutcome, RetryableJob } from './retry.ts';
@@ -0,0 +1,107 @@
+/**
+ * Agent job queue helpers
+ *
+ * Jobs live in `agent_jobs`. Producers call `enqueueJob()` and then
+ * `kickJobWorker()` so work starts straight away instead of waiting for
+ * the next scheduled worker run.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const JOB_TYPES = {
+  /** Run the orchestrator for an ingested behavioral event */
+  PROCESS_EVENT: 'process_event',
+  /** Deliver the next intervention tier if the user hasn't acknowledged */
+  ESCALATE_INTERVENTION: 'escalate_intervention',
+  /** Deliver a notification on each of the recipient's channels */
+  DISPATCH_NOTIFICATION: 'dispatch_notification',
+  /** Lapse a time-extension request no parent answered */
+  EXPIRE_EXTENSION_REQUEST: 'expire_extension_request',
+  /** Bring a snoozed intervention back when its snooze ends */
+  REDELIVER_INTERVENTION: 'redeliver_intervention',
+  /** End a family link once the unlink cooling-off period is over */
+  COMPLETE_UNLINK: 'complete_unlink',
+  /** Daily: move youths who have come of age to adult accounts */
+  CHECK_AGE_OF_MAJORITY: 'check_age_of_majority',
+} as const;
+
+export type JobType = typeof JOB_TYPES[keyof typeof JOB_TYPES];
+
+export interface EnqueueJobInput {
+  job_type: JobType;
+  user_id?: string | null;
+  payload: Record<string, unknown>;
+  /** Defaults to now */
+  run_at?: string;
+  max_attempts?: number;
+}
+
+/**
+ * Insert a job and return its id
+ */
+export async function enqueueJob(supabase: SupabaseClient, input: EnqueueJobInput): Promise<string> {
+  const { data, error } = await supabase
+    .from('agent_jobs')
+    .insert({
+      job_type: input.job_type,
+      user_id: input.user_id ?? null,
+      payload: input.payload,
+      ...(input.run_at && { run_at: input.run_at }),
+      ...(input.max_attempts && { max_attempts: input.max_attempts }),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue ${input.job_type} job: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+/**
+ * Cancel queued jobs of a type whose payload `key` equals `value`.
+ * Returns the number cancelled. Running jobs are left alone; handlers
+ * re-check their preconditions.
+ */
+export async function cancelJobs(
+  supabase: SupabaseClient,
+  jobType: JobType,
+  key: string,
+  value: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('agent_jobs')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('job_type', jobType)
+    .eq('status', 'queued')
+    .eq(`payload->>${key}`, value)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel ${jobType} jobs: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
+
+// Supabase's edge runtime global; absent when running outside it
+const edgeRuntime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+
+/**
+ * Ask the worker to drain due jobs without holding up the response.
+ * The caller's client must use the service role key: job-worker only
+ * accepts that.
+ */
+export function kickJobWorker(supabase: SupabaseClient): void {
+  const invocation = supabase.functions.invoke('job-worker', { body: {} }).then(response => {
+    if (response.error) {
+      console.error('[JobQueue] Worker invocation error:', response.error);
+    }
+  }).catch(err => {
+    console.error('[JobQueue] Worker invocation failed:', err);
+  });
+
+  // Otherwise the runtime may shut the function down once it has responded
+  edgeRuntime?.waitUntil(invocation);
+}
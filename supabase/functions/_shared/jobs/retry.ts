@@ -0,0 +1,43 @@
+/**
+ * Job retry policy
+ *
+ * Failed jobs are retried with exponential backoff (30s, 1m, 2m, ...
+ * capped at 30m) until `max_attempts` is used up, then dead-lettered.
+ */
+
+export const JOB_RETRY_BASE_SECONDS = 30;
+export const JOB_RETRY_MAX_SECONDS = 30 * 60;
+
+export interface RetryableJob {
+  /** Attempts made so far, including the one that just failed */
+  attempts: number;
+  max_attempts: number;
+}
+
+export type JobFailureOutcome =
+  | { status: 'queued'; run_at: string; delay_seconds: number }
+  | { status: 'dead' };
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts
+ */
+export function getRetryDelaySeconds(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(JOB_RETRY_MAX_SECONDS, JOB_RETRY_BASE_SECONDS * Math.pow(2, exponent));
+}
+
+/**
+ * Decide what happens to a job whose latest attempt failed
+ */
+export function planJobFailure(job: RetryableJob, now: Date): JobFailureOutcome {
+  if (job.attempts >= job.max_attempts) {
+    return { status: 'dead' };
+  }
+
+  const delaySeconds = getRetryDelaySeconds(job.attempts);
+  return {
+    status: 'queued',
+    run_at: new Date(now.getTime() + delaySeconds * 1000).toISOString(),
+    delay_seconds: delaySeconds,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Family linking - shared module
+ */
+
+export {
+  buildLinkUrl,
+  generateLinkCode,
+  getLinkRateLimit,
+  getLinkTokenExpiry,
+  hashLinkCode,
+  parseLinkCode,
+  LINK_ATTEMPT_WINDOW_MINUTES,
+  LINK_CODE_LENGTH,
+  LINK_PATH,
+  LINK_TOKEN_TTL_MINUTES,
+  MAX_FAILED_LINK_ATTEMPTS,
+} from './tokens.ts';
+export {
+  getUnlinkCancelRejection,
+  getUnlinkEffectiveAt,
+  UNLINK_COOLING_OFF_DAYS,
+  UNLINK_REASON_MAX_LENGTH,
+} from './unlink.ts';
+export {
+  canGuardianView,
+  getMajorityBirthCutoff,
+  hasReachedMajority,
+  normalizeSharedScopes,
+  parseBirthDate,
+  resolveAgeOfMajority,
+  DEFAULT_ADULT_SHARED_SCOPES,
+  DEFAULT_AGE_OF_MAJORITY,
+  SHARING_SCOPE_LABELS,
+  SHARING_SCOPES,
+} from './majority.ts';
+export {
+  completeUnlinkRequest,
+  loadGuardianSharing,
+  transitionToAdulthood,
+} from './lifecycle.ts';
+export type { LinkRateLimit } from './tokens.ts';
+export type { UnlinkRequestState, UnlinkRequestStatus } from './unlink.ts';
+export type { GuardianSharing, SharingScope } from './majority.ts';
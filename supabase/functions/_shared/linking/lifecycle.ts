@@ -0,0 +1,240 @@
+/**
+ * Link lifecycle
+ *
+ * The two ways a family link changes after it's made: an unlink request
+ * that has sat out its cooling-off period, and a youth coming of age.
+ * Both run from the job-worker and are safe to retry.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getChildGuardians, loadEffectivePolicy } from '../households/guardians.ts';
+import type { MergedPolicy } from '../households/mergePolicies.ts';
+import { createNotification, notifyParents } from '../notifications/producer.ts';
+import { buildAdulthoodAlert, buildUnlinkCompletedAlert } from '../notifications/messages.ts';
+import { DEFAULT_ADULT_SHARED_SCOPES, normalizeSharedScopes } from './majority.ts';
+import type { GuardianSharing } from './majority.ts';
+
+/** Policy columns that belong to the row, not to the limits it sets */
+const POLICY_ROW_FIELDS = ['id', 'owner_id', 'target_user_id', 'created_at', 'updated_at', 'is_system_default', 'merged_from'];
+
+/**
+ * Sharing settings by youth id; youths without a row share everything
+ */
+export async function loadGuardianSharing(
+  supabase: SupabaseClient,
+  youthIds: string[]
+): Promise<Map<string, GuardianSharing>> {
+  if (youthIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('guardian_sharing')
+    .select('youth_id, adult_since, shared_scopes')
+    .in('youth_id', youthIds);
+
+  if (error) {
+    throw new Error(`Failed to load guardian sharing: ${error.message}`);
+  }
+
+  return new Map((data || []).map(row => [row.youth_id, {
+    adult_since: row.adult_since,
+    shared_scopes: row.shared_scopes,
+  }]));
+}
+
+const getDisplayName = async (supabase: SupabaseClient, userId: string): Promise<string | null> => {
+  const { data } = await supabase
+    .from('profiles')
+    .select('display_name')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data?.display_name || null;
+};
+
+/**
+ * End the link behind an unlink request once its cooling-off period is
+ * over. Requests can't be cancelled from `effective_at` on, so a request
+ * still pending here is final.
+ */
+export async function completeUnlinkRequest(
+  supabase: SupabaseClient,
+  requestId: string,
+  now: Date
+): Promise<Record<string, unknown>> {
+  const { data: request, error: fetchError } = await supabase
+    .from('family_unlink_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to load unlink request: ${fetchError.message}`);
+  }
+  if (!request || request.status !== 'pending') {
+    return { skipped: true, reason: request ? `Request ${request.status}` : 'Request not found' };
+  }
+  if (new Date(request.effective_at) > now) {
+    return { skipped: true, reason: 'Cooling-off period not over' };
+  }
+
+  // Everyone who looked after the child hears about it, including
+  // household guardians who lose the child along with the link
+  const recipients = new Set([
+    request.parent_id,
+    ...(await getChildGuardians(supabase, request.youth_id)).map(guardian => guardian.id),
+  ]);
+
+  // The sync trigger takes the child out of the parent's household
+  const { error: linkError } = await supabase
+    .from('family_links')
+    .update({ is_active: false })
+    .eq('id', request.link_id);
+
+  if (linkError) {
+    throw new Error(`Failed to deactivate family link: ${linkError.message}`);
+  }
+
+  const { data: completed, error } = await supabase
+    .from('family_unlink_requests')
+    .update({ status: 'completed', resolved_at: now.toISOString() })
+    .eq('id', request.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to complete unlink request: ${error.message}`);
+  }
+  if (!completed?.length) {
+    return { skipped: true, reason: 'Request already resolved' };
+  }
+
+  const alert = buildUnlinkCompletedAlert({ child_name: await getDisplayName(supabase, request.youth_id) });
+  for (const recipientId of recipients) {
+    await createNotification(supabase, {
+      recipient_id: recipientId,
+      category: 'family_update',
+      ...alert,
+      youth_id: request.youth_id,
+      data: { unlink_request_id: request.id },
+    });
+  }
+
+  console.log('[Linking] Unlinked youth', request.youth_id, 'from parent', request.parent_id);
+
+  return { unlinked: true, link_id: request.link_id, notified: recipients.size };
+}
+
+/**
+ * Make a youth who has come of age an adult: their current limits become
+ * a policy they own, guardians stop editing it, and guardians who stay
+ * linked only see what the new adult shares.
+ */
+export async function transitionToAdulthood(
+  supabase: SupabaseClient,
+  youthId: string,
+  now: Date
+): Promise<Record<string, unknown>> {
+  const { data: roleRow } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', youthId)
+    .maybeSingle();
+
+  if (roleRow?.role !== 'youth') {
+    return { skipped: true, reason: `Role is ${roleRow?.role || 'missing'}` };
+  }
+
+  // ========================================
+  // HAND OVER THE POLICY
+  // ========================================
+
+  // A retry after a partial run keeps the policy it already handed over
+  const { data: ownPolicy } = await supabase
+    .from('policies')
+    .select('id')
+    .eq('owner_id', youthId)
+    .eq('target_user_id', youthId)
+    .maybeSingle();
+
+  let policyId: string | null = ownPolicy?.id || null;
+
+  if (!ownPolicy) {
+    const effective = await loadEffectivePolicy<MergedPolicy>(supabase, youthId);
+
+    // Youths on the system default stay on it
+    if (effective && !effective.is_system_default) {
+      const limits = Object.fromEntries(
+        Object.entries(effective).filter(([key]) => !POLICY_ROW_FIELDS.includes(key))
+      );
+
+      const { data: created, error } = await supabase
+        .from('policies')
+        .insert({ ...limits, owner_id: youthId, target_user_id: youthId, name: 'My limits', is_active: true })
+        .select('id')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to hand over policy: ${error.message}`);
+      }
+      policyId = created.id;
+    }
+  }
+
+  const { error: retireError } = await supabase
+    .from('policies')
+    .update({ is_active: false })
+    .eq('target_user_id', youthId)
+    .neq('owner_id', youthId);
+
+  if (retireError) {
+    throw new Error(`Failed to retire guardian policies: ${retireError.message}`);
+  }
+
+  // ========================================
+  // RESTRICT WHAT GUARDIANS SEE
+  // ========================================
+
+  // Scopes the youth picked ahead of time carry over
+  const existing = (await loadGuardianSharing(supabase, [youthId])).get(youthId);
+  const sharedScopes = existing ? normalizeSharedScopes(existing.shared_scopes) : DEFAULT_ADULT_SHARED_SCOPES;
+
+  const { error: sharingError } = await supabase
+    .from('guardian_sharing')
+    .upsert({
+      youth_id: youthId,
+      shared_scopes: sharedScopes,
+      adult_since: existing?.adult_since || now.toISOString(),
+    }, { onConflict: 'youth_id' });
+
+  if (sharingError) {
+    throw new Error(`Failed to save guardian sharing: ${sharingError.message}`);
+  }
+
+  // Last, so a retry only skips once everything above is done
+  const { error: roleError } = await supabase
+    .from('user_roles')
+    .update({ role: 'adult' })
+    .eq('user_id', youthId)
+    .eq('role', 'youth');
+
+  if (roleError) {
+    throw new Error(`Failed to update role: ${roleError.message}`);
+  }
+
+  const childName = await getDisplayName(supabase, youthId);
+  const notified = await notifyParents(supabase, youthId, {
+    category: 'family_update',
+    ...buildAdulthoodAlert({ child_name: childName, shared_scopes: sharedScopes }),
+  });
+
+  await createNotification(supabase, {
+    recipient_id: youthId,
+    category: 'family_update',
+    title: 'Your account is now yours',
+    body: 'You set your own limits from now on, and choose what your family can still see in Settings.',
+  });
+
+  console.log('[Linking] Youth', youthId, 'came of age; policy', policyId || 'system default');
+
+  return { transitioned: true, policy_id: policyId, shared_scopes: sharedScopes, guardians_notified: notified.length };
+}
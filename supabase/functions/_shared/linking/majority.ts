@@ -0,0 +1,101 @@
+/**
+ * Age of majority
+ *
+ * Once a youth with a known birth date reaches the configured age
+ * (`AGE_OF_MAJORITY`, 18 by default) their account becomes an adult
+ * one: they own their policy, and guardians who stay linked only see
+ * the scopes the new adult has agreed to share.
+ */
+
+export const DEFAULT_AGE_OF_MAJORITY = 18;
+
+const MIN_AGE_OF_MAJORITY = 16;
+const MAX_AGE_OF_MAJORITY = 21;
+
+const MAX_PLAUSIBLE_AGE = 120;
+
+/**
+ * What guardians can see of an adult, one switch per group of data:
+ * risk = risk state and history; usage = sessions, events and devices;
+ * interventions = nudges, extension requests and their outcomes
+ */
+export const SHARING_SCOPES = ['risk', 'usage', 'interventions'] as const;
+
+export type SharingScope = typeof SHARING_SCOPES[number];
+
+export const SHARING_SCOPE_LABELS: Record<SharingScope, string> = {
+  risk: 'risk level',
+  usage: 'screen time',
+  interventions: 'nudges and time requests',
+};
+
+/** Shared until the adult says otherwise */
+export const DEFAULT_ADULT_SHARED_SCOPES: SharingScope[] = ['risk'];
+
+export interface GuardianSharing {
+  /** Null while the youth is still a minor */
+  adult_since: string | null;
+  shared_scopes: string[];
+}
+
+/**
+ * The configured age, or the default if it's missing or implausible
+ */
+export function resolveAgeOfMajority(raw: string | null | undefined): number {
+  const age = Number(raw);
+  return Number.isInteger(age) && age >= MIN_AGE_OF_MAJORITY && age <= MAX_AGE_OF_MAJORITY
+    ? age
+    : DEFAULT_AGE_OF_MAJORITY;
+}
+
+/**
+ * Latest birth date (`YYYY-MM-DD`) of someone who has reached `age` on
+ * `today`'s UTC date. A 29 February birthday counts from 1 March.
+ */
+export function getMajorityBirthCutoff(today: Date, age: number): string {
+  const cutoff = new Date(Date.UTC(today.getUTCFullYear() - age, today.getUTCMonth(), today.getUTCDate()));
+
+  // On 29 Feb the same day `age` years back may not exist and rolls
+  // over to 1 Mar; step back to 28 Feb
+  if (cutoff.getUTCMonth() !== today.getUTCMonth()) {
+    cutoff.setUTCDate(0);
+  }
+
+  return cutoff.toISOString().slice(0, 10);
+}
+
+/**
+ * A `YYYY-MM-DD` birth date that exists and isn't in the future, or null
+ */
+export function parseBirthDate(input: unknown, today: Date): string | null {
+  if (typeof input !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input)) return null;
+
+  const date = new Date(`${input}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== input) return null;
+
+  const oldest = new Date(Date.UTC(today.getUTCFullYear() - MAX_PLAUSIBLE_AGE, 0, 1));
+  if (date > today || date < oldest) return null;
+
+  return input;
+}
+
+export function hasReachedMajority(birthDate: string, today: Date, age: number): boolean {
+  return birthDate <= getMajorityBirthCutoff(today, age);
+}
+
+/**
+ * Known scopes only, in canonical order and without duplicates
+ */
+export function normalizeSharedScopes(raw: unknown): SharingScope[] {
+  if (!Array.isArray(raw)) return [];
+  return SHARING_SCOPES.filter(scope => raw.includes(scope));
+}
+
+/**
+ * Whether a guardian may see a scope of a child's data. Minors share
+ * everything; adults share what they've agreed to.
+ */
+export function canGuardianView(sharing: GuardianSharing | null, scope: SharingScope): boolean {
+  if (!sharing?.adult_since) return true;
+  return normalizeSharedScopes(sharing.shared_scopes).includes(scope);
+}
@@ -0,0 +1,97 @@
+/**
+ * Family link tokens
+ *
+ * A parent creates a short-lived, single-use code; the child types it in
+ * or scans it as a QR code, sees who they're linking to, and consents.
+ * Only a SHA-256 hash of the code is stored, and each child's failed
+ * lookups are rate limited so codes can't be guessed.
+ */
+
+/** Same alphabet as invite codes: no 0/O or 1/I to misread */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const LINK_CODE_LENGTH = 8;
+
+export const LINK_TOKEN_TTL_MINUTES = 15;
+
+/** Failed lookups allowed per child within the window */
+export const MAX_FAILED_LINK_ATTEMPTS = 5;
+
+export const LINK_ATTEMPT_WINDOW_MINUTES = 15;
+
+/** Path the QR code points at; the app opens it as a deep link */
+export const LINK_PATH = '/link';
+
+const CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${LINK_CODE_LENGTH}}$`);
+
+export interface LinkRateLimit {
+  allowed: boolean;
+  /** When the oldest failure in the window ages out; null if allowed */
+  retry_after: string | null;
+}
+
+/**
+ * Random code for a new link token
+ */
+export function generateLinkCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(LINK_CODE_LENGTH));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * When a token created at `now` stops working
+ */
+export function getLinkTokenExpiry(now: Date): string {
+  return new Date(now.getTime() + LINK_TOKEN_TTL_MINUTES * 60000).toISOString();
+}
+
+/**
+ * The QR payload for a code
+ */
+export function buildLinkUrl(origin: string, code: string): string {
+  return `${origin.replace(/\/+$/, '')}${LINK_PATH}?code=${code}`;
+}
+
+/**
+ * A code from what the child typed or scanned (a bare code or a link
+ * URL), or null if it can't be one. Spaces and dashes are ignored.
+ */
+export function parseLinkCode(input: string): string | null {
+  let value = input.trim();
+
+  const fromUrl = /[?&]code=([^&#\s]+)/.exec(value);
+  if (fromUrl) {
+    value = decodeURIComponent(fromUrl[1]);
+  }
+
+  const code = value.replace(/[\s-]/g, '').toUpperCase();
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+/**
+ * Hex SHA-256 of a code, as stored in `family_link_tokens.token_hash`
+ */
+export async function hashLinkCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether a child may try another code, given when their recent failed
+ * attempts happened
+ */
+export function getLinkRateLimit(failedAttempts: string[], now: Date): LinkRateLimit {
+  const windowStart = now.getTime() - LINK_ATTEMPT_WINDOW_MINUTES * 60000;
+  const recent = failedAttempts
+    .map(timestamp => new Date(timestamp).getTime())
+    .filter(time => time > windowStart)
+    .sort((a, b) => a - b);
+
+  if (recent.length < MAX_FAILED_LINK_ATTEMPTS) {
+    return { allowed: true, retry_after: null };
+  }
+
+  // Allowed again once enough failures have left the window
+  const unblocksAt = recent[recent.length - MAX_FAILED_LINK_ATTEMPTS] + LINK_ATTEMPT_WINDOW_MINUTES * 60000;
+  return { allowed: false, retry_after: new Date(unblocksAt).toISOString() };
+}
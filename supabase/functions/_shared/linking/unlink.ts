@@ -0,0 +1,43 @@
+/**
+ * Unlinking
+ *
+ * Either side of a family link can ask to end it. Nothing changes until
+ * a cooling-off period has passed, so a request made in a heated moment
+ * can be taken back and every guardian hears about it first. Only the
+ * person who asked can cancel; the other side can't veto.
+ */
+
+export const UNLINK_COOLING_OFF_DAYS = 7;
+
+export const UNLINK_REASON_MAX_LENGTH = 500;
+
+export type UnlinkRequestStatus = 'pending' | 'cancelled' | 'completed';
+
+export interface UnlinkRequestState {
+  status: UnlinkRequestStatus;
+  requested_by: string;
+  effective_at: string;
+}
+
+/**
+ * When a request made at `now` takes effect
+ */
+export function getUnlinkEffectiveAt(now: Date): string {
+  return new Date(now.getTime() + UNLINK_COOLING_OFF_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Why `userId` can't cancel the request, or null if they can
+ */
+export function getUnlinkCancelRejection(request: UnlinkRequestState, userId: string, now: Date): string | null {
+  if (request.status !== 'pending') {
+    return `Request already ${request.status}`;
+  }
+  if (request.requested_by !== userId) {
+    return 'Only the person who asked to unlink can cancel';
+  }
+  if (new Date(request.effective_at) <= now) {
+    return 'The cooling-off period is over';
+  }
+  return null;
+}
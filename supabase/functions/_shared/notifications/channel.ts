@@ -0,0 +1,44 @@
+/**
+ * Notification channels
+ *
+ * A channel delivers one notification to one recipient and returns a
+ * receipt (provider message id etc.) that is stored on the delivery.
+ * Throwing marks the delivery failed and lets the job queue retry it.
+ */
+
+import type { NotificationChannelName } from './preferences.ts';
+
+export interface NotificationMessage {
+  id: string;
+  category: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+export interface NotificationRecipient {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  push_subscriptions: { endpoint: string; p256dh: string; auth: string }[];
+}
+
+/** Why nothing was sent (e.g. no email address); recorded as `skipped` */
+export class ChannelSkip extends Error {}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  /** False when the channel's credentials aren't set in this environment */
+  isConfigured: () => boolean;
+  send: (message: NotificationMessage, recipient: NotificationRecipient) => Promise<Record<string, unknown>>;
+}
+
+const channels = new Map<NotificationChannelName, NotificationChannel>();
+
+export function registerNotificationChannel(channel: NotificationChannel): void {
+  channels.set(channel.name, channel);
+}
+
+export function getNotificationChannel(name: NotificationChannelName): NotificationChannel | undefined {
+  return channels.get(name);
+}
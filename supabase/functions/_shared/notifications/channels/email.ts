@@ -0,0 +1,44 @@
+/**
+ * Email channel (SMTP)
+ *
+ * Needs SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and SMTP_FROM.
+ */
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { ChannelSkip } from '../channel.ts';
+import type { NotificationChannel } from '../channel.ts';
+
+const env = (key: string) => Deno.env.get(key) || '';
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  isConfigured: () => !!(env('SMTP_HOST') && env('SMTP_FROM')),
+  send: async (message, recipient) => {
+    if (!recipient.email) {
+      throw new ChannelSkip('Recipient has no email address');
+    }
+
+    const port = parseInt(env('SMTP_PORT') || '465', 10);
+    const client = new SMTPClient({
+      connection: {
+        hostname: env('SMTP_HOST'),
+        port,
+        tls: port === 465,
+        auth: env('SMTP_USER') ? { username: env('SMTP_USER'), password: env('SMTP_PASS') } : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: env('SMTP_FROM'),
+        to: recipient.email,
+        subject: message.title,
+        content: message.body,
+      });
+    } finally {
+      await client.close();
+    }
+
+    return { to: recipient.email, sent_at: new Date().toISOString() };
+  },
+};
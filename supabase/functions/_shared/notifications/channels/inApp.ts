@@ -0,0 +1,14 @@
+/**
+ * In-app inbox channel
+ *
+ * The notification row is the inbox entry, so there is nothing to send;
+ * the delivery just records that it is visible in the inbox.
+ */
+
+import type { NotificationChannel } from '../channel.ts';
+
+export const inAppChannel: NotificationChannel = {
+  name: 'in_app',
+  isConfigured: () => true,
+  send: async () => ({ inbox: true }),
+};
@@ -0,0 +1,63 @@
+/**
+ * Web push channel
+ *
+ * Needs VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a mailto:
+ * or https: contact). Sends to every subscription the recipient has
+ * registered; endpoints the push service reports as gone are returned
+ * in the receipt so the dispatcher can remove them.
+ */
+
+import webpush from "https://esm.sh/web-push@3.6.7";
+import { ChannelSkip } from '../channel.ts';
+import type { NotificationChannel } from '../channel.ts';
+
+const env = (key: string) => Deno.env.get(key) || '';
+
+export const webPushChannel: NotificationChannel = {
+  name: 'push',
+  isConfigured: () => !!(env('VAPID_PUBLIC_KEY') && env('VAPID_PRIVATE_KEY')),
+  send: async (message, recipient) => {
+    if (recipient.push_subscriptions.length === 0) {
+      throw new ChannelSkip('No push subscriptions');
+    }
+
+    webpush.setVapidDetails(
+      env('VAPID_SUBJECT') || 'mailto:alerts@example.com',
+      env('VAPID_PUBLIC_KEY'),
+      env('VAPID_PRIVATE_KEY')
+    );
+
+    const payload = JSON.stringify({
+      title: message.title,
+      body: message.body,
+      data: { notification_id: message.id, ...message.data },
+    });
+
+    let sent = 0;
+    const expired: string[] = [];
+    const errors: string[] = [];
+
+    for (const subscription of recipient.push_subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload
+        );
+        sent++;
+      } catch (error: unknown) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          expired.push(subscription.endpoint);
+        } else {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    if (sent === 0 && errors.length > 0) {
+      throw new Error(`Push failed: ${errors.join('; ')}`);
+    }
+
+    return { sent, expired_endpoints: expired, errors };
+  },
+};
@@ -0,0 +1,54 @@
+/**
+ * Parent notifications - shared module
+ *
+ * Channel implementations live in ./channels and are imported directly
+ * by the dispatcher, since they pull in SMTP/web push clients.
+ */
+
+export {
+  resolveNotificationPrefs,
+  getEffectiveSwitches,
+  getDeliveryChannels,
+  getQuietMinutesRemaining,
+  planNotificationDelivery,
+  DEFAULT_NOTIFICATION_PREFS,
+} from './preferences.ts';
+export {
+  registerNotificationChannel,
+  getNotificationChannel,
+  ChannelSkip,
+} from './channel.ts';
+export {
+  createNotification,
+  notifyParents,
+  loadRecipientSettings,
+  planForRecipient,
+} from './producer.ts';
+export {
+  buildAdulthoodAlert,
+  buildExtensionRequestAlert,
+  buildParentAlert,
+  buildUnlinkCancelledAlert,
+  buildUnlinkCompletedAlert,
+  buildUnlinkRequestedAlert,
+} from './messages.ts';
+export type {
+  DeliveryPlan,
+  NotificationCategory,
+  NotificationChannelName,
+  NotificationPrefs,
+  NotificationSwitches,
+  QuietHours,
+} from './preferences.ts';
+export type {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from './channel.ts';
+export type { CreateNotificationInput, RecipientSettings } from './producer.ts';
+export type {
+  AdulthoodContext,
+  ExtensionRequestContext,
+  ParentAlertContext,
+  UnlinkContext,
+} from './messages.ts';
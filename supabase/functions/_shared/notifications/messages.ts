@@ -0,0 +1,103 @@
+/**
+ * Notification copy
+ *
+ * Intervention templates are written for the youth; parents get their
+ * own wording built here.
+ */
+
+import { SHARING_SCOPE_LABELS } from '../linking/majority.ts';
+import type { SharingScope } from '../linking/majority.ts';
+
+export interface ParentAlertContext {
+  child_name: string | null;
+  risk_level: string;
+  risk_score: number;
+  /** Set when the alert comes from an escalation the child ignored */
+  escalated?: boolean;
+}
+
+export interface ExtensionRequestContext {
+  child_name: string | null;
+  minutes: number;
+  reason: string | null;
+}
+
+export function buildParentAlert(context: ParentAlertContext): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+  const score = Math.round(context.risk_score);
+
+  return {
+    title: `${child} needs your attention`,
+    body: context.escalated
+      ? `${child} ignored earlier screen time prompts and their risk is still ${context.risk_level} (${score}/100).`
+      : `${child}'s screen time risk reached ${context.risk_level} (${score}/100).`,
+  };
+}
+
+export function buildExtensionRequestAlert(context: ExtensionRequestContext): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+
+  return {
+    title: `${child} is asking for ${context.minutes} more minutes`,
+    body: context.reason
+      ? `"${context.reason}" Approve or deny it from your dashboard.`
+      : 'Approve or deny it from your dashboard.',
+  };
+}
+
+export interface UnlinkContext {
+  child_name: string | null;
+  /** Who asked: the child, or the guardian named here */
+  requested_by_child: boolean;
+  guardian_name: string | null;
+  effective_at: string;
+  reason: string | null;
+}
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+export function buildUnlinkRequestedAlert(context: UnlinkContext): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+  const who = context.requested_by_child ? child : context.guardian_name || 'A guardian';
+
+  return {
+    title: `${who} asked to unlink ${context.requested_by_child ? 'from your family' : child}`,
+    body: `${context.reason ? `"${context.reason}" ` : ''}The link ends on ${formatDay(context.effective_at)} unless the request is cancelled before then.`,
+  };
+}
+
+export function buildUnlinkCancelledAlert(context: Pick<UnlinkContext, 'child_name'>): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+
+  return {
+    title: `Unlinking ${child} was cancelled`,
+    body: 'Nothing changes; you stay linked.',
+  };
+}
+
+export function buildUnlinkCompletedAlert(context: Pick<UnlinkContext, 'child_name'>): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+
+  return {
+    title: `${child} is no longer linked`,
+    body: `You won't see ${child}'s activity or get alerts about them any more.`,
+  };
+}
+
+export interface AdulthoodContext {
+  child_name: string | null;
+  shared_scopes: SharingScope[];
+}
+
+export function buildAdulthoodAlert(context: AdulthoodContext): { title: string; body: string } {
+  const child = context.child_name || 'Your child';
+  const shared = context.shared_scopes.map(scope => SHARING_SCOPE_LABELS[scope]);
+
+  return {
+    title: `${child} now manages their own account`,
+    body: shared.length > 0
+      ? `${child} has come of age and now sets their own limits. You can still see their ${shared.join(', ')}.`
+      : `${child} has come of age and now sets their own limits. They no longer share their activity with you.`,
+  };
+}
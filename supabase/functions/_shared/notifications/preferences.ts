@@ -0,0 +1,213 @@
+/**
+ * Notification preferences
+ *
+ * Stored per user in `profiles.notification_prefs` (edited on the
+ * Settings page). Missing keys fall back to the defaults below, so older
+ * rows and new preferences keep working.
+ *
+ * Every producer calls `planNotificationDelivery()` before creating a
+ * notification, and the dispatcher calls it again before sending, so a
+ * preference changed in between still applies.
+ */
+
+import { parseTimeOfDay } from '../risk/bedtime.ts';
+import { isInTimeWindow } from '../interventions/selector.ts';
+import type { LocalTime } from '../risk/time.ts';
+
+export type NotificationChannelName = 'email' | 'push' | 'in_app';
+
+export type NotificationCategory =
+  | 'intervention_alert'
+  | 'extension_request'
+  | 'risk_warning'
+  | 'daily_summary'
+  | 'weekly_insights'
+  | 'family_update';
+
+/** The on/off switches; also the shape of a per-child override */
+export interface NotificationSwitches {
+  email_alerts: boolean;
+  push_alerts: boolean;
+  risk_warnings: boolean;
+  daily_summary: boolean;
+  weekly_insights: boolean;
+  intervention_alerts: boolean;
+}
+
+/** Email and push are held during this window; `HH:mm` in the recipient's timezone */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface NotificationPrefs extends NotificationSwitches {
+  quiet_hours: QuietHours;
+  /** Keyed by youth id; parents can mute or reroute alerts about one child */
+  child_overrides: Record<string, Partial<NotificationSwitches>>;
+}
+
+export interface DeliveryPlan {
+  /** Channels to send on now; empty means don't notify at all */
+  channels: NotificationChannelName[];
+  /** Channels held back by quiet hours */
+  deferred: NotificationChannelName[];
+  /** When quiet hours end, if anything was deferred */
+  resume_at: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  email_alerts: true,
+  push_alerts: true,
+  risk_warnings: true,
+  daily_summary: false,
+  weekly_insights: true,
+  intervention_alerts: true,
+  quiet_hours: { enabled: false, start: '22:00', end: '07:00' },
+  child_overrides: {},
+};
+
+const SWITCH_KEYS: (keyof NotificationSwitches)[] = [
+  'email_alerts',
+  'push_alerts',
+  'risk_warnings',
+  'daily_summary',
+  'weekly_insights',
+  'intervention_alerts',
+];
+
+/**
+ * Preference that switches each category on or off; null categories
+ * (unlinking, coming of age) can't be muted
+ */
+const CATEGORY_PREF: Record<NotificationCategory, keyof NotificationSwitches | null> = {
+  intervention_alert: 'intervention_alerts',
+  extension_request: 'intervention_alerts',
+  risk_warning: 'risk_warnings',
+  daily_summary: 'daily_summary',
+  weekly_insights: 'weekly_insights',
+  family_update: null,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function readSwitches(raw: Record<string, unknown>): Partial<NotificationSwitches> {
+  const switches: Partial<NotificationSwitches> = {};
+  for (const key of SWITCH_KEYS) {
+    if (typeof raw[key] === 'boolean') switches[key] = raw[key] as boolean;
+  }
+  return switches;
+}
+
+/**
+ * Stored preferences merged over the defaults; unknown keys, invalid
+ * times and non-boolean values are ignored
+ */
+export function resolveNotificationPrefs(raw: unknown): NotificationPrefs {
+  const defaults = DEFAULT_NOTIFICATION_PREFS;
+  if (!isObject(raw)) {
+    return { ...defaults, quiet_hours: { ...defaults.quiet_hours }, child_overrides: {} };
+  }
+
+  const quiet = isObject(raw.quiet_hours) ? raw.quiet_hours : {};
+  const validTime = (value: unknown, fallback: string) =>
+    typeof value === 'string' && parseTimeOfDay(value) !== null ? value : fallback;
+
+  const childOverrides: Record<string, Partial<NotificationSwitches>> = {};
+  if (isObject(raw.child_overrides)) {
+    for (const [youthId, override] of Object.entries(raw.child_overrides)) {
+      if (isObject(override)) childOverrides[youthId] = readSwitches(override);
+    }
+  }
+
+  return {
+    ...defaults,
+    ...readSwitches(raw),
+    quiet_hours: {
+      enabled: typeof quiet.enabled === 'boolean' ? quiet.enabled : defaults.quiet_hours.enabled,
+      start: validTime(quiet.start, defaults.quiet_hours.start),
+      end: validTime(quiet.end, defaults.quiet_hours.end),
+    },
+    child_overrides: childOverrides,
+  };
+}
+
+/**
+ * The switches that apply to a notification, with the child's override
+ * (if any) on top
+ */
+export function getEffectiveSwitches(prefs: NotificationPrefs, youthId?: string | null): NotificationSwitches {
+  const switches: NotificationSwitches = {
+    email_alerts: prefs.email_alerts,
+    push_alerts: prefs.push_alerts,
+    risk_warnings: prefs.risk_warnings,
+    daily_summary: prefs.daily_summary,
+    weekly_insights: prefs.weekly_insights,
+    intervention_alerts: prefs.intervention_alerts,
+  };
+  const override = youthId ? prefs.child_overrides[youthId] : undefined;
+  return override ? { ...switches, ...override } : switches;
+}
+
+/**
+ * Channels a notification of `category` should go out on.
+ *
+ * A category that is switched off sends nothing at all; otherwise the
+ * in-app inbox always gets a copy and the channel switches control
+ * email and push.
+ */
+export function getDeliveryChannels(
+  switches: NotificationSwitches,
+  category: NotificationCategory
+): NotificationChannelName[] {
+  const pref = CATEGORY_PREF[category];
+  if (pref && !switches[pref]) return [];
+
+  const channels: NotificationChannelName[] = ['in_app'];
+  if (switches.email_alerts) channels.push('email');
+  if (switches.push_alerts) channels.push('push');
+  return channels;
+}
+
+/**
+ * Minutes until quiet hours end, or null if they aren't in effect
+ */
+export function getQuietMinutesRemaining(quiet: QuietHours, local: Pick<LocalTime, 'hour' | 'minute'>): number | null {
+  if (!quiet.enabled) return null;
+
+  const start = parseTimeOfDay(quiet.start);
+  const end = parseTimeOfDay(quiet.end);
+  if (start === null || end === null || start === end) return null;
+
+  const minutes = local.hour * 60 + local.minute;
+  if (!isInTimeWindow(minutes, start, end)) return null;
+
+  return (end - minutes + 1440) % 1440;
+}
+
+/**
+ * Decide what to send now and what to hold until quiet hours end
+ */
+export function planNotificationDelivery(
+  prefs: NotificationPrefs,
+  category: NotificationCategory,
+  youthId: string | null | undefined,
+  local: Pick<LocalTime, 'hour' | 'minute'>,
+  now: Date
+): DeliveryPlan {
+  const channels = getDeliveryChannels(getEffectiveSwitches(prefs, youthId), category);
+  const remaining = getQuietMinutesRemaining(prefs.quiet_hours, local);
+
+  if (remaining === null) {
+    return { channels, deferred: [], resume_at: null };
+  }
+
+  // The inbox is silent, so it isn't held back
+  const deferred = channels.filter(channel => channel !== 'in_app');
+  return {
+    channels: channels.filter(channel => channel === 'in_app'),
+    deferred,
+    resume_at: deferred.length > 0 ? new Date(now.getTime() + remaining * 60000).toISOString() : null,
+  };
+}
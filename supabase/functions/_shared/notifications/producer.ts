@@ -0,0 +1,133 @@
+/**
+ * Creating notifications
+ *
+ * Producers insert a notification and enqueue a dispatch job; the
+ * notification-dispatcher (run by the job-worker) fans it out to the
+ * recipient's channels and retries failures with backoff. Nothing is
+ * created when the recipient has switched the category off.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueJob, kickJobWorker, JOB_TYPES } from '../jobs/queue.ts';
+import { getLocalTime } from '../risk/time.ts';
+import { getChildGuardians } from '../households/guardians.ts';
+import { planNotificationDelivery, resolveNotificationPrefs } from './preferences.ts';
+import type { DeliveryPlan, NotificationCategory, NotificationPrefs } from './preferences.ts';
+
+export interface RecipientSettings {
+  prefs: NotificationPrefs;
+  timezone: string;
+  display_name: string | null;
+}
+
+export interface CreateNotificationInput {
+  recipient_id: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  /** The child the notification is about, for parent notifications */
+  youth_id?: string | null;
+  intervention_id?: string | null;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Load a recipient's notification preferences and timezone
+ */
+export async function loadRecipientSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<RecipientSettings> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('display_name, timezone, notification_prefs')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return {
+    prefs: resolveNotificationPrefs(profile?.notification_prefs),
+    timezone: profile?.timezone || 'UTC',
+    display_name: profile?.display_name || null,
+  };
+}
+
+/**
+ * What the recipient's preferences allow for a notification right now
+ */
+export function planForRecipient(
+  settings: RecipientSettings,
+  category: NotificationCategory,
+  youthId: string | null | undefined,
+  now: Date = new Date()
+): DeliveryPlan {
+  return planNotificationDelivery(
+    settings.prefs,
+    category,
+    youthId,
+    getLocalTime(now, settings.timezone),
+    now
+  );
+}
+
+/**
+ * Store a notification and queue it for delivery. Returns its id, or
+ * null if the recipient's preferences rule it out.
+ */
+export async function createNotification(
+  supabase: SupabaseClient,
+  input: CreateNotificationInput
+): Promise<string | null> {
+  const settings = await loadRecipientSettings(supabase, input.recipient_id);
+  const plan = planForRecipient(settings, input.category, input.youth_id);
+
+  if (plan.channels.length === 0 && plan.deferred.length === 0) {
+    console.log('[Notifications]', input.category, 'switched off by', input.recipient_id);
+    return null;
+  }
+
+  const { data: notification, error } = await supabase
+    .from('notifications')
+    .insert({
+      recipient_id: input.recipient_id,
+      category: input.category,
+      title: input.title,
+      body: input.body,
+      youth_id: input.youth_id ?? null,
+      intervention_id: input.intervention_id ?? null,
+      data: input.data || {},
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create notification: ${error.message}`);
+  }
+
+  await enqueueJob(supabase, {
+    job_type: JOB_TYPES.DISPATCH_NOTIFICATION,
+    user_id: input.recipient_id,
+    payload: { notification_id: notification.id },
+  });
+  kickJobWorker(supabase);
+
+  return notification.id;
+}
+
+/**
+ * Notify every guardian of a youth (view-only ones included), subject to
+ * each guardian's preferences. Returns the ids of the notifications created.
+ */
+export async function notifyParents(
+  supabase: SupabaseClient,
+  youthId: string,
+  input: Omit<CreateNotificationInput, 'recipient_id' | 'youth_id'>
+): Promise<string[]> {
+  const guardians = await getChildGuardians(supabase, youthId);
+
+  const ids: string[] = [];
+  for (const guardian of guardians) {
+    const id = await createNotification(supabase, { ...input, recipient_id: guardian.id, youth_id: youthId });
+    if (id) ids.push(id);
+  }
+  return ids;
+}
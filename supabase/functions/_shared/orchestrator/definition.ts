@@ -0,0 +1,162 @@
+/**
+ * Orchestrator State Machine Definition
+ *
+ * The orchestrator's states, transitions, guards and side effects live in
+ * `orchestrator_definitions` as versioned JSON. This module describes that
+ * JSON, validates it when it is loaded, and ships the built-in default
+ * used when no valid definition is stored.
+ */
+
+/** Matches any state in `from` */
+export const ANY_STATE = '*';
+
+/**
+ * Conditions checked against the evaluation context before a
+ * transition is taken. All present conditions must hold.
+ */
+export interface TransitionGuard {
+  risk_level_in?: string[];
+  min_risk_score?: number;
+  max_risk_score?: number;
+}
+
+export interface TransitionDefinition {
+  from: string | string[];
+  event: string;
+  /** Omit to stay in the current state (effects still run) */
+  to?: string;
+  guard?: TransitionGuard;
+  /** Named side effects, resolved by the orchestrator */
+  effects?: string[];
+}
+
+export interface OrchestratorDefinition {
+  version: number;
+  initial: string;
+  states: string[];
+  transitions: TransitionDefinition[];
+}
+
+const GUARD_KEYS: (keyof TransitionGuard)[] = ['risk_level_in', 'min_risk_score', 'max_risk_score'];
+
+/**
+ * Built-in definition (mirrors the seeded version 1 row)
+ */
+export const DEFAULT_ORCHESTRATOR_DEFINITION: OrchestratorDefinition = {
+  version: 0,
+  initial: 'idle',
+  states: ['idle', 'monitoring', 'intervening', 'escalating'],
+  transitions: [
+    { from: 'idle', event: 'app_open', to: 'monitoring' },
+    { from: 'idle', event: 'session_start', to: 'monitoring' },
+    // Reopening an already-active app keeps the current state
+    { from: ['monitoring', 'intervening', 'escalating'], event: 'app_open' },
+    { from: ['monitoring', 'intervening', 'escalating'], event: 'session_start' },
+    { from: ['monitoring', 'intervening', 'escalating'], event: 'app_close', to: 'idle' },
+    { from: ['monitoring', 'intervening', 'escalating'], event: 'session_end', to: 'idle' },
+    { from: ['idle', 'monitoring', 'intervening', 'escalating'], event: 'critical_risk_detected', to: 'escalating', effects: ['run_intervention_agent'] },
+    { from: ['idle', 'monitoring', 'intervening'], event: 'high_risk_detected', to: 'intervening', effects: ['run_intervention_agent'] },
+    { from: 'escalating', event: 'high_risk_detected', effects: ['run_intervention_agent'] },
+    { from: ['idle', 'monitoring'], event: 'medium_risk_detected', to: 'monitoring', effects: ['run_intervention_agent'] },
+    { from: ['intervening', 'escalating'], event: 'medium_risk_detected', effects: ['run_intervention_agent'] },
+    // respond-intervention records the feedback itself; these only move state
+    { from: ['intervening', 'escalating'], event: 'intervention_acknowledged', to: 'monitoring' },
+    { from: ['intervening', 'escalating'], event: 'intervention_dismissed', to: 'monitoring' },
+    // Late responses (e.g. after the app was closed) aren't rejected
+    { from: ['idle', 'monitoring'], event: 'intervention_acknowledged' },
+    { from: ['idle', 'monitoring'], event: 'intervention_dismissed' },
+    { from: 'intervening', event: 'escalation_triggered', to: 'escalating' },
+    { from: 'escalating', event: 'parent_notified', to: 'monitoring' },
+  ],
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Validate a stored definition.
+ *
+ * Throws with every problem found, so a bad row is rejected as a whole
+ * rather than half-applied.
+ */
+export function parseOrchestratorDefinition(
+  raw: unknown,
+  version: number,
+  knownEffects: string[]
+): OrchestratorDefinition {
+  const errors: string[] = [];
+  const def = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const states = isStringArray(def.states) ? def.states : [];
+  if (states.length === 0) errors.push('states must be a non-empty array of strings');
+  if (new Set(states).size !== states.length) errors.push('states must be unique');
+  if (states.includes(ANY_STATE)) errors.push(`"${ANY_STATE}" is reserved and cannot be a state`);
+
+  const initial = typeof def.initial === 'string' ? def.initial : '';
+  if (!states.includes(initial)) errors.push(`initial state "${initial}" is not a declared state`);
+
+  const rawTransitions = Array.isArray(def.transitions) ? def.transitions : null;
+  if (!rawTransitions) errors.push('transitions must be an array');
+
+  const transitions: TransitionDefinition[] = [];
+  (rawTransitions || []).forEach((item, index) => {
+    const t = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const where = `transitions[${index}]`;
+
+    const from = typeof t.from === 'string' ? [t.from] : isStringArray(t.from) ? t.from : null;
+    if (!from || from.length === 0) {
+      errors.push(`${where}.from must be a state, "${ANY_STATE}" or a list of states`);
+    } else {
+      for (const state of from) {
+        if (state !== ANY_STATE && !states.includes(state)) {
+          errors.push(`${where}.from references unknown state "${state}"`);
+        }
+      }
+    }
+
+    if (typeof t.event !== 'string' || !t.event) {
+      errors.push(`${where}.event must be a non-empty string`);
+    }
+
+    if (t.to !== undefined && (typeof t.to !== 'string' || !states.includes(t.to))) {
+      errors.push(`${where}.to references unknown state "${String(t.to)}"`);
+    }
+
+    if (t.effects !== undefined) {
+      if (!isStringArray(t.effects)) {
+        errors.push(`${where}.effects must be an array of strings`);
+      } else {
+        for (const effect of t.effects) {
+          if (!knownEffects.includes(effect)) errors.push(`${where}.effects has unknown effect "${effect}"`);
+        }
+      }
+    }
+
+    if (t.guard !== undefined) {
+      const guard = (t.guard && typeof t.guard === 'object' ? t.guard : null) as Record<string, unknown> | null;
+      if (!guard) {
+        errors.push(`${where}.guard must be an object`);
+      } else {
+        for (const key of Object.keys(guard)) {
+          if (!GUARD_KEYS.includes(key as keyof TransitionGuard)) errors.push(`${where}.guard has unknown condition "${key}"`);
+        }
+        if (guard.risk_level_in !== undefined && !isStringArray(guard.risk_level_in)) {
+          errors.push(`${where}.guard.risk_level_in must be an array of strings`);
+        }
+        for (const key of ['min_risk_score', 'max_risk_score']) {
+          if (guard[key] !== undefined && typeof guard[key] !== 'number') {
+            errors.push(`${where}.guard.${key} must be a number`);
+          }
+        }
+      }
+    }
+
+    transitions.push(t as unknown as TransitionDefinition);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid orchestrator definition v${version}: ${errors.join('; ')}`);
+  }
+
+  return { version, initial, states, transitions };
+}
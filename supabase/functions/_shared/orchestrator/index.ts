@@ -0,0 +1,16 @@
+/**
+ * Orchestrator state machine - shared module
+ */
+
+export {
+  ANY_STATE,
+  DEFAULT_ORCHESTRATOR_DEFINITION,
+  parseOrchestratorDefinition,
+} from './definition.ts';
+export { guardPasses, getDefinitionEvents, transition } from './machine.ts';
+export type {
+  OrchestratorDefinition,
+  TransitionDefinition,
+  TransitionGuard,
+} from './definition.ts';
+export type { GuardContext, TransitionOutcome } from './machine.ts';
@@ -0,0 +1,88 @@
+/**
+ * Orchestrator State Machine Evaluation
+ *
+ * Pure: given a definition, the current state and an event, work out
+ * what happens. The orchestrator edge function performs the effects and
+ * persists the result.
+ */
+
+import { ANY_STATE } from './definition.ts';
+import type { OrchestratorDefinition, TransitionDefinition, TransitionGuard } from './definition.ts';
+
+export interface GuardContext {
+  risk_level?: string | null;
+  risk_score?: number | null;
+}
+
+export type TransitionOutcome =
+  | { status: 'applied'; from: string; to: string; event: string; effects: string[] }
+  /** The definition knows the event but allows it from no matching state */
+  | { status: 'rejected'; from: string; event: string; reason: string }
+  /** Not a state-machine event (e.g. scroll, tap) */
+  | { status: 'ignored'; from: string; event: string };
+
+const fromList = (transition: TransitionDefinition): string[] =>
+  typeof transition.from === 'string' ? [transition.from] : transition.from;
+
+export function guardPasses(guard: TransitionGuard | undefined, ctx: GuardContext): boolean {
+  if (!guard) return true;
+
+  if (guard.risk_level_in && !guard.risk_level_in.includes(ctx.risk_level ?? '')) return false;
+  if (guard.min_risk_score !== undefined && (ctx.risk_score ?? 0) < guard.min_risk_score) return false;
+  if (guard.max_risk_score !== undefined && (ctx.risk_score ?? 0) > guard.max_risk_score) return false;
+
+  return true;
+}
+
+/**
+ * Every event named by at least one transition
+ */
+export function getDefinitionEvents(definition: OrchestratorDefinition): Set<string> {
+  return new Set(definition.transitions.map((t) => t.event));
+}
+
+/**
+ * Apply `event` in `currentState`. Transitions are tried in order; the
+ * first whose `from` and guard both match wins.
+ */
+export function transition(
+  definition: OrchestratorDefinition,
+  currentState: string,
+  event: string,
+  ctx: GuardContext = {}
+): TransitionOutcome {
+  if (!getDefinitionEvents(definition).has(event)) {
+    return { status: 'ignored', from: currentState, event };
+  }
+
+  let blockedByGuard = false;
+
+  for (const candidate of definition.transitions) {
+    if (candidate.event !== event) continue;
+
+    const from = fromList(candidate);
+    if (!from.includes(currentState) && !from.includes(ANY_STATE)) continue;
+
+    if (!guardPasses(candidate.guard, ctx)) {
+      blockedByGuard = true;
+      continue;
+    }
+
+    return {
+      status: 'applied',
+      from: currentState,
+      to: candidate.to ?? currentState,
+      event,
+      effects: candidate.effects || [],
+    };
+  }
+
+  return {
+    status: 'rejected',
+    from: currentState,
+    event,
+    reason: blockedByGuard
+      ? `Guard blocked "${event}" in state "${currentState}"`
+      : `No transition for "${event}" from state "${currentState}"`,
+  };
+}
@@ -0,0 +1,422 @@
+/**
+ * parent-api v2 contracts
+ *
+ * Request schemas and response shapes for the REST routes, shared by the
+ * edge function (which validates with them) and the frontend client
+ * (which types its calls with them). `zod` resolves through the
+ * functions' import map in Deno and node_modules in the app.
+ */
+
+import { z } from "zod";
+import type { SharingScope } from "../linking/majority.ts";
+import { APP_CATEGORIES } from "../risk/categories.ts";
+import type { CategoryUsage } from "../risk/categories.ts";
+import { resolveLevelThresholds } from "../risk/levels.ts";
+import { isScheduleDate, parseRecurrenceRule } from "../risk/schedules.ts";
+import type { PolicyChangeType, PolicyDiff } from "../policies/versions.ts";
+
+// ========================================
+// ROUTES
+// ========================================
+
+export const PARENT_API_ROUTES = {
+  listChildren: { method: 'GET', path: '/v2/children' },
+  getChildStats: { method: 'GET', path: '/v2/children/:childId/stats' },
+  updateChildPolicy: { method: 'PATCH', path: '/v2/children/:childId/policy' },
+  listPolicyVersions: { method: 'GET', path: '/v2/children/:childId/policy/versions' },
+  rollbackPolicy: { method: 'POST', path: '/v2/children/:childId/policy/versions/:versionId/rollback' },
+  listInterventions: { method: 'GET', path: '/v2/interventions' },
+  decideExtensionRequest: { method: 'POST', path: '/v2/extension-requests/:requestId/decision' },
+  listHouseholds: { method: 'GET', path: '/v2/households' },
+  createGuardianInvitation: { method: 'POST', path: '/v2/households/:householdId/invitations' },
+  acceptGuardianInvitation: { method: 'POST', path: '/v2/household-invitations/accept' },
+  updateGuardianRole: { method: 'PATCH', path: '/v2/households/:householdId/guardians/:guardianId' },
+} as const;
+
+export type ParentApiRouteName = keyof typeof PARENT_API_ROUTES;
+
+// ========================================
+// REQUESTS
+// ========================================
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Expected HH:MM');
+
+export const childParamsSchema = z.object({
+  childId: z.string().uuid(),
+});
+
+const categoryRuleSchema = z.object({
+  daily_limit_minutes: z.number().int().min(0).max(1440).nullable(),
+  bedtime_start: timeOfDay.nullable(),
+  bedtime_end: timeOfDay.nullable(),
+})
+  .partial()
+  .strict()
+  .refine(rule => (rule.bedtime_start == null) === (rule.bedtime_end == null), {
+    message: 'Set both bedtime_start and bedtime_end, or neither',
+  });
+
+const scheduleDate = z.string().refine(isScheduleDate, 'Expected YYYY-MM-DD');
+
+const scheduleBaseSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  label: z.string().trim().min(1).max(100),
+  rrule: z.string().refine(rrule => parseRecurrenceRule(rrule) !== null, {
+    message: 'Expected FREQ=DAILY or FREQ=WEEKLY with optional INTERVAL, BYDAY and UNTIL',
+  }),
+  starts_on: scheduleDate,
+});
+
+const policyScheduleSchema = z.discriminatedUnion('action', [
+  scheduleBaseSchema.extend({
+    action: z.literal('block'),
+    start_time: timeOfDay,
+    end_time: timeOfDay,
+    /** Empty blocks every app */
+    categories: z.array(z.enum(APP_CATEGORIES)).max(APP_CATEGORIES.length),
+  }).strict(),
+  scheduleBaseSchema.extend({
+    action: z.literal('extra_minutes'),
+    extra_minutes: z.number().int().min(1).max(720),
+  }).strict(),
+]);
+
+const scheduleExceptionSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  label: z.string().trim().min(1).max(100),
+  starts_on: scheduleDate,
+  ends_on: scheduleDate,
+  schedule_ids: z.array(z.string()).max(50).nullable().default(null),
+})
+  .strict()
+  .refine(exception => exception.starts_on <= exception.ends_on, {
+    message: 'ends_on must not be before starts_on',
+  });
+
+const uniqueIds = (entries: { id: string }[]) => new Set(entries.map(e => e.id)).size === entries.length;
+
+// Keyed by factor key; plugins beyond the built-ins may register more
+const factorConfigSchema = z.record(
+  z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'Expected a factor key'),
+  z.object({
+    enabled: z.boolean(),
+    weight: z.number().min(0).max(10),
+    cap: z.number().min(0).max(100),
+  }).partial().strict()
+);
+
+const levelThresholdSchema = z.object({
+  enter: z.number().min(0).max(100),
+  exit: z.number().min(0).max(100),
+}).partial().strict();
+
+const riskLevelThresholdsSchema = z.object({
+  medium: levelThresholdSchema,
+  high: levelThresholdSchema,
+  critical: levelThresholdSchema,
+})
+  .partial()
+  .strict()
+  .refine(overrides => {
+    const { medium, high, critical } = resolveLevelThresholds(overrides);
+    return medium.enter < high.enter && high.enter < critical.enter;
+  }, { message: 'Levels must be entered at rising scores' });
+
+export const childStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+export const policyUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  daily_limit_minutes: z.number().int().min(0).max(1440).nullable(),
+  session_limit_minutes: z.number().int().min(1).max(1440).nullable(),
+  bedtime_start: timeOfDay.nullable(),
+  bedtime_end: timeOfDay.nullable(),
+  weekend_bedtime_start: timeOfDay.nullable(),
+  weekend_bedtime_end: timeOfDay.nullable(),
+  parent_alert_threshold: z.enum(['low', 'medium', 'high', 'critical']),
+  escalation_enabled: z.boolean(),
+  escalation_delay_minutes: z.number().int().min(0).max(1440),
+  max_extension_requests_per_day: z.number().int().min(0).max(20),
+  max_extension_minutes: z.number().int().min(1).max(240),
+  max_snooze_count: z.number().int().min(0).max(10),
+  bedtime_ramp_minutes: z.number().int().min(0).max(240).nullable(),
+  /** 0 turns smoothing off */
+  risk_decay_half_life_minutes: z.number().int().min(0).max(1440).nullable(),
+  /** Replaces every factor's overrides */
+  factor_config: factorConfigSchema.nullable(),
+  risk_level_thresholds: riskLevelThresholdsSchema.nullable(),
+  /** Replaces every category's rules; omit a category to clear it */
+  category_rules: z.record(z.enum(APP_CATEGORIES), categoryRuleSchema),
+  /** Replaces every schedule */
+  schedules: z.array(policyScheduleSchema).max(50).refine(uniqueIds, { message: 'Schedule ids must be unique' }),
+  schedule_exceptions: z.array(scheduleExceptionSchema).max(100).refine(uniqueIds, {
+    message: 'Exception ids must be unique',
+  }),
+})
+  .partial()
+  .strict()
+  .refine(update => Object.keys(update).length > 0, { message: 'At least one policy field is required' });
+
+export const policyVersionParamsSchema = z.object({
+  childId: z.string().uuid(),
+  versionId: z.string().uuid(),
+});
+
+export const policyVersionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+});
+
+export const interventionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  child_id: z.string().uuid().optional(),
+});
+
+export const extensionRequestParamsSchema = z.object({
+  requestId: z.string().uuid(),
+});
+
+export const extensionDecisionSchema = z.object({
+  decision: z.enum(['approve', 'deny']),
+  /** Defaults to what was asked for; can't exceed it */
+  granted_minutes: z.number().int().min(1).optional(),
+}).strict();
+
+export const guardianRoleSchema = z.enum(['primary', 'secondary', 'view_only']);
+
+export const householdParamsSchema = z.object({
+  householdId: z.string().uuid(),
+});
+
+export const guardianParamsSchema = z.object({
+  householdId: z.string().uuid(),
+  guardianId: z.string().uuid(),
+});
+
+export const guardianInvitationSchema = z.object({
+  /** Invitees can't join as primary; promote them afterwards */
+  role: guardianRoleSchema.exclude(['primary']).default('secondary'),
+}).strict();
+
+export const acceptInvitationSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{8}$/, 'Expected an 8 character code'),
+}).strict();
+
+export const guardianRoleUpdateSchema = z.object({
+  role: guardianRoleSchema,
+}).strict();
+
+export type ChildStatsQuery = z.infer<typeof childStatsQuerySchema>;
+export type PolicyUpdate = z.infer<typeof policyUpdateSchema>;
+export type InterventionsQuery = z.input<typeof interventionsQuerySchema>;
+export type PolicyVersionsQuery = z.input<typeof policyVersionsQuerySchema>;
+export type ExtensionDecision = z.infer<typeof extensionDecisionSchema>;
+export type GuardianRole = z.infer<typeof guardianRoleSchema>;
+export type GuardianInvitationInput = z.input<typeof guardianInvitationSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type GuardianRoleUpdate = z.infer<typeof guardianRoleUpdateSchema>;
+
+// ========================================
+// RESPONSES
+// ========================================
+
+export interface ChildRiskState {
+  current_level: string;
+  score: number;
+  updated_at: string | null;
+  session_duration_factor: number;
+  reopen_frequency_factor: number;
+  late_night_factor: number;
+  scroll_velocity_factor: number;
+  /** Raw `risk_states.explanation`; parse with parseRiskExplanation */
+  explanation: unknown;
+}
+
+/** Set once a child has come of age; data outside `shared_scopes` is withheld */
+export interface ChildSharing {
+  adult_since: string;
+  shared_scopes: SharingScope[];
+}
+
+export interface ChildSummary {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  linked_at: string;
+  /** Linked with a code rather than through a household; only these can be unlinked */
+  direct_link: boolean;
+  /** The caller's role for this child; view-only can't edit policies */
+  role: GuardianRole;
+  /** Null when an adult child doesn't share their risk */
+  risk_state: ChildRiskState | null;
+  /** Since local midnight in the child's timezone; null when not shared */
+  today: {
+    session_count: number | null;
+    intervention_count: number | null;
+  };
+  sharing: ChildSharing | null;
+}
+
+/** Parts an adult child doesn't share come back empty */
+export interface ChildStats {
+  child_id: string;
+  sharing: ChildSharing | null;
+  risk_state: Record<string, unknown> | null;
+  stats: {
+    period_days: number;
+    total_screen_time_seconds: number;
+    total_screen_time_hours: number;
+    session_count: number;
+    avg_session_duration_seconds: number;
+    total_reopens: number;
+    interventions: {
+      total: number;
+      acknowledged: number;
+      dismissed: number;
+      by_type: Record<string, number>;
+    };
+    /** Screen time per app category, most used first */
+    category_breakdown: CategoryUsage[];
+  };
+  risk_history: { new_level: string; score: number; created_at: string }[];
+  recent_sessions: {
+    started_at: string;
+    ended_at: string | null;
+    duration_seconds: number | null;
+    reopen_count: number | null;
+    category: string | null;
+  }[];
+}
+
+export interface InterventionItem {
+  id: string;
+  child_id: string;
+  child_name: string | null;
+  type: string;
+  status: string;
+  title: string;
+  risk_level: string;
+  created_at: string;
+  escalated_at: string | null;
+  /** Set when this intervention replaced an ignored one */
+  escalated_from: string | null;
+}
+
+export interface InterventionPage {
+  interventions: InterventionItem[];
+  /** Pass back as `cursor` for the next page; null on the last one */
+  next_cursor: string | null;
+}
+
+export interface PolicyVersionItem {
+  id: string;
+  policy_id: string;
+  /** Guardian whose policy this is; guardians only roll back their own */
+  owner_id: string;
+  owner_name: string | null;
+  version: number;
+  /** Null for history from before versions were kept */
+  author_id: string | null;
+  author_name: string | null;
+  change_type: PolicyChangeType;
+  /** For rollbacks, the version that was restored */
+  restored_version_id: string | null;
+  diff: PolicyDiff;
+  created_at: string;
+  /** The version the policy is on now */
+  is_current: boolean;
+}
+
+export interface PolicyVersionPage {
+  versions: PolicyVersionItem[];
+  /** Pass back as `cursor` for the next page; null on the last one */
+  next_cursor: string | null;
+}
+
+export interface HouseholdGuardian {
+  id: string;
+  display_name: string | null;
+  role: GuardianRole;
+}
+
+export interface GuardianInvitation {
+  id: string;
+  household_id: string;
+  /** Single use; the invitee enters it under Settings */
+  code: string;
+  role: GuardianRole;
+  expires_at: string;
+}
+
+export interface HouseholdSummary {
+  id: string;
+  name: string;
+  my_role: GuardianRole;
+  guardians: HouseholdGuardian[];
+  children: { id: string; display_name: string | null }[];
+  /** Only filled in for primary guardians */
+  pending_invitations: GuardianInvitation[];
+}
+
+export interface ParentApiResponses {
+  listChildren: { children: ChildSummary[] };
+  getChildStats: ChildStats;
+  updateChildPolicy: { policy: Record<string, unknown> };
+  listPolicyVersions: PolicyVersionPage;
+  rollbackPolicy: { policy: Record<string, unknown> };
+  listInterventions: InterventionPage;
+  decideExtensionRequest: { request: Record<string, unknown> };
+  listHouseholds: { households: HouseholdSummary[] };
+  createGuardianInvitation: { invitation: GuardianInvitation };
+  acceptGuardianInvitation: { household_id: string; role: GuardianRole };
+  updateGuardianRole: { guardian: HouseholdGuardian };
+}
+
+/** Body of every non-2xx response */
+export interface ParentApiErrorBody {
+  success: false;
+  error: string;
+  /** Field errors for a 422 */
+  issues?: { path: string; message: string }[];
+}
+
+// ========================================
+// CURSORS
+// ========================================
+
+export interface InterventionCursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * Opaque cursor for the row a page ended on
+ */
+export function encodeCursor(cursor: InterventionCursor): string {
+  return btoa(`${cursor.created_at}|${cursor.id}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// Postgres timestamptz as PostgREST returns it (microseconds, offset).
+// Anything looser could carry PostgREST syntax into the `.or()` filter.
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Decode a cursor from `encodeCursor`, or null if it's malformed
+ */
+export function decodeCursor(value: string): InterventionCursor | null {
+  try {
+    const decoded = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const [createdAt, id, ...rest] = decoded.split('|');
+    if (!createdAt || !id || rest.length > 0) return null;
+    if (!CURSOR_TIMESTAMP.test(createdAt) || Number.isNaN(Date.parse(createdAt))) return null;
+    if (!z.string().uuid().safeParse(id).success) return null;
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
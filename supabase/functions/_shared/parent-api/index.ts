@@ -0,0 +1,51 @@
+/**
+ * parent-api v2 - shared module
+ */
+
+export {
+  PARENT_API_ROUTES,
+  childParamsSchema,
+  childStatsQuerySchema,
+  policyUpdateSchema,
+  interventionsQuerySchema,
+  policyVersionParamsSchema,
+  policyVersionsQuerySchema,
+  extensionRequestParamsSchema,
+  extensionDecisionSchema,
+  guardianRoleSchema,
+  householdParamsSchema,
+  guardianParamsSchema,
+  guardianInvitationSchema,
+  acceptInvitationSchema,
+  guardianRoleUpdateSchema,
+  encodeCursor,
+  decodeCursor,
+} from './contracts.ts';
+export { getRoutePath, isV2Path, matchRoute, toValidationError } from './router.ts';
+export type {
+  AcceptInvitationInput,
+  ChildRiskState,
+  ChildSharing,
+  ChildStats,
+  ChildStatsQuery,
+  ChildSummary,
+  ExtensionDecision,
+  GuardianInvitation,
+  GuardianInvitationInput,
+  GuardianRole,
+  GuardianRoleUpdate,
+  HouseholdGuardian,
+  HouseholdSummary,
+  InterventionCursor,
+  InterventionItem,
+  InterventionPage,
+  InterventionsQuery,
+  ParentApiErrorBody,
+  ParentApiResponses,
+  ParentApiRouteName,
+  PolicyUpdate,
+  PolicyVersionItem,
+  PolicyVersionPage,
+  PolicyVersionsQuery,
+} from './contracts.ts';
+export type { RouteMatch } from './router.ts';
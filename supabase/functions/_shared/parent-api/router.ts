@@ -0,0 +1,82 @@
+/**
+ * parent-api v2 routing
+ *
+ * Matches a request path against PARENT_API_ROUTES. Paths arrive with
+ * the function prefix (`/parent-api/v2/children`, or
+ * `/functions/v1/parent-api/...` when served locally).
+ */
+
+import type { ZodError } from "zod";
+import { PARENT_API_ROUTES } from './contracts.ts';
+import type { ParentApiErrorBody, ParentApiRouteName } from './contracts.ts';
+
+export type RouteMatch =
+  | { status: 'matched'; name: ParentApiRouteName; params: Record<string, string> }
+  | { status: 'not_found' }
+  | { status: 'method_not_allowed'; allowed: string[] };
+
+const FUNCTION_PREFIX = /^.*?\/parent-api(?=\/|$)/;
+
+/**
+ * Path below the function name, e.g. `/v2/children`
+ */
+export function getRoutePath(pathname: string): string {
+  return pathname.replace(FUNCTION_PREFIX, '').replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Whether a request targets the v2 routes rather than the v1 action body
+ */
+export function isV2Path(pathname: string): boolean {
+  return getRoutePath(pathname).startsWith('/v2');
+}
+
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/**
+ * Find the route for a method and path
+ */
+export function matchRoute(method: string, pathname: string): RouteMatch {
+  const path = getRoutePath(pathname);
+  const allowed: string[] = [];
+
+  for (const [name, route] of Object.entries(PARENT_API_ROUTES)) {
+    const params = matchPath(route.path, path);
+    if (!params) continue;
+
+    if (route.method === method.toUpperCase()) {
+      return { status: 'matched', name: name as ParentApiRouteName, params };
+    }
+    allowed.push(route.method);
+  }
+
+  return allowed.length > 0 ? { status: 'method_not_allowed', allowed } : { status: 'not_found' };
+}
+
+/**
+ * 422 body for a failed schema parse
+ */
+export function toValidationError(error: ZodError): ParentApiErrorBody {
+  return {
+    success: false,
+    error: 'Validation failed',
+    issues: error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Policy history
+ *
+ * Records versions as parent-api writes policies. Version numbers count
+ * up per policy; the unique (policy_id, version) index turns a race
+ * between two writers into an error rather than a gap.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { diffPolicySnapshots, snapshotPolicy } from './versions.ts';
+import type { PolicyChangeType } from './versions.ts';
+
+export interface RecordPolicyVersionInput {
+  /** The row as written */
+  policy: Record<string, unknown> & { id: string };
+  /** The row before the write; null for a new policy */
+  previous: Record<string, unknown> | null;
+  authorId: string;
+  changeType: PolicyChangeType;
+  /** For rollbacks, the version that was restored */
+  restoredVersionId?: string | null;
+}
+
+/**
+ * Store a new version and point the policy at it. Returns null when the
+ * write changed nothing.
+ */
+export async function recordPolicyVersion(
+  supabase: SupabaseClient,
+  input: RecordPolicyVersionInput
+): Promise<Record<string, unknown> | null> {
+  const snapshot = snapshotPolicy(input.policy);
+  const diff = diffPolicySnapshots(input.previous ? snapshotPolicy(input.previous) : null, snapshot);
+
+  if (input.previous && Object.keys(diff).length === 0) {
+    return null;
+  }
+
+  const { data: latest } = await supabase
+    .from('policy_versions')
+    .select('version')
+    .eq('policy_id', input.policy.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: version, error } = await supabase
+    .from('policy_versions')
+    .insert({
+      policy_id: input.policy.id,
+      version: (latest?.version ?? 0) + 1,
+      author_id: input.authorId,
+      change_type: input.changeType,
+      restored_version_id: input.restoredVersionId ?? null,
+      snapshot,
+      diff,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record policy version: ${error.message}`);
+  }
+
+  await supabase
+    .from('policies')
+    .update({ current_version_id: version.id })
+    .eq('id', input.policy.id);
+
+  return version;
+}
@@ -0,0 +1,14 @@
+/**
+ * Policy versions - shared module
+ */
+
+export {
+  snapshotPolicy,
+  diffPolicySnapshots,
+  getRollbackUpdate,
+  describePolicyChange,
+  getPolicyVersionIds,
+} from './versions.ts';
+export { recordPolicyVersion } from './history.ts';
+export type { FieldChange, PolicyChangeType, PolicyDiff, PolicySnapshot } from './versions.ts';
+export type { RecordPolicyVersionInput } from './history.ts';
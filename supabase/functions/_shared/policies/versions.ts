@@ -0,0 +1,142 @@
+/**
+ * Policy versions
+ *
+ * Every change a guardian makes to their policy through parent-api is
+ * kept in `policy_versions`: a snapshot of the policy after the change,
+ * the diff from the one before, who made it and when. Versions are never
+ * edited; rolling back writes the old snapshot as a new version.
+ */
+
+/** Bookkeeping columns, not part of what the policy says */
+const UNVERSIONED_FIELDS = [
+  'id',
+  'owner_id',
+  'target_user_id',
+  'is_system_default',
+  'current_version_id',
+  'created_at',
+  'updated_at',
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  is_active: 'Active',
+  daily_limit_minutes: 'Daily limit',
+  session_limit_minutes: 'Session limit',
+  bedtime_start: 'Bedtime',
+  bedtime_end: 'Wake-up time',
+  weekend_bedtime_start: 'Weekend bedtime',
+  weekend_bedtime_end: 'Weekend wake-up time',
+  parent_alert_threshold: 'Alert threshold',
+  escalation_enabled: 'Escalation',
+  escalation_delay_minutes: 'Escalation delay',
+  max_extension_requests_per_day: 'Extension requests per day',
+  max_extension_minutes: 'Longest extension',
+  max_snooze_count: 'Snoozes',
+  category_rules: 'App category rules',
+  schedules: 'Schedules',
+  schedule_exceptions: 'Days off',
+};
+
+export type PolicyChangeType = 'create' | 'update' | 'rollback';
+
+/** The versioned fields of a policy row */
+export type PolicySnapshot = Record<string, unknown>;
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** Changed fields only, keyed by column */
+export type PolicyDiff = Record<string, FieldChange>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStructured = (value: unknown) => typeof value === 'object' && value !== null;
+
+// Key order doesn't make two JSONB values different
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, inner) =>
+    isObject(inner) ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b))) : inner
+  );
+
+/**
+ * The versioned fields of a policy row
+ */
+export function snapshotPolicy(row: Record<string, unknown>): PolicySnapshot {
+  return Object.fromEntries(
+    Object.entries(row)
+      .filter(([field]) => !UNVERSIONED_FIELDS.includes(field))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Fields that differ between two snapshots. With no `before` (a new
+ * policy) every set field counts as changed.
+ */
+export function diffPolicySnapshots(before: PolicySnapshot | null, after: PolicySnapshot): PolicyDiff {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  const diff: PolicyDiff = {};
+
+  for (const field of [...fields].sort()) {
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (stableStringify(from) !== stableStringify(to)) {
+      diff[field] = { from, to };
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * The update that puts a policy back the way a snapshot has it. Fields
+ * added since the snapshot was taken keep their current value.
+ */
+export function getRollbackUpdate(current: PolicySnapshot, target: PolicySnapshot): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+
+  for (const [field, change] of Object.entries(diffPolicySnapshots(current, target))) {
+    if (field in target) update[field] = change.to;
+  }
+
+  return update;
+}
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined) return 'none';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (typeof value === 'number' && field.endsWith('_minutes')) return `${value} min`;
+  if (typeof value === 'string' && /^\d{2}:\d{2}:\d{2}$/.test(value)) return value.slice(0, 5);
+  return String(value);
+};
+
+/**
+ * One line for a changed field, e.g. "Bedtime: 21:00 → 21:30"
+ */
+export function describePolicyChange(field: string, change: FieldChange): string {
+  const label = FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+
+  // Rules and schedules are too big for one line
+  if (isStructured(change.from) || isStructured(change.to)) {
+    return `${label} changed`;
+  }
+
+  return `${label}: ${formatValue(field, change.from)} → ${formatValue(field, change.to)}`;
+}
+
+/**
+ * Versions a policy was evaluated under: one per guardian policy in a
+ * merge, or the single policy's own
+ */
+export function getPolicyVersionIds(policy: object | null): string[] {
+  const refs = policy as { current_version_id?: unknown; merged_version_ids?: unknown } | null;
+
+  if (Array.isArray(refs?.merged_version_ids)) {
+    return refs.merged_version_ids.filter((id): id is string => typeof id === 'string');
+  }
+  return typeof refs?.current_version_id === 'string' ? [refs.current_version_id] : [];
+}
@@ -0,0 +1,125 @@
+/**
+ * Bedtime Window Evaluation
+ *
+ * Bedtimes are evaluated to the minute. A window belongs to the night it
+ * starts on, so 22:30 → 06:45 on a Friday is judged against the weekend
+ * schedule even after midnight has rolled over into Saturday.
+ */
+
+import type { LocalTime } from './time.ts';
+import type { RiskPolicy } from './types.ts';
+
+export const DEFAULT_BEDTIME_START = '22:00';
+export const DEFAULT_BEDTIME_END = '07:00';
+export const DEFAULT_BEDTIME_RAMP_MINUTES = 30;
+
+/** Nights (by start weekday, 0 = Sunday) that use the weekend schedule */
+export const WEEKEND_NIGHTS = [5, 6];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface BedtimeWindow {
+  /** Minutes after local midnight */
+  start: number;
+  end: number;
+  /** Which schedule the window came from */
+  schedule: 'weekday' | 'weekend';
+}
+
+export interface BedtimeStatus {
+  window: BedtimeWindow;
+  /** Minutes elapsed since this window started */
+  minutesIn: number;
+  isWeekend: boolean;
+}
+
+/**
+ * Parse `HH:mm` or `HH:mm:ss` (Postgres `time`) into minutes after midnight.
+ * Returns null for anything that isn't a valid time of day.
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes after midnight as `HH:mm`
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Resolve the bedtime window for the night starting on `weekday`.
+ * Weekend nights fall back to the weekday schedule when no weekend
+ * times are configured.
+ */
+export function getBedtimeWindow(policy: RiskPolicy | null, weekday: number): BedtimeWindow {
+  const weekdayStart = parseTimeOfDay(policy?.bedtime_start) ?? parseTimeOfDay(DEFAULT_BEDTIME_START)!;
+  const weekdayEnd = parseTimeOfDay(policy?.bedtime_end) ?? parseTimeOfDay(DEFAULT_BEDTIME_END)!;
+
+  if (WEEKEND_NIGHTS.includes(weekday)) {
+    const weekendStart = parseTimeOfDay(policy?.weekend_bedtime_start);
+    const weekendEnd = parseTimeOfDay(policy?.weekend_bedtime_end);
+    if (weekendStart !== null && weekendEnd !== null) {
+      return { start: weekendStart, end: weekendEnd, schedule: 'weekend' };
+    }
+  }
+
+  return { start: weekdayStart, end: weekdayEnd, schedule: 'weekday' };
+}
+
+/**
+ * Work out whether a local time falls inside a bedtime window.
+ *
+ * Checks the window that started the previous evening (if it wraps past
+ * midnight) before today's window. Returns null outside bedtime.
+ */
+export function getBedtimeStatus(policy: RiskPolicy | null, local: LocalTime): BedtimeStatus | null {
+  const nowMinutes = local.hour * 60 + local.minute;
+  const yesterday = (local.weekday + 6) % 7;
+
+  const previous = getBedtimeWindow(policy, yesterday);
+  if (previous.start > previous.end && nowMinutes < previous.end) {
+    return {
+      window: previous,
+      minutesIn: MINUTES_PER_DAY - previous.start + nowMinutes,
+      isWeekend: WEEKEND_NIGHTS.includes(yesterday),
+    };
+  }
+
+  const current = getBedtimeWindow(policy, local.weekday);
+  const inCurrent = current.start < current.end
+    ? nowMinutes >= current.start && nowMinutes < current.end
+    : current.start > current.end && nowMinutes >= current.start;
+
+  if (!inCurrent) return null;
+
+  return {
+    window: current,
+    minutesIn: nowMinutes - current.start,
+    isWeekend: WEEKEND_NIGHTS.includes(local.weekday),
+  };
+}
+
+/**
+ * Scale bedtime risk from `floor` at bedtime up to `max` once
+ * `rampMinutes` have passed. A ramp of 0 jumps straight to `max`.
+ */
+export function rampBedtimePoints(
+  minutesIn: number,
+  rampMinutes: number,
+  floor: number,
+  max: number
+): number {
+  if (rampMinutes <= 0 || minutesIn >= rampMinutes) return max;
+  return floor + (max - floor) * (minutesIn / rampMinutes);
+}
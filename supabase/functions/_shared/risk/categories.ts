@@ -0,0 +1,118 @@
+/**
+ * App categories
+ *
+ * Apps report a category with their events and each session belongs to
+ * one app. Policies can set a daily limit and bedtime per category in
+ * `category_rules`, e.g.
+ *
+ * ```json
+ * { "games": { "daily_limit_minutes": 60, "bedtime_start": "20:00", "bedtime_end": "07:00" } }
+ * ```
+ */
+
+import { getDailyUsageMinutes } from './dailyUsage.ts';
+import { parseTimeOfDay } from './bedtime.ts';
+import type { DailyBudget } from './dailyUsage.ts';
+import type { CategoryRule, RiskPolicy, RiskProfile, RiskSession } from './types.ts';
+
+export const APP_CATEGORIES = ['social', 'games', 'video', 'education', 'other'] as const;
+
+export type AppCategory = typeof APP_CATEGORIES[number];
+
+export const APP_CATEGORY_LABELS: Record<AppCategory, string> = {
+  social: 'Social',
+  games: 'Games',
+  video: 'Video',
+  education: 'Education',
+  other: 'Other',
+};
+
+export interface CategoryUsage {
+  category: AppCategory;
+  seconds: number;
+  session_count: number;
+}
+
+/**
+ * A known category from client input. Unknown names count as `other`;
+ * missing ones stay null.
+ */
+export function parseAppCategory(raw: unknown): AppCategory | null {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const name = raw.trim().toLowerCase();
+  return (APP_CATEGORIES as readonly string[]).includes(name) ? name as AppCategory : 'other';
+}
+
+/**
+ * The policy's rule for a category, if it has one
+ */
+export function getCategoryRule(policy: RiskPolicy | null, category: string | null | undefined): CategoryRule | null {
+  if (!category) return null;
+  return policy?.category_rules?.[category] ?? null;
+}
+
+/**
+ * The policy with the category's bedtime in place of its own, or null
+ * if the category has no bedtime. A category bedtime covers every night.
+ */
+export function getCategoryBedtimePolicy(
+  policy: RiskPolicy | null,
+  category: string | null | undefined
+): RiskPolicy | null {
+  const rule = getCategoryRule(policy, category);
+  if (parseTimeOfDay(rule?.bedtime_start) === null || parseTimeOfDay(rule?.bedtime_end) === null) return null;
+
+  return {
+    ...policy,
+    bedtime_start: rule!.bedtime_start,
+    bedtime_end: rule!.bedtime_end,
+    weekend_bedtime_start: null,
+    weekend_bedtime_end: null,
+  };
+}
+
+/**
+ * Today's budget for one category, or null when the policy sets no
+ * limit for it. Time extensions raise category limits too.
+ */
+export function getCategoryBudget(
+  sessions: RiskSession[],
+  category: string | null | undefined,
+  profile: RiskProfile | null,
+  policy: RiskPolicy | null,
+  now: Date,
+  extensionMinutes = 0
+): DailyBudget | null {
+  const rule = getCategoryRule(policy, category);
+  if (!rule?.daily_limit_minutes) return null;
+
+  const limitMinutes = rule.daily_limit_minutes + extensionMinutes;
+  const usedMinutes = getDailyUsageMinutes(sessions.filter(s => s.category === category), profile, now);
+
+  return {
+    limitMinutes,
+    usedMinutes,
+    remainingMinutes: Math.max(0, limitMinutes - usedMinutes),
+    extensionMinutes,
+  };
+}
+
+/**
+ * Screen time per category, most used first. Sessions without a
+ * category count as `other`.
+ */
+export function summarizeCategoryUsage(
+  sessions: { category?: string | null; duration_seconds?: number | null }[]
+): CategoryUsage[] {
+  const totals = new Map<AppCategory, CategoryUsage>();
+
+  for (const session of sessions) {
+    const category = parseAppCategory(session.category) ?? 'other';
+    const usage = totals.get(category) ?? { category, seconds: 0, session_count: 0 };
+    usage.seconds += session.duration_seconds || 0;
+    usage.session_count++;
+    totals.set(category, usage);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => b.seconds - a.seconds);
+}
@@ -0,0 +1,88 @@
+/**
+ * Pure risk computation
+ *
+ * No I/O: the caller fetches the session, events, profile and policy and
+ * passes them in. Runs unchanged under Deno (risk-agent) and Vitest.
+ */
+
+import './factors.ts';
+import { evaluateRiskFactors } from './registry.ts';
+import { resolveLevelThresholds, resolveRiskLevel } from './levels.ts';
+import { decayScore, DEFAULT_DECAY_HALF_LIFE_MINUTES } from './decay.ts';
+import type { PreviousRiskScore } from './decay.ts';
+import { getDailyBudget } from './dailyUsage.ts';
+import type { DailyBudget } from './dailyUsage.ts';
+import type {
+  RiskEvent,
+  RiskExplanation,
+  RiskFactorMap,
+  RiskLevel,
+  RiskPolicy,
+  RiskProfile,
+  RiskSession,
+} from './types.ts';
+
+export interface ComputeRiskOptions {
+  /** Payload of the event that triggered the evaluation */
+  eventData?: Record<string, unknown>;
+  /** Sessions overlapping the current local day */
+  dailySessions?: RiskSession[];
+  /** Last persisted state, used for decay and hysteresis */
+  previous?: (PreviousRiskScore & { level: RiskLevel }) | null;
+  /** Minutes of active time extensions, added to the daily limit */
+  extensionMinutes?: number;
+}
+
+export interface RiskResult {
+  /** Smoothed score (decayed previous score or raw, whichever is higher) */
+  score: number;
+  /** This evaluation's factor total, before smoothing */
+  rawScore: number;
+  level: RiskLevel;
+  factors: RiskFactorMap;
+  /** Why the score is what it is, factor by factor */
+  explanation: RiskExplanation;
+  dailyBudget: DailyBudget | null;
+}
+
+export function computeRisk(
+  session: RiskSession | null,
+  events: RiskEvent[],
+  profile: RiskProfile | null,
+  policy: RiskPolicy | null,
+  now: Date,
+  options: ComputeRiskOptions = {}
+): RiskResult {
+  const dailySessions = options.dailySessions || [];
+
+  const { factors, details, total } = evaluateRiskFactors({
+    session,
+    events,
+    dailySessions,
+    profile,
+    policy,
+    eventData: options.eventData,
+    extensionMinutes: options.extensionMinutes,
+    now,
+  });
+
+  const previous = options.previous || null;
+  const halfLife = policy?.risk_decay_half_life_minutes ?? DEFAULT_DECAY_HALF_LIFE_MINUTES;
+  const score = decayScore(total, previous, now, halfLife);
+  const thresholds = resolveLevelThresholds(policy?.risk_level_thresholds);
+  const level = resolveRiskLevel(score, previous?.level ?? null, thresholds);
+
+  return {
+    score,
+    rawScore: total,
+    level,
+    factors,
+    explanation: {
+      score,
+      raw_score: total,
+      level,
+      factors: [...details].sort((a, b) => b.points - a.points),
+    },
+    dailyBudget: getDailyBudget(dailySessions, profile, policy, now, options.extensionMinutes),
+  };
+}
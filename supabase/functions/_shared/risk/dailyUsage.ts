@@ -0,0 +1,94 @@
+/**
+ * Daily usage accounting
+ *
+ * "Today" is the calendar day in the profile's timezone, so a user in
+ * Los Angeles gets a fresh budget at local midnight, not at 00:00 UTC.
+ */
+
+import { getLocalTime } from './time.ts';
+import { getScheduleState } from './schedules.ts';
+import type { RiskPolicy, RiskProfile, RiskSession } from './types.ts';
+
+export interface DailyBudget {
+  /** Policy limit plus today's scheduled extra minutes and any active extension */
+  limitMinutes: number;
+  usedMinutes: number;
+  remainingMinutes: number;
+  /** Minutes added by parent-approved time extensions */
+  extensionMinutes: number;
+}
+
+/**
+ * The UTC instant of the most recent local midnight
+ */
+export function startOfLocalDay(now: Date, timeZone: string = 'UTC'): Date {
+  const local = getLocalTime(now, timeZone);
+  const elapsedMs = ((local.hour * 60 + local.minute) * 60 + now.getUTCSeconds()) * 1000 + now.getUTCMilliseconds();
+  let midnight = new Date(now.getTime() - elapsedMs);
+
+  // A DST change since midnight shifts the wall clock by the offset delta
+  const check = getLocalTime(midnight, timeZone);
+  if (check.date !== local.date) {
+    midnight = new Date(midnight.getTime() + (24 - check.hour) * 3600000 - check.minute * 60000);
+  } else if (check.hour !== 0 || check.minute !== 0) {
+    midnight = new Date(midnight.getTime() - (check.hour * 60 + check.minute) * 60000);
+  }
+
+  return midnight;
+}
+
+/**
+ * Minutes of session time that fall inside the local day. Sessions are
+ * per app, so overlapping ones (two apps open at once) count once.
+ */
+export function getDailyUsageMinutes(sessions: RiskSession[], profile: RiskProfile | null, now: Date): number {
+  const dayStart = startOfLocalDay(now, profile?.timezone || 'UTC').getTime();
+  const intervals: [number, number][] = [];
+
+  for (const session of sessions) {
+    const start = Math.max(new Date(session.started_at).getTime(), dayStart);
+    const end = Math.min(session.ended_at ? new Date(session.ended_at).getTime() : now.getTime(), now.getTime());
+    if (end > start) {
+      intervals.push([start, end]);
+    }
+  }
+
+  intervals.sort((a, b) => a[0] - b[0]);
+
+  let totalMs = 0;
+  let coveredUntil = -Infinity;
+
+  for (const [start, end] of intervals) {
+    if (end <= coveredUntil) continue;
+    totalMs += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  }
+
+  return Math.floor(totalMs / 60000);
+}
+
+/**
+ * Today's budget against `policies.daily_limit_minutes` plus scheduled
+ * extra minutes and any granted extension, or null when the policy sets
+ * no daily limit
+ */
+export function getDailyBudget(
+  sessions: RiskSession[],
+  profile: RiskProfile | null,
+  policy: RiskPolicy | null,
+  now: Date,
+  extensionMinutes = 0
+): DailyBudget | null {
+  if (!policy?.daily_limit_minutes) return null;
+
+  const { extraMinutes } = getScheduleState(policy, getLocalTime(now, profile?.timezone || 'UTC'));
+  const limitMinutes = policy.daily_limit_minutes + extraMinutes + extensionMinutes;
+  const usedMinutes = getDailyUsageMinutes(sessions, profile, now);
+
+  return {
+    limitMinutes,
+    usedMinutes,
+    remainingMinutes: Math.max(0, limitMinutes - usedMinutes),
+    extensionMinutes,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Score decay between evaluations
+ *
+ * The smoothed score rises immediately with the raw score but falls
+ * back exponentially, halving every `halfLifeMinutes`. One quiet event
+ * after a burst of risky activity no longer resets the score to zero.
+ */
+
+export const DEFAULT_DECAY_HALF_LIFE_MINUTES = 15;
+
+export interface PreviousRiskScore {
+  score: number;
+  evaluatedAt: string | Date;
+}
+
+/**
+ * Combine the fresh raw score with the decayed previous score.
+ * A half-life of 0 (or no previous score) disables smoothing.
+ */
+export function decayScore(
+  rawScore: number,
+  previous: PreviousRiskScore | null | undefined,
+  now: Date,
+  halfLifeMinutes: number = DEFAULT_DECAY_HALF_LIFE_MINUTES
+): number {
+  if (!previous || halfLifeMinutes <= 0) return rawScore;
+
+  const elapsedMinutes = Math.max(
+    0,
+    (now.getTime() - new Date(previous.evaluatedAt).getTime()) / 60000
+  );
+  const decayed = previous.score * Math.pow(0.5, elapsedMinutes / halfLifeMinutes);
+
+  return Math.max(rawScore, Math.round(decayed * 100) / 100);
+}
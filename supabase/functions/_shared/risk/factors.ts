@@ -0,0 +1,217 @@
+/**
+ * Built-in Risk Factors
+ *
+ * Each factor scores 0-25 points by default. The first four always
+ * apply; the rest only once the policy sets up what they check, so a
+ * policy's factors can add up past 100 (see the registry's scaling).
+ * Importing this module registers them with the factor registry.
+ */
+
+import { registerRiskFactor } from './registry.ts';
+import { getLocalTime } from './time.ts';
+import {
+  formatTimeOfDay,
+  getBedtimeStatus,
+  rampBedtimePoints,
+  DEFAULT_BEDTIME_RAMP_MINUTES,
+} from './bedtime.ts';
+import { getDailyBudget } from './dailyUsage.ts';
+import { getCategoryBedtimePolicy, getCategoryBudget, getCategoryRule } from './categories.ts';
+import { getScrollVelocity } from './scroll.ts';
+import { findScheduleBlock, getScheduleState, resolveSchedules } from './schedules.ts';
+import type { RiskFactorPlugin } from './types.ts';
+
+/**
+ * Score `observed` against bands expressed as multiples of a policy limit.
+ * Bands are checked highest first; returns the first one crossed.
+ */
+function scoreBands(
+  observed: number,
+  limit: number,
+  bands: [multiplier: number, points: number][]
+): { points: number; threshold: number | null } {
+  for (const [multiplier, points] of bands) {
+    const threshold = limit * multiplier;
+    if (observed >= threshold) return { points, threshold };
+  }
+  return { points: 0, threshold: null };
+}
+
+// 1. SESSION DURATION FACTOR (0-25 points)
+export const sessionDurationFactor: RiskFactorPlugin = {
+  key: 'session_duration',
+  label: 'Session duration',
+  defaultCap: 25,
+  evaluate: ({ session, policy, now }) => {
+    if (!session) return 0;
+
+    const sessionDurationMinutes = Math.floor(
+      (now.getTime() - new Date(session.started_at).getTime()) / 60000
+    );
+    const sessionLimit = policy?.session_limit_minutes || 60;
+
+    return {
+      ...scoreBands(sessionDurationMinutes, sessionLimit, [[2, 25], [1.5, 20], [1, 15], [0.75, 10], [0.5, 5]]),
+      observed: sessionDurationMinutes,
+      unit: 'min',
+      policyField: 'session_limit_minutes',
+      policyValue: sessionLimit,
+    };
+  },
+};
+
+// 2. REOPEN FREQUENCY FACTOR (0-25 points)
+export const reopenFrequencyFactor: RiskFactorPlugin = {
+  key: 'reopen_frequency',
+  label: 'Reopen frequency',
+  defaultCap: 25,
+  evaluate: ({ events, policy }) => {
+    const reopenCount = events.filter(e => e.event_type === 'reopen' || e.event_type === 'app_open').length;
+    const reopenThreshold = policy?.reopen_threshold || 5;
+
+    return {
+      ...scoreBands(reopenCount, reopenThreshold, [[3, 25], [2, 20], [1, 15], [0.6, 8]]),
+      observed: reopenCount,
+      unit: 'opens/hr',
+      policyField: 'reopen_threshold',
+      policyValue: reopenThreshold,
+    };
+  },
+};
+
+// 3. LATE NIGHT FACTOR (0-25 points)
+export const lateNightFactor: RiskFactorPlugin = {
+  key: 'late_night',
+  label: 'Late night usage',
+  defaultCap: 25,
+  evaluate: ({ session, profile, policy, now }) => {
+    // Convert to user's local time
+    const local = getLocalTime(now, profile?.timezone || 'UTC');
+
+    // The current app's category may have its own bedtime
+    const categoryPolicy = getCategoryBedtimePolicy(policy, session?.category);
+    const bedtime = getBedtimeStatus(categoryPolicy ?? policy, local);
+    if (!bedtime) return 0;
+
+    // Climb from 10 at bedtime to 25 once the ramp has passed
+    const rampMinutes = policy?.bedtime_ramp_minutes ?? DEFAULT_BEDTIME_RAMP_MINUTES;
+    const bedtimeStart = formatTimeOfDay(bedtime.window.start);
+
+    return {
+      points: Math.round(rampBedtimePoints(bedtime.minutesIn, rampMinutes, 10, 25)),
+      observed: bedtime.minutesIn,
+      unit: 'min past bedtime',
+      threshold: bedtimeStart,
+      policyField: categoryPolicy
+        ? `category_rules.${session!.category}.bedtime_start`
+        : bedtime.window.schedule === 'weekend' ? 'weekend_bedtime_start' : 'bedtime_start',
+      policyValue: bedtimeStart,
+    };
+  },
+};
+
+// 4. SCROLL VELOCITY FACTOR (0-25 points)
+export const scrollVelocityFactor: RiskFactorPlugin = {
+  key: 'scroll_velocity',
+  label: 'Scroll velocity',
+  defaultCap: 25,
+  evaluate: ({ events, policy, eventData }) => {
+    // Fastest of the triggering event and recent scroll events/summaries
+    let maxVelocity = getScrollVelocity(eventData);
+    for (const scrollEvent of events.filter(e => e.event_type === 'scroll')) {
+      maxVelocity = Math.max(maxVelocity, getScrollVelocity(scrollEvent.event_data));
+    }
+
+    if (maxVelocity <= 0) return 0;
+
+    const threshold = policy?.scroll_velocity_threshold || 1000;
+
+    return {
+      ...scoreBands(maxVelocity, threshold, [[2, 25], [1.5, 15], [1, 10]]),
+      observed: maxVelocity,
+      unit: 'px/s',
+      policyField: 'scroll_velocity_threshold',
+      policyValue: threshold,
+    };
+  },
+};
+
+// 5. DAILY USAGE FACTOR (0-25 points)
+export const dailyUsageFactor: RiskFactorPlugin = {
+  key: 'daily_usage',
+  label: 'Daily usage',
+  defaultCap: 25,
+  appliesTo: ({ policy }) => !!policy?.daily_limit_minutes,
+  evaluate: ({ dailySessions, profile, policy, now, extensionMinutes }) => {
+    const budget = getDailyBudget(dailySessions, profile, policy, now, extensionMinutes);
+    if (!budget) return 0;
+
+    const { usedMinutes, limitMinutes } = budget;
+
+    return {
+      ...scoreBands(usedMinutes, limitMinutes, [[1, 25], [0.9, 20], [0.75, 10], [0.5, 5]]),
+      observed: usedMinutes,
+      unit: 'min today',
+      policyField: 'daily_limit_minutes',
+      policyValue: limitMinutes,
+    };
+  },
+};
+
+// 6. CATEGORY USAGE FACTOR (0-25 points)
+export const categoryUsageFactor: RiskFactorPlugin = {
+  key: 'category_usage',
+  label: 'App category usage',
+  defaultCap: 25,
+  appliesTo: ({ session, policy }) => !!getCategoryRule(policy, session?.category)?.daily_limit_minutes,
+  evaluate: ({ session, dailySessions, profile, policy, now, extensionMinutes }) => {
+    const category = session?.category;
+    const budget = getCategoryBudget(dailySessions, category, profile, policy, now, extensionMinutes);
+    if (!budget) return 0;
+
+    const { usedMinutes, limitMinutes } = budget;
+
+    return {
+      ...scoreBands(usedMinutes, limitMinutes, [[1, 25], [0.9, 20], [0.75, 10], [0.5, 5]]),
+      observed: usedMinutes,
+      unit: `min of ${category} today`,
+      policyField: `category_rules.${category}.daily_limit_minutes`,
+      policyValue: limitMinutes,
+    };
+  },
+};
+
+// 7. SCHEDULE BLOCK FACTOR (0-25 points)
+export const scheduleBlockFactor: RiskFactorPlugin = {
+  key: 'schedule_block',
+  label: 'Blocked by schedule',
+  defaultCap: 25,
+  appliesTo: ({ policy }) => resolveSchedules(policy?.schedules).some(schedule => schedule.action === 'block'),
+  evaluate: ({ session, profile, policy, now }) => {
+    if (!session) return 0;
+
+    const state = getScheduleState(policy, getLocalTime(now, profile?.timezone || 'UTC'));
+    const block = findScheduleBlock(state, session.category);
+    if (!block) return 0;
+
+    return {
+      points: 25,
+      observed: null,
+      threshold: `until ${block.until}`,
+      policyField: `schedules.${block.schedule_id}`,
+      policyValue: block.label,
+    };
+  },
+};
+
+export const builtinRiskFactors: RiskFactorPlugin[] = [
+  sessionDurationFactor,
+  reopenFrequencyFactor,
+  lateNightFactor,
+  scrollVelocityFactor,
+  dailyUsageFactor,
+  categoryUsageFactor,
+  scheduleBlockFactor,
+];
+
+builtinRiskFactors.forEach(registerRiskFactor);
@@ -0,0 +1,88 @@
+/**
+ * Risk scoring - shared module
+ *
+ * Importing from here registers the built-in factors. To add a factor,
+ * create a `RiskFactorPlugin` and call `registerRiskFactor()` on it.
+ */
+
+import './factors.ts';
+
+export { registerRiskFactor, unregisterRiskFactor, getRiskFactors, evaluateRiskFactors } from './registry.ts';
+export { builtinRiskFactors } from './factors.ts';
+export { computeRisk } from './computeRisk.ts';
+export {
+  scoreToLevel,
+  resolveLevelThresholds,
+  resolveRiskLevel,
+  RISK_LEVEL_THRESHOLDS,
+  DEFAULT_EXIT_MARGIN,
+} from './levels.ts';
+export { decayScore, DEFAULT_DECAY_HALF_LIFE_MINUTES } from './decay.ts';
+export type { PreviousRiskScore } from './decay.ts';
+export { getLocalTime, isHourInWindow } from './time.ts';
+export {
+  parseTimeOfDay,
+  formatTimeOfDay,
+  getBedtimeWindow,
+  getBedtimeStatus,
+  rampBedtimePoints,
+  DEFAULT_BEDTIME_START,
+  DEFAULT_BEDTIME_END,
+  DEFAULT_BEDTIME_RAMP_MINUTES,
+  WEEKEND_NIGHTS,
+} from './bedtime.ts';
+export { startOfLocalDay, getDailyUsageMinutes, getDailyBudget } from './dailyUsage.ts';
+export type { DailyBudget } from './dailyUsage.ts';
+export {
+  parseAppCategory,
+  getCategoryRule,
+  getCategoryBedtimePolicy,
+  getCategoryBudget,
+  summarizeCategoryUsage,
+  APP_CATEGORIES,
+  APP_CATEGORY_LABELS,
+} from './categories.ts';
+export type { AppCategory, CategoryUsage } from './categories.ts';
+export {
+  parseRecurrenceRule,
+  formatWeeklyRule,
+  occursOn,
+  addDays,
+  isScheduleDate,
+  findScheduleException,
+  scheduleAppliesOn,
+  resolveSchedules,
+  resolveScheduleExceptions,
+  getScheduleState,
+  findScheduleBlock,
+  getWeeklyExtraMinutes,
+  WEEKDAY_CODES,
+} from './schedules.ts';
+export type { RecurrenceRule, ActiveBlock, ScheduleState } from './schedules.ts';
+export { getScrollSummary, getScrollVelocity } from './scroll.ts';
+export type { ScrollSummary } from './scroll.ts';
+export type { ComputeRiskOptions, RiskResult } from './computeRisk.ts';
+export type { LocalTime } from './time.ts';
+export type { BedtimeWindow, BedtimeStatus } from './bedtime.ts';
+export type {
+  RiskLevel,
+  RiskSession,
+  RiskEvent,
+  RiskProfile,
+  RiskPolicy,
+  FactorConfig,
+  CategoryRule,
+  PolicySchedule,
+  BlockSchedule,
+  ExtraMinutesSchedule,
+  ScheduleException,
+  LevelThreshold,
+  RiskLevelThresholds,
+  RiskLevelThresholdOverrides,
+  RiskFactorContext,
+  RiskFactorPlugin,
+  RiskFactorMap,
+  FactorEvaluation,
+  FactorExplanation,
+  RiskExplanation,
+} from './types.ts';
@@ -0,0 +1,74 @@
+/**
+ * Score → risk level mapping
+ *
+ * Each level has an enter threshold and a lower exit threshold. A user
+ * only drops out of a level once the score falls below its exit
+ * threshold, so scores hovering around a boundary don't flap.
+ */
+
+import type { RiskLevel, RiskLevelThresholds, RiskLevelThresholdOverrides } from './types.ts';
+
+export const RISK_LEVEL_THRESHOLDS: Record<Exclude<RiskLevel, 'low'>, number> = {
+  medium: 25,
+  high: 50,
+  critical: 75,
+};
+
+/** Default gap between entering and leaving a level */
+export const DEFAULT_EXIT_MARGIN = 5;
+
+const LEVEL_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export function scoreToLevel(score: number): RiskLevel {
+  if (score >= RISK_LEVEL_THRESHOLDS.critical) return 'critical';
+  if (score >= RISK_LEVEL_THRESHOLDS.high) return 'high';
+  if (score >= RISK_LEVEL_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Merge per-policy overrides (`policies.risk_level_thresholds`) with the
+ * defaults. Exit thresholds are clamped so they never exceed enter.
+ */
+export function resolveLevelThresholds(
+  overrides?: RiskLevelThresholdOverrides | null
+): RiskLevelThresholds {
+  const resolved = {} as RiskLevelThresholds;
+
+  for (const [level, defaultEnter] of Object.entries(RISK_LEVEL_THRESHOLDS) as [keyof RiskLevelThresholds, number][]) {
+    const override = overrides?.[level];
+    const enter = override?.enter ?? defaultEnter;
+    const exit = Math.min(enter, override?.exit ?? enter - DEFAULT_EXIT_MARGIN);
+    resolved[level] = { enter, exit };
+  }
+
+  return resolved;
+}
+
+/**
+ * Pick a level for `score`, given the level the user is currently in.
+ *
+ * Rising uses enter thresholds. Falling keeps the highest level at or
+ * below `previousLevel` whose exit threshold the score still meets.
+ */
+export function resolveRiskLevel(
+  score: number,
+  previousLevel: RiskLevel | null,
+  thresholds: RiskLevelThresholds = resolveLevelThresholds()
+): RiskLevel {
+  let candidate: RiskLevel = 'low';
+  for (const level of LEVEL_ORDER.slice(1) as (keyof RiskLevelThresholds)[]) {
+    if (score >= thresholds[level].enter) candidate = level;
+  }
+
+  const previousRank = previousLevel ? LEVEL_ORDER.indexOf(previousLevel) : 0;
+  const candidateRank = LEVEL_ORDER.indexOf(candidate);
+  if (candidateRank >= previousRank) return candidate;
+
+  for (let rank = previousRank; rank > candidateRank; rank--) {
+    const level = LEVEL_ORDER[rank] as keyof RiskLevelThresholds;
+    if (score >= thresholds[level].exit) return level;
+  }
+
+  return candidate;
+}
@@ -0,0 +1,92 @@
+/**
+ * Risk Factor Registry
+ *
+ * Factors register themselves here and the risk agent scores whatever is
+ * registered. Policies can tune each factor through `factor_config`:
+ *
+ * ```json
+ * { "scroll_velocity": { "weight": 1.5, "cap": 30 }, "late_night": { "enabled": false } }
+ * ```
+ *
+ * The total is out of 100. When the default caps of the factors that
+ * apply add up to more than that, points are scaled down so the level thresholds
+ * keep their meaning however many factors a policy sets up.
+ */
+
+import type {
+  FactorEvaluation,
+  FactorExplanation,
+  RiskFactorContext,
+  RiskFactorMap,
+  RiskFactorPlugin,
+} from './types.ts';
+
+const registry = new Map<string, RiskFactorPlugin>();
+
+/**
+ * Register a factor plugin (replaces any plugin with the same key)
+ */
+export function registerRiskFactor(plugin: RiskFactorPlugin): void {
+  registry.set(plugin.key, plugin);
+}
+
+/**
+ * Remove a factor plugin
+ */
+export function unregisterRiskFactor(key: string): void {
+  registry.delete(key);
+}
+
+/**
+ * Get all registered factor plugins, in registration order
+ */
+export function getRiskFactors(): RiskFactorPlugin[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Score every registered factor against the context
+ */
+export function evaluateRiskFactors(ctx: RiskFactorContext): {
+  factors: RiskFactorMap;
+  details: FactorExplanation[];
+  total: number;
+} {
+  const factors: RiskFactorMap = {};
+  const details: FactorExplanation[] = [];
+  const config = ctx.policy?.factor_config || {};
+  let applicableCap = 0;
+
+  for (const plugin of registry.values()) {
+    const overrides = config[plugin.key] || {};
+    if (overrides.enabled === false) continue;
+
+    const weight = overrides.weight ?? plugin.defaultWeight ?? 1;
+    const cap = overrides.cap ?? plugin.defaultCap;
+    const result = plugin.evaluate(ctx);
+    const evaluation: FactorEvaluation = typeof result === 'number' ? { points: result } : result;
+    const points = Math.max(0, Math.min(cap, evaluation.points * weight));
+
+    factors[plugin.key] = points;
+    // Default caps: raising one in factor_config is meant to raise its share
+    if (plugin.appliesTo?.(ctx) ?? true) applicableCap += plugin.defaultCap;
+    details.push({
+      key: plugin.key,
+      label: plugin.label,
+      points,
+      max_points: cap,
+      weight,
+      observed: evaluation.observed ?? null,
+      unit: evaluation.unit ?? null,
+      threshold: evaluation.threshold ?? null,
+      policy_field: evaluation.policyField ?? null,
+      policy_value: evaluation.policyValue ?? null,
+    });
+  }
+
+  const sum = Object.values(factors).reduce((acc, points) => acc + points, 0);
+  const scale = 100 / Math.max(100, applicableCap);
+  const total = Math.min(100, Math.round(sum * scale * 100) / 100);
+
+  return { factors, details, total };
+}
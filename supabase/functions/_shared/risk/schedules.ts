@@ -0,0 +1,286 @@
+/**
+ * Policy schedules
+ *
+ * Recurring rules on `policies.schedules` ("school days 08:00–15:00 block
+ * social", "Saturdays +60 min") plus one-off `schedule_exceptions`
+ * (holidays, sick days). Evaluated in the child's local time by the risk
+ * factors and by the native Screen Time sync, so both agree on what is
+ * in force at any moment.
+ *
+ * Recurrence uses a subset of RFC 5545 RRULE: `FREQ=DAILY|WEEKLY` with
+ * optional `INTERVAL`, `BYDAY` (plain day codes, no ordinals) and `UNTIL`
+ * (a date, inclusive). DTSTART is the schedule's `starts_on`. Like
+ * bedtimes, a block belongs to the day it starts on.
+ */
+
+import { parseTimeOfDay } from './bedtime.ts';
+import type { LocalTime } from './time.ts';
+import type { PolicySchedule, RiskPolicy, ScheduleException } from './types.ts';
+
+/** RRULE day codes by weekday (0 = Sunday) */
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const SUPPORTED_RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL'];
+
+const MAX_INTERVAL = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  /** Weekdays (0 = Sunday); null matches DTSTART's weekday for weekly rules, every day for daily */
+  byDay: number[] | null;
+  /** Last day the rule can match, `YYYY-MM-DD` */
+  until: string | null;
+}
+
+export interface ActiveBlock {
+  schedule_id: string;
+  label: string;
+  /** Empty blocks every app */
+  categories: string[];
+  /** Local `HH:mm` the block ends */
+  until: string;
+}
+
+export interface ScheduleState {
+  blocks: ActiveBlock[];
+  /** Added to today's daily limit */
+  extraMinutes: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Days since 1970-01-01 for a `YYYY-MM-DD` date, or null if it isn't one
+ */
+function toDayNumber(date: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+
+  const ms = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (new Date(ms).toISOString().slice(0, 10) !== date) return null;
+
+  return ms / DAY_MS;
+}
+
+// 1970-01-01 was a Thursday
+const weekdayOf = (dayNumber: number) => (dayNumber + 4) % 7;
+
+// Weeks start on Monday, RFC 5545's default WKST
+const weekStartOf = (dayNumber: number) => dayNumber - ((weekdayOf(dayNumber) + 6) % 7);
+
+export function isScheduleDate(value: unknown): value is string {
+  return typeof value === 'string' && toDayNumber(value) !== null;
+}
+
+/**
+ * Shift a `YYYY-MM-DD` date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  const dayNumber = toDayNumber(date);
+  if (dayNumber === null) throw new Error(`Invalid date: ${date}`);
+  return new Date((dayNumber + days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse the supported RRULE subset. Returns null for anything outside it.
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule | null {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value, ...rest] = part.split('=');
+    const name = key.trim().toUpperCase();
+    if (!name || !value || rest.length > 0 || parts.has(name) || !SUPPORTED_RULE_PARTS.includes(name)) {
+      return null;
+    }
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') return null;
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) return null;
+
+  let byDay: number[] | null = null;
+  if (parts.has('BYDAY')) {
+    byDay = parts.get('BYDAY')!.split(',').map(code => WEEKDAY_CODES.indexOf(code.trim()));
+    if (byDay.includes(-1)) return null;
+    byDay = [...new Set(byDay)].sort();
+  }
+
+  let until: string | null = null;
+  if (parts.has('UNTIL')) {
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(parts.get('UNTIL')!);
+    until = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+    if (!until || !isScheduleDate(until)) return null;
+  }
+
+  return { freq, interval, byDay, until };
+}
+
+/**
+ * Build a weekly rule for the given weekdays (0 = Sunday)
+ */
+export function formatWeeklyRule(weekdays: number[]): string {
+  const days = [...new Set(weekdays)].sort().map(day => WEEKDAY_CODES[day]);
+  return days.length ? `FREQ=WEEKLY;BYDAY=${days.join(',')}` : 'FREQ=WEEKLY';
+}
+
+/**
+ * Whether a rule starting on `startsOn` has an occurrence on `date`
+ */
+export function occursOn(rule: RecurrenceRule, startsOn: string, date: string): boolean {
+  const day = toDayNumber(date);
+  const first = toDayNumber(startsOn);
+  if (day === null || first === null || day < first) return false;
+  if (rule.until && date > rule.until) return false;
+
+  const weekday = weekdayOf(day);
+
+  if (rule.freq === 'DAILY') {
+    return (day - first) % rule.interval === 0 && (!rule.byDay || rule.byDay.includes(weekday));
+  }
+
+  const byDay = rule.byDay ?? [weekdayOf(first)];
+  if (!byDay.includes(weekday)) return false;
+  return ((weekStartOf(day) - weekStartOf(first)) / 7) % rule.interval === 0;
+}
+
+/**
+ * The exception that cancels a schedule on `date`, if any
+ */
+export function findScheduleException(
+  schedule: PolicySchedule,
+  date: string,
+  exceptions: ScheduleException[]
+): ScheduleException | null {
+  return exceptions.find(exception =>
+    date >= exception.starts_on &&
+    date <= exception.ends_on &&
+    (!exception.schedule_ids || exception.schedule_ids.includes(schedule.id))
+  ) ?? null;
+}
+
+/**
+ * Whether a schedule is in force on `date`: its rule matches and no
+ * exception cancels it
+ */
+export function scheduleAppliesOn(schedule: PolicySchedule, date: string, exceptions: ScheduleException[]): boolean {
+  const rule = parseRecurrenceRule(schedule.rrule);
+  return !!rule && occursOn(rule, schedule.starts_on, date) && !findScheduleException(schedule, date, exceptions);
+}
+
+/**
+ * Valid schedules from `policies.schedules`; malformed entries are dropped
+ */
+export function resolveSchedules(raw: unknown): PolicySchedule[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((entry): entry is PolicySchedule => {
+    if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.rrule !== 'string') return false;
+    if (!isScheduleDate(entry.starts_on) || !parseRecurrenceRule(entry.rrule)) return false;
+
+    if (entry.action === 'block') {
+      return parseTimeOfDay(entry.start_time as string) !== null &&
+        parseTimeOfDay(entry.end_time as string) !== null &&
+        Array.isArray(entry.categories) &&
+        entry.categories.every(category => typeof category === 'string');
+    }
+
+    return entry.action === 'extra_minutes' && typeof entry.extra_minutes === 'number' && entry.extra_minutes > 0;
+  });
+}
+
+/**
+ * Valid exceptions from `policies.schedule_exceptions`
+ */
+export function resolveScheduleExceptions(raw: unknown): ScheduleException[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((entry): entry is ScheduleException =>
+    isObject(entry) &&
+    typeof entry.id === 'string' &&
+    isScheduleDate(entry.starts_on) &&
+    isScheduleDate(entry.ends_on) &&
+    entry.starts_on <= entry.ends_on &&
+    (entry.schedule_ids == null || Array.isArray(entry.schedule_ids))
+  );
+}
+
+/**
+ * What the policy's schedules put in force at a local time
+ */
+export function getScheduleState(policy: RiskPolicy | null, local: LocalTime): ScheduleState {
+  const schedules = resolveSchedules(policy?.schedules);
+  const exceptions = resolveScheduleExceptions(policy?.schedule_exceptions);
+  const nowMinutes = local.hour * 60 + local.minute;
+  const yesterday = addDays(local.date, -1);
+
+  const state: ScheduleState = { blocks: [], extraMinutes: 0 };
+
+  for (const schedule of schedules) {
+    if (schedule.action === 'extra_minutes') {
+      if (scheduleAppliesOn(schedule, local.date, exceptions)) {
+        state.extraMinutes += schedule.extra_minutes;
+      }
+      continue;
+    }
+
+    const start = parseTimeOfDay(schedule.start_time)!;
+    const end = parseTimeOfDay(schedule.end_time)!;
+
+    // Windows that wrap (or span the whole day) spill into the next morning
+    const inTodays = start < end ? nowMinutes >= start && nowMinutes < end : nowMinutes >= start;
+    const inYesterdays = start >= end && nowMinutes < end;
+
+    if (
+      (inTodays && scheduleAppliesOn(schedule, local.date, exceptions)) ||
+      (inYesterdays && scheduleAppliesOn(schedule, yesterday, exceptions))
+    ) {
+      state.blocks.push({
+        schedule_id: schedule.id,
+        label: schedule.label,
+        categories: schedule.categories,
+        until: schedule.end_time.slice(0, 5),
+      });
+    }
+  }
+
+  return state;
+}
+
+/**
+ * The active block covering an app category, if any. Apps without a
+ * category are only covered by blocks on every app.
+ */
+export function findScheduleBlock(state: ScheduleState, category: string | null | undefined): ActiveBlock | null {
+  return state.blocks.find(block =>
+    block.categories.length === 0 || (!!category && block.categories.includes(category))
+  ) ?? null;
+}
+
+/**
+ * Extra minutes the schedules grant in an average week, for comparing
+ * how generous two policies are
+ */
+export function getWeeklyExtraMinutes(schedules: PolicySchedule[]): number {
+  let total = 0;
+
+  for (const schedule of schedules) {
+    if (schedule.action !== 'extra_minutes') continue;
+    const rule = parseRecurrenceRule(schedule.rrule);
+    if (!rule) continue;
+
+    const daysPerWeek = rule.freq === 'DAILY' ? (rule.byDay?.length ?? 7) : (rule.byDay?.length ?? 1);
+    total += (schedule.extra_minutes * daysPerWeek) / rule.interval;
+  }
+
+  return total;
+}
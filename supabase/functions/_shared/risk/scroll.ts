@@ -0,0 +1,47 @@
+/**
+ * Scroll activity
+ *
+ * The SDK batches scroll samples into one `scroll` event per window and
+ * puts the summary under `event_data.scroll`. Older clients send one
+ * event per sample with a bare `velocity` (or `scroll_velocity`).
+ */
+
+export interface ScrollSummary {
+  count: number;
+  max_velocity: number;
+  mean_velocity: number;
+  p95_velocity: number;
+  /** Total px scrolled, when the client reports distances */
+  distance: number;
+  window_ms: number;
+  started_at: string;
+  ended_at: string;
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * The aggregated summary on an event, if it has one
+ */
+export function getScrollSummary(data: Record<string, unknown> | null | undefined): ScrollSummary | null {
+  const summary = data?.scroll as Partial<ScrollSummary> | undefined;
+  if (!summary || typeof summary !== 'object' || !isNumber(summary.p95_velocity)) {
+    return null;
+  }
+  return summary as ScrollSummary;
+}
+
+/**
+ * Velocity to score an event by.
+ *
+ * Summaries use p95 so one fling in an otherwise calm window doesn't
+ * count as rapid scrolling; single samples use their own velocity.
+ */
+export function getScrollVelocity(data: Record<string, unknown> | null | undefined): number {
+  const summary = getScrollSummary(data);
+  if (summary) return summary.p95_velocity;
+
+  const velocity = data?.velocity ?? data?.scroll_velocity;
+  return isNumber(velocity) ? velocity : 0;
+}
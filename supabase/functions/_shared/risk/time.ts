@@ -0,0 +1,72 @@
+/**
+ * Timezone helpers
+ *
+ * Uses Intl so results don't depend on the host's local timezone
+ * (Deno Deploy runs in UTC, developer machines usually don't).
+ */
+
+export interface LocalTime {
+  hour: number;
+  minute: number;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** YYYY-MM-DD in the given timezone */
+  date: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get wall-clock time for an instant in the given IANA timezone.
+ * Unknown timezones fall back to UTC.
+ */
+export function getLocalTime(now: Date, timeZone: string = 'UTC'): LocalTime {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = getFormatter(timeZone);
+  } catch {
+    formatter = getFormatter('UTC');
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(now)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+/**
+ * Whether `hour` falls in [start, end), wrapping past midnight when
+ * start > end (e.g. 22 → 7).
+ */
+export function isHourInWindow(hour: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  if (start < end) return hour >= start && hour < end;
+  return hour >= start || hour < end;
+}
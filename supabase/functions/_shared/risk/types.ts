@@ -0,0 +1,213 @@
+/**
+ * Risk Factor Plugin Types
+ *
+ * Shared between the risk-agent edge function and anything else that
+ * needs to reason about risk factors. Keep this file free of Deno and
+ * browser specific APIs.
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskSession {
+  id?: string;
+  started_at: string;
+  ended_at?: string | null;
+  reopen_count?: number | null;
+  /** Category of the app the session is in, if the app reported one */
+  category?: string | null;
+}
+
+export interface RiskEvent {
+  event_type: string;
+  event_data?: Record<string, unknown> | null;
+  screen_name?: string | null;
+  app_bundle_id?: string | null;
+  category?: string | null;
+  timestamp: string;
+}
+
+export interface RiskProfile {
+  timezone?: string | null;
+}
+
+/**
+ * Per-factor overrides stored on `policies.factor_config`
+ */
+export interface FactorConfig {
+  enabled?: boolean;
+  weight?: number;
+  cap?: number;
+}
+
+/**
+ * Limits for one app category, stored on `policies.category_rules`
+ * keyed by category. They add to the policy-wide limits; a category
+ * without its own bedtime uses the policy's.
+ */
+export interface CategoryRule {
+  daily_limit_minutes?: number | null;
+  bedtime_start?: string | null;
+  bedtime_end?: string | null;
+}
+
+interface ScheduleBase {
+  id: string;
+  label: string;
+  /** RRULE subset, e.g. `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR` (see schedules.ts) */
+  rrule: string;
+  /** First day the rule can match (`YYYY-MM-DD`, the RRULE's DTSTART) */
+  starts_on: string;
+}
+
+/**
+ * Blocks app categories between two times on the days the rule matches.
+ * An empty `categories` blocks every app.
+ */
+export interface BlockSchedule extends ScheduleBase {
+  action: 'block';
+  start_time: string;
+  /** Before `start_time` wraps past midnight; equal to it covers the whole day */
+  end_time: string;
+  categories: string[];
+}
+
+/**
+ * Raises the daily limit on the days the rule matches
+ */
+export interface ExtraMinutesSchedule extends ScheduleBase {
+  action: 'extra_minutes';
+  extra_minutes: number;
+}
+
+/**
+ * A recurring rule stored on `policies.schedules`
+ */
+export type PolicySchedule = BlockSchedule | ExtraMinutesSchedule;
+
+/**
+ * Days (inclusive, local dates) on which schedules don't apply, e.g. a
+ * holiday or sick day. Null `schedule_ids` covers every schedule in the
+ * same policy.
+ */
+export interface ScheduleException {
+  id: string;
+  label: string;
+  starts_on: string;
+  ends_on: string;
+  schedule_ids?: string[] | null;
+}
+
+/**
+ * Enter/exit score thresholds per level, stored on
+ * `policies.risk_level_thresholds`
+ */
+export interface LevelThreshold {
+  enter: number;
+  exit: number;
+}
+
+export type RiskLevelThresholds = Record<Exclude<RiskLevel, 'low'>, LevelThreshold>;
+
+export type RiskLevelThresholdOverrides = Partial<Record<Exclude<RiskLevel, 'low'>, Partial<LevelThreshold>>>;
+
+export interface RiskPolicy {
+  session_limit_minutes?: number | null;
+  daily_limit_minutes?: number | null;
+  reopen_threshold?: number | null;
+  scroll_velocity_threshold?: number | null;
+  bedtime_start?: string | null;
+  bedtime_end?: string | null;
+  /** Nights starting Friday/Saturday; fall back to bedtime_start/end */
+  weekend_bedtime_start?: string | null;
+  weekend_bedtime_end?: string | null;
+  /** Minutes over which late-night risk climbs to its maximum */
+  bedtime_ramp_minutes?: number | null;
+  factor_config?: Record<string, FactorConfig> | null;
+  category_rules?: Record<string, CategoryRule> | null;
+  schedules?: PolicySchedule[] | null;
+  schedule_exceptions?: ScheduleException[] | null;
+  /** 0 disables decay; null uses the default half-life */
+  risk_decay_half_life_minutes?: number | null;
+  risk_level_thresholds?: RiskLevelThresholdOverrides | null;
+}
+
+/**
+ * Everything a factor may look at when scoring
+ */
+export interface RiskFactorContext {
+  session: RiskSession | null;
+  events: RiskEvent[];
+  /** Sessions overlapping the current local day (for daily limits) */
+  dailySessions: RiskSession[];
+  profile: RiskProfile | null;
+  policy: RiskPolicy | null;
+  eventData?: Record<string, unknown>;
+  /** Minutes of active time extensions, added to the daily limit */
+  extensionMinutes?: number;
+  now: Date;
+}
+
+/**
+ * What a factor saw, for explaining a score
+ */
+export interface FactorEvaluation {
+  points: number;
+  /** Measured value, e.g. minutes in session or opens in the last hour */
+  observed?: number | null;
+  unit?: string;
+  /** The band boundary that was crossed (null if none) */
+  threshold?: number | string | null;
+  /** Policy column the threshold was derived from */
+  policyField?: string | null;
+  /** Value of that column (or the default used in its place) */
+  policyValue?: number | string | null;
+}
+
+/**
+ * A risk factor plugin
+ *
+ * `evaluate` returns raw points on the factor's default scale
+ * (0..defaultCap), optionally with the details behind them. The
+ * registry applies the policy weight and cap.
+ */
+export interface RiskFactorPlugin {
+  key: string;
+  label: string;
+  defaultCap: number;
+  defaultWeight?: number;
+  /**
+   * Whether the policy has set this factor up (e.g. a daily limit).
+   * Factors that don't apply still score, but their cap doesn't count
+   * toward the total's scale. Defaults to always.
+   */
+  appliesTo?: (ctx: RiskFactorContext) => boolean;
+  evaluate: (ctx: RiskFactorContext) => number | FactorEvaluation;
+}
+
+export type RiskFactorMap = Record<string, number>;
+
+/**
+ * One factor's contribution, as persisted in `risk_states.explanation`
+ * and `risk_history.factors`
+ */
+export interface FactorExplanation {
+  key: string;
+  label: string;
+  /** Points after weight and cap */
+  points: number;
+  max_points: number;
+  weight: number;
+  observed: number | null;
+  unit: string | null;
+  threshold: number | string | null;
+  policy_field: string | null;
+  policy_value: number | string | null;
+}
+
+export interface RiskExplanation {
+  score: number;
+  raw_score: number;
+  level: RiskLevel;
+  /** Highest contribution first */
+  factors: FactorExplanation[];
+}
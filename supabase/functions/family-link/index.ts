@@ -0,0 +1,486 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  generateLinkCode,
+  getLinkRateLimit,
+  getLinkTokenExpiry,
+  getUnlinkCancelRejection,
+  getUnlinkEffectiveAt,
+  hashLinkCode,
+  normalizeSharedScopes,
+  parseBirthDate,
+  parseLinkCode,
+  LINK_ATTEMPT_WINDOW_MINUTES,
+  UNLINK_REASON_MAX_LENGTH,
+} from "../_shared/linking/index.ts";
+import { cancelJobs, enqueueJob, JOB_TYPES } from "../_shared/jobs/index.ts";
+import { getChildGuardians } from "../_shared/households/index.ts";
+import {
+  buildUnlinkCancelledAlert,
+  buildUnlinkRequestedAlert,
+  notifyParents,
+} from "../_shared/notifications/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface LinkPayload {
+  action:
+    | 'create'
+    | 'revoke'
+    | 'preview'
+    | 'confirm'
+    | 'request_unlink'
+    | 'cancel_unlink'
+    | 'set_birth_date'
+    | 'update_sharing';
+  /** What the child typed or scanned (preview/confirm) */
+  code?: string;
+  /** Must be true to confirm */
+  consent?: boolean;
+  /** The other side of the link: a child names the parent, a parent the child */
+  parent_id?: string;
+  youth_id?: string;
+  reason?: string;
+  /** cancel_unlink */
+  request_id?: string;
+  /** `YYYY-MM-DD` */
+  birth_date?: string;
+  /** What guardians keep seeing once the youth is an adult */
+  scopes?: string[];
+}
+
+/** Roles on the child side of a link; adults keep their links */
+const SELF_ROLES = ['youth', 'adult'];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ========================================
+    // AUTHENTICATE
+    // ========================================
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json({ success: false, error: 'Invalid token' }, 401);
+    }
+
+    const userId = user.id;
+    const payload: LinkPayload = await req.json().catch(() => ({}));
+
+    const { data: roleRow } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const role = roleRow?.role;
+    const now = new Date();
+
+    console.log('[FamilyLink] User:', userId, 'Action:', payload.action);
+
+    switch (payload.action) {
+      // ========================================
+      // PARENT: CREATE / REVOKE
+      // ========================================
+
+      case 'create': {
+        if (role !== 'parent') {
+          return json({ success: false, error: 'Parent role required' }, 403);
+        }
+
+        // One live code per parent; a new one retires the last
+        await supabase
+          .from('family_link_tokens')
+          .update({ status: 'revoked' })
+          .eq('parent_id', userId)
+          .eq('status', 'pending');
+
+        const code = generateLinkCode();
+        const { data: created, error } = await supabase
+          .from('family_link_tokens')
+          .insert({
+            parent_id: userId,
+            token_hash: await hashLinkCode(code),
+            expires_at: getLinkTokenExpiry(now),
+          })
+          .select('id, expires_at')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create link token: ${error.message}`);
+        }
+
+        // The plain code only ever exists in this response
+        return json({ success: true, token_id: created.id, code, expires_at: created.expires_at });
+      }
+
+      case 'revoke': {
+        if (role !== 'parent') {
+          return json({ success: false, error: 'Parent role required' }, 403);
+        }
+
+        await supabase
+          .from('family_link_tokens')
+          .update({ status: 'revoked' })
+          .eq('parent_id', userId)
+          .eq('status', 'pending');
+
+        return json({ success: true });
+      }
+
+      // ========================================
+      // CHILD: PREVIEW / CONFIRM
+      // ========================================
+
+      case 'preview':
+      case 'confirm': {
+        if (role !== 'youth') {
+          return json({ success: false, error: 'Only child accounts can link to a parent' }, 403);
+        }
+
+        const { data: failures } = await supabase
+          .from('family_link_attempts')
+          .select('created_at')
+          .eq('user_id', userId)
+          .gte('created_at', new Date(now.getTime() - LINK_ATTEMPT_WINDOW_MINUTES * 60000).toISOString());
+
+        const limit = getLinkRateLimit((failures || []).map(f => f.created_at), now);
+        if (!limit.allowed) {
+          console.log('[FamilyLink] Rate limited:', userId);
+          return json({
+            success: false,
+            error: 'Too many attempts. Try again later.',
+            retry_after: limit.retry_after,
+          }, 429);
+        }
+
+        const code = parseLinkCode(payload.code || '');
+        const { data: linkToken } = code
+          ? await supabase
+              .from('family_link_tokens')
+              .select('*')
+              .eq('token_hash', await hashLinkCode(code))
+              .maybeSingle()
+          : { data: null };
+
+        const usable = linkToken?.status === 'pending' && new Date(linkToken.expires_at) > now;
+        if (!linkToken || !usable) {
+          await supabase.from('family_link_attempts').insert({ user_id: userId });
+
+          if (linkToken?.status === 'pending') {
+            await supabase.from('family_link_tokens').update({ status: 'expired' }).eq('id', linkToken.id);
+          }
+
+          // Unknown, used and expired codes look the same to a guesser
+          return json({ success: false, error: 'This code is invalid or has expired. Ask your parent for a new one.' }, 404);
+        }
+
+        const { data: parentProfile } = await supabase
+          .from('profiles')
+          .select('display_name, avatar_url')
+          .eq('user_id', linkToken.parent_id)
+          .maybeSingle();
+
+        const parent = {
+          id: linkToken.parent_id,
+          display_name: parentProfile?.display_name || null,
+          avatar_url: parentProfile?.avatar_url || null,
+        };
+
+        const { data: existingLink } = await supabase
+          .from('family_links')
+          .select('id')
+          .eq('parent_id', linkToken.parent_id)
+          .eq('youth_id', userId)
+          .eq('is_active', true)
+          .maybeSingle();
+
+        if (existingLink) {
+          return json({ success: false, error: 'You are already linked to this parent' }, 409);
+        }
+
+        if (payload.action === 'preview') {
+          return json({ success: true, parent, expires_at: linkToken.expires_at });
+        }
+
+        if (payload.consent !== true) {
+          return json({ success: false, error: 'Consent is required to link' }, 400);
+        }
+
+        // The status filter makes the code single use under concurrent confirms
+        const { data: consumed } = await supabase
+          .from('family_link_tokens')
+          .update({ status: 'consumed', consumed_by: userId, consumed_at: now.toISOString() })
+          .eq('id', linkToken.id)
+          .eq('status', 'pending')
+          .select('id')
+          .maybeSingle();
+
+        if (!consumed) {
+          return json({ success: false, error: 'This code has already been used' }, 409);
+        }
+
+        // Reactivate a link that was switched off rather than duplicating it
+        const { data: inactiveLink } = await supabase
+          .from('family_links')
+          .select('id')
+          .eq('parent_id', linkToken.parent_id)
+          .eq('youth_id', userId)
+          .limit(1)
+          .maybeSingle();
+
+        const { error: linkError } = inactiveLink
+          ? await supabase.from('family_links').update({ is_active: true }).eq('id', inactiveLink.id)
+          : await supabase.from('family_links').insert({
+              parent_id: linkToken.parent_id,
+              youth_id: userId,
+              is_active: true,
+            });
+
+        if (linkError) {
+          throw new Error(`Failed to link family: ${linkError.message}`);
+        }
+
+        console.log('[FamilyLink] Linked youth', userId, 'to parent', linkToken.parent_id);
+
+        return json({ success: true, parent });
+      }
+
+      // ========================================
+      // EITHER SIDE: UNLINK
+      // ========================================
+
+      case 'request_unlink': {
+        const isParent = role === 'parent';
+        if (!isParent && !SELF_ROLES.includes(role || '')) {
+          return json({ success: false, error: 'Only linked parents and children can unlink' }, 403);
+        }
+
+        const parentId = isParent ? userId : payload.parent_id;
+        const youthId = isParent ? payload.youth_id : userId;
+
+        const { data: link } = parentId && youthId
+          ? await supabase
+              .from('family_links')
+              .select('id, parent_id, youth_id')
+              .eq('parent_id', parentId)
+              .eq('youth_id', youthId)
+              .eq('is_active', true)
+              .maybeSingle()
+          : { data: null };
+
+        if (!link) {
+          return json({ success: false, error: 'Link not found' }, 404);
+        }
+
+        const reason = payload.reason?.trim().slice(0, UNLINK_REASON_MAX_LENGTH) || null;
+        const { data: request, error } = await supabase
+          .from('family_unlink_requests')
+          .insert({
+            link_id: link.id,
+            parent_id: link.parent_id,
+            youth_id: link.youth_id,
+            requested_by: userId,
+            reason,
+            effective_at: getUnlinkEffectiveAt(now),
+          })
+          .select()
+          .single();
+
+        // The partial unique index allows one pending request per link
+        if (error?.code === '23505') {
+          return json({ success: false, error: 'An unlink request is already pending' }, 409);
+        }
+        if (error) {
+          throw new Error(`Failed to create unlink request: ${error.message}`);
+        }
+
+        await enqueueJob(supabase, {
+          job_type: JOB_TYPES.COMPLETE_UNLINK,
+          user_id: link.youth_id,
+          payload: { unlink_request_id: request.id },
+          run_at: request.effective_at,
+        });
+
+        const { data: names } = await supabase
+          .from('profiles')
+          .select('user_id, display_name')
+          .in('user_id', [link.parent_id, link.youth_id]);
+
+        const nameOf = (id: string) => names?.find(n => n.user_id === id)?.display_name || null;
+
+        await notifyParents(supabase, link.youth_id, {
+          category: 'family_update',
+          ...buildUnlinkRequestedAlert({
+            child_name: nameOf(link.youth_id),
+            requested_by_child: !isParent,
+            guardian_name: nameOf(link.parent_id),
+            effective_at: request.effective_at,
+            reason,
+          }),
+          data: { unlink_request_id: request.id },
+        });
+
+        console.log('[FamilyLink] Unlink requested for link', link.id, 'effective', request.effective_at);
+
+        return json({ success: true, request });
+      }
+
+      case 'cancel_unlink': {
+        const { data: request } = payload.request_id
+          ? await supabase
+              .from('family_unlink_requests')
+              .select('*')
+              .eq('id', payload.request_id)
+              .maybeSingle()
+          : { data: null };
+
+        if (!request || (request.parent_id !== userId && request.youth_id !== userId)) {
+          return json({ success: false, error: 'Request not found' }, 404);
+        }
+
+        const rejection = getUnlinkCancelRejection(request, userId, now);
+        if (rejection) {
+          return json({ success: false, error: rejection }, 409);
+        }
+
+        const { data: cancelled } = await supabase
+          .from('family_unlink_requests')
+          .update({ status: 'cancelled', resolved_at: now.toISOString() })
+          .eq('id', request.id)
+          .eq('status', 'pending')
+          .select()
+          .maybeSingle();
+
+        if (!cancelled) {
+          return json({ success: false, error: 'Request already resolved' }, 409);
+        }
+
+        await cancelJobs(supabase, JOB_TYPES.COMPLETE_UNLINK, 'unlink_request_id', request.id);
+
+        const { data: childProfile } = await supabase
+          .from('profiles')
+          .select('display_name')
+          .eq('user_id', request.youth_id)
+          .maybeSingle();
+
+        await notifyParents(supabase, request.youth_id, {
+          category: 'family_update',
+          ...buildUnlinkCancelledAlert({ child_name: childProfile?.display_name || null }),
+          data: { unlink_request_id: request.id },
+        });
+
+        return json({ success: true, request: cancelled });
+      }
+
+      // ========================================
+      // COMING OF AGE
+      // ========================================
+
+      case 'set_birth_date': {
+        const birthDate = parseBirthDate(payload.birth_date, now);
+        if (!birthDate) {
+          return json({ success: false, error: 'Enter a valid birth date' }, 400);
+        }
+
+        // A child sets their own once; a primary guardian can correct it
+        // until the child comes of age
+        const youthId = role === 'parent' ? payload.youth_id : userId;
+        if (!youthId || (role !== 'parent' && role !== 'youth')) {
+          return json({ success: false, error: 'Only children and their parents can set a birth date' }, 403);
+        }
+
+        const { data: youthRole } = await supabase
+          .from('user_roles')
+          .select('role')
+          .eq('user_id', youthId)
+          .maybeSingle();
+
+        if (youthRole?.role !== 'youth') {
+          return json({ success: false, error: 'Birth dates can only be set for children' }, 409);
+        }
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('birth_date')
+          .eq('user_id', youthId)
+          .maybeSingle();
+
+        if (role === 'parent') {
+          const guardians = await getChildGuardians(supabase, youthId);
+          if (!guardians.some(g => g.id === userId && g.role === 'primary')) {
+            return json({ success: false, error: 'Only primary guardians can set a birth date' }, 403);
+          }
+        } else if (profile?.birth_date) {
+          return json({ success: false, error: 'Ask a parent to correct your birth date' }, 409);
+        }
+
+        const { error } = await supabase
+          .from('profiles')
+          .update({ birth_date: birthDate })
+          .eq('user_id', youthId);
+
+        if (error) {
+          throw new Error(`Failed to save birth date: ${error.message}`);
+        }
+
+        return json({ success: true, birth_date: birthDate });
+      }
+
+      case 'update_sharing': {
+        if (!SELF_ROLES.includes(role || '')) {
+          return json({ success: false, error: 'Only children choose what they share' }, 403);
+        }
+
+        if (!Array.isArray(payload.scopes)) {
+          return json({ success: false, error: 'scopes must be a list' }, 400);
+        }
+
+        const { data: sharing, error } = await supabase
+          .from('guardian_sharing')
+          .upsert({ youth_id: userId, shared_scopes: normalizeSharedScopes(payload.scopes) }, { onConflict: 'youth_id' })
+          .select('shared_scopes, adult_since')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to save sharing: ${error.message}`);
+        }
+
+        return json({ success: true, sharing });
+      }
+
+      default:
+        return json({ success: false, error: 'Invalid action' }, 400);
+    }
+
+  } catch (error: unknown) {
+    console.error('[FamilyLink] Error:', error);
+    return json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
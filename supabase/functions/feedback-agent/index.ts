@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deriveInsights, getFeedbackStatusUpdate, summarizeFeedback } from "../_shared/interventions/index.ts";
+import type { FeedbackSample } from "../_shared/interventions/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,12 +15,6 @@ interface FeedbackInput {
   context?: Record<string, unknown>;
 }
 
-interface LearningInsight {
-  pattern: string;
-  confidence: number;
-  recommendation: string;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -59,133 +55,75 @@ serve(async (req) => {
     // UPDATE INTERVENTION STATUS
     // ========================================
 
-    if (input.intervention_id) {
-      const statusMap: Record<string, string> = {
-        'effective': 'acknowledged',
-        'ineffective': 'dismissed',
-        'ignored': 'dismissed',
-        'escalated': 'escalated',
-      };
-
-      const timestampField = {
-        'effective': 'acknowledged_at',
-        'ineffective': 'dismissed_at',
-        'ignored': 'dismissed_at',
-        'escalated': 'escalated_at',
-      };
+    const statusUpdate = getFeedbackStatusUpdate(input.feedback_type, new Date());
 
+    if (input.intervention_id && statusUpdate) {
       await supabase
         .from('interventions')
         .update({
-          status: statusMap[input.feedback_type],
-          [timestampField[input.feedback_type]]: new Date().toISOString(),
+          ...statusUpdate,
           user_response: input.context,
         })
         .eq('id', input.intervention_id);
 
-      console.log('[FeedbackAgent] Updated intervention status to:', statusMap[input.feedback_type]);
+      console.log('[FeedbackAgent] Updated intervention status to:', statusUpdate.status);
     }
 
     // ========================================
     // ANALYZE PATTERNS (Learning Loop)
     // ========================================
 
-    const insights: LearningInsight[] = [];
-
     // Get historical feedback for this user
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
     const { data: historicalFeedback } = await supabase
       .from('feedback_events')
-      .select('*, interventions(type, risk_level_at_trigger)')
+      .select('*, interventions(type, template_id, risk_level_at_trigger, created_at)')
       .eq('user_id', input.user_id)
       .gte('created_at', thirtyDaysAgo);
 
-    if (historicalFeedback && historicalFeedback.length >= 5) {
-      // Calculate effectiveness rates by intervention type
-      const typeStats: Record<string, { effective: number; total: number }> = {};
-      
-      for (const feedback of historicalFeedback) {
-        const type = feedback.interventions?.type || 'unknown';
-        if (!typeStats[type]) {
-          typeStats[type] = { effective: 0, total: 0 };
-        }
-        typeStats[type].total++;
-        if (feedback.feedback_type === 'effective') {
-          typeStats[type].effective++;
-        }
-      }
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('user_id', input.user_id)
+      .maybeSingle();
 
-      // Generate insights
-      for (const [type, stats] of Object.entries(typeStats)) {
-        if (stats.total >= 3) {
-          const effectivenessRate = stats.effective / stats.total;
-          
-          if (effectivenessRate < 0.3) {
-            insights.push({
-              pattern: `${type}_low_effectiveness`,
-              confidence: Math.min(0.9, stats.total / 10),
-              recommendation: `Consider reducing ${type} interventions for this user - low effectiveness (${Math.round(effectivenessRate * 100)}%)`,
-            });
-          } else if (effectivenessRate > 0.7) {
-            insights.push({
-              pattern: `${type}_high_effectiveness`,
-              confidence: Math.min(0.9, stats.total / 10),
-              recommendation: `${type} interventions work well for this user (${Math.round(effectivenessRate * 100)}% effective)`,
-            });
-          }
-        }
-      }
+    const samples: FeedbackSample[] = (historicalFeedback || []).map(feedback => ({
+      feedback_type: feedback.feedback_type,
+      template_id: feedback.interventions?.template_id,
+      intervention_type: feedback.interventions?.type,
+      shown_at: feedback.interventions?.created_at || feedback.created_at,
+      created_at: feedback.created_at,
+    }));
 
-      // Time-based patterns
-      const feedbackByHour: Record<number, { effective: number; total: number }> = {};
-      for (const feedback of historicalFeedback) {
-        const hour = new Date(feedback.created_at).getHours();
-        if (!feedbackByHour[hour]) {
-          feedbackByHour[hour] = { effective: 0, total: 0 };
-        }
-        feedbackByHour[hour].total++;
-        if (feedback.feedback_type === 'effective') {
-          feedbackByHour[hour].effective++;
-        }
-      }
+    const stats = summarizeFeedback(samples, profile?.timezone || 'UTC');
+    const insights = deriveInsights(stats);
 
-      // Find best/worst hours
-      let bestHour = -1;
-      let worstHour = -1;
-      let bestRate = 0;
-      let worstRate = 1;
-
-      for (const [hour, stats] of Object.entries(feedbackByHour)) {
-        if (stats.total >= 2) {
-          const rate = stats.effective / stats.total;
-          if (rate > bestRate) {
-            bestRate = rate;
-            bestHour = parseInt(hour);
-          }
-          if (rate < worstRate) {
-            worstRate = rate;
-            worstHour = parseInt(hour);
-          }
-        }
-      }
+    // ========================================
+    // PERSIST EFFECTIVENESS STATS
+    // ========================================
 
-      if (bestHour !== -1 && bestRate > 0.6) {
-        insights.push({
-          pattern: 'time_effectiveness',
-          confidence: 0.7,
-          recommendation: `Interventions most effective around ${bestHour}:00`,
-        });
-      }
+    // Full recompute over the window; rows not refreshed have aged out
+    const computedAt = new Date().toISOString();
 
-      if (worstHour !== -1 && worstRate < 0.3) {
-        insights.push({
-          pattern: 'time_ineffectiveness',
-          confidence: 0.7,
-          recommendation: `Consider avoiding interventions around ${worstHour}:00`,
-        });
+    if (stats.length > 0) {
+      const { error: statsError } = await supabase
+        .from('intervention_effectiveness')
+        .upsert(
+          stats.map(stat => ({ ...stat, user_id: input.user_id, computed_at: computedAt })),
+          { onConflict: 'user_id,scope,scope_key' }
+        );
+
+      if (statsError) {
+        console.error('[FeedbackAgent] Failed to store effectiveness:', statsError);
       }
     }
 
+    await supabase
+      .from('intervention_effectiveness')
+      .delete()
+      .eq('user_id', input.user_id)
+      .lt('computed_at', computedAt);
+
     console.log('[FeedbackAgent] Generated insights:', insights.length);
 
     // ========================================
@@ -231,6 +169,7 @@ serve(async (req) => {
       output_data: {
         feedback_event_id: feedbackEvent.id,
         insights,
+        effectiveness_stats: stats.length,
         escalation_triggered: escalationTriggered,
         historical_count: historicalFeedback?.length || 0,
       },
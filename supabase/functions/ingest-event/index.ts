@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueJob, kickJobWorker, JOB_TYPES } from "../_shared/jobs/index.ts";
+import { parseAppCategory } from "../_shared/risk/categories.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,14 +16,44 @@ interface EventPayload {
   os_version?: string;
   app_version?: string;
   screen_name?: string;
+  /** App the event came from; each app on a device gets its own session */
+  app_bundle_id?: string;
+  /** App category, e.g. `social` or `games`; unknown names count as `other` */
+  category?: string;
   event_data?: Record<string, unknown>;
   timestamp?: string;
+  /** Client-generated UUID; retries of the same event reuse it */
+  client_event_id?: string;
+  /** Per-device send order */
+  client_sequence?: number;
 }
 
 interface BatchEventPayload {
   events: EventPayload[];
 }
 
+interface StoredEvent {
+  id: string;
+  session_id: string | null;
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Result originally returned for an event that has already been stored
+ */
+async function replayEventResult(supabase: SupabaseClient, event: StoredEvent) {
+  const { data: job } = await supabase
+    .from('agent_jobs')
+    .select('id')
+    .eq('job_type', JOB_TYPES.PROCESS_EVENT)
+    .eq('payload->>event_id', event.id)
+    .maybeSingle();
+
+  return { success: true, event_id: event.id, job_id: job?.id || null, duplicate: true };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -65,6 +97,7 @@ serve(async (req) => {
     const results = [];
     let activeSessionId: string | null = null;
     let activeDeviceId: string | null = null;
+    const jobIds: string[] = [];
 
     for (const eventPayload of events) {
       // ========================================
@@ -94,19 +127,50 @@ serve(async (req) => {
 
       activeDeviceId = device.id;
 
+      const appBundleId = eventPayload.app_bundle_id?.trim() || null;
+      const category = parseAppCategory(eventPayload.category);
+
+      // Sessions are per app; events without one share the device's session
+      const findActiveSession = <Columns extends string>(columns: Columns) => {
+        const query = supabase
+          .from('sessions')
+          .select(columns)
+          .eq('user_id', userId)
+          .eq('device_id', device.id)
+          .eq('state', 'active');
+        return appBundleId ? query.eq('app_bundle_id', appBundleId) : query.is('app_bundle_id', null);
+      };
+
+      // ========================================
+      // DEDUPE RETRIED EVENTS
+      // ========================================
+
+      // Checked before session handling so a retry doesn't count a second reopen
+      if (eventPayload.client_event_id) {
+        const { data: existingEvent } = await supabase
+          .from('behavioral_events')
+          .select('id, session_id')
+          .eq('device_id', device.id)
+          .eq('client_event_id', eventPayload.client_event_id)
+          .maybeSingle();
+
+        if (existingEvent) {
+          console.log('[IngestEvent] Duplicate event', eventPayload.client_event_id, '- replaying result');
+          activeSessionId = existingEvent.session_id;
+          const replay = await replayEventResult(supabase, existingEvent);
+          if (replay.job_id) jobIds.push(replay.job_id);
+          results.push(replay);
+          continue;
+        }
+      }
+
       // ========================================
       // HANDLE SESSION MANAGEMENT
       // ========================================
 
       if (eventPayload.event_type === 'session_start' || eventPayload.event_type === 'app_open') {
         // Check for existing active session
-        const { data: existingSession } = await supabase
-          .from('sessions')
-          .select('id, reopen_count')
-          .eq('user_id', userId)
-          .eq('device_id', device.id)
-          .eq('state', 'active')
-          .single();
+        const { data: existingSession } = await findActiveSession('id, reopen_count').single();
 
         if (existingSession) {
           // This is a reopen
@@ -126,6 +190,8 @@ serve(async (req) => {
             event_type: 'reopen',
             event_data: eventPayload.event_data,
             screen_name: eventPayload.screen_name,
+            app_bundle_id: appBundleId,
+            category,
             timestamp: eventPayload.timestamp || new Date().toISOString(),
           });
         } else {
@@ -137,6 +203,8 @@ serve(async (req) => {
               device_id: device.id,
               state: 'active',
               started_at: eventPayload.timestamp || new Date().toISOString(),
+              app_bundle_id: appBundleId,
+              category,
             })
             .select()
             .single();
@@ -149,38 +217,28 @@ serve(async (req) => {
         }
       } else if (eventPayload.event_type === 'session_end' || eventPayload.event_type === 'app_close') {
         // End active session
-        const { data: activeSession } = await supabase
-          .from('sessions')
-          .select('id, started_at')
-          .eq('user_id', userId)
-          .eq('device_id', device.id)
-          .eq('state', 'active')
-          .single();
+        const { data: activeSession } = await findActiveSession('id, started_at').single();
 
         if (activeSession) {
           activeSessionId = activeSession.id;
-          const durationSeconds = Math.floor(
-            (Date.now() - new Date(activeSession.started_at).getTime()) / 1000
-          );
+          // A session_end flushed from the offline queue ended when it was recorded
+          const endedAt = eventPayload.timestamp ? new Date(eventPayload.timestamp) : new Date();
+          const durationSeconds = Math.max(0, Math.floor(
+            (endedAt.getTime() - new Date(activeSession.started_at).getTime()) / 1000
+          ));
 
           await supabase
             .from('sessions')
             .update({
               state: 'ended',
-              ended_at: new Date().toISOString(),
+              ended_at: endedAt.toISOString(),
               duration_seconds: durationSeconds,
             })
             .eq('id', activeSession.id);
         }
       } else {
         // Get current active session for other events
-        const { data: activeSession } = await supabase
-          .from('sessions')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('device_id', device.id)
-          .eq('state', 'active')
-          .single();
+        const { data: activeSession } = await findActiveSession('id').single();
 
         activeSessionId = activeSession?.id || null;
       }
@@ -198,49 +256,75 @@ serve(async (req) => {
           event_type: eventPayload.event_type,
           event_data: eventPayload.event_data,
           screen_name: eventPayload.screen_name,
+          app_bundle_id: appBundleId,
+          category,
           timestamp: eventPayload.timestamp || new Date().toISOString(),
           processed: false,
+          client_event_id: eventPayload.client_event_id || null,
+          client_sequence: eventPayload.client_sequence ?? null,
         })
         .select()
         .single();
 
+      // A concurrent retry stored the same event first
+      if (eventError?.code === UNIQUE_VIOLATION && eventPayload.client_event_id) {
+        const { data: existingEvent } = await supabase
+          .from('behavioral_events')
+          .select('id, session_id')
+          .eq('device_id', device.id)
+          .eq('client_event_id', eventPayload.client_event_id)
+          .single();
+
+        if (existingEvent) {
+          const replay = await replayEventResult(supabase, existingEvent);
+          if (replay.job_id) jobIds.push(replay.job_id);
+          results.push(replay);
+          continue;
+        }
+      }
+
       if (eventError) {
         console.error('[IngestEvent] Event insert error:', eventError);
         results.push({ success: false, error: eventError.message });
         continue;
       }
 
-      results.push({ success: true, event_id: event.id });
-
       // ========================================
-      // TRIGGER ORCHESTRATOR (async, fire-and-forget)
+      // ENQUEUE FOR PROCESSING
       // ========================================
 
-      // Don't await - let it run in background
-      supabase.functions.invoke('orchestrator', {
-        body: {
+      // The job worker runs the orchestrator and marks the event processed
+      try {
+        const jobId = await enqueueJob(supabase, {
+          job_type: JOB_TYPES.PROCESS_EVENT,
           user_id: userId,
-          session_id: activeSessionId,
-          event_type: eventPayload.event_type,
-          event_data: eventPayload.event_data,
-        },
-      }).then(response => {
-        if (response.error) {
-          console.error('[IngestEvent] Orchestrator invocation error:', response.error);
-        } else {
-          console.log('[IngestEvent] Orchestrator triggered successfully');
-        }
-      }).catch(err => {
-        console.error('[IngestEvent] Orchestrator invocation failed:', err);
-      });
+          payload: {
+            event_id: event.id,
+            user_id: userId,
+            session_id: activeSessionId,
+            event_type: eventPayload.event_type,
+            event_data: eventPayload.event_data,
+          },
+        });
+
+        jobIds.push(jobId);
+        results.push({ success: true, event_id: event.id, job_id: jobId });
+      } catch (error: unknown) {
+        console.error('[IngestEvent] Enqueue error:', error);
+        results.push({
+          success: false,
+          event_id: event.id,
+          error: error instanceof Error ? error.message : 'Failed to enqueue',
+        });
+      }
+    }
 
-      // Mark event as processed
-      await supabase
-        .from('behavioral_events')
-        .update({ processed: true })
-        .eq('id', event.id);
+    if (jobIds.length > 0) {
+      kickJobWorker(supabase);
     }
 
+    const lastResult = results[results.length - 1] as { event_id?: string; duplicate?: boolean } | undefined;
+
     const executionTime = Date.now() - startTime;
     console.log('[IngestEvent] Processed', results.length, 'events in', executionTime, 'ms');
 
@@ -248,6 +332,10 @@ serve(async (req) => {
       success: true,
       session_id: activeSessionId,
       device_id: activeDeviceId,
+      // Last event's ids; batch callers should read them per result
+      event_id: lastResult?.event_id || null,
+      job_id: jobIds[jobIds.length - 1] || null,
+      duplicate: lastResult?.duplicate || false,
       results,
       execution_time_ms: executionTime,
     }), {
@@ -260,7 +348,7 @@ serve(async (req) => {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
     }), {
-      status: 400,
+      status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -1,5 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLocalTime } from "../_shared/risk/index.ts";
+import {
+  chooseIntervention,
+  decideTiming,
+  getEscalationDueAt,
+  getNextEscalationTier,
+  getTemplateRejection,
+  pickVariant,
+  ESCALATION_DISMISSAL_THRESHOLD,
+} from "../_shared/interventions/index.ts";
+import { enqueueJob, JOB_TYPES } from "../_shared/jobs/index.ts";
+import { loadEffectivePolicy } from "../_shared/households/index.ts";
+import { buildParentAlert, notifyParents } from "../_shared/notifications/index.ts";
+import type { EffectivenessStat } from "../_shared/interventions/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,7 +51,7 @@ serve(async (req) => {
       .from('interventions')
       .select('*, intervention_templates!inner(cooldown_minutes)')
       .eq('user_id', input.user_id)
-      .in('status', ['pending', 'delivered'])
+      .in('status', ['pending', 'delivered', 'snoozed'])
       .order('created_at', { ascending: false })
       .limit(10);
 
@@ -61,64 +75,117 @@ serve(async (req) => {
     // SELECT APPROPRIATE INTERVENTION TEMPLATE
     // ========================================
 
-    // Map risk level to intervention types
-    const interventionTypeMap: Record<string, string[]> = {
-      'low': [],
-      'medium': ['soft_nudge'],
-      'high': ['soft_nudge', 'medium_friction'],
-      'critical': ['medium_friction', 'hard_block', 'parent_alert'],
-    };
+    // Template rules decide which types fit this risk; cooldowns are per type
+    const { data: activeTemplates } = await supabase
+      .from('intervention_templates')
+      .select('*')
+      .eq('is_active', true);
 
-    const allowedTypes = interventionTypeMap[input.risk_level] || [];
-    const availableTypes = allowedTypes.filter(t => !activeCooldowns.includes(t));
+    if (!activeTemplates || activeTemplates.length === 0) {
+      console.log('[InterventionAgent] No active intervention templates');
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'No intervention templates configured',
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templates = activeTemplates.filter(t => !activeCooldowns.includes(t.type));
 
-    if (availableTypes.length === 0) {
-      console.log('[InterventionAgent] No available intervention types (all in cooldown or low risk)');
+    if (templates.length === 0) {
+      console.log('[InterventionAgent] All intervention types in cooldown');
       return new Response(JSON.stringify({
         success: true,
         intervention_triggered: false,
-        reason: input.risk_level === 'low' ? 'Low risk - no intervention needed' : 'All interventions in cooldown',
+        reason: 'All interventions in cooldown',
         cooldowns: activeCooldowns,
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Get the most appropriate template
-    const { data: templates } = await supabase
-      .from('intervention_templates')
-      .select('*')
-      .in('type', availableTypes)
-      .eq('is_active', true)
-      .order('priority', { ascending: false });
+    // Rules need the user's local time and role; the bandit needs their stats
+    const [{ data: profile }, { data: userRole }, { data: effectiveness }] = await Promise.all([
+      supabase.from('profiles').select('timezone').eq('user_id', input.user_id).maybeSingle(),
+      supabase.from('user_roles').select('role').eq('user_id', input.user_id).maybeSingle(),
+      supabase
+        .from('intervention_effectiveness')
+        .select('scope, scope_key, successes, failures, last_feedback_at')
+        .eq('user_id', input.user_id),
+    ]);
+
+    const selectionContext = {
+      risk_level: input.risk_level,
+      risk_score: input.risk_score,
+      local: getLocalTime(new Date(), profile?.timezone || 'UTC'),
+      role: userRole?.role || null,
+    };
+    const stats = (effectiveness || []) as EffectivenessStat[];
+
+    // ========================================
+    // TIMING - hold back in hours this user ignores
+    // ========================================
+
+    const timing = decideTiming(stats, input.risk_level, selectionContext.local.hour);
 
-    if (!templates || templates.length === 0) {
-      console.log('[InterventionAgent] No templates found for types:', availableTypes);
+    if (timing.defer) {
+      console.log('[InterventionAgent] Deferred:', timing.reason);
       return new Response(JSON.stringify({
-        success: false,
-        error: 'No intervention templates configured',
+        success: true,
+        intervention_triggered: false,
+        deferred: true,
+        reason: timing.reason,
       }), {
-        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Select template based on risk score within the allowed types
-    let selectedTemplate = templates[0];
-    for (const template of templates) {
-      if (input.risk_score >= 75 && template.type === 'parent_alert') {
-        selectedTemplate = template;
-        break;
-      } else if (input.risk_score >= 50 && template.type === 'hard_block') {
-        selectedTemplate = template;
-        break;
-      } else if (input.risk_score >= 35 && template.type === 'medium_friction') {
-        selectedTemplate = template;
-        break;
-      }
+    // Critical risk always gets the rule-based choice (safety floor)
+    const choice = chooseIntervention(templates, selectionContext, stats);
+
+    if (!choice) {
+      const rejections = Object.fromEntries(
+        templates.map(t => [t.name, getTemplateRejection(t, selectionContext)])
+      );
+      console.log('[InterventionAgent] No template rules matched:', JSON.stringify(rejections));
+      return new Response(JSON.stringify({
+        success: true,
+        intervention_triggered: false,
+        reason: 'No template rules matched',
+        rejections,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    console.log('[InterventionAgent] Selected template:', selectedTemplate.name, selectedTemplate.type);
+    const selectedTemplate = choice.template;
+    console.log('[InterventionAgent] Selected template:', selectedTemplate.name, selectedTemplate.type, `(${choice.strategy})`);
+
+    // ========================================
+    // PICK COPY VARIANT (A/B)
+    // ========================================
+
+    const { data: variants } = await supabase
+      .from('intervention_variants')
+      .select('*')
+      .eq('template_id', selectedTemplate.id)
+      .eq('is_active', true);
+
+    const variant = pickVariant(variants || [], input.user_id, selectedTemplate.id);
+
+    // Variant copy overrides the template's field by field
+    const copy = {
+      title: variant?.title || selectedTemplate.title,
+      message: variant?.message || selectedTemplate.message,
+      action_label: variant?.action_label || selectedTemplate.action_label,
+      action_url: variant?.action_url || selectedTemplate.action_url,
+    };
+
+    if (variant) {
+      console.log('[InterventionAgent] Variant:', variant.name);
+    }
 
     // ========================================
     // CREATE INTERVENTION RECORD
@@ -129,13 +196,14 @@ serve(async (req) => {
       .insert({
         user_id: input.user_id,
         template_id: selectedTemplate.id,
+        variant_id: variant?.id || null,
         session_id: input.session_id,
         type: selectedTemplate.type,
         status: 'pending',
         risk_level_at_trigger: input.risk_level,
         risk_score_at_trigger: input.risk_score,
-        title: selectedTemplate.title,
-        message: selectedTemplate.message,
+        title: copy.title,
+        message: copy.message,
       })
       .select()
       .single();
@@ -152,18 +220,27 @@ serve(async (req) => {
 
     let parentNotified = false;
     if (selectedTemplate.type === 'parent_alert') {
-      // Get parent link
-      const { data: familyLink } = await supabase
-        .from('family_links')
-        .select('parent_id')
-        .eq('youth_id', input.user_id)
-        .eq('is_active', true)
-        .single();
-
-      if (familyLink) {
-        // In a real implementation, this would send a push notification or email
-        // For now, we log it and could add to a notifications table
-        console.log('[InterventionAgent] Notifying parent:', familyLink.parent_id);
+      const { data: childProfile } = await supabase
+        .from('profiles')
+        .select('display_name')
+        .eq('user_id', input.user_id)
+        .maybeSingle();
+
+      const alert = buildParentAlert({
+        child_name: childProfile?.display_name || null,
+        risk_level: input.risk_level,
+        risk_score: input.risk_score,
+      });
+
+      const notificationIds = await notifyParents(supabase, input.user_id, {
+        category: 'intervention_alert',
+        ...alert,
+        intervention_id: intervention.id,
+        data: { risk_level: input.risk_level, risk_score: input.risk_score },
+      });
+
+      if (notificationIds.length > 0) {
+        console.log('[InterventionAgent] Notified', notificationIds.length, 'parent(s)');
         parentNotified = true;
         
         // Update intervention status
@@ -182,26 +259,41 @@ serve(async (req) => {
     // ========================================
 
     // Get policy for escalation settings
-    const { data: policy } = await supabase
-      .from('policies')
-      .select('escalation_enabled, escalation_delay_minutes, parent_alert_threshold')
-      .or(`target_user_id.eq.${input.user_id},is_system_default.eq.true`)
-      .eq('is_active', true)
-      .order('is_system_default', { ascending: true })
-      .limit(1)
-      .single();
+    const policy = await loadEffectivePolicy<{
+      escalation_enabled: boolean | null;
+      escalation_delay_minutes: number | null;
+      parent_alert_threshold: string | null;
+    }>(supabase, input.user_id);
 
     let escalationScheduled = false;
-    if (policy?.escalation_enabled && input.risk_level !== 'critical') {
-      // Check if we should schedule escalation
-      const dismissedCount = recentInterventions?.filter(
-        i => i.status === 'dismissed' && 
-        new Date(i.created_at).getTime() > now - 3600000 // last hour
-      ).length || 0;
-
-      if (dismissedCount >= 2) {
-        console.log('[InterventionAgent] Multiple dismissals detected, escalation may be needed');
+    let escalationJobId: string | null = null;
+    let escalationDueAt: string | null = null;
+
+    if (
+      policy?.escalation_enabled &&
+      input.risk_level !== 'critical' &&
+      getNextEscalationTier(selectedTemplate.type)
+    ) {
+      // recentInterventions only holds open ones, so count dismissals separately
+      const { count: dismissedCount } = await supabase
+        .from('interventions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', input.user_id)
+        .eq('status', 'dismissed')
+        .gte('created_at', new Date(now - 3600000).toISOString()); // last hour
+
+      if ((dismissedCount || 0) >= ESCALATION_DISMISSAL_THRESHOLD) {
+        // Escalate this one unless it is acknowledged before the delay runs out
+        escalationDueAt = getEscalationDueAt(new Date(), policy.escalation_delay_minutes);
+        escalationJobId = await enqueueJob(supabase, {
+          job_type: JOB_TYPES.ESCALATE_INTERVENTION,
+          user_id: input.user_id,
+          payload: { intervention_id: intervention.id },
+          run_at: escalationDueAt,
+        });
         escalationScheduled = true;
+
+        console.log('[InterventionAgent] Multiple dismissals detected, escalation due at', escalationDueAt);
       }
     }
 
@@ -219,9 +311,14 @@ serve(async (req) => {
       output_data: {
         intervention_id: intervention.id,
         template: selectedTemplate.name,
+        variant: variant?.name || null,
         type: selectedTemplate.type,
+        selection_strategy: choice.strategy,
+        bandit_samples: choice.samples || null,
         parent_notified: parentNotified,
         escalation_scheduled: escalationScheduled,
+        escalation_job_id: escalationJobId,
+        escalation_due_at: escalationDueAt,
       },
       execution_time_ms: executionTime,
       success: true,
@@ -235,13 +332,12 @@ serve(async (req) => {
       intervention: {
         id: intervention.id,
         type: selectedTemplate.type,
-        title: selectedTemplate.title,
-        message: selectedTemplate.message,
-        action_label: selectedTemplate.action_label,
-        action_url: selectedTemplate.action_url,
+        variant_id: variant?.id || null,
+        ...copy,
       },
       parent_notified: parentNotified,
       escalation_scheduled: escalationScheduled,
+      escalation_due_at: escalationDueAt,
       execution_time_ms: executionTime,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
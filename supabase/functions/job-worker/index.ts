@@ -0,0 +1,455 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueJob, JOB_TYPES, planJobFailure } from "../_shared/jobs/index.ts";
+import { checkEscalation, getEscalationDueAt, getNextEscalationTier } from "../_shared/interventions/index.ts";
+import { loadEffectivePolicy } from "../_shared/households/index.ts";
+import { buildParentAlert, notifyParents } from "../_shared/notifications/index.ts";
+import {
+  completeUnlinkRequest,
+  getMajorityBirthCutoff,
+  resolveAgeOfMajority,
+  transitionToAdulthood,
+} from "../_shared/linking/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface WorkerInput {
+  /** Max jobs to claim per batch */
+  limit?: number;
+}
+
+interface AgentJob {
+  id: string;
+  job_type: string;
+  user_id: string | null;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+type JobHandler = (supabase: SupabaseClient, job: AgentJob) => Promise<Record<string, unknown>>;
+
+// Stop claiming new batches after this long so the invocation can finish
+const TIME_BUDGET_MS = 20000;
+
+// ========================================
+// JOB HANDLERS
+// ========================================
+
+const handlers: Record<string, JobHandler> = {
+  [JOB_TYPES.PROCESS_EVENT]: async (supabase, job) => {
+    const { event_id, ...orchestratorInput } = job.payload;
+
+    const response = await supabase.functions.invoke('orchestrator', { body: orchestratorInput });
+    if (response.error) {
+      throw new Error(`Orchestrator failed: ${response.error.message}`);
+    }
+
+    if (event_id) {
+      await supabase
+        .from('behavioral_events')
+        .update({ processed: true })
+        .eq('id', event_id);
+    }
+
+    return response.data;
+  },
+
+  [JOB_TYPES.ESCALATE_INTERVENTION]: async (supabase, job) => {
+    const interventionId = job.payload.intervention_id as string;
+
+    const { data: intervention, error: fetchError } = await supabase
+      .from('interventions')
+      .select('*')
+      .eq('id', interventionId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to load intervention: ${fetchError.message}`);
+    }
+
+    // Acknowledged (or already escalated) while the timer was running
+    if (!intervention) {
+      return { skipped: true, reason: 'Intervention not found' };
+    }
+
+    const check = checkEscalation(intervention, job.payload.reason, new Date());
+    if (check.action === 'skip') {
+      return { skipped: true, reason: check.reason };
+    }
+
+    // A snooze the policy allows holds the timer; it restarts at re-delivery
+    if (check.action === 'reschedule') {
+      const policy = await loadEffectivePolicy<{ escalation_delay_minutes: number | null }>(
+        supabase,
+        intervention.user_id
+      );
+      const runAt = getEscalationDueAt(new Date(check.snoozed_until), policy?.escalation_delay_minutes);
+      await enqueueJob(supabase, {
+        job_type: JOB_TYPES.ESCALATE_INTERVENTION,
+        user_id: intervention.user_id,
+        payload: job.payload,
+        run_at: runAt,
+      });
+      return { rescheduled: true, run_at: runAt };
+    }
+
+    const nextTier = getNextEscalationTier(intervention.type);
+    let nextIntervention: { id: string; type: string } | null = null;
+
+    if (nextTier) {
+      // A retry after a partial run finds the one it already created
+      const { data: existing } = await supabase
+        .from('interventions')
+        .select('id, type')
+        .eq('escalated_from', intervention.id)
+        .maybeSingle();
+
+      nextIntervention = existing;
+
+      if (!nextIntervention) {
+        const { data: template } = await supabase
+          .from('intervention_templates')
+          .select('*')
+          .eq('type', nextTier)
+          .eq('is_active', true)
+          .order('priority', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (!template) {
+          throw new Error(`No active ${nextTier} template to escalate to`);
+        }
+
+        const { data: created, error: insertError } = await supabase
+          .from('interventions')
+          .insert({
+            user_id: intervention.user_id,
+            template_id: template.id,
+            session_id: intervention.session_id,
+            type: template.type,
+            status: 'pending',
+            risk_level_at_trigger: intervention.risk_level_at_trigger,
+            risk_score_at_trigger: intervention.risk_score_at_trigger,
+            title: template.title,
+            message: template.message,
+            escalated_from: intervention.id,
+          })
+          .select('id, type')
+          .single();
+
+        if (insertError) {
+          throw new Error(`Failed to create escalated intervention: ${insertError.message}`);
+        }
+
+        nextIntervention = created;
+      }
+    }
+
+    // Parents see this transition in their feed
+    const escalatedAt = new Date().toISOString();
+    await supabase
+      .from('interventions')
+      .update({ status: 'escalated', escalated_at: escalatedAt })
+      .eq('id', intervention.id);
+
+    let parentNotified = false;
+    if (nextIntervention?.type === 'parent_alert') {
+      const { data: childProfile } = await supabase
+        .from('profiles')
+        .select('display_name')
+        .eq('user_id', intervention.user_id)
+        .maybeSingle();
+
+      const alert = buildParentAlert({
+        child_name: childProfile?.display_name || null,
+        risk_level: intervention.risk_level_at_trigger,
+        risk_score: Number(intervention.risk_score_at_trigger) || 0,
+        escalated: true,
+      });
+
+      // A retry after a partial run shouldn't alert the parents twice
+      const { data: sent } = await supabase
+        .from('notifications')
+        .select('id')
+        .eq('intervention_id', nextIntervention.id);
+
+      const notificationIds = sent?.length
+        ? sent.map(n => n.id)
+        : await notifyParents(supabase, intervention.user_id, {
+            category: 'intervention_alert',
+            ...alert,
+            intervention_id: nextIntervention.id,
+            data: { escalated_from: intervention.id },
+          });
+
+      if (notificationIds.length > 0) {
+        console.log('[JobWorker] Escalation notified', notificationIds.length, 'parent(s)');
+        parentNotified = true;
+
+        await supabase
+          .from('interventions')
+          .update({ status: 'delivered', delivered_at: escalatedAt })
+          .eq('id', nextIntervention.id);
+      }
+    }
+
+    console.log('[JobWorker] Escalated intervention', intervention.id, '->', nextTier || 'no higher tier');
+
+    await supabase.from('agent_logs').insert({
+      agent_type: 'intervention_agent',
+      user_id: intervention.user_id,
+      session_id: intervention.session_id,
+      input_data: { job_id: job.id, ...job.payload },
+      output_data: {
+        escalated_from: intervention.id,
+        escalated_to: nextIntervention?.id || null,
+        tier: nextTier,
+        parent_notified: parentNotified,
+      },
+      success: true,
+    });
+
+    return {
+      escalated: true,
+      escalated_at: escalatedAt,
+      next_intervention_id: nextIntervention?.id || null,
+      tier: nextTier,
+      parent_notified: parentNotified,
+    };
+  },
+
+  [JOB_TYPES.EXPIRE_EXTENSION_REQUEST]: async (supabase, job) => {
+    // Only lapses requests nobody answered; decided ones are left alone
+    const { data: expired, error } = await supabase
+      .from('time_extension_requests')
+      .update({ status: 'expired' })
+      .eq('id', job.payload.request_id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to expire extension request: ${error.message}`);
+    }
+
+    return { expired: (expired?.length || 0) > 0 };
+  },
+
+  [JOB_TYPES.REDELIVER_INTERVENTION]: async (supabase, job) => {
+    // Back to pending fires the clients' realtime UPDATE handlers. Anything
+    // that happened during the snooze (acknowledged, escalated) wins.
+    const { data: redelivered, error } = await supabase
+      .from('interventions')
+      .update({ status: 'pending', snoozed_until: null })
+      .eq('id', job.payload.intervention_id)
+      .eq('status', 'snoozed')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to redeliver intervention: ${error.message}`);
+    }
+
+    return { redelivered: (redelivered?.length || 0) > 0 };
+  },
+
+  [JOB_TYPES.COMPLETE_UNLINK]: async (supabase, job) => {
+    return completeUnlinkRequest(supabase, job.payload.unlink_request_id as string, new Date());
+  },
+
+  [JOB_TYPES.CHECK_AGE_OF_MAJORITY]: async (supabase) => {
+    const now = new Date();
+    const age = resolveAgeOfMajority(Deno.env.get('AGE_OF_MAJORITY'));
+
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .lte('birth_date', getMajorityBirthCutoff(now, age));
+
+    if (error) {
+      throw new Error(`Failed to load birth dates: ${error.message}`);
+    }
+
+    const { data: youths } = profiles?.length
+      ? await supabase
+          .from('user_roles')
+          .select('user_id')
+          .eq('role', 'youth')
+          .in('user_id', profiles.map(p => p.user_id))
+      : { data: [] };
+
+    // One failure shouldn't hold back everyone else; tomorrow's run retries it
+    const transitioned: string[] = [];
+    const failed: string[] = [];
+    for (const youth of youths || []) {
+      try {
+        await transitionToAdulthood(supabase, youth.user_id, now);
+        transitioned.push(youth.user_id);
+      } catch (err) {
+        console.error('[JobWorker] Coming of age failed for', youth.user_id, err);
+        failed.push(youth.user_id);
+      }
+    }
+
+    console.log('[JobWorker] Age of majority', age, '- transitioned', transitioned.length, 'failed', failed.length);
+
+    return { age_of_majority: age, transitioned, failed };
+  },
+
+  [JOB_TYPES.DISPATCH_NOTIFICATION]: async (supabase, job) => {
+    const response = await supabase.functions.invoke('notification-dispatcher', {
+      body: { notification_id: job.payload.notification_id },
+    });
+    if (response.error) {
+      throw new Error(`Notification dispatch failed: ${response.error.message}`);
+    }
+
+    // Email/push held by quiet hours go out when they end
+    const deferredUntil = response.data?.deferred_until as string | null;
+    if (deferredUntil) {
+      await enqueueJob(supabase, {
+        job_type: JOB_TYPES.DISPATCH_NOTIFICATION,
+        user_id: job.user_id,
+        payload: job.payload,
+        run_at: deferredUntil,
+      });
+    }
+
+    return response.data;
+  },
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  const workerId = crypto.randomUUID();
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the cron job and producers' kicks may drive the worker
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const input: WorkerInput = await req.json().catch(() => ({}));
+    const limit = input.limit || 10;
+
+    const summary = { claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+
+    while (Date.now() - startTime < TIME_BUDGET_MS) {
+      // ========================================
+      // CLAIM A BATCH
+      // ========================================
+
+      const { data: jobs, error: claimError } = await supabase.rpc('claim_agent_jobs', {
+        _worker_id: workerId,
+        _limit: limit,
+      });
+
+      if (claimError) {
+        throw new Error(`Failed to claim jobs: ${claimError.message}`);
+      }
+
+      if (!jobs || jobs.length === 0) break;
+
+      summary.claimed += jobs.length;
+      console.log('[JobWorker] Claimed', jobs.length, 'jobs');
+
+      // ========================================
+      // RUN EACH JOB
+      // ========================================
+
+      for (const job of jobs as AgentJob[]) {
+        try {
+          // A job reclaimed after its worker died may already be out of attempts
+          if (job.attempts > job.max_attempts) {
+            throw new Error('Exceeded max attempts after lock timeout');
+          }
+
+          const handler = handlers[job.job_type];
+          if (!handler) {
+            throw new Error(`No handler for job type: ${job.job_type}`);
+          }
+
+          const result = await handler(supabase, job);
+
+          await supabase
+            .from('agent_jobs')
+            .update({
+              status: 'succeeded',
+              result,
+              last_error: null,
+              locked_at: null,
+              locked_by: null,
+              completed_at: new Date().toISOString(),
+            })
+            .eq('id', job.id);
+
+          summary.succeeded++;
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          const outcome = planJobFailure(
+            { attempts: job.attempts, max_attempts: job.max_attempts },
+            new Date()
+          );
+
+          console.error('[JobWorker] Job', job.id, 'failed (attempt', job.attempts + '):', message);
+
+          await supabase
+            .from('agent_jobs')
+            .update({
+              status: outcome.status,
+              last_error: message,
+              locked_at: null,
+              locked_by: null,
+              ...(outcome.status === 'queued'
+                ? { run_at: outcome.run_at }
+                : { completed_at: new Date().toISOString() }),
+            })
+            .eq('id', job.id);
+
+          if (outcome.status === 'dead') {
+            summary.dead++;
+            console.error('[JobWorker] Job', job.id, 'dead-lettered');
+          } else {
+            summary.retried++;
+          }
+        }
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    console.log('[JobWorker] Completed in', executionTime, 'ms', JSON.stringify(summary));
+
+    return new Response(JSON.stringify({
+      success: true,
+      worker_id: workerId,
+      ...summary,
+      execution_time_ms: executionTime,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('[JobWorker] Error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
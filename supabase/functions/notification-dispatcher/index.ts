@@ -0,0 +1,208 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ChannelSkip,
+  getNotificationChannel,
+  loadRecipientSettings,
+  planForRecipient,
+  registerNotificationChannel,
+} from "../_shared/notifications/index.ts";
+import type { NotificationCategory, NotificationRecipient } from "../_shared/notifications/index.ts";
+import { emailChannel } from "../_shared/notifications/channels/email.ts";
+import { webPushChannel } from "../_shared/notifications/channels/webPush.ts";
+import { inAppChannel } from "../_shared/notifications/channels/inApp.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DispatchInput {
+  notification_id: string;
+}
+
+interface DeliveryOutcome {
+  channel: string;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+}
+
+registerNotificationChannel(inAppChannel);
+registerNotificationChannel(emailChannel);
+registerNotificationChannel(webPushChannel);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const input: DispatchInput = await req.json();
+
+    console.log('[NotificationDispatcher] Dispatching:', input.notification_id);
+
+    // ========================================
+    // LOAD NOTIFICATION AND RECIPIENT
+    // ========================================
+
+    const { data: notification, error: fetchError } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('id', input.notification_id)
+      .single();
+
+    if (fetchError || !notification) {
+      throw new Error(`Notification not found: ${input.notification_id}`);
+    }
+
+    // Preferences are checked again here in case they changed since the
+    // notification was created, or quiet hours have started or ended
+    const settings = await loadRecipientSettings(supabase, notification.recipient_id);
+    const plan = planForRecipient(settings, notification.category as NotificationCategory, notification.youth_id);
+    const channelNames = plan.channels;
+
+    const { data: { user } } = await supabase.auth.admin.getUserById(notification.recipient_id);
+
+    const { data: subscriptions } = channelNames.includes('push')
+      ? await supabase
+          .from('push_subscriptions')
+          .select('endpoint, p256dh, auth')
+          .eq('user_id', notification.recipient_id)
+      : { data: [] };
+
+    const recipient: NotificationRecipient = {
+      user_id: notification.recipient_id,
+      email: user?.email || null,
+      display_name: settings.display_name,
+      push_subscriptions: subscriptions || [],
+    };
+
+    const message = {
+      id: notification.id,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: (notification.data as Record<string, unknown>) || {},
+    };
+
+    // ========================================
+    // DELIVER ON EACH CHANNEL
+    // ========================================
+
+    // Retries only resend channels that haven't succeeded yet
+    const { data: existingDeliveries } = await supabase
+      .from('notification_deliveries')
+      .select('channel, status, attempts')
+      .eq('notification_id', notification.id);
+
+    const previous = new Map((existingDeliveries || []).map(d => [d.channel, d]));
+    const outcomes: DeliveryOutcome[] = [];
+
+    for (const channelName of channelNames) {
+      const existing = previous.get(channelName);
+      if (existing && (existing.status === 'sent' || existing.status === 'skipped')) {
+        continue;
+      }
+
+      const channel = getNotificationChannel(channelName);
+      const attempts = (existing?.attempts || 0) + 1;
+      let outcome: DeliveryOutcome;
+      let receipt: Record<string, unknown> | null = null;
+
+      try {
+        if (!channel || !channel.isConfigured()) {
+          throw new ChannelSkip(`Channel ${channelName} is not configured`);
+        }
+
+        receipt = await channel.send(message, recipient);
+        outcome = { channel: channelName, status: 'sent' };
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        outcome = {
+          channel: channelName,
+          status: error instanceof ChannelSkip ? 'skipped' : 'failed',
+          error: errorMessage,
+        };
+        console.error('[NotificationDispatcher]', channelName, outcome.status + ':', errorMessage);
+      }
+
+      await supabase
+        .from('notification_deliveries')
+        .upsert({
+          notification_id: notification.id,
+          channel: channelName,
+          status: outcome.status,
+          attempts,
+          last_error: outcome.error || null,
+          receipt,
+          delivered_at: outcome.status === 'sent' ? new Date().toISOString() : null,
+        }, { onConflict: 'notification_id,channel' });
+
+      // Push services report unsubscribed browsers as gone
+      const expired = receipt?.expired_endpoints as string[] | undefined;
+      if (expired?.length) {
+        await supabase
+          .from('push_subscriptions')
+          .delete()
+          .in('endpoint', expired);
+      }
+
+      outcomes.push(outcome);
+    }
+
+    // Held until quiet hours end; the job-worker queues another dispatch
+    const deferred = plan.deferred.filter(channelName => {
+      const status = previous.get(channelName)?.status;
+      return status !== 'sent' && status !== 'skipped';
+    });
+
+    for (const channelName of deferred) {
+      await supabase
+        .from('notification_deliveries')
+        .upsert({
+          notification_id: notification.id,
+          channel: channelName,
+          status: 'pending',
+          attempts: previous.get(channelName)?.attempts || 0,
+          receipt: { deferred_until: plan.resume_at },
+        }, { onConflict: 'notification_id,channel' });
+    }
+
+    const failed = outcomes.filter(o => o.status === 'failed');
+    const executionTime = Date.now() - startTime;
+
+    console.log('[NotificationDispatcher] Completed in', executionTime, 'ms', JSON.stringify(outcomes));
+
+    // Let the job queue retry the failed channels with backoff
+    if (failed.length > 0) {
+      throw new Error(`Delivery failed on ${failed.map(o => o.channel).join(', ')}`);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      notification_id: notification.id,
+      deliveries: outcomes,
+      deferred,
+      deferred_until: deferred.length > 0 ? plan.resume_at : null,
+      execution_time_ms: executionTime,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    console.error('[NotificationDispatcher] Error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_ORCHESTRATOR_DEFINITION,
+  parseOrchestratorDefinition,
+  transition,
+} from "../_shared/orchestrator/index.ts";
+import type { GuardContext, OrchestratorDefinition, TransitionOutcome } from "../_shared/orchestrator/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +19,9 @@ interface OrchestratorInput {
   event_data?: Record<string, unknown>;
 }
 
+// Side effects a definition may attach to a transition
+const ORCHESTRATOR_EFFECTS = ['run_intervention_agent'];
+
 interface AgentResult {
   agent: string;
   success: boolean;
@@ -43,7 +52,30 @@ serve(async (req) => {
     const results: AgentResult[] = [];
 
     // ========================================
-    // STEP 1: Get or create agent state
+    // STEP 1: Load state machine definition
+    // ========================================
+    const { data: definitionRow } = await supabase
+      .from('orchestrator_definitions')
+      .select('version, definition')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let definition: OrchestratorDefinition = DEFAULT_ORCHESTRATOR_DEFINITION;
+    let definitionError: string | null = null;
+
+    if (definitionRow) {
+      try {
+        definition = parseOrchestratorDefinition(definitionRow.definition, definitionRow.version, ORCHESTRATOR_EFFECTS);
+      } catch (error: unknown) {
+        definitionError = error instanceof Error ? error.message : 'Invalid definition';
+        console.error('[Orchestrator] Falling back to built-in definition:', definitionError);
+      }
+    }
+
+    // ========================================
+    // STEP 2: Get or create agent state
     // ========================================
     const { data: agentState, error: stateError } = await supabase
       .from('agent_states')
@@ -55,39 +87,46 @@ serve(async (req) => {
       console.error('[Orchestrator] Error fetching agent state:', stateError);
     }
 
-    let currentState = agentState?.current_state || 'idle';
     const stateData = agentState?.state_data || {};
+    const previousState = agentState?.current_state || definition.initial;
+    let currentState = previousState;
+
+    // States dropped from a newer definition restart from its initial state
+    if (!definition.states.includes(currentState)) {
+      console.warn('[Orchestrator] Unknown state', currentState, '- resetting to', definition.initial);
+      currentState = definition.initial;
+    }
+
+    console.log('[Orchestrator] Current state:', currentState, 'definition v' + definition.version);
 
-    console.log('[Orchestrator] Current state:', currentState, stateData);
+    const outcomes: TransitionOutcome[] = [];
+    const effects: string[] = [];
+
+    const applyEvent = (event: string, ctx: GuardContext) => {
+      const outcome = transition(definition, currentState, event, ctx);
+      outcomes.push(outcome);
+
+      if (outcome.status === 'applied') {
+        console.log('[Orchestrator] Transition:', outcome.from, '→', outcome.to, 'on', event);
+        currentState = outcome.to;
+        for (const effect of outcome.effects) {
+          if (!effects.includes(effect)) effects.push(effect);
+        }
+      } else if (outcome.status === 'rejected') {
+        console.warn('[Orchestrator] Rejected:', outcome.reason);
+      }
+    };
 
     // ========================================
-    // STEP 2: State machine transitions
+    // STEP 3: Apply the incoming event
     // ========================================
-    const stateTransitions: Record<string, Record<string, string>> = {
-      'idle': {
-        'app_open': 'monitoring',
-        'session_start': 'monitoring',
-      },
-      'monitoring': {
-        'app_close': 'idle',
-        'session_end': 'idle',
-        'high_risk_detected': 'intervening',
-        'critical_risk_detected': 'escalating',
-      },
-      'intervening': {
-        'intervention_acknowledged': 'monitoring',
-        'intervention_dismissed': 'monitoring',
-        'escalation_triggered': 'escalating',
-        'app_close': 'idle',
-      },
-      'escalating': {
-        'parent_notified': 'monitoring',
-        'app_close': 'idle',
-      },
-    };
+    applyEvent(input.event_type, {
+      risk_level: stateData.last_risk_level,
+      risk_score: stateData.last_risk_score,
+    });
 
     // ========================================
-    // STEP 3: Call Risk Agent
+    // STEP 4: Call Risk Agent
     // ========================================
     const riskAgentStart = Date.now();
     let riskResult: AgentResult;
@@ -125,21 +164,22 @@ serve(async (req) => {
     results.push(riskResult);
 
     // ========================================
-    // STEP 4: Determine if intervention needed
+    // STEP 5: Apply risk-driven transition
     // ========================================
-    let interventionResult: AgentResult | null = null;
     const riskLevel = riskResult.data?.risk_level as string;
     const riskScore = riskResult.data?.score as number;
 
     if (riskResult.success && (riskLevel === 'medium' || riskLevel === 'high' || riskLevel === 'critical')) {
-      console.log('[Orchestrator] Risk level triggers intervention:', riskLevel);
+      applyEvent(`${riskLevel}_risk_detected`, { risk_level: riskLevel, risk_score: riskScore });
+    }
 
-      // Update state machine
-      if (riskLevel === 'critical') {
-        currentState = stateTransitions[currentState]?.['critical_risk_detected'] || currentState;
-      } else if (riskLevel === 'high') {
-        currentState = stateTransitions[currentState]?.['high_risk_detected'] || currentState;
-      }
+    // ========================================
+    // STEP 6: Run side effects from applied transitions
+    // ========================================
+    let interventionResult: AgentResult | null = null;
+
+    if (effects.includes('run_intervention_agent')) {
+      console.log('[Orchestrator] Risk level triggers intervention:', riskLevel);
 
       // Call Intervention Agent
       const interventionStart = Date.now();
@@ -178,44 +218,47 @@ serve(async (req) => {
     }
 
     // ========================================
-    // STEP 5: Call Feedback Agent (async, for learning)
+    // STEP 7: Log rejected transitions
     // ========================================
-    if (input.event_type === 'intervention_acknowledged' || input.event_type === 'intervention_dismissed') {
-      const feedbackStart = Date.now();
-      try {
-        const feedbackResponse = await supabase.functions.invoke('feedback-agent', {
-          body: {
-            user_id: input.user_id,
-            intervention_id: input.event_data?.intervention_id,
-            feedback_type: input.event_type === 'intervention_acknowledged' ? 'effective' : 'ineffective',
-            context: input.event_data,
-          },
-        });
+    const rejected = outcomes.filter((o): o is Extract<TransitionOutcome, { status: 'rejected' }> => o.status === 'rejected');
 
-        results.push({
-          agent: 'feedback_agent',
-          success: !feedbackResponse.error,
-          data: feedbackResponse.data,
-          execution_time_ms: Date.now() - feedbackStart,
-        });
-      } catch (error: unknown) {
-        results.push({
-          agent: 'feedback_agent',
+    if (rejected.length > 0 || definitionError) {
+      await supabase.from('agent_logs').insert([
+        ...rejected.map((outcome) => ({
+          agent_type: 'orchestrator',
+          user_id: input.user_id,
+          session_id: input.session_id,
+          input_data: input,
+          output_data: {
+            rejected_transition: { from: outcome.from, event: outcome.event },
+            definition_version: definition.version,
+          },
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          execution_time_ms: Date.now() - feedbackStart,
-        });
-      }
+          error_message: outcome.reason,
+        })),
+        ...(definitionError
+          ? [{
+              agent_type: 'orchestrator',
+              user_id: input.user_id,
+              session_id: input.session_id,
+              input_data: { definition_version: definitionRow?.version },
+              output_data: {},
+              success: false,
+              error_message: definitionError,
+            }]
+          : []),
+      ]);
     }
 
     // ========================================
-    // STEP 6: Update agent state
+    // STEP 8: Update agent state
     // ========================================
     const newStateData = {
       ...stateData,
       last_event: input.event_type,
       last_risk_level: riskLevel,
       last_risk_score: riskScore,
+      definition_version: definition.version,
     };
 
     await supabase
@@ -224,11 +267,11 @@ serve(async (req) => {
         user_id: input.user_id,
         current_state: currentState,
         state_data: newStateData,
-        last_transition_at: new Date().toISOString(),
+        ...(currentState !== previousState && { last_transition_at: new Date().toISOString() }),
       }, { onConflict: 'user_id' });
 
     // ========================================
-    // STEP 7: Log orchestrator execution
+    // STEP 9: Log orchestrator execution
     // ========================================
     const totalExecutionTime = Date.now() - startTime;
 
@@ -239,7 +282,10 @@ serve(async (req) => {
       input_data: input,
       output_data: {
         results,
+        previous_state: previousState,
         final_state: currentState,
+        transitions: outcomes,
+        definition_version: definition.version,
         risk_level: riskLevel,
       },
       execution_time_ms: totalExecutionTime,
@@ -251,6 +297,7 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       success: true,
       state: currentState,
+      transitions: outcomes,
       risk_level: riskLevel,
       risk_score: riskScore,
       intervention: interventionResult?.data || null,
@@ -1,315 +1,1014 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ZodType, ZodTypeDef } from "zod";
+import { cancelJobs, JOB_TYPES } from "../_shared/jobs/index.ts";
+import { getGrantExpiry } from "../_shared/interventions/index.ts";
+import { startOfLocalDay, summarizeCategoryUsage } from "../_shared/risk/index.ts";
+import {
+  generateInvitationCode,
+  getChildGuardians,
+  getGuardianChildren,
+  getInvitationExpiry,
+  getRoleChangeRejection,
+  POLICY_EDITOR_ROLES,
+} from "../_shared/households/index.ts";
+import type { GuardianLink } from "../_shared/households/index.ts";
+import { canGuardianView, loadGuardianSharing, normalizeSharedScopes } from "../_shared/linking/index.ts";
+import type { GuardianSharing } from "../_shared/linking/index.ts";
+import { getRollbackUpdate, recordPolicyVersion, snapshotPolicy } from "../_shared/policies/index.ts";
+import type { PolicyDiff } from "../_shared/policies/index.ts";
+import {
+  childParamsSchema,
+  childStatsQuerySchema,
+  decodeCursor,
+  encodeCursor,
+  extensionDecisionSchema,
+  extensionRequestParamsSchema,
+  acceptInvitationSchema,
+  guardianInvitationSchema,
+  guardianParamsSchema,
+  guardianRoleUpdateSchema,
+  householdParamsSchema,
+  interventionsQuerySchema,
+  isV2Path,
+  matchRoute,
+  policyUpdateSchema,
+  policyVersionParamsSchema,
+  policyVersionsQuerySchema,
+  toValidationError,
+} from "../_shared/parent-api/index.ts";
+import type {
+  ChildSharing,
+  ChildSummary,
+  GuardianRole,
+  HouseholdSummary,
+  ParentApiErrorBody,
+  ParentApiResponses,
+  ParentApiRouteName,
+  PolicyVersionItem,
+} from "../_shared/parent-api/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
 };
 
+/** v1 request body: a single POST that switches on `action` */
 interface ParentAction {
-  action: 'get_children' | 'get_child_stats' | 'update_policy' | 'link_child' | 'get_interventions';
+  action: 'get_children' | 'get_child_stats' | 'update_policy' | 'get_interventions' | 'decide_extension';
   child_id?: string;
   policy_data?: Record<string, unknown>;
-  invite_code?: string;
+  request_id?: string;
+  decision?: 'approve' | 'deny';
+  granted_minutes?: number;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+interface RouteRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+type RouteHandler<N extends ParentApiRouteName> = (
+  supabase: SupabaseClient,
+  parentId: string,
+  request: RouteRequest
+) => Promise<ParentApiResponses[N]>;
+
+/** A failure with a status code; anything else thrown is a 500 */
+class ApiError extends Error {
+  constructor(public status: number, message: string, public body?: ParentApiErrorBody) {
+    super(message);
   }
+}
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
 
-    // Authenticate user
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+const parse = <T>(schema: ZodType<T, ZodTypeDef, unknown>, input: unknown): T => {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ApiError(422, 'Validation failed', toValidationError(result.error));
+  }
+  return result.data;
+};
+
+const parseCursor = (value: string | undefined) => {
+  const cursor = value ? decodeCursor(value) : null;
+  if (value && !cursor) {
+    throw new ApiError(422, 'Validation failed', {
+      success: false,
+      error: 'Validation failed',
+      issues: [{ path: 'cursor', message: 'Invalid cursor' }],
+    });
+  }
+  return cursor;
+};
+
+/**
+ * 403 unless the parent may edit the child's policy: view-only guardians
+ * can't, and adults manage their own
+ */
+const requirePolicyEditor = async (supabase: SupabaseClient, parentId: string, childId: string) => {
+  const role = await requireLinkedChild(supabase, parentId, childId);
+  if (!POLICY_EDITOR_ROLES.includes(role)) {
+    throw new ApiError(403, 'View-only guardians cannot change policies');
+  }
+
+  const sharing = (await loadGuardianSharing(supabase, [childId])).get(childId);
+  if (sharing?.adult_since) {
+    throw new ApiError(403, 'Adults manage their own policy');
+  }
+};
+
+const getLinkedChildIds = async (supabase: SupabaseClient, parentId: string): Promise<string[]> =>
+  (await getGuardianChildren(supabase, parentId)).map(child => child.id);
+
+/**
+ * 404 unless this parent is one of the child's guardians, so other
+ * families' children can't be probed for. Returns the parent's role.
+ */
+const requireLinkedChild = async (
+  supabase: SupabaseClient,
+  parentId: string,
+  childId: string
+): Promise<GuardianRole> => {
+  const link = (await getGuardianChildren(supabase, parentId)).find(child => child.id === childId);
+
+  if (!link) {
+    throw new ApiError(404, 'Child not found');
+  }
+
+  return link.role;
+};
+
+/**
+ * 404 unless the parent is in the household; 403 unless they're primary
+ */
+const requireHouseholdPrimary = async (supabase: SupabaseClient, parentId: string, householdId: string) => {
+  const { data: membership } = await supabase
+    .from('household_guardians')
+    .select('role')
+    .eq('household_id', householdId)
+    .eq('guardian_id', parentId)
+    .maybeSingle();
+
+  if (!membership) {
+    throw new ApiError(404, 'Household not found');
+  }
+  if (membership.role !== 'primary') {
+    throw new ApiError(403, 'Only primary guardians can manage the household');
+  }
+};
+
+/**
+ * The sharing settings a parent is shown; null for minors, who share everything
+ */
+const toChildSharing = (sharing: GuardianSharing | null): ChildSharing | null =>
+  sharing?.adult_since
+    ? { adult_since: sharing.adult_since, shared_scopes: normalizeSharedScopes(sharing.shared_scopes) }
+    : null;
+
+// ========================================
+// ROUTE HANDLERS
+// ========================================
+
+const handlers: { [N in ParentApiRouteName]: RouteHandler<N> } = {
+  listChildren: async (supabase, parentId) => {
+    const links: GuardianLink[] = await getGuardianChildren(supabase, parentId);
+
+    const childIds = links.map(l => l.id);
+    if (childIds.length === 0) {
+      return { children: [] };
+    }
+
+    // Linked since the invite code, or since joining the child's household
+    const { data: familyLinks } = await supabase
+      .from('family_links')
+      .select('youth_id, created_at')
+      .eq('parent_id', parentId)
+      .eq('is_active', true);
+
+    const { data: memberships } = await supabase
+      .from('household_children')
+      .select('youth_id, created_at')
+      .in('youth_id', childIds)
+      .order('created_at', { ascending: false });
+
+    const linkedAt = new Map<string, string>(memberships?.map(m => [m.youth_id, m.created_at]) || []);
+    familyLinks?.forEach(l => linkedAt.set(l.youth_id, l.created_at));
+    const directIds = new Set(familyLinks?.map(l => l.youth_id) || []);
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, avatar_url, timezone')
+      .in('user_id', childIds);
+
+    const { data: riskStates } = await supabase
+      .from('risk_states')
+      .select('*')
+      .in('user_id', childIds);
+
+    const sharingMap = await loadGuardianSharing(supabase, childIds);
+
+    const profileMap = new Map(profiles?.map(p => [p.user_id, p]) || []);
+    const riskMap = new Map(riskStates?.map(r => [r.user_id, r]) || []);
+    const now = new Date();
+
+    const children: ChildSummary[] = [];
+    for (const link of links) {
+      const profile = profileMap.get(link.id);
+      const riskState = riskMap.get(link.id);
+      const sharing = sharingMap.get(link.id) || null;
+      const showUsage = canGuardianView(sharing, 'usage');
+      const showInterventions = canGuardianView(sharing, 'interventions');
+      const dayStart = startOfLocalDay(now, profile?.timezone || 'UTC').toISOString();
+
+      const { count: sessionCount } = showUsage
+        ? await supabase
+            .from('sessions')
+            .select('*', { count: 'exact', head: true })
+            .eq('user_id', link.id)
+            .gte('started_at', dayStart)
+        : { count: null };
+
+      const { count: interventionCount } = showInterventions
+        ? await supabase
+            .from('interventions')
+            .select('*', { count: 'exact', head: true })
+            .eq('user_id', link.id)
+            .gte('created_at', dayStart)
+        : { count: null };
+
+      children.push({
+        id: link.id,
+        display_name: profile?.display_name || null,
+        avatar_url: profile?.avatar_url || null,
+        linked_at: linkedAt.get(link.id) || new Date().toISOString(),
+        direct_link: directIds.has(link.id),
+        role: link.role,
+        sharing: toChildSharing(sharing),
+        risk_state: canGuardianView(sharing, 'risk') ? {
+          current_level: riskState?.current_level || 'low',
+          score: riskState?.score || 0,
+          updated_at: riskState?.updated_at || null,
+          session_duration_factor: riskState?.session_duration_factor || 0,
+          reopen_frequency_factor: riskState?.reopen_frequency_factor || 0,
+          late_night_factor: riskState?.late_night_factor || 0,
+          scroll_velocity_factor: riskState?.scroll_velocity_factor || 0,
+          explanation: riskState?.explanation || null,
+        } : null,
+        today: {
+          session_count: showUsage ? sessionCount || 0 : null,
+          intervention_count: showInterventions ? interventionCount || 0 : null,
+        },
       });
     }
 
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    return { children };
+  },
+
+  getChildStats: async (supabase, parentId, request) => {
+    const { childId } = parse(childParamsSchema, request.params);
+    const { days } = parse(childStatsQuerySchema, request.query);
+
+    await requireLinkedChild(supabase, parentId, childId);
+
+    const sharing = (await loadGuardianSharing(supabase, [childId])).get(childId) || null;
+    const showRisk = canGuardianView(sharing, 'risk');
+
+    const { data: riskState } = showRisk
+      ? await supabase
+          .from('risk_states')
+          .select('*')
+          .eq('user_id', childId)
+          .maybeSingle()
+      : { data: null };
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { data: sessions } = canGuardianView(sharing, 'usage')
+      ? await supabase
+          .from('sessions')
+          .select('started_at, ended_at, duration_seconds, reopen_count, category')
+          .eq('user_id', childId)
+          .gte('started_at', since)
+          .order('started_at', { ascending: false })
+      : { data: null };
+
+    const { data: interventions } = canGuardianView(sharing, 'interventions')
+      ? await supabase
+          .from('interventions')
+          .select('type, status, risk_level_at_trigger, created_at')
+          .eq('user_id', childId)
+          .gte('created_at', since)
+          .order('created_at', { ascending: false })
+      : { data: null };
+
+    const totalScreenTime = sessions?.reduce((sum, s) => sum + (s.duration_seconds || 0), 0) || 0;
+    const totalReopens = sessions?.reduce((sum, s) => sum + (s.reopen_count || 0), 0) || 0;
+    const avgSessionDuration = sessions?.length
+      ? Math.round(totalScreenTime / sessions.length)
+      : 0;
+
+    const interventionStats = {
+      total: interventions?.length || 0,
+      acknowledged: interventions?.filter(i => i.status === 'acknowledged').length || 0,
+      dismissed: interventions?.filter(i => i.status === 'dismissed').length || 0,
+      by_type: {} as Record<string, number>,
+    };
+
+    interventions?.forEach(i => {
+      interventionStats.by_type[i.type] = (interventionStats.by_type[i.type] || 0) + 1;
+    });
 
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const { data: riskHistory } = showRisk
+      ? await supabase
+          .from('risk_history')
+          .select('new_level, score, created_at')
+          .eq('user_id', childId)
+          .gte('created_at', since)
+          .order('created_at', { ascending: true })
+      : { data: null };
+
+    return {
+      child_id: childId,
+      sharing: toChildSharing(sharing),
+      risk_state: riskState,
+      stats: {
+        period_days: days,
+        total_screen_time_seconds: totalScreenTime,
+        total_screen_time_hours: Math.round(totalScreenTime / 3600 * 10) / 10,
+        session_count: sessions?.length || 0,
+        avg_session_duration_seconds: avgSessionDuration,
+        total_reopens: totalReopens,
+        interventions: interventionStats,
+        category_breakdown: summarizeCategoryUsage(sessions || []),
+      },
+      risk_history: riskHistory || [],
+      recent_sessions: sessions?.slice(0, 10) || [],
+    };
+  },
+
+  updateChildPolicy: async (supabase, parentId, request) => {
+    const { childId } = parse(childParamsSchema, request.params);
+    const update = parse(policyUpdateSchema, request.body);
+
+    await requirePolicyEditor(supabase, parentId, childId);
+
+    const { data: previous } = await supabase
+      .from('policies')
+      .select('*')
+      .eq('owner_id', parentId)
+      .eq('target_user_id', childId)
+      .maybeSingle();
+
+    // Each guardian keeps their own row; the child gets the stricter merge
+    const { data: policy, error } = await supabase
+      .from('policies')
+      .upsert({
+        owner_id: parentId,
+        target_user_id: childId,
+        name: 'Policy for child',
+        is_active: true,
+        ...update,
+      }, { onConflict: 'owner_id,target_user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
     }
 
-    const parentId = user.id;
+    const version = await recordPolicyVersion(supabase, {
+      policy,
+      previous,
+      authorId: parentId,
+      changeType: previous ? 'update' : 'create',
+    });
 
-    // Verify parent role
-    const { data: roleCheck } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', parentId)
-      .eq('role', 'parent')
+    return { policy: version ? { ...policy, current_version_id: version.id } : policy };
+  },
+
+  listPolicyVersions: async (supabase, parentId, request) => {
+    const { childId } = parse(childParamsSchema, request.params);
+    const query = parse(policyVersionsQuerySchema, request.query);
+    const cursor = parseCursor(query.cursor);
+
+    await requireLinkedChild(supabase, parentId, childId);
+
+    // Every guardian's policy for the child, so anyone can see who changed what
+    const guardianIds = (await getChildGuardians(supabase, childId)).map(g => g.id);
+    const { data: policies } = await supabase
+      .from('policies')
+      .select('id, owner_id, current_version_id')
+      .eq('target_user_id', childId)
+      .in('owner_id', guardianIds);
+
+    if (!policies?.length) {
+      return { versions: [], next_cursor: null };
+    }
+
+    let versionQuery = supabase
+      .from('policy_versions')
+      .select('id, policy_id, version, author_id, change_type, restored_version_id, diff, created_at')
+      .in('policy_id', policies.map(p => p.id))
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1);
+
+    if (cursor) {
+      versionQuery = versionQuery.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data: rows, error } = await versionQuery;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const page = (rows || []).slice(0, query.limit);
+    const hasMore = (rows?.length || 0) > query.limit;
+    const policyMap = new Map(policies.map(p => [p.id, p]));
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', [...new Set([...guardianIds, ...page.map(v => v.author_id).filter(Boolean)])]);
+
+    const names = new Map(profiles?.map(p => [p.user_id, p.display_name]) || []);
+    const last = page[page.length - 1];
+
+    const versions: PolicyVersionItem[] = page.map(v => {
+      const policy = policyMap.get(v.policy_id)!;
+      return {
+        id: v.id,
+        policy_id: v.policy_id,
+        owner_id: policy.owner_id,
+        owner_name: names.get(policy.owner_id) || null,
+        version: v.version,
+        author_id: v.author_id,
+        author_name: v.author_id ? names.get(v.author_id) || null : null,
+        change_type: v.change_type,
+        restored_version_id: v.restored_version_id,
+        diff: (v.diff || {}) as PolicyDiff,
+        created_at: v.created_at,
+        is_current: policy.current_version_id === v.id,
+      };
+    });
+
+    return {
+      versions,
+      next_cursor: hasMore && last ? encodeCursor({ created_at: last.created_at, id: last.id }) : null,
+    };
+  },
+
+  rollbackPolicy: async (supabase, parentId, request) => {
+    const { childId, versionId } = parse(policyVersionParamsSchema, request.params);
+
+    await requirePolicyEditor(supabase, parentId, childId);
+
+    const { data: target } = await supabase
+      .from('policy_versions')
+      .select('id, policy_id, snapshot')
+      .eq('id', versionId)
+      .maybeSingle();
+
+    const { data: current } = target
+      ? await supabase
+          .from('policies')
+          .select('*')
+          .eq('id', target.policy_id)
+          .maybeSingle()
+      : { data: null };
+
+    if (!target || !current || current.target_user_id !== childId) {
+      throw new ApiError(404, 'Version not found');
+    }
+    if (current.owner_id !== parentId) {
+      throw new ApiError(403, 'You can only roll back your own policy');
+    }
+
+    const update = getRollbackUpdate(snapshotPolicy(current), target.snapshot);
+    if (Object.keys(update).length === 0) {
+      throw new ApiError(409, 'The policy already matches that version');
+    }
+
+    const { data: policy, error } = await supabase
+      .from('policies')
+      .update(update)
+      .eq('id', current.id)
+      .select()
       .single();
 
-    if (!roleCheck) {
-      return new Response(JSON.stringify({ error: 'Parent role required' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    if (error) {
+      throw new Error(error.message);
     }
 
-    const payload: ParentAction = await req.json();
-    console.log('[ParentAPI] Action:', payload.action, 'Parent:', parentId);
+    const version = await recordPolicyVersion(supabase, {
+      policy,
+      previous: current,
+      authorId: parentId,
+      changeType: 'rollback',
+      restoredVersionId: target.id,
+    });
 
-    // ========================================
-    // ACTION: GET CHILDREN
-    // ========================================
+    console.log('[ParentAPI] Policy', current.id, 'rolled back to version', target.id);
+
+    return { policy: version ? { ...policy, current_version_id: version.id } : policy };
+  },
+
+  listInterventions: async (supabase, parentId, request) => {
+    const query = parse(interventionsQuerySchema, request.query);
 
-    if (payload.action === 'get_children') {
-      const { data: children, error } = await supabase
-        .from('family_links')
-        .select(`
-          youth_id,
-          is_active,
-          created_at,
-          profiles!family_links_youth_id_fkey(display_name, avatar_url)
-        `)
-        .eq('parent_id', parentId)
-        .eq('is_active', true);
-
-      if (error) {
-        throw new Error(error.message);
+    const cursor = parseCursor(query.cursor);
+
+    // Adults who don't share their nudges drop out of the feed
+    const linkedIds = await getLinkedChildIds(supabase, parentId);
+    const sharingMap = await loadGuardianSharing(supabase, linkedIds);
+    let childIds = linkedIds.filter(id => canGuardianView(sharingMap.get(id) || null, 'interventions'));
+    if (query.child_id) {
+      if (!linkedIds.includes(query.child_id)) {
+        throw new ApiError(404, 'Child not found');
       }
+      childIds = childIds.filter(id => id === query.child_id);
+    }
 
-      // Get risk states for each child
-      const childIds = children?.map(c => c.youth_id) || [];
-      const { data: riskStates } = await supabase
-        .from('risk_states')
-        .select('user_id, current_level, score, last_evaluated_at')
-        .in('user_id', childIds);
-
-      const riskMap = new Map(riskStates?.map(r => [r.user_id, r]) || []);
-
-      const enrichedChildren = children?.map(child => {
-        const profile = child.profiles as unknown as { display_name: string; avatar_url: string } | null;
-        return {
-          id: child.youth_id,
-          display_name: profile?.display_name,
-          avatar_url: profile?.avatar_url,
-          linked_at: child.created_at,
-          risk_state: riskMap.get(child.youth_id) || { current_level: 'low', score: 0 },
-        };
-      });
+    if (childIds.length === 0) {
+      return { interventions: [], next_cursor: null };
+    }
+
+    // One extra row tells us whether there's another page
+    let interventionQuery = supabase
+      .from('interventions')
+      .select('id, user_id, type, status, title, risk_level_at_trigger, created_at, escalated_at, escalated_from')
+      .in('user_id', childIds)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1);
+
+    if (cursor) {
+      interventionQuery = interventionQuery.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
 
-      return new Response(JSON.stringify({
-        success: true,
-        children: enrichedChildren,
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    const { data: rows, error } = await interventionQuery;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const page = (rows || []).slice(0, query.limit);
+    const hasMore = (rows?.length || 0) > query.limit;
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', [...new Set(page.map(i => i.user_id))]);
+
+    const names = new Map(profiles?.map(p => [p.user_id, p.display_name]) || []);
+    const last = page[page.length - 1];
+
+    return {
+      interventions: page.map(i => ({
+        id: i.id,
+        child_id: i.user_id,
+        child_name: names.get(i.user_id) || null,
+        type: i.type,
+        status: i.status,
+        title: i.title,
+        risk_level: i.risk_level_at_trigger,
+        created_at: i.created_at,
+        escalated_at: i.escalated_at,
+        escalated_from: i.escalated_from,
+      })),
+      next_cursor: hasMore && last ? encodeCursor({ created_at: last.created_at, id: last.id }) : null,
+    };
+  },
+
+  decideExtensionRequest: async (supabase, parentId, request) => {
+    const { requestId } = parse(extensionRequestParamsSchema, request.params);
+    const body = parse(extensionDecisionSchema, request.body);
+
+    const { data: extension } = await supabase
+      .from('time_extension_requests')
+      .select('*')
+      .eq('id', requestId)
+      .maybeSingle();
+
+    const childIds = extension ? await getLinkedChildIds(supabase, parentId) : [];
+    if (!extension || !childIds.includes(extension.youth_id)) {
+      throw new ApiError(404, 'Request not found');
+    }
+
+    const now = new Date();
+    if (extension.status !== 'pending' || new Date(extension.expires_at) <= now) {
+      throw new ApiError(409, extension.status === 'pending' ? 'Request expired' : `Request already ${extension.status}`);
+    }
+
+    const grantedMinutes = body.granted_minutes ?? extension.requested_minutes;
+    if (body.decision === 'approve' && grantedMinutes > extension.requested_minutes) {
+      throw new ApiError(422, 'Validation failed', {
+        success: false,
+        error: 'Validation failed',
+        issues: [{ path: 'granted_minutes', message: `Must be at most ${extension.requested_minutes}` }],
       });
     }
 
-    // ========================================
-    // ACTION: GET CHILD STATS
-    // ========================================
+    // The status filter stops a second parent deciding at the same time
+    const { data: decided, error } = await supabase
+      .from('time_extension_requests')
+      .update(body.decision === 'approve'
+        ? {
+            status: 'approved',
+            granted_minutes: grantedMinutes,
+            decided_by: parentId,
+            decided_at: now.toISOString(),
+            expires_at: getGrantExpiry(now, grantedMinutes),
+          }
+        : {
+            status: 'denied',
+            decided_by: parentId,
+            decided_at: now.toISOString(),
+          })
+      .eq('id', extension.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!decided) {
+      throw new ApiError(409, 'Request already decided');
+    }
+
+    await cancelJobs(supabase, JOB_TYPES.EXPIRE_EXTENSION_REQUEST, 'request_id', extension.id);
 
-    if (payload.action === 'get_child_stats') {
-      if (!payload.child_id) {
-        throw new Error('child_id required');
+    // Re-score now so the raised daily limit shows up straight away
+    if (decided.status === 'approved') {
+      const riskResponse = await supabase.functions.invoke('risk-agent', {
+        body: {
+          user_id: extension.youth_id,
+          event_type: 'time_extension_granted',
+          event_data: { request_id: extension.id, granted_minutes: grantedMinutes },
+        },
+      });
+      if (riskResponse.error) {
+        console.error('[ParentAPI] Risk re-evaluation failed:', riskResponse.error);
       }
 
-      // Verify parent-child relationship
-      const { data: link } = await supabase
-        .from('family_links')
-        .select('id')
-        .eq('parent_id', parentId)
-        .eq('youth_id', payload.child_id)
-        .eq('is_active', true)
-        .single();
-
-      if (!link) {
-        return new Response(JSON.stringify({ error: 'Not authorized to view this child' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      // The request left the intervention open; approval is what settles it
+      if (extension.intervention_id) {
+        const feedbackResponse = await supabase.functions.invoke('feedback-agent', {
+          body: {
+            user_id: extension.youth_id,
+            intervention_id: extension.intervention_id,
+            feedback_type: 'effective',
+            context: {
+              action: 'request_extension',
+              requested_extension: true,
+              extension_request_id: extension.id,
+              granted_minutes: grantedMinutes,
+            },
+          },
         });
+        if (feedbackResponse.error) {
+          console.error('[ParentAPI] Extension feedback failed:', feedbackResponse.error);
+        }
       }
+    }
 
-      // Get risk state
-      const { data: riskState } = await supabase
-        .from('risk_states')
-        .select('*')
-        .eq('user_id', payload.child_id)
-        .single();
-
-      // Get recent sessions (last 7 days)
-      const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-      const { data: sessions } = await supabase
-        .from('sessions')
-        .select('started_at, ended_at, duration_seconds, reopen_count')
-        .eq('user_id', payload.child_id)
-        .gte('started_at', sevenDaysAgo)
-        .order('started_at', { ascending: false });
-
-      // Get recent interventions
-      const { data: interventions } = await supabase
-        .from('interventions')
-        .select('type, status, risk_level_at_trigger, created_at')
-        .eq('user_id', payload.child_id)
-        .gte('created_at', sevenDaysAgo)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      // Calculate stats
-      const totalScreenTime = sessions?.reduce((sum, s) => sum + (s.duration_seconds || 0), 0) || 0;
-      const totalReopens = sessions?.reduce((sum, s) => sum + (s.reopen_count || 0), 0) || 0;
-      const avgSessionDuration = sessions?.length 
-        ? Math.round(totalScreenTime / sessions.length) 
-        : 0;
-
-      const interventionStats = {
-        total: interventions?.length || 0,
-        acknowledged: interventions?.filter(i => i.status === 'acknowledged').length || 0,
-        dismissed: interventions?.filter(i => i.status === 'dismissed').length || 0,
-        by_type: {} as Record<string, number>,
-      };
+    console.log('[ParentAPI] Extension', extension.id, decided.status);
 
-      interventions?.forEach(i => {
-        interventionStats.by_type[i.type] = (interventionStats.by_type[i.type] || 0) + 1;
-      });
+    return { request: decided };
+  },
 
-      // Get risk history
-      const { data: riskHistory } = await supabase
-        .from('risk_history')
-        .select('new_level, score, created_at')
-        .eq('user_id', payload.child_id)
-        .gte('created_at', sevenDaysAgo)
-        .order('created_at', { ascending: true });
-
-      return new Response(JSON.stringify({
-        success: true,
-        child_id: payload.child_id,
-        risk_state: riskState,
-        stats: {
-          period_days: 7,
-          total_screen_time_seconds: totalScreenTime,
-          total_screen_time_hours: Math.round(totalScreenTime / 3600 * 10) / 10,
-          session_count: sessions?.length || 0,
-          avg_session_duration_seconds: avgSessionDuration,
-          total_reopens: totalReopens,
-          interventions: interventionStats,
-        },
-        risk_history: riskHistory,
-        recent_sessions: sessions?.slice(0, 10),
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+  listHouseholds: async (supabase, parentId) => {
+    const { data: memberships, error } = await supabase
+      .from('household_guardians')
+      .select('household_id, role')
+      .eq('guardian_id', parentId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const householdIds = memberships?.map(m => m.household_id) || [];
+    if (householdIds.length === 0) {
+      return { households: [] };
+    }
+
+    const { data: households } = await supabase
+      .from('households')
+      .select('id, name')
+      .in('id', householdIds)
+      .order('created_at', { ascending: true });
+
+    const { data: guardians } = await supabase
+      .from('household_guardians')
+      .select('household_id, guardian_id, role')
+      .in('household_id', householdIds)
+      .order('created_at', { ascending: true });
+
+    const { data: children } = await supabase
+      .from('household_children')
+      .select('household_id, youth_id')
+      .in('household_id', householdIds)
+      .order('created_at', { ascending: true });
+
+    const roles = new Map<string, GuardianRole>(memberships!.map(m => [m.household_id, m.role]));
+    const primaryOf = householdIds.filter(id => roles.get(id) === 'primary');
+
+    const { data: invitations } = primaryOf.length
+      ? await supabase
+          .from('guardian_invitations')
+          .select('id, household_id, code, role, expires_at')
+          .in('household_id', primaryOf)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+      : { data: [] };
+
+    const userIds = [...new Set([
+      ...(guardians?.map(g => g.guardian_id) || []),
+      ...(children?.map(c => c.youth_id) || []),
+    ])];
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name')
+      .in('user_id', userIds);
+
+    const names = new Map(profiles?.map(p => [p.user_id, p.display_name]) || []);
+
+    const summaries: HouseholdSummary[] = (households || []).map(h => ({
+      id: h.id,
+      name: h.name,
+      my_role: roles.get(h.id)!,
+      guardians: (guardians || [])
+        .filter(g => g.household_id === h.id)
+        .map(g => ({ id: g.guardian_id, display_name: names.get(g.guardian_id) || null, role: g.role })),
+      children: (children || [])
+        .filter(c => c.household_id === h.id)
+        .map(c => ({ id: c.youth_id, display_name: names.get(c.youth_id) || null })),
+      pending_invitations: (invitations || []).filter(i => i.household_id === h.id),
+    }));
+
+    return { households: summaries };
+  },
+
+  createGuardianInvitation: async (supabase, parentId, request) => {
+    const { householdId } = parse(householdParamsSchema, request.params);
+    const { role } = parse(guardianInvitationSchema, request.body ?? {});
+
+    await requireHouseholdPrimary(supabase, parentId, householdId);
+
+    const { data: invitation, error } = await supabase
+      .from('guardian_invitations')
+      .insert({
+        household_id: householdId,
+        invited_by: parentId,
+        code: generateInvitationCode(),
+        role,
+        expires_at: getInvitationExpiry(new Date()),
+      })
+      .select('id, household_id, code, role, expires_at')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log('[ParentAPI] Invitation created for household', householdId, 'as', role);
+
+    return { invitation };
+  },
+
+  acceptGuardianInvitation: async (supabase, parentId, request) => {
+    const { code } = parse(acceptInvitationSchema, request.body);
+
+    const { data: invitation } = await supabase
+      .from('guardian_invitations')
+      .select('*')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (!invitation) {
+      throw new ApiError(404, 'Invitation not found');
+    }
+
+    const now = new Date();
+    if (invitation.status !== 'pending' || new Date(invitation.expires_at) <= now) {
+      if (invitation.status === 'pending') {
+        await supabase.from('guardian_invitations').update({ status: 'expired' }).eq('id', invitation.id);
+      }
+      throw new ApiError(409, invitation.status === 'pending' ? 'Invitation expired' : `Invitation already ${invitation.status}`);
     }
 
+    const { data: existing } = await supabase
+      .from('household_guardians')
+      .select('id')
+      .eq('household_id', invitation.household_id)
+      .eq('guardian_id', parentId)
+      .maybeSingle();
+
+    if (existing) {
+      throw new ApiError(409, 'Already a guardian in this household');
+    }
+
+    // The status filter keeps the code single use under concurrent accepts
+    const { data: accepted } = await supabase
+      .from('guardian_invitations')
+      .update({ status: 'accepted', accepted_by: parentId, accepted_at: now.toISOString() })
+      .eq('id', invitation.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (!accepted) {
+      throw new ApiError(409, 'Invitation already used');
+    }
+
+    const { error } = await supabase
+      .from('household_guardians')
+      .insert({ household_id: invitation.household_id, guardian_id: parentId, role: invitation.role });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log('[ParentAPI] Guardian', parentId, 'joined household', invitation.household_id);
+
+    return { household_id: invitation.household_id, role: invitation.role };
+  },
+
+  updateGuardianRole: async (supabase, parentId, request) => {
+    const { householdId, guardianId } = parse(guardianParamsSchema, request.params);
+    const { role } = parse(guardianRoleUpdateSchema, request.body);
+
+    await requireHouseholdPrimary(supabase, parentId, householdId);
+
+    const { data: guardians, error: loadError } = await supabase
+      .from('household_guardians')
+      .select('guardian_id, role')
+      .eq('household_id', householdId);
+
+    if (loadError) {
+      throw new Error(loadError.message);
+    }
+
+    const rejection = getRoleChangeRejection(guardians || [], guardianId, role);
+    if (rejection) {
+      throw new ApiError(rejection === 'Guardian not found' ? 404 : 409, rejection);
+    }
+
+    const { error } = await supabase
+      .from('household_guardians')
+      .update({ role })
+      .eq('household_id', householdId)
+      .eq('guardian_id', guardianId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('display_name')
+      .eq('user_id', guardianId)
+      .maybeSingle();
+
+    console.log('[ParentAPI] Guardian', guardianId, 'is now', role, 'in household', householdId);
+
+    return { guardian: { id: guardianId, display_name: profile?.display_name || null, role } };
+  },
+};
+
+/**
+ * Map a v1 action body onto the v2 route it became
+ */
+function fromLegacyAction(payload: ParentAction): { name: ParentApiRouteName; request: RouteRequest } {
+  const params = {
+    ...(payload.child_id && { childId: payload.child_id }),
+    ...(payload.request_id && { requestId: payload.request_id }),
+  };
+
+  switch (payload.action) {
+    case 'get_children':
+      return { name: 'listChildren', request: { params, query: {}, body: undefined } };
+    case 'get_child_stats':
+      return { name: 'getChildStats', request: { params, query: {}, body: undefined } };
+    case 'update_policy':
+      return { name: 'updateChildPolicy', request: { params, query: {}, body: payload.policy_data } };
+    case 'get_interventions':
+      return { name: 'listInterventions', request: { params, query: { limit: '50' }, body: undefined } };
+    case 'decide_extension':
+      return {
+        name: 'decideExtensionRequest',
+        request: {
+          params,
+          query: {},
+          body: { decision: payload.decision, granted_minutes: payload.granted_minutes },
+        },
+      };
+    default:
+      throw new ApiError(400, 'Invalid action');
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
     // ========================================
-    // ACTION: UPDATE POLICY
+    // AUTHENTICATE
     // ========================================
 
-    if (payload.action === 'update_policy') {
-      if (!payload.child_id || !payload.policy_data) {
-        throw new Error('child_id and policy_data required');
-      }
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new ApiError(401, 'Missing authorization header');
+    }
 
-      // Verify parent-child relationship
-      const { data: link } = await supabase
-        .from('family_links')
-        .select('id')
-        .eq('parent_id', parentId)
-        .eq('youth_id', payload.child_id)
-        .eq('is_active', true)
-        .single();
-
-      if (!link) {
-        return new Response(JSON.stringify({ error: 'Not authorized' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
 
-      // Upsert policy
-      const { data: policy, error } = await supabase
-        .from('policies')
-        .upsert({
-          owner_id: parentId,
-          target_user_id: payload.child_id,
-          name: `Policy for child`,
-          is_active: true,
-          ...payload.policy_data,
-        }, { onConflict: 'owner_id,target_user_id' })
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(error.message);
-      }
+    if (authError || !user) {
+      throw new ApiError(401, 'Invalid token');
+    }
 
-      return new Response(JSON.stringify({
-        success: true,
-        policy,
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const parentId = user.id;
+
+    const { data: roleCheck } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', parentId)
+      .eq('role', 'parent')
+      .maybeSingle();
+
+    if (!roleCheck) {
+      throw new ApiError(403, 'Parent role required');
     }
 
     // ========================================
-    // ACTION: GET INTERVENTIONS
+    // ROUTE
     // ========================================
 
-    if (payload.action === 'get_interventions') {
-      // Get all children's interventions
-      const { data: links } = await supabase
-        .from('family_links')
-        .select('youth_id')
-        .eq('parent_id', parentId)
-        .eq('is_active', true);
-
-      const childIds = links?.map(l => l.youth_id) || [];
-
-      if (childIds.length === 0) {
-        return new Response(JSON.stringify({
-          success: true,
-          interventions: [],
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
+    const url = new URL(req.url);
+    let name: ParentApiRouteName;
+    let request: RouteRequest;
+
+    if (isV2Path(url.pathname)) {
+      const match = matchRoute(req.method, url.pathname);
+
+      if (match.status === 'not_found') {
+        throw new ApiError(404, 'Route not found');
+      }
+      if (match.status === 'method_not_allowed') {
+        return json({ success: false, error: 'Method not allowed' }, 405, { Allow: match.allowed.join(', ') });
       }
 
-      const { data: interventions } = await supabase
-        .from('interventions')
-        .select(`
-          *,
-          profiles!interventions_user_id_fkey(display_name)
-        `)
-        .in('user_id', childIds)
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      return new Response(JSON.stringify({
-        success: true,
-        interventions: interventions?.map(i => ({
-          ...i,
-          child_name: i.profiles?.display_name,
-        })),
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      const hasBody = req.method === 'POST' || req.method === 'PATCH';
+      const body = hasBody
+        ? await req.json().catch(() => {
+            throw new ApiError(400, 'Request body must be JSON');
+          })
+        : undefined;
+
+      name = match.name;
+      request = { params: match.params, query: Object.fromEntries(url.searchParams), body };
+    } else {
+      const payload: ParentAction = await req.json().catch(() => {
+        throw new ApiError(400, 'Request body must be JSON');
       });
+      ({ name, request } = fromLegacyAction(payload));
     }
 
-    throw new Error('Invalid action');
+    console.log('[ParentAPI] Route:', name, 'Parent:', parentId);
+
+    const handler = handlers[name] as RouteHandler<typeof name>;
+    const result = await handler(supabase, parentId, request);
+
+    return json({ success: true, ...result });
 
   } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return json(error.body || { success: false, error: error.message }, error.status);
+    }
+
     console.error('[ParentAPI] Error:', error);
-    return new Response(JSON.stringify({
+    return json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-    }), {
-      status: 400,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    }, 500);
   }
 });
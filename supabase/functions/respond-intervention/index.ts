@@ -1,5 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cancelJobs, enqueueJob, JOB_TYPES, kickJobWorker } from "../_shared/jobs/index.ts";
+import {
+  getExtensionRequestRejection,
+  getRequestExpiry,
+  planSnooze,
+  RESOLVED_INTERVENTION_STATUSES,
+} from "../_shared/interventions/index.ts";
+import { startOfLocalDay } from "../_shared/risk/index.ts";
+import { getChildGuardians, loadEffectivePolicy } from "../_shared/households/index.ts";
+import { buildExtensionRequestAlert, notifyParents } from "../_shared/notifications/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,6 +20,8 @@ interface ResponsePayload {
   intervention_id: string;
   action: 'acknowledge' | 'dismiss' | 'request_extension' | 'snooze';
   context?: Record<string, unknown>;
+  /** What the SDK sends in place of `context` */
+  response_data?: Record<string, unknown>;
 }
 
 serve(async (req) => {
@@ -74,8 +86,12 @@ serve(async (req) => {
     // ========================================
 
     let newStatus: string;
-    let feedbackType: string;
+    let feedbackType: string | null;
     let additionalUpdates: Record<string, unknown> = {};
+    let extensionRequestId: string | null = null;
+    let snoozedUntil: string | null = null;
+    let autoEscalated = false;
+    let escalationCancelled = false;
 
     switch (payload.action) {
       case 'acknowledge':
@@ -90,27 +106,214 @@ serve(async (req) => {
         additionalUpdates.dismissed_at = new Date().toISOString();
         break;
       
-      case 'request_extension':
-        // This would need parent approval in a real app
-        newStatus = 'acknowledged';
-        feedbackType = 'effective';
-        additionalUpdates.acknowledged_at = new Date().toISOString();
+      case 'request_extension': {
+        const details = { ...payload.response_data, ...payload.context };
+        const now = new Date();
+
+        // Nobody approves an adult's time; they change their own limits
+        const { data: sharing } = await supabase
+          .from('guardian_sharing')
+          .select('adult_since')
+          .eq('youth_id', userId)
+          .maybeSingle();
+
+        if (sharing?.adult_since) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'You set your own limits now; change them in Settings',
+          }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Without a guardian the request would only sit there until it expires
+        const guardians = await getChildGuardians(supabase, userId);
+        if (guardians.length === 0) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'No parent is linked to approve extra time',
+          }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Requests whose expiry job hasn't run yet shouldn't block a new one
+        await supabase
+          .from('time_extension_requests')
+          .update({ status: 'expired' })
+          .eq('youth_id', userId)
+          .eq('status', 'pending')
+          .lte('expires_at', now.toISOString());
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('display_name, timezone')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        const policy = await loadEffectivePolicy<{
+          max_extension_requests_per_day: number | null;
+          max_extension_minutes: number | null;
+        }>(supabase, userId);
+
+        const dayStart = startOfLocalDay(now, profile?.timezone || 'UTC').toISOString();
+        const { data: todaysRequests } = await supabase
+          .from('time_extension_requests')
+          .select('status')
+          .eq('youth_id', userId)
+          .gte('created_at', dayStart);
+
+        const rejection = getExtensionRequestRejection(
+          { minutes: details.minutes, reason: details.reason },
+          {
+            requestsToday: todaysRequests?.length || 0,
+            hasPendingRequest: (todaysRequests || []).some(r => r.status === 'pending'),
+          },
+          policy
+        );
+
+        if (rejection) {
+          return new Response(JSON.stringify({ success: false, error: rejection.message }), {
+            status: rejection.code === 'rate_limited' ? 429 : 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const minutes = details.minutes as number;
+        const reason = (details.reason as string | undefined)?.trim() || null;
+
+        const { data: request, error: requestError } = await supabase
+          .from('time_extension_requests')
+          .insert({
+            youth_id: userId,
+            intervention_id: payload.intervention_id,
+            requested_minutes: minutes,
+            reason,
+            expires_at: getRequestExpiry(now),
+          })
+          .select('id')
+          .single();
+
+        if (requestError) {
+          // The one-pending-request index caught a concurrent request
+          if (requestError.code === '23505') {
+            return new Response(JSON.stringify({
+              success: false,
+              error: 'You already have a request waiting for a parent',
+            }), {
+              status: 429,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+          throw new Error(`Failed to create extension request: ${requestError.message}`);
+        }
+
+        await enqueueJob(supabase, {
+          job_type: JOB_TYPES.EXPIRE_EXTENSION_REQUEST,
+          user_id: userId,
+          payload: { request_id: request.id },
+          run_at: getRequestExpiry(now),
+        });
+
+        await notifyParents(supabase, userId, {
+          category: 'extension_request',
+          ...buildExtensionRequestAlert({ child_name: profile?.display_name || null, minutes, reason }),
+          intervention_id: payload.intervention_id,
+          data: { request_id: request.id, minutes },
+        });
+
+        console.log('[RespondIntervention] Extension requested:', request.id, minutes, 'min');
+
+        // Nothing is settled until a parent decides: the status stays put and
+        // the outcome goes to feedback-agent when the request is approved.
+        // Parents are already being asked, so the escalation timer stops here.
+        newStatus = intervention.status;
+        feedbackType = null;
+        escalationCancelled = await cancelJobs(
+          supabase,
+          JOB_TYPES.ESCALATE_INTERVENTION,
+          'intervention_id',
+          payload.intervention_id
+        ) > 0;
         additionalUpdates.user_response = { 
           ...payload.context, 
-          requested_extension: true 
+          requested_extension: true,
+          extension_request_id: request.id,
         };
+        extensionRequestId = request.id;
         break;
+      }
       
-      case 'snooze':
-        // Keep as pending but delay
-        newStatus = 'pending';
+      case 'snooze': {
+        const details = { ...payload.response_data, ...payload.context };
+        const now = new Date();
+
+        if (intervention.status === 'snoozed') {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Intervention is already snoozed',
+          }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const policy = await loadEffectivePolicy<{ max_snooze_count: number | null }>(supabase, userId);
+
+        const plan = planSnooze(
+          { minutes: details.snooze_minutes, snooze_count: intervention.snooze_count || 0 },
+          policy,
+          now
+        );
+
+        if (plan.action === 'invalid') {
+          return new Response(JSON.stringify({ success: false, error: plan.message }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
         feedbackType = 'ignored';
-        additionalUpdates.user_response = { 
-          ...payload.context, 
-          snoozed_at: new Date().toISOString(),
-          snooze_count: (intervention.user_response?.snooze_count || 0) + 1,
+        additionalUpdates.snooze_count = plan.snooze_count;
+        additionalUpdates.user_response = {
+          ...payload.context,
+          snoozed_at: now.toISOString(),
         };
+
+        if (plan.action === 'escalate') {
+          // Out of snoozes: the next tier goes out now rather than at the timer.
+          // Left pending, clients would take the update for a re-delivery.
+          newStatus = 'escalated';
+          additionalUpdates.escalated_at = now.toISOString();
+          await cancelJobs(supabase, JOB_TYPES.ESCALATE_INTERVENTION, 'intervention_id', payload.intervention_id);
+          await enqueueJob(supabase, {
+            job_type: JOB_TYPES.ESCALATE_INTERVENTION,
+            user_id: userId,
+            payload: { intervention_id: payload.intervention_id, reason: 'snooze_limit' },
+          });
+          kickJobWorker(supabase);
+          autoEscalated = true;
+
+          console.log('[RespondIntervention] Snooze limit reached, escalating');
+          break;
+        }
+
+        newStatus = 'snoozed';
+        additionalUpdates.snoozed_until = plan.snoozed_until;
+        snoozedUntil = plan.snoozed_until;
+
+        await enqueueJob(supabase, {
+          job_type: JOB_TYPES.REDELIVER_INTERVENTION,
+          user_id: userId,
+          payload: { intervention_id: payload.intervention_id },
+          run_at: plan.snoozed_until,
+        });
+
+        console.log('[RespondIntervention] Snoozed for', plan.minutes, 'min (snooze', plan.snooze_count + ')');
         break;
+      }
       
       default:
         return new Response(JSON.stringify({ 
@@ -137,34 +340,65 @@ serve(async (req) => {
 
     console.log('[RespondIntervention] Updated status to:', newStatus);
 
+    // ========================================
+    // CANCEL PENDING ESCALATION
+    // ========================================
+
+    if (RESOLVED_INTERVENTION_STATUSES.includes(newStatus)) {
+      try {
+        const cancelled = await cancelJobs(
+          supabase,
+          JOB_TYPES.ESCALATE_INTERVENTION,
+          'intervention_id',
+          payload.intervention_id
+        );
+        escalationCancelled = cancelled > 0;
+        if (escalationCancelled) {
+          console.log('[RespondIntervention] Cancelled pending escalation');
+        }
+
+        if (intervention.status === 'snoozed') {
+          await cancelJobs(supabase, JOB_TYPES.REDELIVER_INTERVENTION, 'intervention_id', payload.intervention_id);
+        }
+      } catch (error) {
+        // The escalation handler re-checks status, so this is not fatal
+        console.error('[RespondIntervention] Escalation cancel error:', error);
+      }
+    }
+
     // ========================================
     // TRIGGER FEEDBACK AGENT
     // ========================================
 
-    const feedbackResponse = await supabase.functions.invoke('feedback-agent', {
-      body: {
-        user_id: userId,
-        intervention_id: payload.intervention_id,
-        feedback_type: feedbackType,
-        context: {
-          action: payload.action,
-          intervention_type: intervention.type,
-          risk_level: intervention.risk_level_at_trigger,
-          ...payload.context,
+    let feedbackRecorded = false;
+    if (feedbackType) {
+      const feedbackResponse = await supabase.functions.invoke('feedback-agent', {
+        body: {
+          user_id: userId,
+          intervention_id: payload.intervention_id,
+          feedback_type: feedbackType,
+          context: {
+            action: payload.action,
+            intervention_type: intervention.type,
+            risk_level: intervention.risk_level_at_trigger,
+            ...payload.context,
+          },
         },
-      },
-    });
+      });
 
-    if (feedbackResponse.error) {
-      console.error('[RespondIntervention] Feedback agent error:', feedbackResponse.error);
+      if (feedbackResponse.error) {
+        console.error('[RespondIntervention] Feedback agent error:', feedbackResponse.error);
+      }
+      feedbackRecorded = !feedbackResponse.error;
     }
 
     // ========================================
     // TRIGGER ORCHESTRATOR FOR STATE UPDATE
     // ========================================
 
-    const eventType = payload.action === 'acknowledge' 
-      ? 'intervention_acknowledged' 
+    // The child stopped to ask, so the session moves on as if acknowledged
+    const eventType = newStatus === 'acknowledged' || payload.action === 'request_extension'
+      ? 'intervention_acknowledged'
       : 'intervention_dismissed';
 
     await supabase.functions.invoke('orchestrator', {
@@ -186,7 +420,11 @@ serve(async (req) => {
       success: true,
       intervention_id: payload.intervention_id,
       new_status: newStatus,
-      feedback_recorded: !feedbackResponse.error,
+      feedback_recorded: feedbackRecorded,
+      escalation_cancelled: escalationCancelled,
+      extension_request_id: extensionRequestId,
+      snoozed_until: snoozedUntil,
+      auto_escalated: autoEscalated,
       execution_time_ms: executionTime,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
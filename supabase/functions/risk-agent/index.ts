@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeRisk, getLocalTime, getScheduleState, startOfLocalDay } from "../_shared/risk/index.ts";
+import type { RiskPolicy } from "../_shared/risk/index.ts";
+import { getActiveExtensionMinutes } from "../_shared/interventions/index.ts";
+import { loadEffectivePolicy } from "../_shared/households/index.ts";
+import { getPolicyVersionIds } from "../_shared/policies/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,15 +18,6 @@ interface RiskAgentInput {
   event_data?: Record<string, unknown>;
 }
 
-interface RiskFactors {
-  session_duration_factor: number;
-  reopen_frequency_factor: number;
-  late_night_factor: number;
-  scroll_velocity_factor: number;
-}
-
-type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -41,15 +37,18 @@ serve(async (req) => {
     // FETCH USER DATA FOR RISK CALCULATION
     // ========================================
 
-    // Get current session data
-    const { data: session } = await supabase
+    // Get current session data. Each app has its own session, so prefer
+    // the one the event belongs to over the latest active one
+    const sessionQuery = supabase
       .from('sessions')
       .select('*')
       .eq('user_id', input.user_id)
-      .eq('state', 'active')
-      .order('started_at', { ascending: false })
-      .limit(1)
-      .single();
+      .eq('state', 'active');
+
+    const { data: session } = await (input.session_id
+      ? sessionQuery.eq('id', input.session_id)
+      : sessionQuery.order('started_at', { ascending: false }).limit(1)
+    ).maybeSingle();
 
     // Get recent events (last hour)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
@@ -67,160 +66,85 @@ serve(async (req) => {
       .eq('user_id', input.user_id)
       .single();
 
-    // Get applicable policy
-    const { data: policy } = await supabase
-      .from('policies')
-      .select('*')
-      .or(`target_user_id.eq.${input.user_id},is_system_default.eq.true`)
-      .eq('is_active', true)
-      .order('is_system_default', { ascending: true })
-      .limit(1)
-      .single();
-
-    // ========================================
-    // RISK FACTOR CALCULATIONS
-    // ========================================
-
-    const factors: RiskFactors = {
-      session_duration_factor: 0,
-      reopen_frequency_factor: 0,
-      late_night_factor: 0,
-      scroll_velocity_factor: 0,
-    };
-
-    // 1. SESSION DURATION FACTOR (0-25 points)
-    if (session) {
-      const sessionDurationMinutes = Math.floor(
-        (Date.now() - new Date(session.started_at).getTime()) / 60000
-      );
-      const sessionLimit = policy?.session_limit_minutes || 60;
-      
-      if (sessionDurationMinutes >= sessionLimit * 2) {
-        factors.session_duration_factor = 25;
-      } else if (sessionDurationMinutes >= sessionLimit * 1.5) {
-        factors.session_duration_factor = 20;
-      } else if (sessionDurationMinutes >= sessionLimit) {
-        factors.session_duration_factor = 15;
-      } else if (sessionDurationMinutes >= sessionLimit * 0.75) {
-        factors.session_duration_factor = 10;
-      } else if (sessionDurationMinutes >= sessionLimit * 0.5) {
-        factors.session_duration_factor = 5;
-      }
-      console.log('[RiskAgent] Session duration:', sessionDurationMinutes, 'min, factor:', factors.session_duration_factor);
-    }
-
-    // 2. REOPEN FREQUENCY FACTOR (0-25 points)
-    if (recentEvents) {
-      const reopenEvents = recentEvents.filter(e => e.event_type === 'reopen' || e.event_type === 'app_open');
-      const reopenCount = reopenEvents.length;
-      const reopenThreshold = policy?.reopen_threshold || 5;
-
-      if (reopenCount >= reopenThreshold * 3) {
-        factors.reopen_frequency_factor = 25;
-      } else if (reopenCount >= reopenThreshold * 2) {
-        factors.reopen_frequency_factor = 20;
-      } else if (reopenCount >= reopenThreshold) {
-        factors.reopen_frequency_factor = 15;
-      } else if (reopenCount >= reopenThreshold * 0.6) {
-        factors.reopen_frequency_factor = 8;
-      }
-      console.log('[RiskAgent] Reopen count:', reopenCount, ', factor:', factors.reopen_frequency_factor);
-    }
+    // Get today's sessions (since local midnight) for the daily limit
+    const dayStart = startOfLocalDay(new Date(), profile?.timezone || 'UTC').toISOString();
+    const { data: dailySessions } = await supabase
+      .from('sessions')
+      .select('id, started_at, ended_at, category')
+      .eq('user_id', input.user_id)
+      .or(`started_at.gte.${dayStart},ended_at.gte.${dayStart},state.eq.active`);
 
-    // 3. LATE NIGHT FACTOR (0-25 points)
-    const now = new Date();
-    const userTimezone = profile?.timezone || 'UTC';
-    
-    // Convert to user's local time
-    const userLocalTime = new Date(now.toLocaleString('en-US', { timeZone: userTimezone }));
-    const hour = userLocalTime.getHours();
-    
-    const bedtimeStart = policy?.bedtime_start ? parseInt(policy.bedtime_start.split(':')[0]) : 22;
-    const bedtimeEnd = policy?.bedtime_end ? parseInt(policy.bedtime_end.split(':')[0]) : 7;
+    // Get applicable policy (every editing guardian's, stricter wins)
+    const policy = await loadEffectivePolicy<RiskPolicy>(supabase, input.user_id);
 
-    if (hour >= bedtimeStart || hour < bedtimeEnd) {
-      // In bedtime window
-      if (hour >= 0 && hour < 5) {
-        factors.late_night_factor = 25; // Very late, highest risk
-      } else if (hour >= 23 || hour < 6) {
-        factors.late_night_factor = 20;
-      } else {
-        factors.late_night_factor = 10;
-      }
-      console.log('[RiskAgent] Late night hour:', hour, ', factor:', factors.late_night_factor);
-    }
+    // Parent-approved extensions raise today's limit until they expire
+    const { data: grants } = await supabase
+      .from('time_extension_requests')
+      .select('status, granted_minutes, expires_at')
+      .eq('youth_id', input.user_id)
+      .eq('status', 'approved')
+      .gt('expires_at', new Date().toISOString());
 
-    // 4. SCROLL VELOCITY FACTOR (0-25 points)
-    // Check both current event and recent scroll events for velocity
-    const currentVelocity = (input.event_data?.scroll_velocity || input.event_data?.velocity) as number | undefined;
-    const recentScrollEvents = recentEvents?.filter(e => e.event_type === 'scroll') || [];
-    
-    // Get max velocity from recent scroll events or current event
-    let maxVelocity = currentVelocity || 0;
-    for (const scrollEvent of recentScrollEvents) {
-      const eventData = scrollEvent.event_data as Record<string, unknown> | null;
-      const v = (eventData?.velocity || eventData?.scroll_velocity) as number | undefined;
-      if (v && v > maxVelocity) {
-        maxVelocity = v;
-      }
-    }
+    const extensionMinutes = getActiveExtensionMinutes(grants || [], new Date());
 
-    if (maxVelocity > 0) {
-      const threshold = policy?.scroll_velocity_threshold || 1000;
+    // Previous state feeds score decay and level hysteresis
+    const { data: existingRiskState } = await supabase
+      .from('risk_states')
+      .select('current_level, score, last_evaluated_at')
+      .eq('user_id', input.user_id)
+      .single();
 
-      if (maxVelocity >= threshold * 2) {
-        factors.scroll_velocity_factor = 25;
-      } else if (maxVelocity >= threshold * 1.5) {
-        factors.scroll_velocity_factor = 15;
-      } else if (maxVelocity >= threshold) {
-        factors.scroll_velocity_factor = 10;
-      }
-      console.log('[RiskAgent] Max scroll velocity:', maxVelocity, ', factor:', factors.scroll_velocity_factor);
-    }
+    const previousLevel = existingRiskState?.current_level || 'low';
 
     // ========================================
-    // CALCULATE TOTAL SCORE & RISK LEVEL
+    // COMPUTE RISK (pure, see _shared/risk)
     // ========================================
 
-    const totalScore = 
-      factors.session_duration_factor +
-      factors.reopen_frequency_factor +
-      factors.late_night_factor +
-      factors.scroll_velocity_factor;
+    const { score: totalScore, rawScore, level: riskLevel, factors, explanation, dailyBudget } = computeRisk(
+      session,
+      recentEvents || [],
+      profile,
+      policy,
+      new Date(),
+      {
+        eventData: input.event_data,
+        dailySessions: dailySessions || [],
+        extensionMinutes,
+        previous: existingRiskState?.last_evaluated_at
+          ? {
+              score: Number(existingRiskState.score) || 0,
+              level: previousLevel,
+              evaluatedAt: existingRiskState.last_evaluated_at,
+            }
+          : null,
+      }
+    );
 
-    let riskLevel: RiskLevel;
-    if (totalScore >= 75) {
-      riskLevel = 'critical';
-    } else if (totalScore >= 50) {
-      riskLevel = 'high';
-    } else if (totalScore >= 25) {
-      riskLevel = 'medium';
-    } else {
-      riskLevel = 'low';
-    }
+    // Blocks and extra time in force right now, for clients to shield apps
+    const schedule = getScheduleState(policy, getLocalTime(new Date(), profile?.timezone || 'UTC'));
 
-    console.log('[RiskAgent] Total score:', totalScore, ', level:', riskLevel);
+    console.log('[RiskAgent] Factors:', JSON.stringify(factors));
+    console.log('[RiskAgent] Raw score:', rawScore, ', smoothed:', totalScore, ', level:', riskLevel);
 
     // ========================================
     // UPDATE RISK STATE
     // ========================================
 
-    const { data: existingRiskState } = await supabase
-      .from('risk_states')
-      .select('current_level')
-      .eq('user_id', input.user_id)
-      .single();
-
-    const previousLevel = existingRiskState?.current_level || 'low';
-
     await supabase.from('risk_states').upsert({
       user_id: input.user_id,
       current_level: riskLevel,
       score: totalScore,
-      session_duration_factor: factors.session_duration_factor,
-      reopen_frequency_factor: factors.reopen_frequency_factor,
-      late_night_factor: factors.late_night_factor,
-      scroll_velocity_factor: factors.scroll_velocity_factor,
+      raw_score: rawScore,
+      factors,
+      explanation,
+      // Legacy columns for the built-in factors
+      session_duration_factor: factors.session_duration || 0,
+      reopen_frequency_factor: factors.reopen_frequency || 0,
+      late_night_factor: factors.late_night || 0,
+      scroll_velocity_factor: factors.scroll_velocity || 0,
+      daily_limit_minutes: dailyBudget?.limitMinutes ?? null,
+      daily_used_minutes: dailyBudget?.usedMinutes ?? null,
+      daily_remaining_minutes: dailyBudget?.remainingMinutes ?? null,
       last_evaluated_at: new Date().toISOString(),
     }, { onConflict: 'user_id' });
 
@@ -231,8 +155,10 @@ serve(async (req) => {
         previous_level: previousLevel,
         new_level: riskLevel,
         score: totalScore,
-        factors,
+        // Full explanation so the history shows why the level changed
+        factors: explanation,
         triggered_by: input.event_type,
+        policy_version_ids: getPolicyVersionIds(policy),
       });
     }
 
@@ -249,8 +175,12 @@ serve(async (req) => {
       input_data: input,
       output_data: {
         score: totalScore,
+        raw_score: rawScore,
         risk_level: riskLevel,
         factors,
+        explanation,
+        daily_budget: dailyBudget,
+        schedule,
         previous_level: previousLevel,
       },
       execution_time_ms: executionTime,
@@ -263,8 +193,20 @@ serve(async (req) => {
       success: true,
       user_id: input.user_id,
       score: totalScore,
+      raw_score: rawScore,
       risk_level: riskLevel,
       factors,
+      explanation,
+      daily_budget: dailyBudget && {
+        limit_minutes: dailyBudget.limitMinutes,
+        used_minutes: dailyBudget.usedMinutes,
+        remaining_minutes: dailyBudget.remainingMinutes,
+        extension_minutes: dailyBudget.extensionMinutes,
+      },
+      schedule: {
+        blocks: schedule.blocks,
+        extra_minutes: schedule.extraMinutes,
+      },
       previous_level: previousLevel,
       level_changed: previousLevel !== riskLevel,
       execution_time_ms: executionTime,
@@ -0,0 +1,20 @@
+-- Pluggable risk factors: per-factor weights/caps on policies and a
+-- dynamic factor map on risk_states
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS factor_config jsonb NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.policies.factor_config IS
+  'Per-factor overrides keyed by factor key, e.g. {"scroll_velocity": {"weight": 1.5, "cap": 30, "enabled": true}}';
+
+ALTER TABLE public.risk_states
+  ADD COLUMN IF NOT EXISTS factors jsonb NOT NULL DEFAULT '{}';
+
+-- Backfill the factor map from the legacy fixed columns
+UPDATE public.risk_states
+SET factors = jsonb_build_object(
+  'session_duration', session_duration_factor,
+  'reopen_frequency', reopen_frequency_factor,
+  'late_night', late_night_factor,
+  'scroll_velocity', scroll_velocity_factor
+)
+WHERE factors = '{}'::jsonb;
@@ -0,0 +1,9 @@
+-- Daily budget: persist today's usage against policies.daily_limit_minutes
+-- so clients can show a true remaining-time figure
+ALTER TABLE public.risk_states
+  ADD COLUMN IF NOT EXISTS daily_limit_minutes integer,
+  ADD COLUMN IF NOT EXISTS daily_used_minutes integer,
+  ADD COLUMN IF NOT EXISTS daily_remaining_minutes integer;
+
+-- Speeds up "sessions since local midnight" lookups in risk-agent
+CREATE INDEX IF NOT EXISTS idx_sessions_user_started ON public.sessions(user_id, started_at DESC);
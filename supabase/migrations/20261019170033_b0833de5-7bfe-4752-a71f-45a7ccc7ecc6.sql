@@ -0,0 +1,9 @@
+-- Bedtime: separate schedule for Friday/Saturday nights and a ramp over
+-- which late-night risk climbs to its maximum
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS weekend_bedtime_start time,
+  ADD COLUMN IF NOT EXISTS weekend_bedtime_end time,
+  ADD COLUMN IF NOT EXISTS bedtime_ramp_minutes integer NOT NULL DEFAULT 30;
+
+ALTER TABLE public.policies
+  ADD CONSTRAINT policies_bedtime_ramp_minutes_check CHECK (bedtime_ramp_minutes >= 0);
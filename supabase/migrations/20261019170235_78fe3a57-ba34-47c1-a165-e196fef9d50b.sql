@@ -0,0 +1,17 @@
+-- Risk smoothing: exponential decay between evaluations plus separate
+-- enter/exit thresholds per level, both configurable per policy
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS risk_decay_half_life_minutes integer NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS risk_level_thresholds jsonb;
+
+ALTER TABLE public.policies
+  ADD CONSTRAINT policies_risk_decay_half_life_minutes_check CHECK (risk_decay_half_life_minutes >= 0);
+
+COMMENT ON COLUMN public.policies.risk_level_thresholds IS
+  'Per-level overrides, e.g. {"high": {"enter": 50, "exit": 40}}. Missing values use the defaults.';
+
+-- score is now the smoothed score; raw_score keeps the unsmoothed factor total
+ALTER TABLE public.risk_states
+  ADD COLUMN IF NOT EXISTS raw_score numeric(5,2) DEFAULT 0;
+
+UPDATE public.risk_states SET raw_score = score WHERE raw_score IS DISTINCT FROM score;
@@ -0,0 +1,7 @@
+-- Explainability: store the factor-by-factor breakdown behind the
+-- current score. risk_history.factors now holds the same structure.
+ALTER TABLE public.risk_states
+  ADD COLUMN IF NOT EXISTS explanation jsonb;
+
+COMMENT ON COLUMN public.risk_states.explanation IS
+  'Per-factor observed value, threshold crossed, policy field and points awarded';
@@ -0,0 +1,177 @@
+-- Orchestrator state machine definitions
+-- States, transitions, guards and side effects as versioned JSON. The
+-- orchestrator loads the highest active version and validates it before use.
+CREATE TABLE public.orchestrator_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT 'default',
+  version integer NOT NULL,
+  definition jsonb NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (name, version)
+);
+
+-- At most one active version per definition name
+CREATE UNIQUE INDEX idx_orchestrator_definitions_active
+  ON public.orchestrator_definitions(name) WHERE is_active;
+
+ALTER TABLE public.orchestrator_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage orchestrator definitions"
+  ON public.orchestrator_definitions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Version 1: the previous inline transitions, plus the acknowledgement
+-- and app_open paths that were never applied
+INSERT INTO public.orchestrator_definitions (name, version, is_active, notes, definition) VALUES
+('default', 1, true, 'Initial definition migrated from orchestrator/index.ts', '{
+  "initial": "idle",
+  "states": [
+    "idle",
+    "monitoring",
+    "intervening",
+    "escalating"
+  ],
+  "transitions": [
+    {
+      "from": "idle",
+      "event": "app_open",
+      "to": "monitoring"
+    },
+    {
+      "from": "idle",
+      "event": "session_start",
+      "to": "monitoring"
+    },
+    {
+      "from": [
+        "monitoring",
+        "intervening",
+        "escalating"
+      ],
+      "event": "app_open"
+    },
+    {
+      "from": [
+        "monitoring",
+        "intervening",
+        "escalating"
+      ],
+      "event": "session_start"
+    },
+    {
+      "from": [
+        "monitoring",
+        "intervening",
+        "escalating"
+      ],
+      "event": "app_close",
+      "to": "idle"
+    },
+    {
+      "from": [
+        "monitoring",
+        "intervening",
+        "escalating"
+      ],
+      "event": "session_end",
+      "to": "idle"
+    },
+    {
+      "from": [
+        "idle",
+        "monitoring",
+        "intervening",
+        "escalating"
+      ],
+      "event": "critical_risk_detected",
+      "to": "escalating",
+      "effects": [
+        "run_intervention_agent"
+      ]
+    },
+    {
+      "from": [
+        "idle",
+        "monitoring",
+        "intervening"
+      ],
+      "event": "high_risk_detected",
+      "to": "intervening",
+      "effects": [
+        "run_intervention_agent"
+      ]
+    },
+    {
+      "from": "escalating",
+      "event": "high_risk_detected",
+      "effects": [
+        "run_intervention_agent"
+      ]
+    },
+    {
+      "from": [
+        "idle",
+        "monitoring"
+      ],
+      "event": "medium_risk_detected",
+      "to": "monitoring",
+      "effects": [
+        "run_intervention_agent"
+      ]
+    },
+    {
+      "from": [
+        "intervening",
+        "escalating"
+      ],
+      "event": "medium_risk_detected",
+      "effects": [
+        "run_intervention_agent"
+      ]
+    },
+    {
+      "from": [
+        "intervening",
+        "escalating"
+      ],
+      "event": "intervention_acknowledged",
+      "to": "monitoring"
+    },
+    {
+      "from": [
+        "intervening",
+        "escalating"
+      ],
+      "event": "intervention_dismissed",
+      "to": "monitoring"
+    },
+    {
+      "from": [
+        "idle",
+        "monitoring"
+      ],
+      "event": "intervention_acknowledged"
+    },
+    {
+      "from": [
+        "idle",
+        "monitoring"
+      ],
+      "event": "intervention_dismissed"
+    },
+    {
+      "from": "intervening",
+      "event": "escalation_triggered",
+      "to": "escalating"
+    },
+    {
+      "from": "escalating",
+      "event": "parent_notified",
+      "to": "monitoring"
+    }
+  ]
+}
+'::jsonb);
@@ -0,0 +1,95 @@
+-- Durable job queue for agent work
+-- ingest-event enqueues, the job-worker function claims and runs jobs,
+-- retrying with exponential backoff and dead-lettering after max_attempts.
+CREATE TYPE public.job_status AS ENUM ('queued', 'running', 'succeeded', 'dead');
+
+CREATE TABLE public.agent_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload jsonb NOT NULL DEFAULT '{}',
+  status job_status NOT NULL DEFAULT 'queued',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  result jsonb,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_jobs_claim ON public.agent_jobs(run_at) WHERE status IN ('queued', 'running');
+CREATE INDEX idx_agent_jobs_user ON public.agent_jobs(user_id, created_at DESC);
+CREATE INDEX idx_agent_jobs_dead ON public.agent_jobs(created_at DESC) WHERE status = 'dead';
+
+CREATE TRIGGER update_agent_jobs_updated_at
+  BEFORE UPDATE ON public.agent_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.agent_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Clients may watch their own jobs; only the service role writes
+CREATE POLICY "Users can view own jobs"
+  ON public.agent_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all jobs"
+  ON public.agent_jobs FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.agent_jobs;
+
+-- Claim up to _limit due jobs for a worker. SKIP LOCKED lets several
+-- workers run side by side; jobs stuck in 'running' past _lock_timeout
+-- (worker crashed mid-job) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_agent_jobs(
+  _worker_id text,
+  _limit integer DEFAULT 10,
+  _lock_timeout interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.agent_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.agent_jobs AS j
+  SET status = 'running',
+      locked_at = now(),
+      locked_by = _worker_id,
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT id
+    FROM public.agent_jobs
+    WHERE run_at <= now()
+      AND (
+        status = 'queued'
+        OR (status = 'running' AND locked_at < now() - _lock_timeout)
+      )
+    ORDER BY run_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_agent_jobs(text, integer, interval) FROM PUBLIC, anon, authenticated;
+
+-- Drain the queue every minute so retries run even when no new events
+-- arrive (producers also kick the worker directly after enqueueing)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'agent-job-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://egkyzyptlecrzchteekr.supabase.co/functions/v1/job-worker',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,17 @@
+-- Idempotent event ingestion
+-- The SDK stamps each event with a client-generated UUID and a per-device
+-- sequence number. apiRequest retries POSTs, so a lost response can
+-- resend an event that was already stored; ingest-event looks up
+-- (device_id, client_event_id) and replays the original result instead.
+ALTER TABLE public.behavioral_events
+  ADD COLUMN client_event_id uuid,
+  ADD COLUMN client_sequence bigint;
+
+CREATE UNIQUE INDEX idx_behavioral_events_client_event
+  ON public.behavioral_events(device_id, client_event_id)
+  WHERE client_event_id IS NOT NULL;
+
+-- Replays return the processing job created for the original event
+CREATE INDEX idx_agent_jobs_event_id
+  ON public.agent_jobs((payload->>'event_id'))
+  WHERE job_type = 'process_event';
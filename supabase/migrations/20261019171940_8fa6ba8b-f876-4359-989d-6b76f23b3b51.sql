@@ -0,0 +1,63 @@
+-- Rule-based intervention template selection with A/B copy variants
+
+-- Eligibility rules on templates (min_risk_level already exists)
+ALTER TABLE public.intervention_templates
+  ADD COLUMN min_risk_score numeric(5,2),
+  ADD COLUMN max_risk_score numeric(5,2),
+  ADD COLUMN active_from time,
+  ADD COLUMN active_until time,
+  ADD COLUMN roles app_role[],
+  ADD CONSTRAINT intervention_templates_score_range
+    CHECK (min_risk_score IS NULL OR max_risk_score IS NULL OR min_risk_score <= max_risk_score),
+  ADD CONSTRAINT intervention_templates_time_window
+    CHECK ((active_from IS NULL) = (active_until IS NULL));
+
+-- Carry over the score cut-offs that were hardcoded in intervention-agent
+UPDATE public.intervention_templates SET min_risk_score = 75 WHERE type = 'parent_alert';
+UPDATE public.intervention_templates SET min_risk_score = 50 WHERE type = 'hard_block';
+UPDATE public.intervention_templates SET min_risk_score = 35 WHERE type = 'medium_friction';
+
+-- The bedtime lock only makes sense at night
+UPDATE public.intervention_templates
+  SET active_from = '21:00', active_until = '06:00'
+  WHERE name = 'bedtime_block';
+
+-- Weighted copy variants per template; users are bucketed by a hash of
+-- (user_id, template_id), so changing weights reshuffles buckets
+CREATE TABLE public.intervention_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES public.intervention_templates(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- NULL copy fields fall back to the template's
+  title text,
+  message text,
+  action_label text,
+  action_url text,
+  weight integer NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (template_id, name)
+);
+
+CREATE INDEX idx_intervention_variants_template ON public.intervention_variants(template_id) WHERE is_active;
+
+CREATE TRIGGER update_intervention_variants_updated_at
+  BEFORE UPDATE ON public.intervention_variants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.intervention_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active variants"
+  ON public.intervention_variants FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage variants"
+  ON public.intervention_variants FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Which variant a user was shown
+ALTER TABLE public.interventions
+  ADD COLUMN variant_id uuid REFERENCES public.intervention_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_interventions_variant ON public.interventions(variant_id) WHERE variant_id IS NOT NULL;
@@ -0,0 +1,39 @@
+-- Per-user intervention effectiveness, recomputed by feedback-agent from
+-- the last 30 days of feedback and read by intervention-agent to
+-- personalise template choice and timing.
+CREATE TABLE public.intervention_effectiveness (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'template' (scope_key = template id), 'type' (intervention type)
+  -- or 'hour' (local hour 0-23 the intervention was shown)
+  scope text NOT NULL CHECK (scope IN ('template', 'type', 'hour')),
+  scope_key text NOT NULL,
+  successes integer NOT NULL DEFAULT 0,
+  failures integer NOT NULL DEFAULT 0,
+  last_feedback_at timestamptz,
+  -- Rows not refreshed by the latest recompute have aged out
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, scope, scope_key)
+);
+
+CREATE INDEX idx_intervention_effectiveness_user ON public.intervention_effectiveness(user_id, scope);
+
+CREATE TRIGGER update_intervention_effectiveness_updated_at
+  BEFORE UPDATE ON public.intervention_effectiveness
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.intervention_effectiveness ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own effectiveness"
+  ON public.intervention_effectiveness FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Parents can view children effectiveness"
+  ON public.intervention_effectiveness FOR SELECT
+  USING (public.is_parent_of(auth.uid(), user_id));
+
+CREATE POLICY "Admins can view all effectiveness"
+  ON public.intervention_effectiveness FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,16 @@
+-- Delayed escalation of ignored interventions
+-- intervention-agent enqueues an escalate_intervention job due after the
+-- policy's escalation_delay_minutes; acknowledging the intervention
+-- cancels it, otherwise the job-worker delivers the next tier.
+ALTER TYPE public.job_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+-- Links an escalated intervention to the one it replaced
+ALTER TABLE public.interventions
+  ADD COLUMN escalated_from uuid REFERENCES public.interventions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_interventions_escalated_from ON public.interventions(escalated_from) WHERE escalated_from IS NOT NULL;
+
+-- Lookup for cancelling a pending escalation
+CREATE INDEX idx_agent_jobs_intervention_id
+  ON public.agent_jobs((payload->>'intervention_id'))
+  WHERE job_type = 'escalate_intervention' AND status = 'queued';
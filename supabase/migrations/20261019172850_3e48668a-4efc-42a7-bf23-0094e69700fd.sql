@@ -0,0 +1,110 @@
+-- Parent notification delivery
+-- Producers insert a notification and enqueue a dispatch_notification
+-- job; notification-dispatcher sends it on each channel the recipient
+-- has enabled and records one delivery row per channel.
+
+-- Preferences move off the browser so every channel can read them
+ALTER TABLE public.profiles
+  ADD COLUMN notification_prefs jsonb NOT NULL DEFAULT '{
+    "email_alerts": true,
+    "push_alerts": true,
+    "risk_warnings": true,
+    "daily_summary": false,
+    "weekly_insights": true,
+    "intervention_alerts": true
+  }'::jsonb;
+
+CREATE TYPE public.notification_delivery_status AS ENUM ('pending', 'sent', 'failed', 'skipped');
+
+-- One row per notification; doubles as the in-app inbox
+CREATE TABLE public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The child a parent notification is about
+  youth_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  intervention_id uuid REFERENCES public.interventions(id) ON DELETE SET NULL,
+  category text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_recipient ON public.notifications(recipient_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(recipient_id) WHERE read_at IS NULL;
+
+-- Delivery receipts, one per channel
+CREATE TABLE public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  channel text NOT NULL,
+  status notification_delivery_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  receipt jsonb,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Browser push subscriptions
+CREATE TABLE public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Admins can view all notifications"
+  ON public.notifications FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Recipients may only change read_at; everything else is written by the service role
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+CREATE POLICY "Users can view deliveries of their notifications"
+  ON public.notification_deliveries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.notifications n
+    WHERE n.id = notification_id AND n.recipient_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all deliveries"
+  ON public.notification_deliveries FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can manage their own push subscriptions"
+  ON public.push_subscriptions FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
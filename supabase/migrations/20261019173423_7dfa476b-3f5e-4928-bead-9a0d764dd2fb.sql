@@ -0,0 +1,29 @@
+-- Notification preferences: quiet hours, per-child overrides and
+-- cross-device sync
+-- Stored in profiles.notification_prefs (added with notification
+-- delivery); producers and notification-dispatcher both read them.
+
+ALTER TABLE public.profiles
+  ALTER COLUMN notification_prefs SET DEFAULT '{
+    "email_alerts": true,
+    "push_alerts": true,
+    "risk_warnings": true,
+    "daily_summary": false,
+    "weekly_insights": true,
+    "intervention_alerts": true,
+    "quiet_hours": { "enabled": false, "start": "22:00", "end": "07:00" },
+    "child_overrides": {}
+  }'::jsonb,
+  ADD CONSTRAINT profiles_notification_prefs_object
+    CHECK (jsonb_typeof(notification_prefs) = 'object');
+
+-- Users could previously move their profile row to another user_id
+DROP POLICY "Users can update own profile" ON public.profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON public.profiles FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Settings open on other devices pick up changes straight away
+ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
@@ -0,0 +1,66 @@
+-- Time-extension requests
+-- A youth asks for more minutes from a hard block (respond-intervention),
+-- parents approve or deny through parent-api, and the risk-agent adds
+-- unexpired grants to the day's limit.
+
+CREATE TYPE public.extension_request_status AS ENUM ('pending', 'approved', 'denied', 'expired');
+
+CREATE TABLE public.time_extension_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  youth_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  intervention_id uuid REFERENCES public.interventions(id) ON DELETE SET NULL,
+  requested_minutes integer NOT NULL CHECK (requested_minutes > 0),
+  reason text,
+  status extension_request_status NOT NULL DEFAULT 'pending',
+  -- Set on approval; may be less than requested
+  granted_minutes integer CHECK (granted_minutes > 0),
+  decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  -- Pending: when the request lapses. Approved: when the grant stops counting
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT time_extension_requests_granted
+    CHECK ((status = 'approved') = (granted_minutes IS NOT NULL))
+);
+
+CREATE INDEX idx_time_extension_requests_youth ON public.time_extension_requests(youth_id, created_at DESC);
+CREATE INDEX idx_time_extension_requests_active
+  ON public.time_extension_requests(youth_id, expires_at)
+  WHERE status IN ('pending', 'approved');
+
+-- One open request per youth
+CREATE UNIQUE INDEX idx_time_extension_requests_one_pending
+  ON public.time_extension_requests(youth_id)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_time_extension_requests_updated_at
+  BEFORE UPDATE ON public.time_extension_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Writes go through the edge functions, which enforce the limits
+ALTER TABLE public.time_extension_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own extension requests"
+  ON public.time_extension_requests FOR SELECT
+  USING (auth.uid() = youth_id);
+
+CREATE POLICY "Parents can view children's extension requests"
+  ON public.time_extension_requests FOR SELECT
+  USING (public.is_parent_of(auth.uid(), youth_id));
+
+CREATE POLICY "Admins can view all extension requests"
+  ON public.time_extension_requests FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.time_extension_requests;
+
+-- Per-child limits on asking
+ALTER TABLE public.policies
+  ADD COLUMN max_extension_requests_per_day integer NOT NULL DEFAULT 3 CHECK (max_extension_requests_per_day >= 0),
+  ADD COLUMN max_extension_minutes integer NOT NULL DEFAULT 60 CHECK (max_extension_minutes > 0);
+
+-- Lookup for cancelling a request's expiry job once it's decided
+CREATE INDEX idx_agent_jobs_request_id
+  ON public.agent_jobs((payload->>'request_id'))
+  WHERE job_type = 'expire_extension_request' AND status = 'queued';
@@ -0,0 +1,24 @@
+-- Snoozed interventions come back when the snooze ends.
+-- respond-intervention sets status 'snoozed' and queues a
+-- redeliver_intervention job for snoozed_until; the job-worker flips it
+-- back to 'pending', which clients pick up over realtime.
+ALTER TYPE public.intervention_status ADD VALUE IF NOT EXISTS 'snoozed';
+
+ALTER TABLE public.interventions
+  ADD COLUMN snoozed_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN snooze_count INTEGER NOT NULL DEFAULT 0 CHECK (snooze_count >= 0);
+
+-- Counts were kept in user_response until now
+UPDATE public.interventions
+SET snooze_count = (user_response->>'snooze_count')::integer
+WHERE user_response ? 'snooze_count'
+  AND user_response->>'snooze_count' ~ '^[0-9]+$';
+
+-- Snoozes allowed before the next one escalates instead
+ALTER TABLE public.policies
+  ADD COLUMN max_snooze_count INTEGER NOT NULL DEFAULT 2 CHECK (max_snooze_count >= 0);
+
+-- Lookup for cancelling a redelivery once the intervention is dealt with
+CREATE INDEX idx_agent_jobs_redeliver_intervention_id
+  ON public.agent_jobs((payload->>'intervention_id'))
+  WHERE job_type = 'redeliver_intervention' AND status = 'queued';
@@ -0,0 +1,286 @@
+-- Households: several guardians per child, each with a role.
+-- primary   - manages guardians and invitations, edits policies
+-- secondary - edits policies
+-- view_only - sees everything and gets alerts, can't change anything
+--
+-- Every guardian of a child may own a policy for them; the effective
+-- policy merges those so the stricter setting wins (see
+-- _shared/households/mergePolicies.ts).
+CREATE TYPE public.guardian_role AS ENUM ('primary', 'secondary', 'view_only');
+CREATE TYPE public.guardian_invitation_status AS ENUM ('pending', 'accepted', 'revoked', 'expired');
+
+CREATE TABLE public.households (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.household_guardians (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  guardian_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.guardian_role NOT NULL DEFAULT 'secondary',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (household_id, guardian_id)
+);
+
+CREATE TABLE public.household_children (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  youth_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (household_id, youth_id)
+);
+
+CREATE TABLE public.guardian_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  role public.guardian_role NOT NULL DEFAULT 'secondary',
+  status public.guardian_invitation_status NOT NULL DEFAULT 'pending',
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Invitees join as secondary or view-only; primaries are made by promotion
+  CHECK (role <> 'primary')
+);
+
+CREATE INDEX idx_household_guardians_guardian ON public.household_guardians(guardian_id);
+CREATE INDEX idx_household_children_youth ON public.household_children(youth_id);
+CREATE INDEX idx_guardian_invitations_household ON public.guardian_invitations(household_id, status);
+
+CREATE TRIGGER update_households_updated_at
+  BEFORE UPDATE ON public.households
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_household_guardians_updated_at
+  BEFORE UPDATE ON public.household_guardians
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ========================================
+-- GUARDIAN LOOKUPS
+-- ========================================
+
+-- Every guardian of a child with their strongest role. A direct
+-- family_link counts as primary. Callers other than the service role
+-- only see rows they're part of.
+CREATE OR REPLACE FUNCTION public.get_child_guardians(_youth_id UUID)
+RETURNS TABLE (guardian_id UUID, role public.guardian_role)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.guardian_id, MIN(g.role)
+  FROM (
+    SELECT hg.guardian_id, hg.role
+    FROM public.household_children hc
+    JOIN public.household_guardians hg ON hg.household_id = hc.household_id
+    WHERE hc.youth_id = _youth_id
+    UNION ALL
+    SELECT fl.parent_id, 'primary'::public.guardian_role
+    FROM public.family_links fl
+    WHERE fl.youth_id = _youth_id AND fl.is_active = true
+  ) g
+  WHERE auth.role() = 'service_role' OR auth.uid() = _youth_id OR auth.uid() = g.guardian_id
+  GROUP BY g.guardian_id
+$$;
+
+-- Every child a guardian looks after, with their strongest role
+CREATE OR REPLACE FUNCTION public.get_guardian_children(_guardian_id UUID)
+RETURNS TABLE (youth_id UUID, role public.guardian_role)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.youth_id, MIN(c.role)
+  FROM (
+    SELECT hc.youth_id, hg.role
+    FROM public.household_guardians hg
+    JOIN public.household_children hc ON hc.household_id = hg.household_id
+    WHERE hg.guardian_id = _guardian_id
+    UNION ALL
+    SELECT fl.youth_id, 'primary'::public.guardian_role
+    FROM public.family_links fl
+    WHERE fl.parent_id = _guardian_id AND fl.is_active = true
+  ) c
+  WHERE auth.role() = 'service_role' OR auth.uid() = _guardian_id
+  GROUP BY c.youth_id
+$$;
+
+-- Any guardian, including view-only, can see a child's data
+CREATE OR REPLACE FUNCTION public.is_parent_of(_parent_id UUID, _youth_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.family_links
+    WHERE parent_id = _parent_id
+      AND youth_id = _youth_id
+      AND is_active = true
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.household_guardians hg
+    JOIN public.household_children hc ON hc.household_id = hg.household_id
+    WHERE hg.guardian_id = _parent_id
+      AND hc.youth_id = _youth_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_child_policy(_guardian_id UUID, _youth_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.family_links
+    WHERE parent_id = _guardian_id
+      AND youth_id = _youth_id
+      AND is_active = true
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.household_guardians hg
+    JOIN public.household_children hc ON hc.household_id = hg.household_id
+    WHERE hg.guardian_id = _guardian_id
+      AND hc.youth_id = _youth_id
+      AND hg.role IN ('primary', 'secondary')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_household_guardian(_user_id UUID, _household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.household_guardians
+    WHERE guardian_id = _user_id
+      AND household_id = _household_id
+  )
+$$;
+
+-- ========================================
+-- KEEP HOUSEHOLDS IN STEP WITH FAMILY LINKS
+-- ========================================
+
+-- Linking a child (invite code flow) puts them in the parent's
+-- household, creating it the first time
+CREATE OR REPLACE FUNCTION public.sync_household_from_family_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _household_id UUID;
+BEGIN
+  IF NEW.is_active IS NOT TRUE THEN
+    DELETE FROM public.household_children hc
+    USING public.household_guardians hg
+    WHERE hg.household_id = hc.household_id
+      AND hg.guardian_id = NEW.parent_id
+      AND hg.role = 'primary'
+      AND hc.youth_id = NEW.youth_id;
+    RETURN NEW;
+  END IF;
+
+  SELECT hg.household_id INTO _household_id
+  FROM public.household_guardians hg
+  WHERE hg.guardian_id = NEW.parent_id AND hg.role = 'primary'
+  ORDER BY hg.created_at
+  LIMIT 1;
+
+  IF _household_id IS NULL THEN
+    INSERT INTO public.households (name, created_by)
+    VALUES (
+      COALESCE((SELECT display_name FROM public.profiles WHERE user_id = NEW.parent_id), 'My') || '''s family',
+      NEW.parent_id
+    )
+    RETURNING id INTO _household_id;
+
+    INSERT INTO public.household_guardians (household_id, guardian_id, role)
+    VALUES (_household_id, NEW.parent_id, 'primary');
+  END IF;
+
+  INSERT INTO public.household_children (household_id, youth_id)
+  VALUES (_household_id, NEW.youth_id)
+  ON CONFLICT (household_id, youth_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_household_on_family_link
+  AFTER INSERT OR UPDATE OF is_active ON public.family_links
+  FOR EACH ROW EXECUTE FUNCTION public.sync_household_from_family_link();
+
+-- Existing links become one household per parent (the no-op update
+-- runs the trigger for each row)
+UPDATE public.family_links SET is_active = true WHERE is_active = true;
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_guardians ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_children ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guardian_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through parent-api with the service role
+CREATE POLICY "Guardians can view their households"
+  ON public.households FOR SELECT
+  USING (public.is_household_guardian(auth.uid(), id));
+
+CREATE POLICY "Guardians can view fellow guardians"
+  ON public.household_guardians FOR SELECT
+  USING (public.is_household_guardian(auth.uid(), household_id));
+
+CREATE POLICY "Guardians can view household children"
+  ON public.household_children FOR SELECT
+  USING (public.is_household_guardian(auth.uid(), household_id) OR auth.uid() = youth_id);
+
+-- Codes are only shown to the guardians who can hand them out
+CREATE POLICY "Primary guardians can view household invitations"
+  ON public.guardian_invitations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.household_guardians hg
+      WHERE hg.household_id = guardian_invitations.household_id
+        AND hg.guardian_id = auth.uid()
+        AND hg.role = 'primary'
+    )
+  );
+
+CREATE POLICY "Admins can view households"
+  ON public.households FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- View-only guardians can read policies but not write them
+DROP POLICY IF EXISTS "Parents can manage own policies" ON public.policies;
+CREATE POLICY "Parents can manage own policies"
+  ON public.policies FOR ALL
+  USING (auth.uid() = owner_id)
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (target_user_id IS NULL OR public.can_edit_child_policy(auth.uid(), target_user_id))
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.household_guardians;
@@ -0,0 +1,110 @@
+-- Family link tokens replace family codes in invite_codes, which go
+-- back to being alpha signup codes only. A parent creates a short-lived,
+-- single-use code (shown as text and as a QR code); the child previews
+-- who it belongs to and consents before the family-link function writes
+-- family_links. Only a hash of each code is stored.
+CREATE TYPE public.link_token_status AS ENUM ('pending', 'consumed', 'revoked', 'expired');
+
+CREATE TABLE public.family_link_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parent_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  status public.link_token_status NOT NULL DEFAULT 'pending',
+  consumed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Failed code lookups, for rate limiting guesses
+CREATE TABLE public.family_link_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_family_link_tokens_parent ON public.family_link_tokens(parent_id, status);
+CREATE INDEX idx_family_link_attempts_user ON public.family_link_attempts(user_id, created_at DESC);
+
+ALTER TABLE public.family_link_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.family_link_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through family-link with the service role; attempts are
+-- never exposed
+CREATE POLICY "Parents can view own link tokens"
+  ON public.family_link_tokens FOR SELECT
+  USING (auth.uid() = parent_id);
+
+-- Parents see their code being used in realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.family_link_tokens;
+
+-- ========================================
+-- INVITE CODES: ALPHA SIGNUP ONLY
+-- ========================================
+
+-- Anyone could list every code. Signup now checks a single code through
+-- validate_invite_code and claims it with redeem_invite_code.
+DROP POLICY IF EXISTS "Anyone can view invite codes for validation" ON public.invite_codes;
+DROP POLICY IF EXISTS "Users can create their own invite codes" ON public.invite_codes;
+DROP POLICY IF EXISTS "Users can update codes they created or are using" ON public.invite_codes;
+
+CREATE POLICY "Users can view codes they redeemed"
+  ON public.invite_codes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = used_by);
+
+CREATE POLICY "Admins can manage invite codes"
+  ON public.invite_codes FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 'valid', 'not_found', 'used' or 'expired'
+CREATE OR REPLACE FUNCTION public.validate_invite_code(_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN used_by IS NOT NULL THEN 'used'
+        WHEN expires_at < now() THEN 'expired'
+        ELSE 'valid'
+      END
+      FROM public.invite_codes
+      WHERE code = upper(trim(_code))
+    ),
+    'not_found'
+  )
+$$;
+
+-- Claims a valid code for the signed-in user; false if it was taken
+CREATE OR REPLACE FUNCTION public.redeem_invite_code(_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redeemed UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.invite_codes
+  SET used_by = auth.uid(), used_at = now()
+  WHERE code = upper(trim(_code))
+    AND used_by IS NULL
+    AND expires_at >= now()
+  RETURNING id INTO _redeemed;
+
+  RETURN _redeemed IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_invite_code(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_invite_code(TEXT) TO authenticated;
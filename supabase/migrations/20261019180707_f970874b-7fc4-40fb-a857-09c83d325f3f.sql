@@ -0,0 +1,234 @@
+-- Ending family links. Either side can ask to unlink; the family-link
+-- function records the request and the job-worker deactivates the link
+-- once a cooling-off period has passed. Youths with a birth date become
+-- adults at the configured age: they own their policy and guardians
+-- only see the scopes listed in guardian_sharing.
+CREATE TYPE public.unlink_request_status AS ENUM ('pending', 'cancelled', 'completed');
+
+CREATE TABLE public.family_unlink_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  link_id UUID NOT NULL REFERENCES public.family_links(id) ON DELETE CASCADE,
+  parent_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  youth_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT,
+  status public.unlink_request_status NOT NULL DEFAULT 'pending',
+  effective_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per link
+CREATE UNIQUE INDEX idx_family_unlink_requests_pending
+  ON public.family_unlink_requests(link_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_family_unlink_requests_youth ON public.family_unlink_requests(youth_id, created_at DESC);
+CREATE INDEX idx_family_unlink_requests_parent ON public.family_unlink_requests(parent_id, created_at DESC);
+
+CREATE INDEX idx_agent_jobs_unlink_request
+  ON public.agent_jobs((payload->>'unlink_request_id'))
+  WHERE job_type = 'complete_unlink';
+
+ALTER TABLE public.family_unlink_requests ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through family-link with the service role
+CREATE POLICY "Users can view unlink requests they're part of"
+  ON public.family_unlink_requests FOR SELECT
+  USING (auth.uid() = parent_id OR auth.uid() = youth_id OR public.is_parent_of(auth.uid(), youth_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.family_unlink_requests;
+
+-- Parents could flip is_active (or delete the row) directly, skipping
+-- the cooling-off period; links are only written by family-link now
+DROP POLICY IF EXISTS "Parents can manage family links" ON public.family_links;
+
+-- Children see who they're linked to before choosing to unlink
+CREATE POLICY "Children can view their guardians' profiles"
+  ON public.profiles FOR SELECT
+  USING (public.is_parent_of(user_id, auth.uid()));
+
+-- ========================================
+-- BIRTH DATES
+-- ========================================
+
+ALTER TABLE public.profiles ADD COLUMN birth_date DATE;
+
+-- A birth date decides when guardians lose control, so once set it can
+-- only be changed through family-link (which lets primary guardians
+-- correct it)
+CREATE OR REPLACE FUNCTION public.guard_profile_birth_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.birth_date IS NOT NULL THEN
+    RAISE EXCEPTION 'birth_date is set through the family-link function';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.birth_date IS DISTINCT FROM OLD.birth_date THEN
+    RAISE EXCEPTION 'birth_date is set through the family-link function';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_birth_date
+  BEFORE INSERT OR UPDATE OF birth_date ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_birth_date();
+
+-- ========================================
+-- WHAT GUARDIANS SEE OF ADULTS
+-- ========================================
+
+-- A youth can pick their scopes ahead of time; they only take effect
+-- once adult_since is set
+CREATE TABLE public.guardian_sharing (
+  youth_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_scopes TEXT[] NOT NULL DEFAULT '{risk}',
+  adult_since TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT guardian_sharing_known_scopes CHECK (shared_scopes <@ ARRAY['risk', 'usage', 'interventions'])
+);
+
+CREATE TRIGGER update_guardian_sharing_updated_at
+  BEFORE UPDATE ON public.guardian_sharing
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.guardian_sharing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own sharing"
+  ON public.guardian_sharing FOR SELECT
+  USING (auth.uid() = youth_id);
+
+CREATE POLICY "Guardians can view children's sharing"
+  ON public.guardian_sharing FOR SELECT
+  USING (public.is_parent_of(auth.uid(), youth_id));
+
+-- Any guardian of a minor sees everything; an adult's guardians only
+-- see the scopes they share
+CREATE OR REPLACE FUNCTION public.can_view_child_data(_guardian_id UUID, _youth_id UUID, _scope TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_parent_of(_guardian_id, _youth_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.guardian_sharing gs
+      WHERE gs.youth_id = _youth_id
+        AND gs.adult_since IS NOT NULL
+        AND NOT (_scope = ANY (gs.shared_scopes))
+    )
+$$;
+
+DROP POLICY IF EXISTS "Parents can view children devices" ON public.devices;
+CREATE POLICY "Parents can view children devices"
+  ON public.devices FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'usage'));
+
+DROP POLICY IF EXISTS "Parents can view children sessions" ON public.sessions;
+CREATE POLICY "Parents can view children sessions"
+  ON public.sessions FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'usage'));
+
+DROP POLICY IF EXISTS "Parents can view children events" ON public.behavioral_events;
+CREATE POLICY "Parents can view children events"
+  ON public.behavioral_events FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'usage'));
+
+DROP POLICY IF EXISTS "Parents can view children risk state" ON public.risk_states;
+CREATE POLICY "Parents can view children risk state"
+  ON public.risk_states FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'risk'));
+
+DROP POLICY IF EXISTS "Parents can view children risk history" ON public.risk_history;
+CREATE POLICY "Parents can view children risk history"
+  ON public.risk_history FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'risk'));
+
+DROP POLICY IF EXISTS "Parents can view children interventions" ON public.interventions;
+CREATE POLICY "Parents can view children interventions"
+  ON public.interventions FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'interventions'));
+
+DROP POLICY IF EXISTS "Parents can view children agent logs" ON public.agent_logs;
+CREATE POLICY "Parents can view children agent logs"
+  ON public.agent_logs FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'interventions'));
+
+DROP POLICY IF EXISTS "Parents can view children effectiveness" ON public.intervention_effectiveness;
+CREATE POLICY "Parents can view children effectiveness"
+  ON public.intervention_effectiveness FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), user_id, 'interventions'));
+
+DROP POLICY IF EXISTS "Parents can view children's extension requests" ON public.time_extension_requests;
+CREATE POLICY "Parents can view children's extension requests"
+  ON public.time_extension_requests FOR SELECT
+  USING (public.can_view_child_data(auth.uid(), youth_id, 'interventions'));
+
+-- ========================================
+-- ADULTS OWN THEIR POLICY
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.can_edit_child_policy(_guardian_id UUID, _youth_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.guardian_sharing
+    WHERE youth_id = _youth_id
+      AND adult_since IS NOT NULL
+  ) AND (
+    EXISTS (
+      SELECT 1
+      FROM public.family_links
+      WHERE parent_id = _guardian_id
+        AND youth_id = _youth_id
+        AND is_active = true
+    ) OR EXISTS (
+      SELECT 1
+      FROM public.household_guardians hg
+      JOIN public.household_children hc ON hc.household_id = hg.household_id
+      WHERE hg.guardian_id = _guardian_id
+        AND hc.youth_id = _youth_id
+        AND hg.role IN ('primary', 'secondary')
+    )
+  )
+$$;
+
+DROP POLICY IF EXISTS "Parents can manage own policies" ON public.policies;
+CREATE POLICY "Parents can manage own policies"
+  ON public.policies FOR ALL
+  USING (auth.uid() = owner_id)
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (
+      target_user_id IS NULL
+      OR public.can_edit_child_policy(auth.uid(), target_user_id)
+      OR (target_user_id = auth.uid() AND public.has_role(auth.uid(), 'adult'))
+    )
+  );
+
+-- Once a day, queue the check for youths who have come of age
+SELECT cron.schedule(
+  'age-of-majority-check',
+  '15 3 * * *',
+  $$
+  INSERT INTO public.agent_jobs (job_type, payload)
+  VALUES ('check_age_of_majority', '{}'::jsonb);
+  $$
+);
@@ -0,0 +1,22 @@
+-- App categories: events and sessions record which app they came from,
+-- and policies can set a daily limit and bedtime per category
+CREATE TYPE public.app_category AS ENUM ('social', 'games', 'video', 'education', 'other');
+
+ALTER TABLE public.behavioral_events
+  ADD COLUMN IF NOT EXISTS app_bundle_id TEXT,
+  ADD COLUMN IF NOT EXISTS category public.app_category;
+
+-- Each app on a device has its own session
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS app_bundle_id TEXT,
+  ADD COLUMN IF NOT EXISTS category public.app_category;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_active_app
+  ON public.sessions(user_id, device_id, app_bundle_id)
+  WHERE state = 'active';
+
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS category_rules JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.policies.category_rules IS
+  'Per-category limits keyed by app_category, e.g. {"games": {"daily_limit_minutes": 60, "bedtime_start": "20:00", "bedtime_end": "07:00"}}';
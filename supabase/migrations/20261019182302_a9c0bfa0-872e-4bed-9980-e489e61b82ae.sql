@@ -0,0 +1,11 @@
+-- Policy schedules: recurring blocks and extra minutes, plus one-off
+-- exceptions such as holidays and sick days
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS schedules JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS schedule_exceptions JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.policies.schedules IS
+  'Recurring rules in the child''s local time, e.g. [{"id": "...", "label": "School", "rrule": "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "starts_on": "2026-09-01", "action": "block", "start_time": "08:00", "end_time": "15:00", "categories": ["social"]}, {"id": "...", "label": "Saturday", "rrule": "FREQ=WEEKLY;BYDAY=SA", "starts_on": "2026-09-01", "action": "extra_minutes", "extra_minutes": 60}]';
+
+COMMENT ON COLUMN public.policies.schedule_exceptions IS
+  'Local date ranges when schedules are lifted, e.g. [{"id": "...", "label": "Half term", "starts_on": "2026-10-26", "ends_on": "2026-10-30", "schedule_ids": null}]; null schedule_ids lifts every schedule';
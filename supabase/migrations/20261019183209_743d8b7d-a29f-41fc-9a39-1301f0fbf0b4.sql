@@ -0,0 +1,80 @@
+-- Policy versions: every change parent-api makes to a policy is kept,
+-- with who made it and what changed, so it can be audited and rolled back
+CREATE TYPE public.policy_change_type AS ENUM ('create', 'update', 'rollback');
+
+CREATE TABLE public.policy_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  policy_id UUID NOT NULL REFERENCES public.policies(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- Null for versions backfilled from before history was kept
+  author_id UUID REFERENCES auth.users(id),
+  change_type public.policy_change_type NOT NULL,
+  restored_version_id UUID REFERENCES public.policy_versions(id),
+  snapshot JSONB NOT NULL,
+  diff JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (policy_id, version)
+);
+
+CREATE INDEX idx_policy_versions_policy ON public.policy_versions(policy_id, created_at DESC, id DESC);
+
+COMMENT ON COLUMN public.policy_versions.snapshot IS
+  'Every policy column except bookkeeping (id, owner_id, target_user_id, is_system_default, current_version_id, created_at, updated_at) as of this version';
+COMMENT ON COLUMN public.policy_versions.diff IS
+  'Changed columns only, e.g. {"bedtime_start": {"from": "21:00:00", "to": "21:30:00"}}';
+
+-- Versions are never edited
+CREATE OR REPLACE FUNCTION public.prevent_policy_version_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'policy_versions are immutable';
+END;
+$$;
+
+CREATE TRIGGER prevent_policy_version_update
+  BEFORE UPDATE ON public.policy_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_policy_version_update();
+
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.policy_versions(id) ON DELETE SET NULL;
+
+-- A merged policy is evaluated under one version per guardian policy
+ALTER TABLE public.risk_history
+  ADD COLUMN IF NOT EXISTS policy_version_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.risk_history.policy_version_ids IS
+  'policy_versions the risk-agent scored under; several when guardians'' policies were merged';
+
+-- Start every existing policy's history at version 1
+WITH backfilled AS (
+  INSERT INTO public.policy_versions (policy_id, version, change_type, snapshot, created_at)
+  SELECT
+    p.id,
+    1,
+    'create',
+    to_jsonb(p) - 'id' - 'owner_id' - 'target_user_id' - 'is_system_default'
+      - 'current_version_id' - 'created_at' - 'updated_at',
+    p.updated_at
+  FROM public.policies p
+  RETURNING id, policy_id
+)
+UPDATE public.policies p
+SET current_version_id = b.id
+FROM backfilled b
+WHERE b.policy_id = p.id;
+
+ALTER TABLE public.policy_versions ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through parent-api with the service role
+CREATE POLICY "Guardians can view policy versions"
+  ON public.policy_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.policies p
+      WHERE p.id = policy_versions.policy_id
+        AND (p.owner_id = auth.uid() OR public.is_parent_of(auth.uid(), p.target_user_id))
+    )
+  );
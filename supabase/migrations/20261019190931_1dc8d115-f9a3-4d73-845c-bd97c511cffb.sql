@@ -0,0 +1,23 @@
+-- The job-worker cron job posted to a hardcoded project URL with no
+-- credentials, and job-worker accepted anyone. job-worker now requires
+-- the service role key, so the cron job reads both the URL and the key
+-- from Vault. Before this runs, store them once per project:
+--
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+SELECT cron.unschedule('agent-job-worker');
+
+SELECT cron.schedule(
+  'agent-job-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/job-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
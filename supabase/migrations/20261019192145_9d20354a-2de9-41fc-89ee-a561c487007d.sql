@@ -0,0 +1,14 @@
+-- Template rules take over the risk-level gating intervention-agent hardcoded
+
+-- Lets a template bow out once risk climbs past it
+ALTER TABLE public.intervention_templates
+  ADD COLUMN max_risk_level risk_level;
+
+-- Low risk never triggered anything
+UPDATE public.intervention_templates SET min_risk_level = 'medium' WHERE min_risk_level = 'low';
+
+-- Medium risk only ever nudged
+UPDATE public.intervention_templates SET min_risk_level = 'high' WHERE type = 'medium_friction';
+
+-- Critical risk skipped nudges
+UPDATE public.intervention_templates SET max_risk_level = 'high' WHERE type = 'soft_nudge';